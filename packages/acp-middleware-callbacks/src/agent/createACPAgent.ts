@@ -0,0 +1,763 @@
+/**
+ * ACP Agent Factory
+ *
+ * Builds a complete ACP agent server around LangChain's createAgent().
+ * Implements the ACP Agent interface over AgentSideConnection with stdio
+ * framing and wires in the session, mode, tool and permission middlewares
+ * plus ACPCallbackHandler for streaming.
+ *
+ * @packageDocumentation
+ */
+
+import { randomUUID } from "node:crypto";
+import { Readable, Writable } from "node:stream";
+import {
+	type Agent,
+	AgentSideConnection,
+	type AuthenticateRequest,
+	type AuthenticateResponse,
+	type CancelNotification,
+	type ContentBlock,
+	type Implementation,
+	type InitializeRequest,
+	type InitializeResponse,
+	type LoadSessionRequest,
+	type LoadSessionResponse,
+	type NewSessionRequest,
+	type NewSessionResponse,
+	ndJsonStream,
+	type PermissionOption,
+	PROTOCOL_VERSION,
+	type PromptRequest,
+	type PromptResponse,
+	RequestError,
+	type SetSessionModeRequest,
+	type SetSessionModeResponse,
+	type StopReason,
+	type Stream,
+} from "@agentclientprotocol/sdk";
+import { Command, MemorySaver } from "@langchain/langgraph";
+import {
+	type AgentMiddleware,
+	AIMessage,
+	type BaseMessage,
+	type CreateAgentParams,
+	createAgent,
+	HumanMessage,
+	ToolMessage,
+} from "langchain";
+import { ACPCallbackHandler } from "../callbacks/ACPCallbackHandler.js";
+import {
+	type ACPModeController,
+	createACPModeController,
+	SWITCH_MODE_TOOL_NAME,
+} from "../middleware/createACPModeController.js";
+import { createACPModeMiddleware } from "../middleware/createACPModeMiddleware.js";
+import {
+	type ACPPermissionMiddlewareConfig,
+	createACPPermissionMiddleware,
+} from "../middleware/createACPPermissionMiddleware.js";
+import {
+	type ACPSessionMiddlewareConfig,
+	createACPSessionMiddleware,
+} from "../middleware/createACPSessionMiddleware.js";
+import {
+	type ACPToolMiddlewareConfig,
+	createACPToolMiddleware,
+} from "../middleware/createACPToolMiddleware.js";
+import type {
+	ACPCallbackHandlerConfig,
+	ACPModeConfig,
+	HITLDecision,
+	HITLRequest,
+	PermissionPolicyConfig,
+} from "../types/middleware.js";
+import {
+	type ContentBlockMapper,
+	defaultContentBlockMapper,
+} from "../utils/contentBlockMapper.js";
+import { mapLangChainError } from "../utils/errorMapper.js";
+import { mapToStopReason } from "../utils/stopReasonMapper.js";
+
+/**
+ * Configuration for createACPAgent().
+ */
+export interface ACPAgentConfig {
+	/**
+	 * The chat model, or a model identifier string understood by createAgent().
+	 */
+	model: CreateAgentParams["model"];
+
+	/**
+	 * Tools available to the agent.
+	 */
+	tools?: CreateAgentParams["tools"];
+
+	/**
+	 * Base system prompt for the agent.
+	 */
+	systemPrompt?: string;
+
+	/**
+	 * Byte stream used to talk to the ACP client.
+	 * Defaults to newline-delimited JSON over process stdout/stdin.
+	 */
+	transport?: Stream;
+
+	/**
+	 * Checkpointer used to persist conversations per session.
+	 * Required for permission interrupts and session/load.
+	 * @default new MemorySaver()
+	 */
+	checkpointer?: CreateAgentParams["checkpointer"];
+
+	/**
+	 * Session modes advertised to the client.
+	 * When provided, the mode middleware is installed.
+	 */
+	modes?: Record<string, ACPModeConfig>;
+
+	/**
+	 * Mode used for new sessions.
+	 * Defaults to the first configured mode.
+	 */
+	defaultMode?: string;
+
+	/**
+	 * Whether to give the model a switch_mode tool for changing the session's
+	 * mode. Calls to it always require permission.
+	 * @default false
+	 */
+	modeSwitchTool?: boolean;
+
+	/**
+	 * Permission policy for tool calls.
+	 * When provided, when a mode sets requirePermission, or when
+	 * modeSwitchTool is enabled, the permission middleware is installed and its interrupts are forwarded to the client
+	 * as session/request_permission.
+	 */
+	permissionPolicy?: Record<string, PermissionPolicyConfig>;
+
+	/**
+	 * Additional middleware appended after the ACP middlewares.
+	 */
+	middleware?: AgentMiddleware[];
+
+	/**
+	 * Agent name and version reported during initialize.
+	 */
+	agentInfo?: Implementation;
+
+	/**
+	 * Options forwarded to the session middleware.
+	 */
+	session?: ACPSessionMiddlewareConfig;
+
+	/**
+	 * Options forwarded to the tool middleware.
+	 */
+	tool?: Omit<ACPToolMiddlewareConfig, "transport">;
+
+	/**
+	 * Options forwarded to the permission middleware.
+	 * With a decisionStore, permission requests also offer "Always allow"
+	 * and "Always reject", and the choice is saved to the store.
+	 */
+	permission?: Omit<
+		ACPPermissionMiddlewareConfig,
+		"permissionPolicy" | "transport"
+	>;
+
+	/**
+	 * Options forwarded to the ACPCallbackHandler created for each prompt.
+	 */
+	callbacks?: Omit<
+		ACPCallbackHandlerConfig,
+		"connection" | "sessionId" | "emitToolEvents"
+	>;
+
+	/**
+	 * Custom content block mapper used to convert prompt content.
+	 * @default defaultContentBlockMapper
+	 */
+	contentBlockMapper?: ContentBlockMapper;
+
+	/**
+	 * Maximum number of graph steps per prompt turn.
+	 * @default 50
+	 */
+	recursionLimit?: number;
+}
+
+/**
+ * A running ACP agent server.
+ */
+export interface ACPAgentServer {
+	/**
+	 * The underlying connection to the ACP client.
+	 */
+	connection: AgentSideConnection;
+
+	/**
+	 * Resolves when the client connection closes.
+	 */
+	closed: Promise<void>;
+}
+
+/**
+ * Per-session state tracked by the agent server.
+ */
+interface ACPAgentSession {
+	sessionId: string;
+	cwd: string;
+	abortController?: AbortController;
+}
+
+/**
+ * The LangChain agent an ACP agent server runs.
+ */
+type ACPAgentGraph = ReturnType<typeof createAgent>;
+
+/**
+ * Input for one agent invocation: the new prompt, or a resume `Command`.
+ */
+type ACPAgentInput = Parameters<ACPAgentGraph["invoke"]>[0];
+
+/**
+ * Run configuration, including the context type, for one agent invocation.
+ */
+type ACPAgentRunConfig = NonNullable<Parameters<ACPAgentGraph["invoke"]>[1]>;
+
+const DEFAULT_AGENT_INFO: Implementation = {
+	name: "acp-middleware-callbacks",
+	version: "0.1.1",
+};
+
+const DEFAULT_RECURSION_LIMIT = 50;
+
+/**
+ * Policy used when only modes require permission.
+ */
+const MODE_ONLY_PERMISSION_POLICY: Record<string, PermissionPolicyConfig> = {
+	"*": { requiresPermission: false },
+};
+
+/**
+ * Policy entry that routes switch_mode calls through permission approval.
+ */
+const SWITCH_MODE_PERMISSION_POLICY: PermissionPolicyConfig = {
+	requiresPermission: true,
+	kind: "switch_mode",
+	description: "Switch session mode",
+};
+
+/**
+ * Creates the default stdio transport using newline-delimited JSON framing.
+ */
+function createStdioStream(): Stream {
+	return ndJsonStream(
+		Writable.toWeb(process.stdout) as WritableStream<Uint8Array>,
+		Readable.toWeb(process.stdin) as unknown as ReadableStream<Uint8Array>,
+	);
+}
+
+/**
+ * Converts ACP prompt content into LangChain message content.
+ *
+ * @param prompt - ACP content blocks from the prompt request
+ * @param mapper - Content block mapper used for the conversion
+ * @returns Message content accepted by HumanMessage
+ */
+function toMessageContent(
+	prompt: ContentBlock[],
+	mapper: ContentBlockMapper,
+): Array<Record<string, unknown>> {
+	const content: Array<Record<string, unknown>> = [];
+
+	for (const block of prompt) {
+		const mapped = mapper.fromACP(block);
+
+		switch (mapped.type) {
+			case "text":
+			case "reasoning":
+				content.push({ type: "text", text: mapped.text ?? "" });
+				break;
+
+			case "image":
+				content.push({
+					type: "image_url",
+					image_url: {
+						url: mapped.data
+							? `data:${mapped.mimeType};base64,${mapped.data}`
+							: mapped.url,
+					},
+				});
+				break;
+
+			case "file":
+				content.push({
+					type: "text",
+					text:
+						mapped.content !== undefined
+							? `<file uri="${mapped.uri}">\n${mapped.content}\n</file>`
+							: `Referenced file: ${mapped.name ?? mapped.uri} (${mapped.uri})`,
+				});
+				break;
+
+			default:
+				break;
+		}
+	}
+
+	return content;
+}
+
+/**
+ * Builds the permission options offered for a single action request.
+ *
+ * @param allowedDecisions - Decisions allowed by the review config
+ * @param persistent - Whether to offer allow_always and reject_always
+ * @returns Permission options for session/request_permission
+ */
+function toPermissionOptions(
+	allowedDecisions: Array<"approve" | "edit" | "reject"> = [
+		"approve",
+		"reject",
+	],
+	persistent = false,
+): PermissionOption[] {
+	const options: PermissionOption[] = [];
+
+	if (allowedDecisions.includes("approve")) {
+		options.push({ optionId: "approve", name: "Approve", kind: "allow_once" });
+		if (persistent) {
+			options.push({
+				optionId: "allow_always",
+				name: "Always allow",
+				kind: "allow_always",
+			});
+		}
+	}
+	options.push({ optionId: "reject", name: "Reject", kind: "reject_once" });
+	if (persistent) {
+		options.push({
+			optionId: "reject_always",
+			name: "Always reject",
+			kind: "reject_always",
+		});
+	}
+
+	return options;
+}
+
+/**
+ * Maps the final agent state to a stop reason, using the finish reason the
+ * provider reported on the last AIMessage.
+ *
+ * @param state - State returned by the agent run
+ * @returns The ACP stop reason for the prompt
+ */
+function getStopReason(state: Record<string, unknown>): StopReason {
+	const messages = (state.messages as BaseMessage[] | undefined) ?? [];
+	const lastAIMessage = [...messages].reverse().find(AIMessage.isInstance);
+
+	return mapToStopReason({
+		...state,
+		llmOutput: lastAIMessage?.response_metadata,
+	});
+}
+
+/**
+ * ACP Agent implementation backed by a LangChain agent.
+ */
+class LangChainACPAgent implements Agent {
+	private readonly sessions = new Map<string, ACPAgentSession>();
+	private readonly agent: ACPAgentGraph;
+	private readonly modeController: ACPModeController | undefined;
+	private readonly contentBlockMapper: ContentBlockMapper;
+
+	constructor(
+		private readonly connection: AgentSideConnection,
+		private readonly config: ACPAgentConfig,
+	) {
+		this.contentBlockMapper =
+			config.contentBlockMapper ?? defaultContentBlockMapper;
+		this.modeController = config.modes
+			? createACPModeController({
+					modes: config.modes,
+					defaultMode: config.defaultMode ?? Object.keys(config.modes)[0] ?? "",
+					transport: connection,
+				})
+			: undefined;
+
+		const tools = [...(config.tools ?? [])];
+		let permissionPolicy = config.permissionPolicy;
+		if (this.modeController && config.modeSwitchTool) {
+			tools.push(this.modeController.createSwitchModeTool());
+			permissionPolicy = {
+				[SWITCH_MODE_TOOL_NAME]: SWITCH_MODE_PERMISSION_POLICY,
+				...permissionPolicy,
+			};
+		}
+
+		const middleware: AgentMiddleware[] = [
+			createACPSessionMiddleware(config.session),
+		];
+		if (this.modeController) {
+			middleware.push(
+				createACPModeMiddleware({
+					controller: this.modeController,
+					transport: connection,
+				}),
+			);
+		}
+		middleware.push(
+			createACPToolMiddleware({ ...config.tool, transport: connection }),
+		);
+		const modeRequiresPermission = Object.values(config.modes ?? {}).some(
+			(mode) => mode.requirePermission,
+		);
+		if (permissionPolicy || modeRequiresPermission) {
+			middleware.push(
+				createACPPermissionMiddleware({
+					...config.permission,
+					permissionPolicy: permissionPolicy ?? MODE_ONLY_PERMISSION_POLICY,
+					transport: connection,
+				}),
+			);
+		}
+		middleware.push(...(config.middleware ?? []));
+
+		this.agent = createAgent({
+			model: config.model,
+			tools,
+			systemPrompt: config.systemPrompt,
+			checkpointer: config.checkpointer ?? new MemorySaver(),
+			middleware,
+		});
+	}
+
+	async initialize(_params: InitializeRequest): Promise<InitializeResponse> {
+		return {
+			protocolVersion: PROTOCOL_VERSION,
+			agentCapabilities: {
+				loadSession: true,
+				promptCapabilities: {
+					image: true,
+					embeddedContext: true,
+				},
+			},
+			agentInfo: this.config.agentInfo ?? DEFAULT_AGENT_INFO,
+			authMethods: [],
+		};
+	}
+
+	async authenticate(
+		_params: AuthenticateRequest,
+	): Promise<AuthenticateResponse> {
+		return {};
+	}
+
+	async newSession(params: NewSessionRequest): Promise<NewSessionResponse> {
+		const session = this.createSession(randomUUID(), params.cwd);
+
+		return {
+			sessionId: session.sessionId,
+			modes: this.modeController?.getModeState(session.sessionId),
+		};
+	}
+
+	async loadSession(params: LoadSessionRequest): Promise<LoadSessionResponse> {
+		const snapshot = await this.agent.graph.getState({
+			configurable: { thread_id: params.sessionId },
+		});
+		const messages =
+			(snapshot.values as { messages?: BaseMessage[] } | undefined)?.messages ??
+			[];
+
+		if (messages.length === 0 && !this.sessions.has(params.sessionId)) {
+			throw RequestError.resourceNotFound(params.sessionId);
+		}
+
+		const session =
+			this.sessions.get(params.sessionId) ??
+			this.createSession(params.sessionId, params.cwd);
+		session.cwd = params.cwd;
+
+		await this.replayHistory(session.sessionId, messages);
+
+		return { modes: this.modeController?.getModeState(session.sessionId) };
+	}
+
+	async setSessionMode(
+		params: SetSessionModeRequest,
+	): Promise<SetSessionModeResponse> {
+		this.requireSession(params.sessionId);
+
+		if (!this.modeController) {
+			throw RequestError.invalidParams(
+				{ modeId: params.modeId },
+				"This agent does not support session modes",
+			);
+		}
+
+		return this.modeController.handleSetSessionMode(params);
+	}
+
+	async prompt(params: PromptRequest): Promise<PromptResponse> {
+		const session = this.requireSession(params.sessionId);
+
+		session.abortController?.abort();
+		const abortController = new AbortController();
+		session.abortController = abortController;
+
+		// The mode middleware reads the session's mode from the controller, so
+		// a mode switched during the run applies to the following steps
+		const runConfig: ACPAgentRunConfig = {
+			configurable: {
+				thread_id: session.sessionId,
+				session_id: session.sessionId,
+			},
+			context: {
+				threadId: session.sessionId,
+				sessionId: session.sessionId,
+				cwd: session.cwd,
+			},
+			callbacks: [
+				new ACPCallbackHandler({
+					...this.config.callbacks,
+					connection: this.connection,
+					sessionId: session.sessionId,
+					emitToolEvents: false,
+				}),
+			],
+			signal: abortController.signal,
+			recursionLimit: this.config.recursionLimit ?? DEFAULT_RECURSION_LIMIT,
+		};
+
+		let input: ACPAgentInput = {
+			messages: [
+				new HumanMessage({
+					content: toMessageContent(
+						params.prompt,
+						this.contentBlockMapper,
+					) as HumanMessage["content"],
+				}),
+			],
+		};
+
+		try {
+			for (;;) {
+				const state: Record<string, unknown> = await this.agent.invoke(
+					input,
+					runConfig,
+				);
+				const interrupt = (
+					state.__interrupt__ as Array<{ value?: HITLRequest }> | undefined
+				)?.[0];
+
+				if (!interrupt?.value) {
+					return { stopReason: getStopReason(state) };
+				}
+
+				const decisions = await this.requestDecisions(
+					session.sessionId,
+					interrupt.value,
+				);
+
+				if (!decisions || abortController.signal.aborted) {
+					await this.cancelPendingToolCalls(session.sessionId);
+					return { stopReason: "cancelled" };
+				}
+
+				input = new Command({ resume: { decisions } });
+			}
+		} catch (error) {
+			if (abortController.signal.aborted) {
+				return { stopReason: "cancelled" };
+			}
+
+			throw new RequestError(
+				mapLangChainError(error),
+				error instanceof Error ? error.message : String(error),
+			);
+		} finally {
+			if (session.abortController === abortController) {
+				session.abortController = undefined;
+			}
+		}
+	}
+
+	async cancel(params: CancelNotification): Promise<void> {
+		this.sessions.get(params.sessionId)?.abortController?.abort();
+	}
+
+	/**
+	 * Registers a new session.
+	 */
+	private createSession(sessionId: string, cwd: string): ACPAgentSession {
+		const session: ACPAgentSession = { sessionId, cwd };
+		this.sessions.set(sessionId, session);
+		return session;
+	}
+
+	/**
+	 * Looks up a session or throws a resource-not-found error.
+	 */
+	private requireSession(sessionId: string): ACPAgentSession {
+		const session = this.sessions.get(sessionId);
+		if (!session) {
+			throw RequestError.resourceNotFound(sessionId);
+		}
+		return session;
+	}
+
+	/**
+	 * Asks the client to review each interrupted action.
+	 *
+	 * @returns The HITL decisions, or undefined if the client cancelled
+	 */
+	private async requestDecisions(
+		sessionId: string,
+		request: HITLRequest,
+	): Promise<HITLDecision[] | undefined> {
+		const decisions: HITLDecision[] = [];
+
+		for (const [index, action] of request.actionRequests.entries()) {
+			const reviewConfig = request.reviewConfigs[index];
+			const options = toPermissionOptions(
+				reviewConfig?.allowedDecisions,
+				reviewConfig?.allowPersist === true,
+			);
+			const response = await this.connection.requestPermission({
+				sessionId,
+				toolCall: {
+					toolCallId: action.toolCallId,
+					title: action.description ?? `Calling ${action.name}`,
+					status: "pending",
+					rawInput: action.args,
+				},
+				options,
+			});
+
+			if (response.outcome.outcome === "cancelled") {
+				return undefined;
+			}
+
+			const { optionId } = response.outcome;
+			const selected = options.find((option) => option.optionId === optionId);
+			const persist =
+				selected?.kind === "allow_always" || selected?.kind === "reject_always";
+			decisions.push(
+				selected?.kind.startsWith("allow")
+					? { type: "approve", persist }
+					: { type: "reject", persist },
+			);
+		}
+
+		return decisions;
+	}
+
+	/**
+	 * Answers the tool calls left waiting on a cancelled permission request
+	 * with error ToolMessages, so the next prompt doesn't send the model tool
+	 * calls without results.
+	 */
+	private async cancelPendingToolCalls(sessionId: string): Promise<void> {
+		const config = { configurable: { thread_id: sessionId } };
+		const snapshot = await this.agent.graph.getState(config);
+		const interruptedNode = snapshot.tasks.find(
+			(task) => task.interrupts.length > 0,
+		)?.name;
+		const messages =
+			(snapshot.values as { messages?: BaseMessage[] } | undefined)?.messages ??
+			[];
+		const lastAIMessage = [...messages].reverse().find(AIMessage.isInstance);
+		const answered = new Set(
+			messages
+				.filter(ToolMessage.isInstance)
+				.map((message) => message.tool_call_id),
+		);
+		const toolMessages = (lastAIMessage?.tool_calls ?? [])
+			.filter((toolCall) => toolCall.id && !answered.has(toolCall.id))
+			.map(
+				(toolCall) =>
+					new ToolMessage({
+						tool_call_id: toolCall.id as string,
+						name: toolCall.name,
+						content: "Tool call cancelled by user",
+						status: "error",
+					}),
+			);
+
+		if (!interruptedNode || toolMessages.length === 0) {
+			return;
+		}
+
+		await this.agent.graph.updateState(
+			config,
+			{ messages: toolMessages },
+			interruptedNode,
+		);
+	}
+
+	/**
+	 * Replays stored conversation messages to the client for session/load.
+	 */
+	private async replayHistory(
+		sessionId: string,
+		messages: BaseMessage[],
+	): Promise<void> {
+		for (const message of messages) {
+			const type = message.getType();
+			const text = message.text;
+
+			if (!text || (type !== "human" && type !== "ai")) {
+				continue;
+			}
+
+			await this.connection.sessionUpdate({
+				sessionId,
+				update: {
+					sessionUpdate:
+						type === "human" ? "user_message_chunk" : "agent_message_chunk",
+					content: { type: "text", text },
+				},
+			});
+		}
+	}
+}
+
+/**
+ * Creates a complete ACP agent server around LangChain's createAgent().
+ *
+ * The returned server implements initialize, newSession, loadSession,
+ * setSessionMode, prompt and cancel. Each prompt runs the agent on the
+ * session's thread, streams updates through ACPCallbackHandler and the
+ * ACP middlewares, forwards permission interrupts to the client as
+ * session/request_permission, and reports a StopReason from mapToStopReason().
+ *
+ * @param config - Agent and transport configuration
+ * @returns The running server and a promise that resolves when it closes
+ *
+ * @example
+ * ```typescript
+ * const { closed } = createACPAgent({
+ *   model: "anthropic:claude-sonnet-4-5",
+ *   tools: [readFile, writeFile],
+ *   permissionPolicy: {
+ *     write_file: { requiresPermission: true },
+ *   },
+ * });
+ *
+ * await closed;
+ * ```
+ */
+export function createACPAgent(config: ACPAgentConfig): ACPAgentServer {
+	const connection = new AgentSideConnection(
+		(conn) => new LangChainACPAgent(conn, config),
+		config.transport ?? createStdioStream(),
+	);
+
+	return { connection, closed: connection.closed };
+}
@@ -0,0 +1,10 @@
+/**
+ * Agent Module
+ *
+ * Exports the ACP agent server factory.
+ *
+ * @packageDocumentation
+ */
+
+export type { ACPAgentConfig, ACPAgentServer } from "./createACPAgent.js";
+export { createACPAgent } from "./createACPAgent.js";
@@ -42,6 +42,7 @@ export class ACPCallbackHandler extends BaseCallbackHandler {
 	protected includeIntermediateStates: boolean;
 	protected maxMessagesInSnapshot: number;
 	protected emitReasoningAsThought: boolean;
+	protected emitToolEvents: boolean;
 
 	private currentMessageId: string | null = null;
 	private currentTextContent: string = "";
@@ -67,6 +68,7 @@ export class ACPCallbackHandler extends BaseCallbackHandler {
 		// Whether to emit reasoning content as agent_thought_chunk (unstable protocol feature)
 		// Falls back to agent_message_chunk if false
 		this.emitReasoningAsThought = config.emitReasoningAsThought ?? true;
+		this.emitToolEvents = config.emitToolEvents ?? true;
 	}
 
 	/**
@@ -528,6 +530,10 @@ export class ACPCallbackHandler extends BaseCallbackHandler {
 		// runName (from LangChain) → fallback
 		const toolName = runName || "unknown_tool";
 
+		if (!this.emitToolEvents) {
+			return;
+		}
+
 		this.currentToolCallId = this.generateToolCallId();
 
 		try {
@@ -27,6 +27,8 @@
  * @packageDocumentation
  */
 
+// Agent Exports
+export * from "./agent/index.js";
 // Callback Exports
 export * from "./callbacks/index.js";
 // Middleware Exports
@@ -0,0 +1,283 @@
+/**
+ * ACP Mode Controller
+ *
+ * Tracks the current mode of each ACP session and handles mode switches
+ * requested by the client (session/set_mode) or by the model (switch_mode tool).
+ *
+ * @packageDocumentation
+ */
+
+import {
+	type AgentSideConnection,
+	RequestError,
+	type SessionId,
+	type SessionModeState,
+	type SetSessionModeRequest,
+	type SetSessionModeResponse,
+} from "@agentclientprotocol/sdk";
+import type { StructuredTool, ToolRuntime } from "@langchain/core/tools";
+import { Command } from "@langchain/langgraph";
+import { ToolMessage, tool } from "langchain";
+import { z } from "zod";
+import type { ACPModeConfig } from "../types/middleware.js";
+
+/**
+ * Name of the tool created by ACPModeController.createSwitchModeTool().
+ */
+export const SWITCH_MODE_TOOL_NAME = "switch_mode";
+
+/**
+ * Configuration for the ACP mode controller.
+ */
+export interface ACPModeControllerConfig {
+	/**
+	 * Available modes. Keys are mode IDs.
+	 */
+	modes: Record<string, ACPModeConfig>;
+
+	/**
+	 * Mode used for sessions that have not switched yet.
+	 */
+	defaultMode: string;
+
+	/**
+	 * AgentSideConnection used to emit current_mode_update events.
+	 */
+	transport?: Pick<AgentSideConnection, "sessionUpdate">;
+
+	/**
+	 * Optional callback invoked after a session switches modes.
+	 */
+	onModeChange?: (
+		sessionId: SessionId,
+		modeId: string,
+		previousModeId: string,
+	) => void;
+}
+
+/**
+ * Per-session mode state with client and model driven switching.
+ */
+export interface ACPModeController {
+	/**
+	 * Available modes. Keys are mode IDs.
+	 */
+	readonly modes: Record<string, ACPModeConfig>;
+
+	/**
+	 * Mode used for sessions that have not switched yet.
+	 */
+	readonly defaultMode: string;
+
+	/**
+	 * Gets the current mode ID of a session.
+	 */
+	getMode(sessionId: SessionId): string;
+
+	/**
+	 * Switches a session to another mode and emits current_mode_update.
+	 * Throws a RequestError for unknown modes.
+	 */
+	setMode(sessionId: SessionId, modeId: string): Promise<void>;
+
+	/**
+	 * Builds the mode state for newSession and loadSession responses.
+	 */
+	getModeState(sessionId: SessionId): SessionModeState;
+
+	/**
+	 * Handles a session/set_mode request from the client.
+	 */
+	handleSetSessionMode(
+		params: SetSessionModeRequest,
+	): Promise<SetSessionModeResponse>;
+
+	/**
+	 * Creates a switch_mode tool that lets the model request a mode change.
+	 * Add a permission policy for SWITCH_MODE_TOOL_NAME to require approval.
+	 */
+	createSwitchModeTool(): StructuredTool;
+
+	/**
+	 * Forgets the mode of a session.
+	 */
+	deleteSession(sessionId: SessionId): void;
+}
+
+/**
+ * Runtime context fields the switch_mode tool reads.
+ */
+type SwitchModeContext = {
+	sessionId?: SessionId;
+	session_id?: SessionId;
+};
+
+/**
+ * Runtime passed to the switch_mode tool.
+ */
+type SwitchModeRuntime = ToolRuntime<unknown, SwitchModeContext>;
+
+/**
+ * Extracts the session ID from a tool runtime.
+ * The thread ID is not used because a thread is not necessarily a session.
+ */
+function getToolSessionId(
+	runtime: SwitchModeRuntime | undefined,
+): SessionId | undefined {
+	return (
+		runtime?.context?.sessionId ??
+		runtime?.context?.session_id ??
+		(runtime?.configurable?.session_id as SessionId | undefined)
+	);
+}
+
+/**
+ * Creates a mode controller for ACP sessions.
+ *
+ * The controller is the source of truth for each session's mode. Pass it to
+ * createACPModeMiddleware so runs pick up the session's mode, call
+ * handleSetSessionMode from the Agent's setSessionMode, and include
+ * getModeState in newSession responses.
+ *
+ * @param config - Configuration options for the mode controller
+ * @returns Mode controller instance
+ *
+ * @example
+ * ```typescript
+ * const modeController = createACPModeController({
+ *   modes: STANDARD_MODES,
+ *   defaultMode: "planning",
+ *   transport: connection,
+ * });
+ *
+ * const agent = createAgent({
+ *   model,
+ *   tools: [...tools, modeController.createSwitchModeTool()],
+ *   middleware: [
+ *     createACPModeMiddleware({ controller: modeController }),
+ *     createACPPermissionMiddleware({
+ *       permissionPolicy: { [SWITCH_MODE_TOOL_NAME]: { requiresPermission: true } },
+ *       transport: connection,
+ *     }),
+ *   ],
+ * });
+ * ```
+ */
+export function createACPModeController(
+	config: ACPModeControllerConfig,
+): ACPModeController {
+	if (!config.modes || Object.keys(config.modes).length === 0) {
+		throw new Error("Mode controller requires at least one mode configuration");
+	}
+
+	if (!config.defaultMode || !(config.defaultMode in config.modes)) {
+		throw new Error(
+			`Default mode "${config.defaultMode}" is not defined in modes configuration`,
+		);
+	}
+
+	const { modes, defaultMode, transport, onModeChange } = config;
+
+	// Current mode per session
+	const sessionModes = new Map<SessionId, string>();
+
+	function getMode(sessionId: SessionId): string {
+		return sessionModes.get(sessionId) ?? defaultMode;
+	}
+
+	async function setMode(sessionId: SessionId, modeId: string): Promise<void> {
+		if (!modes[modeId]) {
+			throw RequestError.invalidParams({ modeId }, `Unknown mode "${modeId}"`);
+		}
+
+		const previousModeId = getMode(sessionId);
+		sessionModes.set(sessionId, modeId);
+
+		if (transport) {
+			try {
+				await transport.sessionUpdate({
+					sessionId,
+					update: {
+						sessionUpdate: "current_mode_update",
+						currentModeId: modeId,
+					},
+				});
+			} catch {
+				// Fail-safe: don't let emit errors break mode switching
+			}
+		}
+
+		onModeChange?.(sessionId, modeId, previousModeId);
+	}
+
+	function getModeState(sessionId: SessionId): SessionModeState {
+		return {
+			currentModeId: getMode(sessionId),
+			availableModes: Object.entries(modes).map(([id, mode]) => ({
+				id,
+				name: mode.name ?? id,
+				description: mode.description,
+			})),
+		};
+	}
+
+	function createSwitchModeTool(): StructuredTool {
+		const modeIds = Object.keys(modes) as [string, ...string[]];
+		const modeList = Object.entries(modes)
+			.map(([id, mode]) =>
+				mode.description ? `${id} (${mode.description})` : id,
+			)
+			.join(", ");
+
+		return tool(
+			async ({ modeId }: { modeId: string }, runtime: SwitchModeRuntime) => {
+				const sessionId = getToolSessionId(runtime);
+				if (sessionId) {
+					await setMode(sessionId, modeId);
+				}
+
+				// Update the run's mode state so the next model call uses the new mode
+				return new Command({
+					update: {
+						acp_mode: modeId,
+						acp_requirePermission: modes[modeId]?.requirePermission ?? false,
+						messages: [
+							new ToolMessage({
+								content: `Switched to mode "${modeId}"`,
+								tool_call_id: runtime?.toolCallId ?? "",
+								name: SWITCH_MODE_TOOL_NAME,
+							}),
+						],
+					},
+				});
+			},
+			{
+				name: SWITCH_MODE_TOOL_NAME,
+				description: `Switch the session to another mode. Available modes: ${modeList}`,
+				schema: z.object({
+					modeId: z.enum(modeIds).describe("The mode to switch to"),
+					reason: z
+						.string()
+						.optional()
+						.describe("Why the switch is needed, shown to the user"),
+				}),
+			},
+		);
+	}
+
+	return {
+		modes,
+		defaultMode,
+		getMode,
+		setMode,
+		getModeState,
+		handleSetSessionMode: async (params) => {
+			await setMode(params.sessionId, params.modeId);
+			return {};
+		},
+		createSwitchModeTool,
+		deleteSession: (sessionId) => {
+			sessionModes.delete(sessionId);
+		},
+	};
+}
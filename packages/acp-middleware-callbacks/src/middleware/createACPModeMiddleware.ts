@@ -8,13 +8,17 @@
  */
 
 import type { SessionId } from "@agentclientprotocol/sdk";
-import { createMiddleware } from "langchain";
+import { createMiddleware, ToolMessage } from "langchain";
 import type { Runtime } from "langchain/runtime";
 import { z } from "zod";
 import type {
 	ACPMiddlewareStateReturn,
 	ACPModeConfig,
 } from "../types/middleware.js";
+import {
+	type ACPModeController,
+	SWITCH_MODE_TOOL_NAME,
+} from "./createACPModeController.js";
 
 /**
  * Configuration for the ACP mode middleware.
@@ -23,13 +27,22 @@ export interface ACPModeMiddlewareConfig {
 	/**
 	 * Available modes for this agent.
 	 * Keys are mode IDs used to reference the mode.
+	 * Defaults to the controller's modes.
 	 */
-	modes: Record<string, ACPModeConfig>;
+	modes?: Record<string, ACPModeConfig>;
 
 	/**
 	 * The default mode to use when no mode is specified.
+	 * Defaults to the controller's default mode.
 	 */
-	defaultMode: string;
+	defaultMode?: string;
+
+	/**
+	 * Mode controller holding the current mode of each session.
+	 * When provided, runs use the session's mode unless the context
+	 * specifies acp_mode explicitly.
+	 */
+	controller?: ACPModeController;
 
 	/**
 	 * AgentSideConnection for sending session updates.
@@ -162,19 +175,21 @@ export const STANDARD_MODES: Record<string, ACPModeConfig> = {
 export function createACPModeMiddleware(
 	config: ACPModeMiddlewareConfig,
 ): ReturnType<typeof createMiddleware> {
+	const { controller, transport, sessionIdExtractor } = config;
+	const modes = config.modes ?? controller?.modes;
+	const defaultMode = config.defaultMode ?? controller?.defaultMode;
+
 	// Validate configuration
-	if (!config.modes || Object.keys(config.modes).length === 0) {
+	if (!modes || Object.keys(modes).length === 0) {
 		throw new Error("Mode middleware requires at least one mode configuration");
 	}
 
-	if (!config.defaultMode || !(config.defaultMode in config.modes)) {
+	if (!defaultMode || !(defaultMode in modes)) {
 		throw new Error(
-			`Default mode "${config.defaultMode}" is not defined in modes configuration`,
+			`Default mode "${defaultMode}" is not defined in modes configuration`,
 		);
 	}
 
-	const { modes, defaultMode, transport, sessionIdExtractor } = config;
-
 	// Per-thread state for tracking mode context
 	const threadState = new Map<string, ThreadModeState>();
 
@@ -198,9 +213,31 @@ export function createACPModeMiddleware(
 	}
 
 	/**
-	 * Get current mode from runtime configuration.
+	 * Get current mode from runtime context or configuration.
+	 * An explicit context acp_mode wins, then the session's mode in the
+	 * controller, then the mode recorded in state for this run.
 	 */
-	function getCurrentMode(runtimeConfig: Record<string, unknown>): string {
+	function getCurrentMode(
+		runtimeConfig: Record<string, unknown>,
+		runtimeContext?: Record<string, unknown>,
+		sessionId?: SessionId,
+		stateMode?: string,
+	): string {
+		// Check for acp_mode in context
+		if (typeof runtimeContext?.acp_mode === "string") {
+			return runtimeContext.acp_mode;
+		}
+
+		// Check the session's mode in the controller
+		if (controller && sessionId) {
+			return controller.getMode(sessionId);
+		}
+
+		// Check the mode recorded in state
+		if (stateMode) {
+			return stateMode;
+		}
+
 		// Check for acp_mode in configurable
 		const configurable = runtimeConfig.configurable as
 			| Record<string, unknown>
@@ -219,7 +256,37 @@ export function createACPModeMiddleware(
 			return runtimeConfig.modeId;
 		}
 
-		return defaultMode;
+		return defaultMode as string;
+	}
+
+	/**
+	 * Get the tools allowed by the active mode.
+	 * Returns undefined when the mode allows every tool.
+	 * The switch_mode tool is always allowed so the model can leave a mode.
+	 * Without an explicit context acp_mode, a mode switched in the controller
+	 * during the run applies to the next model and tool calls.
+	 */
+	function getAllowedTools(
+		state: Record<string, unknown>,
+		runtime: unknown,
+	): { modeId: string; allowedTools?: string[] } {
+		const context = (runtime as Runtime)?.context;
+		const sessionId = (context?.sessionId ?? context?.session_id) as
+			| SessionId
+			| undefined;
+		const modeId = getCurrentMode(
+			(runtime as Runtime)?.config ?? {},
+			context,
+			sessionId,
+			state.acp_mode as string | undefined,
+		);
+
+		const allowedTools = modes?.[modeId]?.allowedTools;
+
+		return {
+			modeId,
+			allowedTools: allowedTools && [...allowedTools, SWITCH_MODE_TOOL_NAME],
+		};
 	}
 
 	/**
@@ -228,12 +295,18 @@ export function createACPModeMiddleware(
 	function getSessionId(
 		runtimeConfig: Record<string, unknown>,
 		threadStateInstance: ThreadModeState,
+		runtimeContext?: Record<string, unknown>,
 	): SessionId | undefined {
 		// First check thread state
 		if (threadStateInstance.sessionId) {
 			return threadStateInstance.sessionId;
 		}
 
+		// Check context
+		if (typeof runtimeContext?.sessionId === "string") {
+			return runtimeContext.sessionId;
+		}
+
 		// Check configurable
 		const configurable = runtimeConfig.configurable as
 			| Record<string, unknown>
@@ -289,6 +362,12 @@ export function createACPModeMiddleware(
 			acp_mode: z.string().optional(),
 		}) as Record<string, z.ZodType>,
 
+		stateSchema: z.object({
+			acp_mode: z.string().optional(),
+			acp_allowedTools: z.array(z.string()).optional(),
+			acp_requirePermission: z.boolean().optional(),
+		}),
+
 		beforeAgent: async (_state, runtime) => {
 			const agentConfig = (runtime as Runtime).config ?? {};
 			const threadId =
@@ -303,11 +382,16 @@ export function createACPModeMiddleware(
 			threadStateInstance.sessionId = getSessionId(
 				agentConfig,
 				threadStateInstance,
+				(runtime as Runtime).context,
 			);
 			const sessionId = threadStateInstance.sessionId;
 
 			// Get current mode
-			const currentModeId = getCurrentMode(agentConfig);
+			const currentModeId = getCurrentMode(
+				agentConfig,
+				(runtime as Runtime).context,
+				sessionId,
+			);
 			const modeConfig = modes[currentModeId];
 
 			// Validate mode exists
@@ -334,10 +418,59 @@ export function createACPModeMiddleware(
 			return {
 				acp_mode: currentModeId,
 				acp_modeConfig: modeConfig,
+				acp_requirePermission: modeConfig.requirePermission ?? false,
 				acp_sessionId: sessionId,
 			} as ACPMiddlewareStateReturn;
 		},
 
+		beforeModel: async (state, runtime) => {
+			const { modeId, allowedTools } = getAllowedTools(state, runtime);
+
+			// Record the mode of this model call so the permission middleware's
+			// afterModel rejects disallowed calls instead of prompting for them
+			return {
+				acp_mode: modeId,
+				acp_allowedTools: allowedTools,
+				acp_requirePermission: modes[modeId]?.requirePermission ?? false,
+			};
+		},
+
+		wrapModelCall: async (request, handler) => {
+			const { allowedTools } = getAllowedTools(request.state, request.runtime);
+
+			if (!allowedTools) {
+				return handler(request);
+			}
+
+			// Only bind the tools the active mode allows
+			return handler({
+				...request,
+				tools: request.tools.filter((tool) =>
+					allowedTools.includes((tool as { name?: string }).name ?? ""),
+				),
+			});
+		},
+
+		wrapToolCall: async (request, handler) => {
+			const { modeId, allowedTools } = getAllowedTools(
+				request.state,
+				request.runtime,
+			);
+			const { id, name } = request.toolCall;
+
+			if (!allowedTools || allowedTools.includes(name)) {
+				return handler(request);
+			}
+
+			// Reject calls to tools outside the active mode without executing them
+			return new ToolMessage({
+				content: `Tool "${name}" is not allowed in mode "${modeId}"`,
+				tool_call_id: id ?? "",
+				name,
+				status: "error",
+			});
+		},
+
 		afterAgent: async (_state, runtime) => {
 			const threadId =
 				(runtime as Runtime).context?.threadId ??
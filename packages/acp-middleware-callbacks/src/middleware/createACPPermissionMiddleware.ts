@@ -5,21 +5,14 @@
  * Uses afterModel hook with interrupt() for proper LangGraph checkpointing,
  * aligned with LangChain's built-in HITL middleware pattern.
  *
- * ## Persistent Permissions (Option B Pattern)
+ * ## Persistent Permissions
  *
- * This middleware provides the mechanism for persistent permission options
- * (allow_always, reject_always), but does NOT implement decision caching.
- *
- * **Developer Responsibility:** When users select persistent options, it's the
- * developer's responsibility to:
- * 1. Store the persistent decisions (e.g., in localStorage, database, etc.)
- * 2. Check cached decisions before showing permission dialogs
- * 3. Automatically approve/deny based on cached decisions
- * 4. Provide UI for managing/clearing persistent permissions
- *
- * This approach gives developers full control over permission storage,
- * security policies, and user experience while providing the protocol
- * mechanism for persistent options.
+ * When configured with a `decisionStore`, decisions resumed with
+ * `persist: true` (allow_always, reject_always) are saved, and saved
+ * decisions are applied before calling interrupt(). They only apply to
+ * calls the policy's requiresPermission sends for review, never to calls
+ * matched by an argument rule or forced by the mode's requirePermission.
+ * Use the store's list() and revoke() to manage them.
  *
  * @packageDocumentation
  */
@@ -48,6 +41,12 @@ import type {
 	ReviewConfig,
 } from "../types/middleware.js";
 import { extractLocations } from "../utils/extractLocations.js";
+import {
+	fingerprintArgs,
+	matchesToolPattern,
+	type PermissionDecisionStore,
+} from "../utils/permissionDecisionStore.js";
+import { evaluatePermissionRules } from "../utils/permissionRules.js";
 import { mapToolKind } from "./createACPToolMiddleware.js";
 
 /**
@@ -104,6 +103,36 @@ export interface ACPPermissionMiddlewareConfig {
 	 * @default "Tool execution requires approval"
 	 */
 	descriptionPrefix?: string;
+
+	/**
+	 * Store for allow_always/reject_always decisions.
+	 * Saved decisions are applied without calling interrupt(), to calls that
+	 * need permission only because of the policy's requiresPermission.
+	 */
+	decisionStore?: PermissionDecisionStore;
+
+	/**
+	 * What saved decisions are keyed by.
+	 * - 'session': the decision applies to the current session only
+	 * - 'project': the decision applies to every session of the project
+	 *   (projectId, or the session's cwd from the runtime context)
+	 * @default "session"
+	 */
+	decisionScope?: "session" | "project";
+
+	/**
+	 * Project key used when decisionScope is "project".
+	 */
+	projectId?: string;
+
+	/**
+	 * Whether saved decisions only apply to calls with the same arguments.
+	 * Pass a function to compute a custom fingerprint.
+	 * @default false
+	 */
+	argsFingerprint?:
+		| boolean
+		| ((toolName: string, args: Record<string, unknown>) => string);
 }
 
 /**
@@ -138,52 +167,6 @@ const DEFAULT_PERMISSION_OPTIONS: PermissionOption[] = [
 	{ optionId: "reject", name: "Reject", kind: "reject_once" },
 ];
 
-/**
- * Persistent permission options that can be configured in permission policy.
- * These are NOT included by default - they are only added when explicitly
- * configured for a specific tool pattern in the permission policy.
- *
- * Note: The middleware does not implement decision caching. When these options
- * are selected, it's the developer's responsibility to implement and store
- * the persistent decisions (Option B pattern). This provides the mechanism
- * while developers control the caching and security policy.
- */
-
-/**
- * Escapes special regex characters in a string.
- * Prevents ReDoS vulnerabilities when patterns contain regex operators.
- *
- * @param str - The string to escape
- * @returns The escaped string
- */
-function escapeRegExp(str: string): string {
-	return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-}
-
-/**
- * Checks if a tool name matches a pattern in the permission policy.
- * Supports exact matches and wildcard patterns.
- *
- * @param toolName - The name of the tool to check
- * @param pattern - The pattern to match against
- * @returns True if the tool matches the pattern
- */
-function matchesPattern(toolName: string, pattern: string): boolean {
-	// Exact match
-	if (pattern === toolName) {
-		return true;
-	}
-
-	// Wildcard match (e.g., "*", "file_*", "*_file")
-	if (pattern.includes("*")) {
-		const escapedPattern = escapeRegExp(pattern);
-		const regex = new RegExp("^" + escapedPattern.replace(/\*/g, ".*") + "$");
-		return regex.test(toolName);
-	}
-
-	return false;
-}
-
 /**
  * Finds the matching policy config for a given tool name.
  *
@@ -197,7 +180,7 @@ function findMatchingPolicy(
 ): PermissionPolicyConfig | undefined {
 	// First, check for exact or wildcard matches
 	for (const [pattern, config] of Object.entries(policy)) {
-		if (matchesPattern(toolName, pattern)) {
+		if (matchesToolPattern(toolName, pattern)) {
 			return config;
 		}
 	}
@@ -247,64 +230,105 @@ function extractToolCallsFromState(state: Record<string, unknown>):
 }
 
 /**
- * Categorizes tool calls into those requiring permission vs auto-approved.
+ * Categorizes tool calls into those requiring permission, auto-approved and denied.
+ * Argument rules from the matching policy decide first; when none matches,
+ * the policy's requiresPermission applies.
  *
  * @param toolCalls - Array of tool calls from the agent
  * @param policy - Permission policy configuration
- * @returns Object with permissionRequired and autoApproved arrays
+ * @param requireAll - Whether every tool call requires permission (set by the active mode)
+ * @param cwd - Directory relative paths in rules resolve against
+ * @returns Object with permissionRequired, autoApproved and denied arrays,
+ *   where `rule` names the argument rule that triggered and `useSavedDecision`
+ *   marks calls that saved decisions may answer
  */
 function categorizeToolCalls(
 	toolCalls: Array<{ name: string; id: string; args: Record<string, unknown> }>,
 	policy: Record<string, PermissionPolicyConfig>,
+	requireAll = false,
+	cwd?: string,
 ): {
 	permissionRequired: Array<{
 		name: string;
 		id: string;
 		args: Record<string, unknown>;
+		rule?: string;
+		useSavedDecision?: boolean;
 	}>;
 	autoApproved: Array<{
 		name: string;
 		id: string;
 		args: Record<string, unknown>;
 	}>;
+	denied: Array<{
+		name: string;
+		id: string;
+		args: Record<string, unknown>;
+		rule: string;
+	}>;
 } {
 	const permissionRequired: Array<{
 		name: string;
 		id: string;
 		args: Record<string, unknown>;
+		rule?: string;
+		useSavedDecision?: boolean;
 	}> = [];
 	const autoApproved: Array<{
 		name: string;
 		id: string;
 		args: Record<string, unknown>;
 	}> = [];
+	const denied: Array<{
+		name: string;
+		id: string;
+		args: Record<string, unknown>;
+		rule: string;
+	}> = [];
 
 	for (const toolCall of toolCalls) {
 		const policyConfig = findMatchingPolicy(toolCall.name, policy);
-
-		if (policyConfig?.requiresPermission) {
+		const ruleMatch = policyConfig?.rules
+			? evaluatePermissionRules(policyConfig.rules, toolCall.args, cwd)
+			: undefined;
+
+		if (ruleMatch?.action === "deny") {
+			denied.push({ ...toolCall, rule: ruleMatch.label });
+		} else if (ruleMatch?.action === "ask") {
+			permissionRequired.push({ ...toolCall, rule: ruleMatch.label });
+		} else if (!ruleMatch && policyConfig?.requiresPermission) {
+			permissionRequired.push({ ...toolCall, useSavedDecision: true });
+		} else if (requireAll) {
 			permissionRequired.push(toolCall);
 		} else {
 			autoApproved.push(toolCall);
 		}
 	}
 
-	return { permissionRequired, autoApproved };
+	return { permissionRequired, autoApproved, denied };
 }
 
 /**
  * Builds the HITL request structure for interrupt().
  * Also merges persistent options from the permission policy with default options.
  *
- * @param toolCalls - Tool calls requiring permission
+ * @param toolCalls - Tool calls requiring permission, with the rule that triggered
  * @param policy - Permission policy configuration
  * @param descriptionPrefix - Optional prefix for descriptions
+ * @param canPersist - Whether decisions can be saved at all
  * @returns Object containing HITL request structure and merged permission options
  */
 function buildHITLRequest(
-	toolCalls: Array<{ name: string; id: string; args: Record<string, unknown> }>,
+	toolCalls: Array<{
+		name: string;
+		id: string;
+		args: Record<string, unknown>;
+		rule?: string;
+		useSavedDecision?: boolean;
+	}>,
 	policy: Record<string, PermissionPolicyConfig>,
 	descriptionPrefix: string = "Tool execution requires approval",
+	canPersist = false,
 ): {
 	hitlRequest: HITLRequest;
 	mergedOptions: PermissionOption[];
@@ -323,12 +347,15 @@ function buildHITLRequest(
 			persistentOptions.push(...policyConfig.persistentOptions);
 		}
 
-		// Build action request
+		// Build action request, naming the argument rule that triggered
+		const description = policyConfig?.description ?? `Calling ${toolCall.name}`;
 		actionRequests.push({
 			toolCallId: toolCall.id,
 			name: toolCall.name,
 			args: toolCall.args,
-			description: policyConfig?.description ?? `Calling ${toolCall.name}`,
+			description: toolCall.rule
+				? `${description} (rule: ${toolCall.rule})`
+				: description,
 		});
 
 		// Build review config
@@ -340,6 +367,8 @@ function buildHITLRequest(
 				"reject",
 			],
 			argsSchema: undefined, // Could add schema from tool definition
+			// Only calls that saved decisions may answer can be saved
+			allowPersist: canPersist && toolCall.useSavedDecision === true,
 		});
 	}
 
@@ -369,13 +398,13 @@ function buildHITLRequest(
 /**
  * Processes HITL decisions and returns modified tool calls and any artificial messages.
  *
- * @param decisions - Array of HITL decisions from human
+ * @param decisions - HITL decisions per tool call; tool calls without one are not approved
  * @param toolCalls - Original tool calls that were interrupted
  * @param contentMapper - Function to convert messages to ToolCallContent
  * @returns Object with revisedToolCalls and artificialMessages arrays
  */
 function processDecisions(
-	decisions: HITLDecision[],
+	decisions: Array<HITLDecision | undefined>,
 	toolCalls: Array<{ name: string; id: string; args: Record<string, unknown> }>,
 	contentMapper: (message: string) => Array<ToolCallContent>,
 ): {
@@ -404,9 +433,13 @@ function processDecisions(
 	}> = [];
 
 	for (let i = 0; i < decisions.length; i++) {
-		const decision = decisions[i]!;
+		const decision = decisions[i];
 		const toolCall = toolCalls[i]!;
 
+		if (!decision) {
+			continue;
+		}
+
 		switch (decision.type) {
 			case "approve":
 				// Return tool call unchanged
@@ -445,11 +478,15 @@ function processDecisions(
  *
  * This middleware implements the HITL (Human-in-the-Loop) permission workflow:
  * 1. afterModel hook intercepts tool calls after the model generates them
- * 2. Categorize tool calls: permission required vs auto-approved
- * 3. Send session/request_permission notification for protocol compliance
- * 4. Call interrupt() to checkpoint state and pause execution
- * 5. Resume with Command({ resume: { decisions: [...] } })
- * 6. Process decisions (approve/edit/reject) and update state
+ * 2. Categorize tool calls: permission required vs auto-approved vs denied,
+ *    using the policy's argument rules when present. Calls to tools the
+ *    active mode does not allow are denied without a prompt.
+ * 3. Apply saved decisions from the decisionStore, if configured
+ * 4. Send session/request_permission notification for protocol compliance
+ * 5. Call interrupt() to checkpoint state and pause execution
+ * 6. Resume with Command({ resume: { decisions: [...] } })
+ * 7. Save decisions resumed with persist: true
+ * 8. Process decisions (approve/edit/reject) and update state
  *
  * @param config - Configuration options for the permission middleware
  * @returns AgentMiddleware instance with permission enforcement hooks
@@ -484,7 +521,7 @@ export function createACPPermissionMiddleware(
 
 	const toolKindMapper = config.toolKindMapper ?? mapToolKind;
 	const contentMapper = config.contentMapper ?? defaultContentMapper;
-	const { transport } = config;
+	const { transport, decisionStore } = config;
 	const descriptionPrefix =
 		config.descriptionPrefix ?? "Tool execution requires approval";
 
@@ -533,6 +570,180 @@ export function createACPPermissionMiddleware(
 		);
 	}
 
+	/**
+	 * Gets the scope saved decisions are keyed by, or undefined when unknown.
+	 */
+	function getDecisionScope(
+		runtime: any,
+		sessionId: SessionId | undefined,
+	): string | undefined {
+		if (config.decisionScope === "project") {
+			return config.projectId ?? runtime.context?.cwd;
+		}
+		return sessionId;
+	}
+
+	/**
+	 * Gets the argument fingerprint saved decisions are keyed by.
+	 */
+	function getArgsFingerprint(toolCall: {
+		name: string;
+		args: Record<string, unknown>;
+	}): string | undefined {
+		if (typeof config.argsFingerprint === "function") {
+			return config.argsFingerprint(toolCall.name, toolCall.args);
+		}
+		return config.argsFingerprint ? fingerprintArgs(toolCall.args) : undefined;
+	}
+
+	/**
+	 * Looks up saved decisions for tool calls requiring permission.
+	 * Returns one entry per tool call, undefined when nothing is saved or
+	 * the call is not one saved decisions may answer.
+	 */
+	async function findSavedDecisions(
+		toolCalls: Array<{
+			name: string;
+			args: Record<string, unknown>;
+			useSavedDecision?: boolean;
+		}>,
+		scope: string | undefined,
+	): Promise<Array<HITLDecision | undefined>> {
+		if (!decisionStore || !scope) {
+			return toolCalls.map(() => undefined);
+		}
+
+		return Promise.all(
+			toolCalls.map(async (toolCall): Promise<HITLDecision | undefined> => {
+				if (!toolCall.useSavedDecision) {
+					return undefined;
+				}
+				const saved = await decisionStore.find({
+					scope,
+					toolName: toolCall.name,
+					argsFingerprint: getArgsFingerprint(toolCall),
+				});
+				if (!saved) {
+					return undefined;
+				}
+				return saved.decision === "allow"
+					? { type: "approve" }
+					: {
+							type: "reject",
+							message: "Permission denied by a saved decision",
+						};
+			}),
+		);
+	}
+
+	/**
+	 * Saves decisions the human asked to persist, for calls that saved
+	 * decisions may answer. Decisions on argument rule prompts are not saved.
+	 */
+	async function saveDecisions(
+		decisions: HITLDecision[],
+		toolCalls: Array<{
+			name: string;
+			args: Record<string, unknown>;
+			useSavedDecision?: boolean;
+		}>,
+		scope: string | undefined,
+	): Promise<void> {
+		if (!decisionStore || !scope) {
+			return;
+		}
+
+		for (const [index, decision] of decisions.entries()) {
+			const toolCall = toolCalls[index];
+			if (
+				!toolCall?.useSavedDecision ||
+				decision.type === "edit" ||
+				!decision.persist
+			) {
+				continue;
+			}
+
+			await decisionStore.save({
+				scope,
+				toolPattern: toolCall.name,
+				argsFingerprint: getArgsFingerprint(toolCall),
+				decision: decision.type === "approve" ? "allow" : "reject",
+			});
+		}
+	}
+
+	/**
+	 * Asks the human to review tool calls: emits pending status, sends the
+	 * session/request_permission notification and calls interrupt().
+	 */
+	async function requestDecisions(
+		toolCalls: Array<{
+			name: string;
+			id: string;
+			args: Record<string, unknown>;
+			rule?: string;
+			useSavedDecision?: boolean;
+		}>,
+		sessionId: SessionId | undefined,
+		runtime: any,
+		canPersist: boolean,
+	): Promise<HITLDecision[]> {
+		// Emit pending status for permission-required tools
+		for (const toolCall of toolCalls) {
+			await emitToolStatus(
+				sessionId,
+				toolCall.id,
+				toolCall.name,
+				toolCall.args,
+				"pending",
+			);
+		}
+
+		// Build HITL request for interrupt
+		const { hitlRequest, mergedOptions } = buildHITLRequest(
+			toolCalls,
+			config.permissionPolicy,
+			descriptionPrefix,
+			canPersist,
+		);
+
+		// Send session/request_permission notification before interrupting
+		// This provides ACP protocol compliance
+		if (transport.extNotification && sessionId) {
+			const firstToolCall = toolCalls[0]!;
+			try {
+				// Use extNotification for custom protocol notifications
+				await transport.extNotification("session/request_permission", {
+					sessionId,
+					toolCall: {
+						toolCallId: firstToolCall.id,
+						title: `${descriptionPrefix}: ${firstToolCall.name}`,
+						kind: toolKindMapper(firstToolCall.name),
+						status: "pending",
+						_meta: null,
+						locations: extractLocations(firstToolCall.args),
+						rawInput: firstToolCall.args,
+						content: undefined,
+						rawOutput: undefined,
+					},
+					options: mergedOptions,
+				});
+			} catch {
+				// Fail-safe: don't let notification errors break agent execution
+			}
+		}
+
+		// Call interrupt() - checkpoints state and waits for Command.resume
+		// The runtime.interrupt function is provided by LangGraph
+		if (!runtime.interrupt) {
+			// Fallback for environments without interrupt support
+			throw new Error("Interrupt not supported in this runtime");
+		}
+
+		const hitlResponse = (await runtime.interrupt(hitlRequest)) as HITLResponse;
+		return hitlResponse.decisions;
+	}
+
 	/**
 	 * Emits a tool call update with the specified status.
 	 */
@@ -602,8 +813,15 @@ export function createACPPermissionMiddleware(
 			threadId: z.string().optional(),
 			session_id: z.string().optional(),
 			sessionId: z.string().optional(),
+			cwd: z.string().optional(),
 		}) as any,
 
+		stateSchema: z.object({
+			acp_mode: z.string().optional(),
+			acp_allowedTools: z.array(z.string()).optional(),
+			acp_requirePermission: z.boolean().optional(),
+		}),
+
 		afterModel: {
 			canJumpTo: ["model"],
 			hook: async (state, runtime) => {
@@ -623,86 +841,87 @@ export function createACPPermissionMiddleware(
 					return {};
 				}
 
-				// 2. Categorize: interrupt vs auto-approve
-				const { permissionRequired, autoApproved } = categorizeToolCalls(
-					toolCalls,
-					config.permissionPolicy,
-				);
+				// 2. Reject calls the active mode does not allow without asking
+				const modeState = state as {
+					acp_mode?: string;
+					acp_allowedTools?: string[];
+					acp_requirePermission?: boolean;
+				};
+				const allowedTools = modeState.acp_allowedTools;
+				const disallowed = allowedTools
+					? toolCalls.filter(
+							(toolCall) => !allowedTools.includes(toolCall.name),
+						)
+					: [];
+
+				// 3. Categorize: interrupt vs auto-approve vs deny
+				// Modes with requirePermission route every tool call through HITL
+				const { permissionRequired, autoApproved, denied } =
+					categorizeToolCalls(
+						toolCalls.filter((toolCall) => !disallowed.includes(toolCall)),
+						config.permissionPolicy,
+						modeState.acp_requirePermission === true,
+						runtimeAny.context?.cwd,
+					);
 
-				// 3. If no permission needed, continue with auto-approved tool calls
-				if (permissionRequired.length === 0) {
+				// 4. If no permission needed, continue with auto-approved tool calls
+				if (
+					permissionRequired.length === 0 &&
+					denied.length === 0 &&
+					disallowed.length === 0
+				) {
 					return {};
 				}
 
-				// 4. Emit pending status for permission-required tools
-				for (const toolCall of permissionRequired) {
-					await emitToolStatus(
-						sessionId,
-						toolCall.id,
-						toolCall.name,
-						toolCall.args,
-						"pending",
-					);
-				}
-
-				// 5. Build HITL request for interrupt
-				const buildResult = buildHITLRequest(
+				// 5. Apply saved allow_always/reject_always decisions
+				const decisionScope = getDecisionScope(runtimeAny, sessionId);
+				const savedDecisions = await findSavedDecisions(
 					permissionRequired,
-					config.permissionPolicy,
-					descriptionPrefix,
+					decisionScope,
+				);
+				const pendingToolCalls = permissionRequired.filter(
+					(_, index) => !savedDecisions[index],
 				);
-				const hitlRequest: HITLRequest = buildResult.hitlRequest;
-				const mergedOptions = buildResult.mergedOptions;
-
-				// 6. Send session/request_permission notification before interrupting
-				// This provides ACP protocol compliance
-				if (
-					transport.extNotification &&
-					sessionId &&
-					permissionRequired.length > 0
-				) {
-					const firstToolCall = permissionRequired[0]!;
-					try {
-						// Use extNotification for custom protocol notifications
-						await transport.extNotification("session/request_permission", {
-							sessionId,
-							toolCall: {
-								toolCallId: firstToolCall.id,
-								title: `${descriptionPrefix}: ${firstToolCall.name}`,
-								kind: toolKindMapper(firstToolCall.name),
-								status: "pending",
-								_meta: null,
-								locations: extractLocations(firstToolCall.args),
-								rawInput: firstToolCall.args,
-								content: undefined,
-								rawOutput: undefined,
-							},
-							options: mergedOptions,
-						});
-					} catch {
-						// Fail-safe: don't let notification errors break agent execution
-					}
-				}
 
-				// 7. Call interrupt() - checkpoints state and waits for Command.resume
-				// The runtime.interrupt function is provided by LangGraph
-				if (!runtime.interrupt) {
-					// Fallback for environments without interrupt support
-					throw new Error("Interrupt not supported in this runtime");
+				let humanDecisions: HITLDecision[] = [];
+				if (pendingToolCalls.length > 0) {
+					humanDecisions = await requestDecisions(
+						pendingToolCalls,
+						sessionId,
+						runtime,
+						Boolean(decisionStore && decisionScope),
+					);
+					await saveDecisions(humanDecisions, pendingToolCalls, decisionScope);
 				}
 
-				const hitlResponse = (await runtime.interrupt(
-					hitlRequest,
-				)) as HITLResponse;
+				// Merge mode and rule denials, saved and human decisions in tool call order
+				let humanIndex = 0;
+				const decisions: Array<HITLDecision | undefined> = [
+					...disallowed.map(
+						(toolCall): HITLDecision => ({
+							type: "reject",
+							message: `Tool "${toolCall.name}" is not allowed in mode "${modeState.acp_mode}"`,
+						}),
+					),
+					...denied.map(
+						(toolCall): HITLDecision => ({
+							type: "reject",
+							message: `Permission denied by rule: ${toolCall.rule}`,
+						}),
+					),
+					...savedDecisions.map(
+						(saved) => saved ?? humanDecisions[humanIndex++],
+					),
+				];
 
-				// 8. Process decisions from resume
+				// 6. Process decisions
 				const { revisedToolCalls, artificialMessages } = processDecisions(
-					hitlResponse.decisions,
-					permissionRequired,
+					decisions,
+					[...disallowed, ...denied, ...permissionRequired],
 					contentMapper,
 				);
 
-				// 9. Emit in_progress status for approved/edited tools
+				// 7. Emit in_progress status for approved/edited tools
 				for (const toolCall of revisedToolCalls) {
 					await emitToolStatus(
 						sessionId,
@@ -713,7 +932,7 @@ export function createACPPermissionMiddleware(
 					);
 				}
 
-				// 10. Update the last AIMessage to only include approved tool calls
+				// 8. Update the last AIMessage to only include approved tool calls
 				const stateAny = state as any;
 				const messages = [...stateAny.messages];
 
@@ -749,14 +968,12 @@ export function createACPPermissionMiddleware(
 					};
 				}
 
-				// 11. Check if any tool was rejected (jump back to model)
-				const hasRejections = hitlResponse.decisions.some(
-					(d) => d.type === "reject",
-				);
+				// 9. Check if any tool was rejected (jump back to model)
+				const hasRejections = decisions.some((d) => d?.type === "reject");
 
 				return {
 					messages: [...messages, ...artificialMessages],
-					jumpTo: hasRejections ? "model" : undefined,
+					jumpTo: hasRejections ? ("model" as const) : undefined,
 				};
 			},
 		},
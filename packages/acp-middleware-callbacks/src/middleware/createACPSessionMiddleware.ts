@@ -214,8 +214,8 @@ export function createACPSessionMiddleware(
 			const sessionId =
 				threadStateInstance.sessionId ??
 				((sessionIdExtractor(agentConfig) ??
-					runtimeAny.context?.sessionId ??
-					runtimeAny.context?.session_id) as SessionId | undefined);
+					(runtime as Runtime).context?.sessionId ??
+					(runtime as Runtime).context?.session_id) as SessionId | undefined);
 
 			threadStateInstance.turnCount++;
 
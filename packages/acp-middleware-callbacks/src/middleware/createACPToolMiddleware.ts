@@ -8,6 +8,7 @@
  */
 
 import type {
+	AgentSideConnection,
 	SessionId,
 	ToolCall,
 	ToolCallContent,
@@ -53,6 +54,12 @@ export interface ACPToolMiddlewareConfig {
 	 * LangChain and ACP content formats.
 	 */
 	contentBlockMapper?: ContentBlockMapper;
+
+	/**
+	 * The AgentSideConnection used to emit tool call updates.
+	 * When omitted, the middleware falls back to a connection exposed on the runtime.
+	 */
+	transport?: AgentSideConnection;
 }
 
 /**
@@ -304,8 +311,11 @@ export function createACPToolMiddleware(
 				rawOutput: undefined,
 			};
 
-			// Get the connection from runtime to send session updates
-			const connection = (runtime as { connection?: unknown }).connection;
+			// Prefer the configured transport, then a connection exposed on the runtime
+			const connection =
+				config.transport ??
+				(runtime as { connection?: AgentSideConnection } | undefined)
+					?.connection;
 
 			if (connection?.sessionUpdate) {
 				try {
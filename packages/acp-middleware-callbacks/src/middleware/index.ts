@@ -22,6 +22,15 @@ export {
 	loadMCPServer,
 	loadMCPTools,
 } from "../utils/mcpToolLoader.js";
+// Mode Controller
+export type {
+	ACPModeController,
+	ACPModeControllerConfig,
+} from "./createACPModeController.js";
+export {
+	createACPModeController,
+	SWITCH_MODE_TOOL_NAME,
+} from "./createACPModeController.js";
 // Mode Middleware
 export type {
 	ACPModeMiddlewareConfig,
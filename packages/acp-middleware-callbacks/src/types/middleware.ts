@@ -204,6 +204,58 @@ export interface PersistentOption {
 	kind: "allow_always" | "reject_always";
 }
 
+/**
+ * What a matching permission rule does with a tool call.
+ * - 'allow': Run the tool call without asking
+ * - 'ask': Ask the user for permission
+ * - 'deny': Reject the tool call without asking
+ */
+export type PermissionRuleAction = "allow" | "ask" | "deny";
+
+/**
+ * Argument-aware permission rule.
+ *
+ * A rule matches when all of its matchers match. 'allow' rules require every
+ * path and every chained command (e.g. `ls && rm -rf /`) to match, while
+ * 'ask' and 'deny' rules trigger when any of them matches.
+ */
+export interface PermissionRule {
+	/**
+	 * Name shown in the permission request when this rule triggers.
+	 * Defaults to a summary of the matchers.
+	 */
+	name?: string;
+
+	/**
+	 * What to do with tool calls matching this rule.
+	 */
+	action: PermissionRuleAction;
+
+	/**
+	 * Matchers for argument fields, keyed by field name. Strings are globs
+	 * where "*" matches any characters and "?" matches one character.
+	 */
+	args?: Record<string, RegExp | string>;
+
+	/**
+	 * Directories the tool's paths (found with extractLocations) must be within.
+	 * Relative directories resolve against the session's cwd.
+	 */
+	pathWithin?: string[];
+
+	/**
+	 * Command prefixes, matched word by word.
+	 * e.g., "git push" matches "git push origin main" but not "git pushd".
+	 */
+	commandPrefixes?: string[];
+
+	/**
+	 * Argument field holding the command for commandPrefixes.
+	 * @default "command"
+	 */
+	commandField?: string;
+}
+
 /**
  * Permission policy configuration for a specific tool.
  */
@@ -249,8 +301,8 @@ export interface PermissionPolicyConfig {
 	 * }
 	 * ```
 	 *
-	 * Note: The middleware does not cache these decisions. Developers must implement
-	 * their own decision storage and caching mechanism if needed (Option B pattern).
+	 * When one is selected, resume with a decision that has `persist: true`.
+	 * The middleware saves it when configured with a `decisionStore`.
 	 */
 	persistentOptions?: PersistentOption[];
 
@@ -260,6 +312,25 @@ export interface PermissionPolicyConfig {
 	 * @default false
 	 */
 	autoDeny?: boolean;
+
+	/**
+	 * Argument-aware rules, evaluated in order. The first matching rule decides
+	 * whether the call is allowed, asked or denied. When no rule matches,
+	 * requiresPermission applies.
+	 *
+	 * Example:
+	 * ```typescript
+	 * {
+	 *   rules: [
+	 *     { name: "destructive", action: "deny", commandPrefixes: ["rm -rf"] },
+	 *     { action: "ask", commandPrefixes: ["git push"] },
+	 *     { action: "allow", commandPrefixes: ["ls", "cat", "git status"] },
+	 *   ],
+	 *   requiresPermission: true,
+	 * }
+	 * ```
+	 */
+	rules?: PermissionRule[];
 }
 
 // ============================================================
@@ -296,6 +367,12 @@ export interface ReviewConfig {
 
 	/** JSON schema for the arguments, used when edits are allowed. */
 	argsSchema?: Record<string, unknown>;
+
+	/**
+	 * Whether an approve or reject decision may be saved for matching calls,
+	 * i.e. whether allow_always and reject_always can be offered.
+	 */
+	allowPersist?: boolean;
 }
 
 /**
@@ -319,6 +396,12 @@ export type HITLDecision = ApproveDecision | EditDecision | RejectDecision;
  */
 export interface ApproveDecision {
 	type: "approve";
+
+	/**
+	 * Whether to save the approval (allow_always) in the permission
+	 * middleware's decision store, so matching calls are approved without asking.
+	 */
+	persist?: boolean;
 }
 
 /**
@@ -342,6 +425,12 @@ export interface RejectDecision {
 
 	/** Optional message to send back to the model explaining the rejection. */
 	message?: string;
+
+	/**
+	 * Whether to save the rejection (reject_always) in the permission
+	 * middleware's decision store, so matching calls are rejected without asking.
+	 */
+	persist?: boolean;
 }
 
 /**
@@ -491,6 +580,14 @@ export interface ACPCallbackHandlerConfig {
 	 * @default true
 	 */
 	emitReasoningAsThought?: boolean;
+
+	/**
+	 * Whether to emit tool_call/tool_call_update events from tool callbacks.
+	 * Disable when the ACP tool middleware already reports tool calls, so
+	 * each call is only announced once.
+	 * @default true
+	 */
+	emitToolEvents?: boolean;
 }
 
 /**
@@ -579,6 +676,11 @@ export interface ACPSessionState {
 	 */
 	acp_modeConfig?: ACPModeConfig;
 
+	/**
+	 * Tools the current mode allows, or undefined when it allows every tool.
+	 */
+	acp_allowedTools?: string[];
+
 	/**
 	 * Whether a state snapshot has been emitted.
 	 */
@@ -610,6 +712,12 @@ export type ACPMiddlewareStateReturn = Partial<ACPSessionState> & {
  * Configuration for a specific mode in the ACP mode middleware.
  */
 export interface ACPModeConfig {
+	/**
+	 * Display name shown to clients.
+	 * Defaults to the mode ID.
+	 */
+	name?: string;
+
 	/**
 	 * System prompt to use when this mode is active.
 	 * This is prepended to the agent's existing system message.
@@ -623,12 +731,15 @@ export interface ACPModeConfig {
 
 	/**
 	 * List of tool names allowed in this mode.
-	 * If undefined, all tools are allowed.
+	 * If undefined, all tools are allowed. Other tools are not bound to the
+	 * model, and calls to them are rejected without executing.
 	 */
 	allowedTools?: string[];
 
 	/**
 	 * Whether this mode requires user permission for tool execution.
+	 * When true, the permission middleware interrupts for every tool call,
+	 * regardless of its permission policy.
 	 * @default false
 	 */
 	requirePermission?: boolean;
@@ -37,6 +37,23 @@ export {
 	loadMCPServer,
 	loadMCPTools,
 } from "./mcpToolLoader.js";
+// Permission Decision Store
+export type {
+	PermissionDecisionInput,
+	PermissionDecisionQuery,
+	PermissionDecisionRecord,
+	PermissionDecisionStore,
+} from "./permissionDecisionStore.js";
+export {
+	createBaseStorePermissionDecisionStore,
+	createFilePermissionDecisionStore,
+	createInMemoryPermissionDecisionStore,
+	fingerprintArgs,
+	matchesToolPattern,
+} from "./permissionDecisionStore.js";
+// Permission Rules
+export type { PermissionRuleMatch } from "./permissionRules.js";
+export { evaluatePermissionRules } from "./permissionRules.js";
 // Session State Mapper
 export type { SessionState } from "./sessionStateMapper.js";
 export {
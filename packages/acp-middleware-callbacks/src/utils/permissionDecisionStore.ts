@@ -0,0 +1,388 @@
+/**
+ * Permission Decision Store
+ *
+ * Persists allow_always/reject_always permission decisions so the permission
+ * middleware can answer repeat tool calls without asking the user again.
+ *
+ * @packageDocumentation
+ */
+
+import { createHash, randomUUID } from "node:crypto";
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { BaseStore } from "@langchain/langgraph";
+
+/**
+ * A saved permission decision.
+ */
+export interface PermissionDecisionRecord {
+	/**
+	 * Stable identifier derived from scope, tool pattern and fingerprint.
+	 * Saving the same combination again replaces the previous decision.
+	 */
+	id: string;
+
+	/**
+	 * Session ID or project key the decision applies to.
+	 */
+	scope: string;
+
+	/**
+	 * Tool name or wildcard pattern (e.g., "read_*") the decision applies to.
+	 */
+	toolPattern: string;
+
+	/**
+	 * Fingerprint of the tool arguments. When set, the decision only applies
+	 * to calls with the same arguments.
+	 */
+	argsFingerprint?: string;
+
+	/**
+	 * Whether matching tool calls are allowed or rejected.
+	 */
+	decision: "allow" | "reject";
+
+	/**
+	 * ISO timestamp of when the decision was saved.
+	 */
+	createdAt: string;
+}
+
+/**
+ * Decision to save, without the store-managed fields.
+ */
+export type PermissionDecisionInput = Omit<
+	PermissionDecisionRecord,
+	"id" | "createdAt"
+>;
+
+/**
+ * Tool call to look up a saved decision for.
+ */
+export interface PermissionDecisionQuery {
+	scope: string;
+	toolName: string;
+	argsFingerprint?: string;
+}
+
+/**
+ * Pluggable storage for persistent permission decisions.
+ */
+export interface PermissionDecisionStore {
+	/**
+	 * Finds the saved decision that applies to a tool call.
+	 * Decisions with a matching argument fingerprint take precedence over
+	 * decisions for any arguments, and rejections over approvals.
+	 */
+	find(
+		query: PermissionDecisionQuery,
+	): Promise<PermissionDecisionRecord | undefined>;
+
+	/**
+	 * Saves a decision, replacing any decision with the same scope,
+	 * tool pattern and fingerprint.
+	 */
+	save(decision: PermissionDecisionInput): Promise<PermissionDecisionRecord>;
+
+	/**
+	 * Lists saved decisions, optionally only those for one scope.
+	 */
+	list(scope?: string): Promise<PermissionDecisionRecord[]>;
+
+	/**
+	 * Removes a saved decision. Returns false when no decision had that ID.
+	 */
+	revoke(id: string): Promise<boolean>;
+}
+
+/**
+ * Escapes special regex characters in a string.
+ *
+ * @param str - The string to escape
+ * @returns The escaped string
+ */
+function escapeRegExp(str: string): string {
+	return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Checks if a tool name matches a tool pattern.
+ * Supports exact matches and "*" wildcards (e.g., "*", "file_*", "*_file").
+ *
+ * @param toolName - The name of the tool to check
+ * @param pattern - The pattern to match against
+ * @returns True if the tool matches the pattern
+ */
+export function matchesToolPattern(toolName: string, pattern: string): boolean {
+	if (pattern === toolName) {
+		return true;
+	}
+
+	if (!pattern.includes("*")) {
+		return false;
+	}
+
+	const source = pattern.split("*").map(escapeRegExp).join(".*");
+	return new RegExp(`^${source}$`).test(toolName);
+}
+
+/**
+ * Serializes a value to JSON with object keys sorted, so equal arguments
+ * produce equal output regardless of key order.
+ */
+function stableStringify(value: unknown): string {
+	if (Array.isArray(value)) {
+		return `[${value.map(stableStringify).join(",")}]`;
+	}
+
+	if (value && typeof value === "object") {
+		const entries = Object.entries(value as Record<string, unknown>)
+			.filter(([, entry]) => entry !== undefined)
+			.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+			.map(
+				([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`,
+			);
+		return `{${entries.join(",")}}`;
+	}
+
+	return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Computes a fingerprint of tool arguments for argument-specific decisions.
+ *
+ * @param args - The tool arguments
+ * @returns SHA-256 hex digest of the arguments
+ *
+ * @example
+ * ```typescript
+ * fingerprintArgs({ b: 1, a: 2 }) === fingerprintArgs({ a: 2, b: 1 }); // true
+ * ```
+ */
+export function fingerprintArgs(args: Record<string, unknown>): string {
+	return createHash("sha256").update(stableStringify(args)).digest("hex");
+}
+
+/**
+ * Builds the stable ID of a decision.
+ */
+function getDecisionId(decision: PermissionDecisionInput): string {
+	return JSON.stringify([
+		decision.scope,
+		decision.toolPattern,
+		decision.argsFingerprint ?? null,
+	]);
+}
+
+/**
+ * Creates a record for a decision being saved.
+ */
+function toDecisionRecord(
+	decision: PermissionDecisionInput,
+): PermissionDecisionRecord {
+	return {
+		id: getDecisionId(decision),
+		scope: decision.scope,
+		toolPattern: decision.toolPattern,
+		argsFingerprint: decision.argsFingerprint,
+		decision: decision.decision,
+		createdAt: new Date().toISOString(),
+	};
+}
+
+/**
+ * Selects the decision that applies to a query from a list of records.
+ */
+function findMatchingDecision(
+	records: PermissionDecisionRecord[],
+	query: PermissionDecisionQuery,
+): PermissionDecisionRecord | undefined {
+	const rank = (record: PermissionDecisionRecord) =>
+		(record.argsFingerprint ? 0 : 2) + (record.decision === "reject" ? 0 : 1);
+
+	return records
+		.filter(
+			(record) =>
+				record.scope === query.scope &&
+				matchesToolPattern(query.toolName, record.toolPattern) &&
+				(!record.argsFingerprint ||
+					record.argsFingerprint === query.argsFingerprint),
+		)
+		.sort((a, b) => rank(a) - rank(b))[0];
+}
+
+/**
+ * Creates a permission decision store that keeps decisions in memory.
+ * Decisions are lost when the process exits.
+ *
+ * @returns In-memory PermissionDecisionStore
+ */
+export function createInMemoryPermissionDecisionStore(): PermissionDecisionStore {
+	const records = new Map<string, PermissionDecisionRecord>();
+
+	return {
+		find: async (query) => findMatchingDecision([...records.values()], query),
+		save: async (decision) => {
+			const record = toDecisionRecord(decision);
+			records.set(record.id, record);
+			return record;
+		},
+		list: async (scope) =>
+			[...records.values()].filter(
+				(record) => scope === undefined || record.scope === scope,
+			),
+		revoke: async (id) => records.delete(id),
+	};
+}
+
+/**
+ * Creates a permission decision store backed by a JSON file.
+ * The file is created on the first save, along with missing directories.
+ * Changes are written to a temporary file and renamed into place, so readers
+ * never see a partially written file.
+ *
+ * @param filePath - Path of the JSON file holding the decisions
+ * @returns File-backed PermissionDecisionStore
+ *
+ * @example
+ * ```typescript
+ * const decisionStore = createFilePermissionDecisionStore(
+ *   join(projectDir, ".acp", "permissions.json"),
+ * );
+ * ```
+ */
+export function createFilePermissionDecisionStore(
+	filePath: string,
+): PermissionDecisionStore {
+	// Serializes read-modify-write cycles so concurrent saves don't drop records
+	let pending: Promise<unknown> = Promise.resolve();
+
+	async function load(): Promise<PermissionDecisionRecord[]> {
+		try {
+			const data = JSON.parse(await readFile(filePath, "utf8"));
+			return Array.isArray(data?.decisions) ? data.decisions : [];
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+				return [];
+			}
+			throw error;
+		}
+	}
+
+	async function write(records: PermissionDecisionRecord[]): Promise<void> {
+		const tempPath = `${filePath}.${randomUUID()}.tmp`;
+		await mkdir(dirname(filePath), { recursive: true });
+		try {
+			await writeFile(
+				tempPath,
+				`${JSON.stringify({ decisions: records }, null, 2)}\n`,
+			);
+			await rename(tempPath, filePath);
+		} catch (error) {
+			await rm(tempPath, { force: true });
+			throw error;
+		}
+	}
+
+	// Reads wait for queued writes so they see this store's latest saves
+	async function read(): Promise<PermissionDecisionRecord[]> {
+		await pending;
+		return load();
+	}
+
+	function update<T>(
+		change: (records: PermissionDecisionRecord[]) => {
+			records: PermissionDecisionRecord[];
+			result: T;
+		},
+	): Promise<T> {
+		const next = pending.then(async () => {
+			const { records, result } = change(await load());
+			await write(records);
+			return result;
+		});
+		pending = next.catch(() => {});
+		return next;
+	}
+
+	return {
+		find: async (query) => findMatchingDecision(await read(), query),
+		save: (decision) =>
+			update((records) => {
+				const record = toDecisionRecord(decision);
+				return {
+					records: [...records.filter((r) => r.id !== record.id), record],
+					result: record,
+				};
+			}),
+		list: async (scope) =>
+			(await read()).filter(
+				(record) => scope === undefined || record.scope === scope,
+			),
+		revoke: (id) =>
+			update((records) => ({
+				records: records.filter((record) => record.id !== id),
+				result: records.some((record) => record.id === id),
+			})),
+	};
+}
+
+/**
+ * Creates a permission decision store on top of a LangGraph BaseStore.
+ * Decisions are stored under `[...namespace, scope]`, keyed by decision ID.
+ *
+ * @param store - LangGraph store (e.g., InMemoryStore or a database-backed store)
+ * @param namespace - Namespace prefix for decisions
+ * @returns BaseStore-backed PermissionDecisionStore
+ */
+export function createBaseStorePermissionDecisionStore(
+	store: BaseStore,
+	namespace: string[] = ["acp", "permission_decisions"],
+): PermissionDecisionStore {
+	const PAGE_SIZE = 100;
+
+	async function search(prefix: string[]): Promise<PermissionDecisionRecord[]> {
+		const records: PermissionDecisionRecord[] = [];
+
+		for (let offset = 0; ; offset += PAGE_SIZE) {
+			const items = await store.search(prefix, { limit: PAGE_SIZE, offset });
+			records.push(
+				...items.map((item) => item.value as PermissionDecisionRecord),
+			);
+			if (items.length < PAGE_SIZE) {
+				return records;
+			}
+		}
+	}
+
+	return {
+		find: async (query) =>
+			findMatchingDecision(await search([...namespace, query.scope]), query),
+		save: async (decision) => {
+			const record = toDecisionRecord(decision);
+			await store.put([...namespace, record.scope], record.id, { ...record });
+			return record;
+		},
+		list: (scope) =>
+			search(scope === undefined ? namespace : [...namespace, scope]),
+		revoke: async (id) => {
+			let scope: unknown;
+			try {
+				[scope] = JSON.parse(id);
+			} catch {
+				return false;
+			}
+			if (typeof scope !== "string") {
+				return false;
+			}
+
+			const key = [...namespace, scope];
+			if (!(await store.get(key, id))) {
+				return false;
+			}
+			await store.delete(key, id);
+			return true;
+		},
+	};
+}
@@ -0,0 +1,259 @@
+/**
+ * Permission Rules
+ *
+ * Evaluates argument-aware permission rules (argument globs and regexes,
+ * path-within-directory checks and command prefixes) against tool calls.
+ *
+ * @packageDocumentation
+ */
+
+import { isAbsolute, relative, resolve, sep } from "node:path";
+import type {
+	PermissionRule,
+	PermissionRuleAction,
+} from "../types/middleware.js";
+import { extractLocations } from "./extractLocations.js";
+
+/**
+ * The rule that decided a tool call.
+ */
+export interface PermissionRuleMatch {
+	/**
+	 * The matching rule.
+	 */
+	rule: PermissionRule;
+
+	/**
+	 * The rule's action.
+	 */
+	action: PermissionRuleAction;
+
+	/**
+	 * Rule name, or a summary of its matchers, for permission requests.
+	 */
+	label: string;
+}
+
+/**
+ * Separators between chained shell commands, plus the boundaries of
+ * substitutions and subshells so the commands inside them are checked too.
+ */
+const COMMAND_SEPARATOR = /&&|\|\||\$\(|[<>]\(|[;|&\n`()]/;
+
+/**
+ * Command or process substitution, whose output can't be checked up front.
+ */
+const COMMAND_SUBSTITUTION = /`|\$\(|<\(|>\(/;
+
+/**
+ * Redirections (">", ">>", "<") and here-documents ("<<"), which read or
+ * write files the command prefix doesn't show.
+ */
+const REDIRECTION = /[<>]/;
+
+/**
+ * URI scheme prefix (e.g., "https://"), used to skip non-file locations.
+ */
+const URI_SCHEME = /^[a-z][a-z0-9+.-]*:\/\//i;
+
+/**
+ * Converts a glob to an anchored regex. "*" matches any characters and "?"
+ * matches one character.
+ */
+function globToRegExp(glob: string): RegExp {
+	const source = glob
+		.split("")
+		.map((char) => {
+			if (char === "*") return ".*";
+			if (char === "?") return ".";
+			return char.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+		})
+		.join("");
+	return new RegExp(`^${source}$`, "s");
+}
+
+/**
+ * Tests a value against a RegExp or glob matcher.
+ */
+function matchesValue(value: unknown, matcher: RegExp | string): boolean {
+	if (
+		typeof value !== "string" &&
+		typeof value !== "number" &&
+		typeof value !== "boolean"
+	) {
+		return false;
+	}
+
+	const regex =
+		typeof matcher === "string"
+			? globToRegExp(matcher)
+			: new RegExp(matcher.source, matcher.flags.replace(/[gy]/g, ""));
+	return regex.test(String(value));
+}
+
+/**
+ * Collapses whitespace so prefixes match regardless of spacing.
+ */
+function normalizeCommand(command: string): string {
+	return command.trim().split(/\s+/).join(" ");
+}
+
+/**
+ * Checks command prefixes against every command chained in a shell string.
+ */
+function matchesCommand(
+	command: unknown,
+	prefixes: string[],
+	requireAll: boolean,
+): boolean {
+	if (typeof command !== "string") {
+		return false;
+	}
+
+	const normalizedPrefixes = prefixes.map(normalizeCommand);
+	const segments = command
+		.split(COMMAND_SEPARATOR)
+		.map(normalizeCommand)
+		.filter((segment) => segment.length > 0);
+	const matches = (segment: string) =>
+		normalizedPrefixes.some(
+			(prefix) => segment === prefix || segment.startsWith(`${prefix} `),
+		);
+
+	if (requireAll) {
+		return (
+			segments.length > 0 &&
+			!COMMAND_SUBSTITUTION.test(command) &&
+			!REDIRECTION.test(command) &&
+			segments.every(matches)
+		);
+	}
+	return segments.some(matches);
+}
+
+/**
+ * Checks the tool's paths against a list of directories.
+ */
+function matchesPaths(
+	args: Record<string, unknown>,
+	directories: string[],
+	cwd: string,
+	requireAll: boolean,
+): boolean {
+	const paths = extractLocations(args).map(({ path }) =>
+		path.startsWith("file://") ? path.slice("file://".length) : path,
+	);
+	if (paths.length === 0) {
+		return false;
+	}
+
+	const roots = directories.map((directory) => resolve(cwd, directory));
+	const isWithin = (path: string) => {
+		if (URI_SCHEME.test(path)) {
+			return false;
+		}
+		const target = resolve(cwd, path);
+		return roots.some((root) => {
+			const rel = relative(root, target);
+			return (
+				rel === "" ||
+				(rel !== ".." && !rel.startsWith(`..${sep}`) && !isAbsolute(rel))
+			);
+		});
+	};
+
+	return requireAll ? paths.every(isWithin) : paths.some(isWithin);
+}
+
+/**
+ * Summarizes a rule's matchers for permission requests.
+ */
+function describeRule(rule: PermissionRule): string {
+	const parts: string[] = [];
+
+	for (const [field, matcher] of Object.entries(rule.args ?? {})) {
+		parts.push(`${field} matches ${String(matcher)}`);
+	}
+	if (rule.pathWithin) {
+		parts.push(`path within ${rule.pathWithin.join(", ")}`);
+	}
+	if (rule.commandPrefixes) {
+		parts.push(
+			`command starts with ${rule.commandPrefixes.map((prefix) => `"${prefix}"`).join(", ")}`,
+		);
+	}
+
+	return parts.length > 0 ? parts.join(" and ") : `${rule.action} all`;
+}
+
+/**
+ * Checks whether a single rule matches a tool call.
+ */
+function matchesRule(
+	rule: PermissionRule,
+	args: Record<string, unknown>,
+	cwd: string,
+): boolean {
+	const requireAll = rule.action === "allow";
+
+	for (const [field, matcher] of Object.entries(rule.args ?? {})) {
+		if (!matchesValue(args[field], matcher)) {
+			return false;
+		}
+	}
+
+	if (
+		rule.pathWithin &&
+		!matchesPaths(args, rule.pathWithin, cwd, requireAll)
+	) {
+		return false;
+	}
+
+	if (
+		rule.commandPrefixes &&
+		!matchesCommand(
+			args[rule.commandField ?? "command"],
+			rule.commandPrefixes,
+			requireAll,
+		)
+	) {
+		return false;
+	}
+
+	return true;
+}
+
+/**
+ * Finds the first permission rule matching a tool call's arguments.
+ *
+ * @param rules - Rules to evaluate, in order
+ * @param args - The tool call arguments
+ * @param cwd - Directory relative paths resolve against
+ * @returns The first matching rule with its action and label, or undefined
+ *
+ * @example
+ * ```typescript
+ * const match = evaluatePermissionRules(
+ *   [{ name: "destructive", action: "deny", commandPrefixes: ["rm -rf"] }],
+ *   { command: "cd /tmp && rm -rf build" },
+ * );
+ * // match.action === "deny", match.label === "destructive"
+ * ```
+ */
+export function evaluatePermissionRules(
+	rules: PermissionRule[],
+	args: Record<string, unknown>,
+	cwd: string = process.cwd(),
+): PermissionRuleMatch | undefined {
+	for (const rule of rules) {
+		if (matchesRule(rule, args, cwd)) {
+			return {
+				rule,
+				action: rule.action,
+				label: rule.name ?? describeRule(rule),
+			};
+		}
+	}
+
+	return undefined;
+}
@@ -47,21 +47,32 @@ export function mapToStopReason(state: Record<string, unknown>): StopReason {
 		return "cancelled";
 	}
 
+	// Finish reason reported by the provider: OpenAI-style finish_reason or
+	// Anthropic-style stop_reason
+	const llmOutput =
+		state.llmOutput && typeof state.llmOutput === "object"
+			? (state.llmOutput as Record<string, unknown>)
+			: {};
+	const finishReason = llmOutput.finish_reason ?? llmOutput.stop_reason;
+
 	// Check for refusal
-	if (state.refusal === true || state.modelRefused === true) {
+	if (
+		state.refusal === true ||
+		state.modelRefused === true ||
+		finishReason === "refusal" ||
+		finishReason === "content_filter"
+	) {
 		return "refusal";
 	}
 
 	// Check for token limit exceeded
-	if (state.llmOutput && typeof state.llmOutput === "object") {
-		const llmOutput = state.llmOutput as Record<string, unknown>;
-		if (
-			llmOutput.finish_reason === "length" ||
-			llmOutput.finish_reason === "context_length" ||
-			llmOutput.finish_reason === "token_limit"
-		) {
-			return "max_tokens";
-		}
+	if (
+		finishReason === "length" ||
+		finishReason === "context_length" ||
+		finishReason === "token_limit" ||
+		finishReason === "max_tokens"
+	) {
+		return "max_tokens";
 	}
 
 	if (
@@ -0,0 +1,491 @@
+import { describe, expect, mock, test } from "bun:test";
+import {
+	type Client,
+	ClientSideConnection,
+	ndJsonStream,
+	PROTOCOL_VERSION,
+	type RequestPermissionRequest,
+	type SessionNotification,
+} from "@agentclientprotocol/sdk";
+import { MemorySaver } from "@langchain/langgraph";
+import {
+	type BaseMessage,
+	createMiddleware,
+	FakeToolCallingModel,
+	ToolMessage,
+	tool,
+} from "langchain";
+import { z } from "zod";
+import {
+	type ACPAgentConfig,
+	createACPAgent,
+} from "../../../src/agent/createACPAgent";
+import { createInMemoryPermissionDecisionStore } from "../../../src/utils/permissionDecisionStore";
+
+function createWriteTool() {
+	const calls: string[] = [];
+	const writeFile = tool(
+		async ({ path }: { path: string }) => {
+			calls.push(path);
+			return `wrote ${path}`;
+		},
+		{
+			name: "write_file",
+			description: "Writes a file",
+			schema: z.object({ path: z.string() }),
+		},
+	);
+	return { writeFile, calls };
+}
+
+function createModel() {
+	return new FakeToolCallingModel({
+		toolCalls: [
+			[{ id: "call-1", name: "write_file", args: { path: "/tmp/a.txt" } }],
+			[],
+		],
+	});
+}
+
+// Connects a ClientSideConnection to createACPAgent over in-memory streams
+function connect(
+	config: Omit<ACPAgentConfig, "transport">,
+	client: Partial<Client> = {},
+) {
+	const toAgent = new TransformStream<Uint8Array, Uint8Array>();
+	const toClient = new TransformStream<Uint8Array, Uint8Array>();
+	const updates: SessionNotification[] = [];
+
+	createACPAgent({
+		...config,
+		transport: ndJsonStream(toClient.writable, toAgent.readable),
+	});
+
+	const connection = new ClientSideConnection(
+		() => ({
+			sessionUpdate: async (params) => {
+				updates.push(params);
+			},
+			requestPermission: async () => ({ outcome: { outcome: "cancelled" } }),
+			...client,
+		}),
+		ndJsonStream(toAgent.writable, toClient.readable),
+	);
+
+	return { connection, updates };
+}
+
+describe("createACPAgent", () => {
+	test("initializes and creates sessions with the configured modes", async () => {
+		const { connection } = connect({
+			model: createModel(),
+			modes: {
+				agentic: { systemPrompt: "Act.", description: "Full autonomy" },
+				readonly: { systemPrompt: "Look only." },
+			},
+		});
+
+		const init = await connection.initialize({
+			protocolVersion: PROTOCOL_VERSION,
+		});
+		const session = await connection.newSession({
+			cwd: "/tmp",
+			mcpServers: [],
+		});
+
+		expect(init.protocolVersion).toBe(PROTOCOL_VERSION);
+		expect(init.agentCapabilities?.loadSession).toBe(true);
+		expect(session.sessionId).toBeString();
+		expect(session.modes?.currentModeId).toBe("agentic");
+		expect(session.modes?.availableModes.map((mode) => mode.id)).toEqual([
+			"agentic",
+			"readonly",
+		]);
+	});
+
+	test("runs tools and reports them with the model's tool call ids", async () => {
+		const { writeFile, calls } = createWriteTool();
+		const { connection, updates } = connect({
+			model: createModel(),
+			tools: [writeFile],
+		});
+
+		const { sessionId } = await connection.newSession({
+			cwd: "/tmp",
+			mcpServers: [],
+		});
+		const response = await connection.prompt({
+			sessionId,
+			prompt: [{ type: "text", text: "write it" }],
+		});
+
+		expect(response.stopReason).toBe("end_turn");
+		expect(calls).toEqual(["/tmp/a.txt"]);
+		expect(
+			updates
+				.map((notification) => notification.update)
+				.filter((update) => update.sessionUpdate === "tool_call_update")
+				.map((update) => [update.toolCallId, update.status]),
+		).toEqual([["call-1", "completed"]]);
+	});
+
+	test("forwards permission interrupts to the client", async () => {
+		const { writeFile, calls } = createWriteTool();
+		const requestPermission = mock(
+			async (_params: RequestPermissionRequest) => ({
+				outcome: { outcome: "selected" as const, optionId: "reject" },
+			}),
+		);
+		const { connection } = connect(
+			{
+				model: createModel(),
+				tools: [writeFile],
+				permissionPolicy: { write_file: { requiresPermission: true } },
+			},
+			{ requestPermission },
+		);
+
+		const { sessionId } = await connection.newSession({
+			cwd: "/tmp",
+			mcpServers: [],
+		});
+		const response = await connection.prompt({
+			sessionId,
+			prompt: [{ type: "text", text: "write it" }],
+		});
+
+		expect(response.stopReason).toBe("end_turn");
+		expect(requestPermission).toHaveBeenCalledTimes(1);
+		expect(requestPermission.mock.calls[0]?.[0]).toMatchObject({
+			sessionId,
+			toolCall: { toolCallId: "call-1", rawInput: { path: "/tmp/a.txt" } },
+		});
+		expect(calls).toEqual([]);
+	});
+
+	test("remembers allow_always decisions in the decision store", async () => {
+		const { writeFile, calls } = createWriteTool();
+		const decisionStore = createInMemoryPermissionDecisionStore();
+		const requestPermission = mock(
+			async (_params: RequestPermissionRequest) => ({
+				outcome: { outcome: "selected" as const, optionId: "allow_always" },
+			}),
+		);
+		const { connection } = connect(
+			{
+				model: createModel(),
+				tools: [writeFile],
+				permissionPolicy: { write_file: { requiresPermission: true } },
+				permission: { decisionStore, decisionScope: "project" },
+			},
+			{ requestPermission },
+		);
+
+		for (let i = 0; i < 2; i++) {
+			const { sessionId } = await connection.newSession({
+				cwd: "/work/project",
+				mcpServers: [],
+			});
+			await connection.prompt({
+				sessionId,
+				prompt: [{ type: "text", text: "write it" }],
+			});
+		}
+
+		expect(requestPermission).toHaveBeenCalledTimes(1);
+		expect(
+			requestPermission.mock.calls[0]?.[0].options.map((option) => option.kind),
+		).toEqual(["allow_once", "allow_always", "reject_once", "reject_always"]);
+		expect(calls).toEqual(["/tmp/a.txt", "/tmp/a.txt"]);
+		expect(await decisionStore.list("/work/project")).toMatchObject([
+			{ toolPattern: "write_file", decision: "allow" },
+		]);
+	});
+
+	test("offers only one-time options for argument rule prompts", async () => {
+		const { writeFile } = createWriteTool();
+		const decisionStore = createInMemoryPermissionDecisionStore();
+		const requestPermission = mock(
+			async (_params: RequestPermissionRequest) => ({
+				outcome: { outcome: "selected" as const, optionId: "approve" },
+			}),
+		);
+		const { connection } = connect(
+			{
+				model: createModel(),
+				tools: [writeFile],
+				permissionPolicy: {
+					write_file: {
+						requiresPermission: true,
+						rules: [{ action: "ask", args: { path: "/tmp/*" } }],
+					},
+				},
+				permission: { decisionStore },
+			},
+			{ requestPermission },
+		);
+
+		const { sessionId } = await connection.newSession({
+			cwd: "/tmp",
+			mcpServers: [],
+		});
+		await connection.prompt({
+			sessionId,
+			prompt: [{ type: "text", text: "write it" }],
+		});
+
+		expect(
+			requestPermission.mock.calls[0]?.[0].options.map((option) => option.kind),
+		).toEqual(["allow_once", "reject_once"]);
+	});
+
+	test("returns cancelled when the client cancels a permission request", async () => {
+		const { writeFile, calls } = createWriteTool();
+		const { connection } = connect({
+			model: createModel(),
+			tools: [writeFile],
+			permissionPolicy: { write_file: { requiresPermission: true } },
+		});
+
+		const { sessionId } = await connection.newSession({
+			cwd: "/tmp",
+			mcpServers: [],
+		});
+		const response = await connection.prompt({
+			sessionId,
+			prompt: [{ type: "text", text: "write it" }],
+		});
+
+		expect(response.stopReason).toBe("cancelled");
+		expect(calls).toEqual([]);
+	});
+
+	test("answers the pending tool calls when a permission request is cancelled", async () => {
+		const { writeFile, calls } = createWriteTool();
+		const checkpointer = new MemorySaver();
+		const { connection } = connect({
+			model: createModel(),
+			tools: [writeFile],
+			checkpointer,
+			permissionPolicy: { write_file: { requiresPermission: true } },
+		});
+
+		const { sessionId } = await connection.newSession({
+			cwd: "/tmp",
+			mcpServers: [],
+		});
+		await connection.prompt({
+			sessionId,
+			prompt: [{ type: "text", text: "write it" }],
+		});
+		const checkpoint = await checkpointer.getTuple({
+			configurable: { thread_id: sessionId },
+		});
+		const messages = checkpoint?.checkpoint.channel_values.messages as
+			| BaseMessage[]
+			| undefined;
+
+		expect(
+			messages?.filter(ToolMessage.isInstance).map((message) => ({
+				toolCallId: message.tool_call_id,
+				status: message.status,
+			})),
+		).toEqual([{ toolCallId: "call-1", status: "error" }]);
+
+		const response = await connection.prompt({
+			sessionId,
+			prompt: [{ type: "text", text: "never mind" }],
+		});
+
+		expect(response.stopReason).toBe("end_turn");
+		expect(calls).toEqual([]);
+	});
+
+	test("reports the finish reason of the last model response", async () => {
+		const { connection } = connect({
+			model: new FakeToolCallingModel({ toolCalls: [[]] }),
+			middleware: [
+				createMiddleware({
+					name: "truncated",
+					wrapModelCall: async (request, handler) => {
+						const response = await handler(request);
+						response.response_metadata = { finish_reason: "length" };
+						return response;
+					},
+				}),
+			],
+		});
+
+		const { sessionId } = await connection.newSession({
+			cwd: "/tmp",
+			mcpServers: [],
+		});
+		const response = await connection.prompt({
+			sessionId,
+			prompt: [{ type: "text", text: "write a novel" }],
+		});
+
+		expect(response.stopReason).toBe("max_tokens");
+	});
+
+	test("enforces the active mode's allowedTools and requirePermission", async () => {
+		const { writeFile, calls } = createWriteTool();
+		const requestPermission = mock(
+			async (_params: RequestPermissionRequest) => ({
+				outcome: { outcome: "selected" as const, optionId: "approve" },
+			}),
+		);
+		const { connection } = connect(
+			{
+				model: createModel(),
+				tools: [writeFile],
+				modes: {
+					readonly: { systemPrompt: "Look only.", allowedTools: [] },
+					interactive: { systemPrompt: "Ask first.", requirePermission: true },
+				},
+			},
+			{ requestPermission },
+		);
+
+		const readonly = await connection.newSession({
+			cwd: "/tmp",
+			mcpServers: [],
+		});
+		await connection.prompt({
+			sessionId: readonly.sessionId,
+			prompt: [{ type: "text", text: "write it" }],
+		});
+
+		expect(calls).toEqual([]);
+		expect(requestPermission).not.toHaveBeenCalled();
+
+		const interactive = await connection.newSession({
+			cwd: "/tmp",
+			mcpServers: [],
+		});
+		await connection.setSessionMode({
+			sessionId: interactive.sessionId,
+			modeId: "interactive",
+		});
+		await connection.prompt({
+			sessionId: interactive.sessionId,
+			prompt: [{ type: "text", text: "write it" }],
+		});
+
+		expect(requestPermission).toHaveBeenCalledTimes(1);
+		expect(calls).toEqual(["/tmp/a.txt"]);
+	});
+
+	test("switches modes and rejects unknown ones", async () => {
+		const { connection, updates } = connect({
+			model: createModel(),
+			modes: {
+				agentic: { systemPrompt: "Act." },
+				readonly: { systemPrompt: "Look only." },
+			},
+		});
+
+		const { sessionId } = await connection.newSession({
+			cwd: "/tmp",
+			mcpServers: [],
+		});
+		await connection.setSessionMode({ sessionId, modeId: "readonly" });
+
+		expect(updates.at(-1)?.update).toMatchObject({
+			sessionUpdate: "current_mode_update",
+			currentModeId: "readonly",
+		});
+		await expect(
+			connection.setSessionMode({ sessionId, modeId: "missing" }),
+		).rejects.toBeDefined();
+	});
+
+	test("lets the model switch modes after the client approves", async () => {
+		const requestPermission = mock(
+			async (_params: RequestPermissionRequest) => ({
+				outcome: { outcome: "selected" as const, optionId: "approve" },
+			}),
+		);
+		const { connection, updates } = connect(
+			{
+				model: new FakeToolCallingModel({
+					toolCalls: [
+						[
+							{
+								id: "call-1",
+								name: "switch_mode",
+								args: { modeId: "code", reason: "Ready to edit" },
+							},
+						],
+						[],
+					],
+				}),
+				modes: {
+					plan: { systemPrompt: "Plan only." },
+					code: { systemPrompt: "Write code." },
+				},
+				modeSwitchTool: true,
+			},
+			{ requestPermission },
+		);
+
+		const { sessionId } = await connection.newSession({
+			cwd: "/tmp",
+			mcpServers: [],
+		});
+		await connection.prompt({
+			sessionId,
+			prompt: [{ type: "text", text: "start coding" }],
+		});
+		const loaded = await connection.loadSession({
+			sessionId,
+			cwd: "/tmp",
+			mcpServers: [],
+		});
+
+		expect(requestPermission).toHaveBeenCalledTimes(1);
+		expect(requestPermission.mock.calls[0]?.[0]).toMatchObject({
+			toolCall: { toolCallId: "call-1", rawInput: { modeId: "code" } },
+		});
+		expect(
+			updates.some(
+				(notification) =>
+					notification.update.sessionUpdate === "current_mode_update" &&
+					notification.update.currentModeId === "code",
+			),
+		).toBe(true);
+		expect(loaded.modes?.currentModeId).toBe("code");
+	});
+
+	test("replays stored history on loadSession", async () => {
+		const { connection, updates } = connect({
+			model: new FakeToolCallingModel({ toolCalls: [[]] }),
+		});
+
+		await expect(
+			connection.loadSession({
+				sessionId: "unknown",
+				cwd: "/tmp",
+				mcpServers: [],
+			}),
+		).rejects.toBeDefined();
+
+		const { sessionId } = await connection.newSession({
+			cwd: "/tmp",
+			mcpServers: [],
+		});
+		await connection.prompt({
+			sessionId,
+			prompt: [{ type: "text", text: "hello" }],
+		});
+		updates.length = 0;
+		await connection.loadSession({ sessionId, cwd: "/tmp", mcpServers: [] });
+
+		expect(
+			updates.map((notification) => notification.update.sessionUpdate),
+		).toEqual(["user_message_chunk", "agent_message_chunk"]);
+		expect(updates[0]?.update).toMatchObject({
+			content: { type: "text", text: "hello" },
+		});
+	});
+});
@@ -0,0 +1,125 @@
+import { describe, expect, mock, test } from "bun:test";
+import { Command } from "@langchain/langgraph";
+import {
+	createACPModeController,
+	SWITCH_MODE_TOOL_NAME,
+} from "../../../src/middleware/createACPModeController";
+
+const modes = {
+	plan: { systemPrompt: "Plan only.", name: "Plan", allowedTools: [] },
+	code: {
+		systemPrompt: "Write code.",
+		description: "Edit files",
+		requirePermission: true,
+	},
+};
+
+describe("createACPModeController", () => {
+	test("throws when defaultMode is not in modes", () => {
+		expect(() =>
+			createACPModeController({ modes, defaultMode: "missing" }),
+		).toThrow('Default mode "missing" is not defined in modes configuration');
+	});
+
+	test("tracks the mode of each session", async () => {
+		const controller = createACPModeController({ modes, defaultMode: "plan" });
+
+		await controller.setMode("session-1", "code");
+
+		expect(controller.getMode("session-1")).toBe("code");
+		expect(controller.getMode("session-2")).toBe("plan");
+
+		controller.deleteSession("session-1");
+		expect(controller.getMode("session-1")).toBe("plan");
+	});
+
+	test("emits current_mode_update and notifies onModeChange", async () => {
+		const sessionUpdate = mock(async () => {});
+		const onModeChange = mock(() => {});
+		const controller = createACPModeController({
+			modes,
+			defaultMode: "plan",
+			transport: { sessionUpdate },
+			onModeChange,
+		});
+
+		await controller.handleSetSessionMode({
+			sessionId: "session-1",
+			modeId: "code",
+		});
+
+		expect(sessionUpdate).toHaveBeenCalledWith({
+			sessionId: "session-1",
+			update: { sessionUpdate: "current_mode_update", currentModeId: "code" },
+		});
+		expect(onModeChange).toHaveBeenCalledWith("session-1", "code", "plan");
+	});
+
+	test("rejects unknown modes without switching", async () => {
+		const sessionUpdate = mock(async () => {});
+		const controller = createACPModeController({
+			modes,
+			defaultMode: "plan",
+			transport: { sessionUpdate },
+		});
+
+		await expect(controller.setMode("session-1", "missing")).rejects.toThrow(
+			'Unknown mode "missing"',
+		);
+		expect(controller.getMode("session-1")).toBe("plan");
+		expect(sessionUpdate).not.toHaveBeenCalled();
+	});
+
+	test("builds the mode state for session responses", async () => {
+		const controller = createACPModeController({ modes, defaultMode: "plan" });
+		await controller.setMode("session-1", "code");
+
+		expect(controller.getModeState("session-1")).toEqual({
+			currentModeId: "code",
+			availableModes: [
+				{ id: "plan", name: "Plan", description: undefined },
+				{ id: "code", name: "code", description: "Edit files" },
+			],
+		});
+	});
+
+	test("switch_mode tool switches the session and updates run state", async () => {
+		const controller = createACPModeController({ modes, defaultMode: "plan" });
+		const switchMode = controller.createSwitchModeTool();
+
+		const result: Command = await switchMode.invoke(
+			{
+				id: "call-1",
+				name: SWITCH_MODE_TOOL_NAME,
+				args: { modeId: "code" },
+				type: "tool_call",
+			},
+			{ context: { sessionId: "session-1" } },
+		);
+
+		expect(switchMode.name).toBe(SWITCH_MODE_TOOL_NAME);
+		expect(result).toBeInstanceOf(Command);
+		expect(result.update).toMatchObject({
+			acp_mode: "code",
+			acp_requirePermission: true,
+		});
+		expect(controller.getMode("session-1")).toBe("code");
+	});
+
+	test("switch_mode tool does not treat the thread ID as a session ID", async () => {
+		const controller = createACPModeController({ modes, defaultMode: "plan" });
+		const switchMode = controller.createSwitchModeTool();
+
+		await switchMode.invoke(
+			{
+				id: "call-1",
+				name: SWITCH_MODE_TOOL_NAME,
+				args: { modeId: "code" },
+				type: "tool_call",
+			},
+			{ configurable: { thread_id: "thread-1" } },
+		);
+
+		expect(controller.getMode("thread-1")).toBe("plan");
+	});
+});
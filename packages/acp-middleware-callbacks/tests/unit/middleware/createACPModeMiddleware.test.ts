@@ -1,9 +1,51 @@
 import { describe, expect, mock, test } from "bun:test";
+import type { ToolMessage } from "langchain";
+import { createACPModeController } from "../../../src/middleware/createACPModeController";
 import {
 	createACPModeMiddleware,
 	STANDARD_MODES,
 } from "../../../src/middleware/createACPModeMiddleware";
 
+type ModeMiddleware = ReturnType<typeof createACPModeMiddleware>;
+
+interface ModeStateUpdate {
+	acp_mode?: string;
+	acp_allowedTools?: string[];
+	acp_requirePermission?: boolean;
+}
+
+interface ModelRequest {
+	tools: Array<{ name: string }>;
+}
+
+/**
+ * Runs a state hook whether it is declared as a function or as `{ hook }`.
+ */
+async function runStateHook(
+	hook: ModeMiddleware["beforeAgent"] | ModeMiddleware["beforeModel"],
+	state: object,
+	runtime: object,
+): Promise<ModeStateUpdate> {
+	const fn = typeof hook === "function" ? hook : hook?.hook;
+	return (await fn?.(state as never, runtime as never)) as ModeStateUpdate;
+}
+
+async function runWrapModelCall(
+	middleware: ModeMiddleware,
+	request: object,
+	handler: (request: ModelRequest) => Promise<unknown>,
+): Promise<unknown> {
+	return middleware.wrapModelCall?.(request as never, handler as never);
+}
+
+async function runWrapToolCall(
+	middleware: ModeMiddleware,
+	request: object,
+	handler: () => Promise<unknown>,
+): Promise<unknown> {
+	return middleware.wrapToolCall?.(request as never, handler as never);
+}
+
 describe("createACPModeMiddleware", () => {
 	describe("initialization", () => {
 		test("returns middleware object", () => {
@@ -130,6 +172,28 @@ describe("createACPModeMiddleware", () => {
 			expect(result.acp_mode).toBe("interactive");
 		});
 
+		test("extracts mode from context.acp_mode", async () => {
+			const middleware = createACPModeMiddleware({
+				modes: {
+					agentic: { systemPrompt: "Full autonomy." },
+					interactive: {
+						systemPrompt: "Interactive mode.",
+						requirePermission: true,
+					},
+				},
+				defaultMode: "agentic",
+			});
+
+			const result = await runStateHook(
+				middleware.beforeAgent,
+				{},
+				{ context: { acp_mode: "interactive" } },
+			);
+
+			expect(result.acp_mode).toBe("interactive");
+			expect(result.acp_requirePermission).toBe(true);
+		});
+
 		test("extracts mode from config.mode", async () => {
 			const middleware = createACPModeMiddleware({
 				modes: {
@@ -269,6 +333,220 @@ describe("createACPModeMiddleware", () => {
 		});
 	});
 
+	describe("tool enforcement", () => {
+		const modes = {
+			agentic: { systemPrompt: "Full autonomy." },
+			readonly: {
+				systemPrompt: "Read-only mode.",
+				allowedTools: ["read_file"],
+			},
+		};
+
+		test("binds only the tools allowed by the active mode", async () => {
+			const middleware = createACPModeMiddleware({
+				modes,
+				defaultMode: "agentic",
+			});
+			const handler = mock(async (request: ModelRequest) => request.tools);
+
+			const tools = await runWrapModelCall(
+				middleware,
+				{
+					tools: [{ name: "read_file" }, { name: "write_file" }],
+					state: { acp_mode: "readonly" },
+					runtime: { context: {} },
+				},
+				handler,
+			);
+
+			expect(tools).toEqual([{ name: "read_file" }]);
+		});
+
+		test("keeps every tool when the mode has no allowedTools", async () => {
+			const middleware = createACPModeMiddleware({
+				modes,
+				defaultMode: "readonly",
+			});
+			const handler = mock(async (request: ModelRequest) => request.tools);
+
+			const tools = await runWrapModelCall(
+				middleware,
+				{
+					tools: [{ name: "read_file" }, { name: "write_file" }],
+					state: {},
+					runtime: { context: { acp_mode: "agentic" } },
+				},
+				handler,
+			);
+
+			expect(tools).toHaveLength(2);
+		});
+
+		test("rejects calls to tools outside the active mode", async () => {
+			const middleware = createACPModeMiddleware({
+				modes,
+				defaultMode: "readonly",
+			});
+			const handler = mock(async () => "executed");
+
+			const rejected = (await runWrapToolCall(
+				middleware,
+				{
+					toolCall: { id: "call-1", name: "write_file", args: {} },
+					state: {},
+					runtime: { context: {} },
+				},
+				handler,
+			)) as ToolMessage;
+			const allowed = await runWrapToolCall(
+				middleware,
+				{
+					toolCall: { id: "call-2", name: "read_file", args: {} },
+					state: {},
+					runtime: { context: {} },
+				},
+				handler,
+			);
+
+			expect(handler).toHaveBeenCalledTimes(1);
+			expect(allowed).toBe("executed");
+			expect(rejected.tool_call_id).toBe("call-1");
+			expect(rejected.status).toBe("error");
+			expect(rejected.content).toBe(
+				'Tool "write_file" is not allowed in mode "readonly"',
+			);
+		});
+	});
+
+	describe("mode controller", () => {
+		test("uses the session's mode from the controller", async () => {
+			const controller = createACPModeController({
+				modes: {
+					agentic: { systemPrompt: "Full autonomy." },
+					readonly: { systemPrompt: "Read-only.", allowedTools: ["read_file"] },
+				},
+				defaultMode: "agentic",
+			});
+			await controller.setMode("session-1", "readonly");
+			const middleware = createACPModeMiddleware({ controller });
+
+			const result = await runStateHook(
+				middleware.beforeAgent,
+				{},
+				{ context: { sessionId: "session-1" } },
+			);
+
+			expect(result.acp_mode).toBe("readonly");
+		});
+
+		test("always allows the switch_mode tool", async () => {
+			const controller = createACPModeController({
+				modes: { readonly: { systemPrompt: "Read-only.", allowedTools: [] } },
+				defaultMode: "readonly",
+			});
+			const middleware = createACPModeMiddleware({ controller });
+			const handler = mock(async (request: ModelRequest) => request.tools);
+
+			const tools = await runWrapModelCall(
+				middleware,
+				{
+					tools: [{ name: "write_file" }, { name: "switch_mode" }],
+					state: {},
+					runtime: { context: {} },
+				},
+				handler,
+			);
+
+			expect(tools).toEqual([{ name: "switch_mode" }]);
+		});
+
+		test("applies a mode switched during the run to later tool calls", async () => {
+			const controller = createACPModeController({
+				modes: {
+					agentic: { systemPrompt: "Full autonomy." },
+					readonly: { systemPrompt: "Read-only.", allowedTools: ["read_file"] },
+				},
+				defaultMode: "agentic",
+			});
+			const middleware = createACPModeMiddleware({ controller });
+			const handler = mock(async () => "executed");
+			await controller.setMode("session-1", "readonly");
+
+			const result = (await runWrapToolCall(
+				middleware,
+				{
+					toolCall: { id: "call-1", name: "write_file", args: {} },
+					state: { acp_mode: "agentic" },
+					runtime: { context: { sessionId: "session-1" } },
+				},
+				handler,
+			)) as ToolMessage;
+
+			expect(handler).not.toHaveBeenCalled();
+			expect(result.content).toBe(
+				'Tool "write_file" is not allowed in mode "readonly"',
+			);
+		});
+
+		test("prefers the context mode over the controller's mode", async () => {
+			const controller = createACPModeController({
+				modes: {
+					agentic: { systemPrompt: "Full autonomy." },
+					readonly: { systemPrompt: "Read-only.", allowedTools: ["read_file"] },
+				},
+				defaultMode: "agentic",
+			});
+			await controller.setMode("session-1", "readonly");
+			const middleware = createACPModeMiddleware({ controller });
+			const handler = mock(async () => "executed");
+			const runtime = {
+				context: { sessionId: "session-1", acp_mode: "agentic" },
+			};
+
+			const result = await runStateHook(middleware.beforeAgent, {}, runtime);
+			const toolResult = await runWrapToolCall(
+				middleware,
+				{
+					toolCall: { id: "call-1", name: "write_file", args: {} },
+					state: { acp_mode: "readonly" },
+					runtime,
+				},
+				handler,
+			);
+
+			expect(result.acp_mode).toBe("agentic");
+			expect(toolResult).toBe("executed");
+		});
+
+		test("refreshes the mode state before each model call", async () => {
+			const controller = createACPModeController({
+				modes: {
+					agentic: { systemPrompt: "Full autonomy." },
+					readonly: {
+						systemPrompt: "Read-only.",
+						allowedTools: ["read_file"],
+						requirePermission: true,
+					},
+				},
+				defaultMode: "agentic",
+			});
+			const middleware = createACPModeMiddleware({ controller });
+			await controller.setMode("session-1", "readonly");
+
+			const result = await runStateHook(
+				middleware.beforeModel,
+				{ acp_mode: "agentic" },
+				{ context: { sessionId: "session-1" } },
+			);
+
+			expect(result).toEqual({
+				acp_mode: "readonly",
+				acp_allowedTools: ["read_file", "switch_mode"],
+				acp_requirePermission: true,
+			});
+		});
+	});
+
 	describe("session ID extraction", () => {
 		test("extracts session ID from config.configurable.session_id", async () => {
 			const middleware = createACPModeMiddleware({
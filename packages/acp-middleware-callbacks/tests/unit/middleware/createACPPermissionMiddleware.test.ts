@@ -1,8 +1,14 @@
 import { describe, expect, mock, test } from "bun:test";
+import type { AgentSideConnection } from "@agentclientprotocol/sdk";
 import {
 	createACPPermissionMiddleware,
 	type RequestPermissionOutcome,
 } from "../../../src/middleware/createACPPermissionMiddleware";
+import type { HITLRequest } from "../../../src/types/middleware";
+import {
+	createInMemoryPermissionDecisionStore,
+	fingerprintArgs,
+} from "../../../src/utils/permissionDecisionStore";
 
 // Test helper functions for creating mock runtime and state objects
 const createMockRuntime = (interruptMock: any) => ({
@@ -22,6 +28,37 @@ const createMockState = (tool_calls: any[]) => ({
 	],
 });
 
+interface AfterModelResult {
+	messages?: Array<{
+		content?: unknown;
+		tool_calls?: Array<{ id: string; name: string; args: object }>;
+	}>;
+	jumpTo?: string;
+}
+
+// Calls the afterModel hook whether it is declared as a function or as
+// { hook, canJumpTo }
+async function runAfterModel(
+	middleware: ReturnType<typeof createACPPermissionMiddleware>,
+	state: object,
+	runtime: object,
+): Promise<AfterModelResult | undefined> {
+	const afterModel = middleware.afterModel;
+	const hook = typeof afterModel === "function" ? afterModel : afterModel?.hook;
+	return (await hook?.(state as never, runtime as never)) as
+		| AfterModelResult
+		| undefined;
+}
+
+// Returns the HITL request passed to an interrupt() mock
+const getInterruptRequest = (
+	interruptMock: { mock: { calls: unknown[][] } },
+	index = 0,
+) => interruptMock.mock.calls[index]?.[0] as HITLRequest;
+
+const createTransport = () =>
+	({ sessionUpdate: mock(async () => {}) }) as unknown as AgentSideConnection;
+
 describe("createACPPermissionMiddleware", () => {
 	describe("initialization", () => {
 		test("throws error without permissionPolicy", () => {
@@ -160,6 +197,32 @@ describe("createACPPermissionMiddleware", () => {
 
 			expect(middleware).toBeDefined();
 		});
+
+		test("interrupts for tools matching a wildcard pattern", async () => {
+			const interruptMock = mock(async () => ({
+				decisions: [{ type: "approve" }],
+			}));
+
+			const middleware = createACPPermissionMiddleware({
+				permissionPolicy: { "delete_*": { requiresPermission: true } },
+				transport: createTransport(),
+			});
+
+			await runAfterModel(
+				middleware,
+				createMockState([
+					{ id: "call-1", name: "delete_file", args: {} },
+					{ id: "call-2", name: "read_file", args: {} },
+				]),
+				createMockRuntime(interruptMock),
+			);
+
+			expect(
+				getInterruptRequest(interruptMock).actionRequests.map(
+					(action) => action.name,
+				),
+			).toEqual(["delete_file"]);
+		});
 	});
 
 	describe("afterModel hook - no tool calls", () => {
@@ -730,6 +793,416 @@ describe("createACPPermissionMiddleware", () => {
 		});
 	});
 
+	describe("mode requirePermission", () => {
+		test("interrupts for every tool call when the mode requires permission", async () => {
+			const interruptMock = mock(async () => ({
+				decisions: [{ type: "approve" }, { type: "approve" }],
+			}));
+
+			const middleware = createACPPermissionMiddleware({
+				permissionPolicy: { read_file: { requiresPermission: false } },
+				transport: createTransport(),
+			});
+
+			const state = {
+				...createMockState([
+					{ id: "call-1", name: "read_file", args: { path: "/a.txt" } },
+					{ id: "call-2", name: "list_files", args: {} },
+				]),
+				acp_requirePermission: true,
+			};
+
+			await runAfterModel(middleware, state, createMockRuntime(interruptMock));
+
+			expect(interruptMock).toHaveBeenCalledTimes(1);
+			expect(
+				getInterruptRequest(interruptMock).actionRequests.map(
+					(action) => action.name,
+				),
+			).toEqual(["read_file", "list_files"]);
+		});
+
+		test("rejects calls to tools the mode does not allow without prompting", async () => {
+			const interruptMock = mock(async () => ({ decisions: [] }));
+
+			const middleware = createACPPermissionMiddleware({
+				permissionPolicy: { write_file: { requiresPermission: true } },
+				transport: createTransport(),
+			});
+
+			const state = {
+				...createMockState([
+					{ id: "call-1", name: "write_file", args: { path: "/a.txt" } },
+				]),
+				acp_mode: "readonly",
+				acp_allowedTools: ["read_file"],
+			};
+
+			const result = await runAfterModel(
+				middleware,
+				state,
+				createMockRuntime(interruptMock),
+			);
+
+			expect(interruptMock).not.toHaveBeenCalled();
+			expect(result?.jumpTo).toBe("model");
+			expect(result?.messages?.at(-2)?.tool_calls).toEqual([]);
+			expect(result?.messages?.at(-1)?.content).toMatchObject([
+				{
+					type: "content",
+					content: {
+						type: "text",
+						text: 'Tool "write_file" is not allowed in mode "readonly"',
+					},
+				},
+			]);
+		});
+	});
+
+	describe("argument rules", () => {
+		const permissionPolicy = {
+			bash: {
+				requiresPermission: true,
+				description: "Run a shell command",
+				rules: [
+					{
+						name: "destructive",
+						action: "deny" as const,
+						commandPrefixes: ["rm -rf"],
+					},
+					{ action: "allow" as const, commandPrefixes: ["ls"] },
+				],
+			},
+		};
+
+		test("denies, asks or allows based on the matching rule", async () => {
+			const interruptMock = mock(async () => ({
+				decisions: [{ type: "approve" }],
+			}));
+
+			const middleware = createACPPermissionMiddleware({
+				permissionPolicy,
+				transport: createTransport(),
+			});
+
+			const result = await runAfterModel(
+				middleware,
+				createMockState([
+					{ id: "call-1", name: "bash", args: { command: "ls -la" } },
+					{ id: "call-2", name: "bash", args: { command: "rm -rf /" } },
+					{ id: "call-3", name: "bash", args: { command: "make" } },
+				]),
+				createMockRuntime(interruptMock),
+			);
+
+			expect(
+				getInterruptRequest(interruptMock).actionRequests.map(
+					(action) => action.toolCallId,
+				),
+			).toEqual(["call-3"]);
+			expect(result?.messages?.[1]?.tool_calls?.map((call) => call.id)).toEqual(
+				["call-1", "call-3"],
+			);
+			expect(result?.messages?.[2]).toMatchObject({
+				tool_call_id: "call-2",
+				content: [
+					{
+						content: { text: "Permission denied by rule: destructive" },
+					},
+				],
+			});
+			expect(result?.jumpTo).toBe("model");
+		});
+
+		test("names the rule that triggered in the permission request", async () => {
+			const interruptMock = mock(async () => ({
+				decisions: [{ type: "approve" }],
+			}));
+
+			const middleware = createACPPermissionMiddleware({
+				permissionPolicy: {
+					bash: {
+						description: "Run a shell command",
+						rules: [{ action: "ask", commandPrefixes: ["git push"] }],
+					},
+				},
+				transport: createTransport(),
+			});
+
+			await runAfterModel(
+				middleware,
+				createMockState([
+					{ id: "call-1", name: "bash", args: { command: "git push" } },
+					{ id: "call-2", name: "bash", args: { command: "git status" } },
+				]),
+				createMockRuntime(interruptMock),
+			);
+
+			const request = getInterruptRequest(interruptMock);
+			expect(request.actionRequests).toHaveLength(1);
+			expect(request.actionRequests[0]?.description).toBe(
+				'Run a shell command (rule: command starts with "git push")',
+			);
+		});
+
+		test("mode requirePermission still asks for allowed calls", async () => {
+			const interruptMock = mock(async () => ({
+				decisions: [{ type: "approve" }],
+			}));
+
+			const middleware = createACPPermissionMiddleware({
+				permissionPolicy,
+				transport: createTransport(),
+			});
+
+			await runAfterModel(
+				middleware,
+				{
+					...createMockState([
+						{ id: "call-1", name: "bash", args: { command: "ls" } },
+					]),
+					acp_requirePermission: true,
+				},
+				createMockRuntime(interruptMock),
+			);
+
+			expect(interruptMock).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe("decision store", () => {
+		const transport = createTransport();
+
+		test("applies saved decisions without interrupting", async () => {
+			const decisionStore = createInMemoryPermissionDecisionStore();
+			await decisionStore.save({
+				scope: "session-1",
+				toolPattern: "write_*",
+				decision: "allow",
+			});
+			await decisionStore.save({
+				scope: "session-1",
+				toolPattern: "delete_file",
+				decision: "reject",
+			});
+			const interruptMock = mock(async () => ({ decisions: [] }));
+
+			const middleware = createACPPermissionMiddleware({
+				permissionPolicy: { "*": { requiresPermission: true } },
+				transport,
+				decisionStore,
+			});
+
+			const result = await runAfterModel(
+				middleware,
+				createMockState([
+					{ id: "call-1", name: "write_file", args: { path: "/a.txt" } },
+					{ id: "call-2", name: "delete_file", args: { path: "/b.txt" } },
+				]),
+				createMockRuntime(interruptMock),
+			);
+
+			expect(interruptMock).not.toHaveBeenCalled();
+			expect(result?.messages?.[1]?.tool_calls).toEqual([
+				{ id: "call-1", name: "write_file", args: { path: "/a.txt" } },
+			]);
+			expect(result?.messages?.[2]).toMatchObject({
+				role: "tool",
+				tool_call_id: "call-2",
+			});
+			expect(result?.jumpTo).toBe("model");
+		});
+
+		test("only asks for tool calls without a saved decision", async () => {
+			const decisionStore = createInMemoryPermissionDecisionStore();
+			await decisionStore.save({
+				scope: "session-1",
+				toolPattern: "read_file",
+				decision: "allow",
+			});
+			const interruptMock = mock(async () => ({
+				decisions: [{ type: "approve" }],
+			}));
+
+			const middleware = createACPPermissionMiddleware({
+				permissionPolicy: { "*": { requiresPermission: true } },
+				transport,
+				decisionStore,
+			});
+
+			const result = await runAfterModel(
+				middleware,
+				createMockState([
+					{ id: "call-1", name: "read_file", args: {} },
+					{ id: "call-2", name: "write_file", args: {} },
+				]),
+				createMockRuntime(interruptMock),
+			);
+
+			expect(
+				getInterruptRequest(interruptMock).actionRequests.map(
+					(action) => action.name,
+				),
+			).toEqual(["write_file"]);
+			expect(result?.messages?.[1]?.tool_calls?.map((call) => call.id)).toEqual(
+				["call-1", "call-2"],
+			);
+		});
+
+		test("asks for calls matched by a rule or forced by the mode despite saved decisions", async () => {
+			const decisionStore = createInMemoryPermissionDecisionStore();
+			await decisionStore.save({
+				scope: "session-1",
+				toolPattern: "*",
+				decision: "allow",
+			});
+			const interruptMock = mock(async () => ({
+				decisions: [{ type: "reject" }, { type: "reject" }],
+			}));
+
+			const middleware = createACPPermissionMiddleware({
+				permissionPolicy: {
+					bash: {
+						requiresPermission: true,
+						rules: [{ action: "ask", commandPrefixes: ["git push"] }],
+					},
+					write_file: { requiresPermission: true },
+				},
+				transport,
+				decisionStore,
+			});
+
+			const result = await runAfterModel(
+				middleware,
+				{
+					...createMockState([
+						{ id: "call-1", name: "bash", args: { command: "git push" } },
+						{ id: "call-2", name: "write_file", args: { path: "/a.txt" } },
+						{ id: "call-3", name: "read_file", args: { path: "/b.txt" } },
+					]),
+					acp_requirePermission: true,
+				},
+				createMockRuntime(interruptMock),
+			);
+
+			expect(
+				getInterruptRequest(interruptMock).actionRequests.map(
+					(action) => action.toolCallId,
+				),
+			).toEqual(["call-1", "call-3"]);
+			expect(result?.messages?.[1]?.tool_calls?.map((call) => call.id)).toEqual(
+				["call-2"],
+			);
+		});
+
+		test("saves decisions resumed with persist", async () => {
+			const decisionStore = createInMemoryPermissionDecisionStore();
+			const interruptMock = mock(async () => ({
+				decisions: [
+					{ type: "approve", persist: true },
+					{ type: "reject", persist: true },
+					{ type: "approve" },
+				],
+			}));
+
+			const middleware = createACPPermissionMiddleware({
+				permissionPolicy: { "*": { requiresPermission: true } },
+				transport,
+				decisionStore,
+				argsFingerprint: true,
+			});
+
+			await runAfterModel(
+				middleware,
+				createMockState([
+					{ id: "call-1", name: "read_file", args: { path: "/a.txt" } },
+					{ id: "call-2", name: "delete_file", args: { path: "/b.txt" } },
+					{ id: "call-3", name: "write_file", args: {} },
+				]),
+				createMockRuntime(interruptMock),
+			);
+
+			expect(
+				(await decisionStore.list("session-1")).map((record) => [
+					record.toolPattern,
+					record.argsFingerprint,
+					record.decision,
+				]),
+			).toEqual([
+				["read_file", fingerprintArgs({ path: "/a.txt" }), "allow"],
+				["delete_file", fingerprintArgs({ path: "/b.txt" }), "reject"],
+			]);
+		});
+
+		test("does not save decisions on argument rule prompts", async () => {
+			const decisionStore = createInMemoryPermissionDecisionStore();
+			const interruptMock = mock(async () => ({
+				decisions: [
+					{ type: "approve", persist: true },
+					{ type: "approve", persist: true },
+				],
+			}));
+
+			const middleware = createACPPermissionMiddleware({
+				permissionPolicy: {
+					bash: {
+						requiresPermission: true,
+						rules: [{ action: "ask", commandPrefixes: ["git push"] }],
+					},
+					write_file: { requiresPermission: true },
+				},
+				transport,
+				decisionStore,
+			});
+
+			await runAfterModel(
+				middleware,
+				createMockState([
+					{ id: "call-1", name: "bash", args: { command: "git push" } },
+					{ id: "call-2", name: "write_file", args: { path: "/a.txt" } },
+				]),
+				createMockRuntime(interruptMock),
+			);
+
+			expect(
+				getInterruptRequest(interruptMock).reviewConfigs.map(
+					(reviewConfig) => reviewConfig.allowPersist,
+				),
+			).toEqual([false, true]);
+			expect(
+				(await decisionStore.list("session-1")).map(
+					(record) => record.toolPattern,
+				),
+			).toEqual(["write_file"]);
+		});
+
+		test("keys project-scoped decisions by the session's cwd", async () => {
+			const decisionStore = createInMemoryPermissionDecisionStore();
+			const interruptMock = mock(async () => ({
+				decisions: [{ type: "approve", persist: true }],
+			}));
+
+			const middleware = createACPPermissionMiddleware({
+				permissionPolicy: { "*": { requiresPermission: true } },
+				transport,
+				decisionStore,
+				decisionScope: "project",
+			});
+
+			await runAfterModel(
+				middleware,
+				createMockState([{ id: "call-1", name: "read_file", args: {} }]),
+				{
+					context: { sessionId: "session-1", cwd: "/work/project" },
+					interrupt: interruptMock,
+				},
+			);
+
+			expect(await decisionStore.list("/work/project")).toHaveLength(1);
+			expect(await decisionStore.list("session-1")).toEqual([]);
+		});
+	});
+
 	describe("afterModel hook - interrupt control", () => {
 		test("does NOT call interrupt when all tools are auto-approved", async () => {
 			const extNotificationMock = mock(() => {});
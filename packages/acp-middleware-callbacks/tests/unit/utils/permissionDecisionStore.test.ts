@@ -0,0 +1,183 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { InMemoryStore } from "@langchain/langgraph";
+import {
+	createBaseStorePermissionDecisionStore,
+	createFilePermissionDecisionStore,
+	createInMemoryPermissionDecisionStore,
+	fingerprintArgs,
+	matchesToolPattern,
+	type PermissionDecisionStore,
+} from "../../../src/utils/permissionDecisionStore";
+
+describe("matchesToolPattern", () => {
+	test("matches exact names and wildcards", () => {
+		expect(matchesToolPattern("read_file", "read_file")).toBe(true);
+		expect(matchesToolPattern("read_file", "*")).toBe(true);
+		expect(matchesToolPattern("delete_file", "delete_*")).toBe(true);
+		expect(matchesToolPattern("write_file", "*_file")).toBe(true);
+		expect(matchesToolPattern("read_dir", "*_file")).toBe(false);
+	});
+
+	test("treats other characters literally", () => {
+		expect(matchesToolPattern("mcp.read", "mcp.*")).toBe(true);
+		expect(matchesToolPattern("mcpxread", "mcp.*")).toBe(false);
+	});
+});
+
+describe("fingerprintArgs", () => {
+	test("ignores key order", () => {
+		expect(fingerprintArgs({ a: 1, b: { c: [1, 2], d: "x" } })).toBe(
+			fingerprintArgs({ b: { d: "x", c: [1, 2] }, a: 1 }),
+		);
+		expect(fingerprintArgs({ a: 1 })).not.toBe(fingerprintArgs({ a: 2 }));
+	});
+});
+
+const tempDirs: string[] = [];
+
+afterEach(async () => {
+	await Promise.all(
+		tempDirs.splice(0).map((dir) => rm(dir, { recursive: true, force: true })),
+	);
+});
+
+async function createTempFile(): Promise<string> {
+	const dir = await mkdtemp(join(tmpdir(), "acp-decisions-"));
+	tempDirs.push(dir);
+	return join(dir, "nested", "permissions.json");
+}
+
+const stores: Array<[string, () => Promise<PermissionDecisionStore>]> = [
+	["in-memory", async () => createInMemoryPermissionDecisionStore()],
+	[
+		"file",
+		async () => createFilePermissionDecisionStore(await createTempFile()),
+	],
+	[
+		"BaseStore",
+		async () => createBaseStorePermissionDecisionStore(new InMemoryStore()),
+	],
+];
+
+for (const [name, createStore] of stores) {
+	describe(`${name} permission decision store`, () => {
+		test("finds decisions by scope and tool pattern", async () => {
+			const store = await createStore();
+			await store.save({
+				scope: "session-1",
+				toolPattern: "read_*",
+				decision: "allow",
+			});
+
+			expect(
+				await store.find({ scope: "session-1", toolName: "read_file" }),
+			).toMatchObject({ toolPattern: "read_*", decision: "allow" });
+			expect(
+				await store.find({ scope: "session-2", toolName: "read_file" }),
+			).toBeUndefined();
+			expect(
+				await store.find({ scope: "session-1", toolName: "write_file" }),
+			).toBeUndefined();
+		});
+
+		test("prefers fingerprinted decisions and rejections", async () => {
+			const store = await createStore();
+			const fingerprint = fingerprintArgs({ path: "/tmp/a.txt" });
+			await store.save({
+				scope: "project",
+				toolPattern: "write_file",
+				decision: "allow",
+			});
+			await store.save({
+				scope: "project",
+				toolPattern: "write_*",
+				decision: "reject",
+			});
+			await store.save({
+				scope: "project",
+				toolPattern: "write_file",
+				argsFingerprint: fingerprint,
+				decision: "allow",
+			});
+
+			expect(
+				await store.find({
+					scope: "project",
+					toolName: "write_file",
+					argsFingerprint: fingerprint,
+				}),
+			).toMatchObject({ argsFingerprint: fingerprint, decision: "allow" });
+			expect(
+				await store.find({
+					scope: "project",
+					toolName: "write_file",
+					argsFingerprint: fingerprintArgs({ path: "/etc/passwd" }),
+				}),
+			).toMatchObject({ toolPattern: "write_*", decision: "reject" });
+		});
+
+		test("replaces, lists and revokes decisions", async () => {
+			const store = await createStore();
+			await store.save({
+				scope: "session-1",
+				toolPattern: "read_file",
+				decision: "reject",
+			});
+			const saved = await store.save({
+				scope: "session-1",
+				toolPattern: "read_file",
+				decision: "allow",
+			});
+			await store.save({
+				scope: "session-2",
+				toolPattern: "read_file",
+				decision: "allow",
+			});
+
+			expect(await store.list()).toHaveLength(2);
+			expect(await store.list("session-1")).toEqual([saved]);
+
+			expect(await store.revoke(saved.id)).toBe(true);
+			expect(await store.revoke(saved.id)).toBe(false);
+			expect(await store.list("session-1")).toEqual([]);
+		});
+	});
+}
+
+describe("createFilePermissionDecisionStore", () => {
+	test("persists decisions across store instances", async () => {
+		const filePath = await createTempFile();
+		const first = createFilePermissionDecisionStore(filePath);
+		await Promise.all([
+			first.save({ scope: "p", toolPattern: "a", decision: "allow" }),
+			first.save({ scope: "p", toolPattern: "b", decision: "reject" }),
+		]);
+
+		const second = createFilePermissionDecisionStore(filePath);
+
+		expect(await second.list("p")).toHaveLength(2);
+		expect(JSON.parse(await readFile(filePath, "utf8")).decisions).toHaveLength(
+			2,
+		);
+	});
+
+	test("reads wait for pending saves and leave no temporary files", async () => {
+		const filePath = await createTempFile();
+		const store = createFilePermissionDecisionStore(filePath);
+
+		const saved = store.save({
+			scope: "p",
+			toolPattern: "a",
+			decision: "allow",
+		});
+
+		expect(await store.find({ scope: "p", toolName: "a" })).toMatchObject({
+			decision: "allow",
+		});
+		expect(await store.list("p")).toEqual([await saved]);
+		expect(await readdir(dirname(filePath))).toEqual(["permissions.json"]);
+	});
+});
@@ -0,0 +1,194 @@
+import { describe, expect, test } from "bun:test";
+import type { PermissionRule } from "../../../src/types/middleware";
+import { evaluatePermissionRules } from "../../../src/utils/permissionRules";
+
+const bashRules: PermissionRule[] = [
+	{ name: "destructive", action: "deny", commandPrefixes: ["rm -rf"] },
+	{ action: "ask", commandPrefixes: ["git push"] },
+	{ action: "allow", commandPrefixes: ["ls", "cat", "git status"] },
+];
+
+describe("evaluatePermissionRules", () => {
+	describe("command prefixes", () => {
+		test("resolves to the first matching rule", () => {
+			expect(
+				evaluatePermissionRules(bashRules, { command: "ls -la" })?.action,
+			).toBe("allow");
+			expect(
+				evaluatePermissionRules(bashRules, {
+					command: "git  push origin main",
+				}),
+			).toMatchObject({
+				action: "ask",
+				label: 'command starts with "git push"',
+			});
+			expect(
+				evaluatePermissionRules(bashRules, { command: "rm -rf build" }),
+			).toMatchObject({ action: "deny", label: "destructive" });
+		});
+
+		test("matches whole words only", () => {
+			expect(
+				evaluatePermissionRules(bashRules, { command: "lsof -i" }),
+			).toBeUndefined();
+		});
+
+		test("checks every chained command", () => {
+			expect(
+				evaluatePermissionRules(bashRules, {
+					command: "ls && rm -rf /",
+				})?.action,
+			).toBe("deny");
+			expect(
+				evaluatePermissionRules(bashRules, {
+					command: "ls | cat; git status",
+				})?.action,
+			).toBe("allow");
+			expect(
+				evaluatePermissionRules(bashRules, { command: "ls; make" }),
+			).toBeUndefined();
+		});
+
+		test("never allows command substitution", () => {
+			expect(
+				evaluatePermissionRules(bashRules, { command: "cat $(make)" }),
+			).toBeUndefined();
+			expect(
+				evaluatePermissionRules(bashRules, { command: "ls `make`" }),
+			).toBeUndefined();
+		});
+
+		test("checks commands inside substitutions and subshells", () => {
+			for (const command of [
+				"echo $(rm -rf /)",
+				"echo `rm -rf /`",
+				'echo "$(ls; rm -rf /)"',
+				"diff <(rm -rf /) b",
+				"(rm -rf /)",
+			]) {
+				expect(evaluatePermissionRules(bashRules, { command })?.action).toBe(
+					"deny",
+				);
+			}
+			expect(
+				evaluatePermissionRules(bashRules, {
+					command: "echo $(git push origin main)",
+				})?.action,
+			).toBe("ask");
+		});
+
+		test("never allows redirections or here-documents", () => {
+			for (const command of [
+				"cat > ~/.bashrc",
+				"ls >> notes.txt",
+				"cat < /etc/shadow",
+				"cat <<EOF > run.sh",
+			]) {
+				expect(evaluatePermissionRules(bashRules, { command })).toBeUndefined();
+			}
+			expect(
+				evaluatePermissionRules(bashRules, { command: "rm -rf / > /dev/null" })
+					?.action,
+			).toBe("deny");
+		});
+
+		test("reads the command from commandField", () => {
+			const rules: PermissionRule[] = [
+				{ action: "deny", commandPrefixes: ["curl"], commandField: "cmd" },
+			];
+
+			expect(
+				evaluatePermissionRules(rules, { cmd: "curl example.com" })?.action,
+			).toBe("deny");
+			expect(
+				evaluatePermissionRules(rules, { command: "curl example.com" }),
+			).toBeUndefined();
+		});
+	});
+
+	describe("path within directory", () => {
+		const rules: PermissionRule[] = [
+			{ name: "system", action: "deny", pathWithin: ["/etc"] },
+			{ action: "allow", pathWithin: ["."] },
+		];
+
+		test("resolves relative paths against cwd", () => {
+			expect(
+				evaluatePermissionRules(rules, { path: "src/a.ts" }, "/work/project")
+					?.action,
+			).toBe("allow");
+			expect(
+				evaluatePermissionRules(
+					rules,
+					{ path: "/work/project-other/a.ts" },
+					"/work/project",
+				),
+			).toBeUndefined();
+			expect(
+				evaluatePermissionRules(rules, { path: "../a.ts" }, "/work/project"),
+			).toBeUndefined();
+		});
+
+		test("allows only when every path is within", () => {
+			expect(
+				evaluatePermissionRules(
+					rules,
+					{ sourcePath: "a.ts", targetPath: "/tmp/a.ts" },
+					"/work/project",
+				),
+			).toBeUndefined();
+			expect(
+				evaluatePermissionRules(
+					rules,
+					{ sourcePath: "/etc/hosts", targetPath: "a.ts" },
+					"/work/project",
+				),
+			).toMatchObject({ action: "deny", label: "system" });
+		});
+
+		test("does not match without paths", () => {
+			expect(
+				evaluatePermissionRules(rules, { query: "x" }, "/work/project"),
+			).toBeUndefined();
+		});
+	});
+
+	describe("argument matchers", () => {
+		test("matches globs and regexes on fields", () => {
+			const rules: PermissionRule[] = [
+				{ action: "deny", args: { url: /^http:/ } },
+				{ action: "allow", args: { url: "https://*.example.com/*" } },
+			];
+
+			expect(
+				evaluatePermissionRules(rules, { url: "http://example.com" })?.action,
+			).toBe("deny");
+			expect(
+				evaluatePermissionRules(rules, {
+					url: "https://docs.example.com/page",
+				})?.action,
+			).toBe("allow");
+			expect(
+				evaluatePermissionRules(rules, { url: "https://example.org/" }),
+			).toBeUndefined();
+		});
+
+		test("requires every matcher of a rule to match", () => {
+			const rules: PermissionRule[] = [
+				{
+					action: "ask",
+					args: { method: "POST" },
+					pathWithin: ["/srv"],
+				},
+			];
+
+			expect(
+				evaluatePermissionRules(rules, { method: "POST", path: "/srv/a" })
+					?.action,
+			).toBe("ask");
+			expect(
+				evaluatePermissionRules(rules, { method: "GET", path: "/srv/a" }),
+			).toBeUndefined();
+		});
+	});
+});
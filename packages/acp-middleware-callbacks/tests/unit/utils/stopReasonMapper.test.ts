@@ -43,6 +43,12 @@ describe("mapToStopReason", () => {
 			expect(mapToStopReason({ modelRefused: true })).toBe("refusal");
 		});
 
+		test("returns 'refusal' when llmOutput.stop_reason is 'refusal'", () => {
+			expect(mapToStopReason({ llmOutput: { stop_reason: "refusal" } })).toBe(
+				"refusal",
+			);
+		});
+
 		test("refusal takes priority over token limit", () => {
 			const state = {
 				refusal: true,
@@ -59,6 +65,12 @@ describe("mapToStopReason", () => {
 			);
 		});
 
+		test("returns 'max_tokens' when llmOutput.stop_reason is 'max_tokens'", () => {
+			expect(
+				mapToStopReason({ llmOutput: { stop_reason: "max_tokens" } }),
+			).toBe("max_tokens");
+		});
+
 		test("returns 'max_tokens' when llmOutput.finish_reason is 'context_length'", () => {
 			expect(
 				mapToStopReason({ llmOutput: { finish_reason: "context_length" } }),
@@ -0,0 +1,198 @@
+import type {
+  AuditOperation,
+  AuditOutcome,
+  AuditRecord,
+  AuditSink,
+  VFSServices,
+} from "@/presentation/index";
+
+export interface AuditContext {
+  threadId: string;
+  runId?: string;
+  toolName?: string;
+  toolCallId?: string;
+}
+
+interface AuditCall<T> {
+  operation: AuditOperation;
+  path?: string;
+  targetPath?: string;
+  bytesWritten?: number;
+  measureRead?: (result: T) => number;
+  changedPaths?: (result: T) => AuditedPath[];
+}
+
+interface AuditedPath {
+  path: string;
+  targetPath?: string;
+}
+
+export function createAuditedServices(
+  services: VFSServices,
+  sink: AuditSink | undefined,
+  context: AuditContext
+): VFSServices {
+  if (sink === undefined) {
+    return services;
+  }
+
+  const mountOf = (path: string | undefined): string | undefined => {
+    if (path === undefined) {
+      return undefined;
+    }
+
+    try {
+      return services.resolve(path).mount.prefix;
+    } catch {
+      return undefined;
+    }
+  };
+
+  const audited = async <T>(
+    call: AuditCall<T>,
+    invoke: () => Promise<T>
+  ): Promise<T> => {
+    const base = {
+      ...context,
+      operation: call.operation,
+      path: call.path,
+      targetPath: call.targetPath,
+      mount: mountOf(call.path),
+    };
+
+    try {
+      const result = await invoke();
+      const changed = call.changedPaths?.(result) ?? [];
+
+      if (changed.length === 0) {
+        await emit(sink, {
+          ...base,
+          timestamp: new Date().toISOString(),
+          outcome: "allowed",
+          bytesRead: call.measureRead?.(result),
+          bytesWritten: call.bytesWritten,
+        });
+      }
+
+      for (const { path, targetPath } of changed) {
+        await emit(sink, {
+          ...base,
+          path,
+          targetPath,
+          mount: mountOf(path),
+          timestamp: new Date().toISOString(),
+          outcome: "allowed",
+        });
+      }
+
+      return result;
+    } catch (error) {
+      await emit(sink, {
+        ...base,
+        timestamp: new Date().toISOString(),
+        outcome: toAuditOutcome(error),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  };
+
+  return {
+    resolve: (path) => services.resolve(path),
+    read: (key) =>
+      audited(
+        {
+          operation: "read",
+          path: key,
+          measureRead: (content: string) => Buffer.byteLength(content, "utf8"),
+        },
+        () => services.read(key)
+      ),
+    readBytes: (key) =>
+      audited(
+        {
+          operation: "readBytes",
+          path: key,
+          measureRead: (content) => content.data.length,
+        },
+        () => services.readBytes(key)
+      ),
+    write: (key, content, writeOptions) =>
+      audited(
+        {
+          operation: "write",
+          path: key,
+          bytesWritten: Buffer.byteLength(content, "utf8"),
+        },
+        () => services.write(key, content, writeOptions)
+      ),
+    writeBytes: (key, data, writeOptions) =>
+      audited(
+        { operation: "writeBytes", path: key, bytesWritten: data.length },
+        () => services.writeBytes(key, data, writeOptions)
+      ),
+    edit: (key, oldStr, newStr, replaceAll, editOptions) =>
+      audited(
+        {
+          operation: "edit",
+          path: key,
+          bytesWritten: Buffer.byteLength(newStr, "utf8"),
+        },
+        () => services.edit(key, oldStr, newStr, replaceAll, editOptions)
+      ),
+    list: (key) =>
+      audited({ operation: "list", path: key }, () => services.list(key)),
+    stat: (key) =>
+      audited({ operation: "stat", path: key }, () => services.stat(key)),
+    delete: (key, deleteOptions) =>
+      audited({ operation: "delete", path: key }, () =>
+        services.delete(key, deleteOptions)
+      ),
+    move: (fromKey, toKey) =>
+      audited({ operation: "move", path: fromKey, targetPath: toKey }, () =>
+        services.move(fromKey, toKey)
+      ),
+    mkdir: (key) =>
+      audited({ operation: "mkdir", path: key }, () => services.mkdir(key)),
+    search: (path, pattern, searchOptions) =>
+      audited({ operation: "search", path }, () =>
+        services.search(path, pattern, searchOptions)
+      ),
+    applyPatch: (patch, patchOptions) =>
+      audited(
+        {
+          operation: "applyPatch",
+          path: patchOptions?.root,
+          bytesWritten: Buffer.byteLength(patch, "utf8"),
+          changedPaths: (result) =>
+            result.applied && !result.dryRun
+              ? result.files.map((file) =>
+                  file.previousPath === undefined
+                    ? { path: file.path }
+                    : { path: file.previousPath, targetPath: file.path }
+                )
+              : [],
+        },
+        () => services.applyPatch(patch, patchOptions)
+      ),
+  };
+}
+
+function toAuditOutcome(error: unknown): AuditOutcome {
+  if (
+    error instanceof Error &&
+    (error.name === "AccessDeniedError" || error.name === "PathTraversalError")
+  ) {
+    return error.name;
+  }
+
+  return "error";
+}
+
+async function emit(sink: AuditSink, record: AuditRecord): Promise<void> {
+  try {
+    await sink(record);
+  } catch {
+    // A broken audit sink must not change the outcome of the operation.
+  }
+}
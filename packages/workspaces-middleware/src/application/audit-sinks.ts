@@ -0,0 +1,42 @@
+import { randomUUID } from "node:crypto";
+import { appendFile, mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+
+import {
+  type BaseStoreLike,
+  buildBaseStoreKey,
+} from "@/infrastructure/virtual-store";
+import type { AuditSink } from "@/presentation/index";
+
+const DEFAULT_AUDIT_NAMESPACE = ["workspaces", "audit"];
+
+export function createJsonlAuditSink(filePath: string): AuditSink {
+  let pending: Promise<void> = mkdir(dirname(filePath), {
+    recursive: true,
+  }).then(() => undefined);
+
+  return (record) => {
+    const write = pending.then(() =>
+      appendFile(filePath, `${JSON.stringify(record)}\n`, "utf8")
+    );
+    pending = write.catch(() => undefined);
+
+    return write;
+  };
+}
+
+export function createBaseStoreAuditSink(
+  store: BaseStoreLike,
+  options: { namespace?: string[] } = {}
+): AuditSink {
+  const namespace = options.namespace ?? DEFAULT_AUDIT_NAMESPACE;
+
+  return async (record) => {
+    await store.mset([
+      [
+        buildBaseStoreKey(namespace, `${record.timestamp}:${randomUUID()}`),
+        JSON.stringify(record),
+      ],
+    ]);
+  };
+}
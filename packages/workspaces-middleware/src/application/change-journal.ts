@@ -0,0 +1,145 @@
+import { createHash, randomUUID } from "node:crypto";
+
+import type {
+  ChangeJournal,
+  ChangeJournalOptions,
+  JournalEntry,
+  VFSServices,
+} from "@/presentation/index";
+
+const DEFAULT_MAX_ENTRIES_PER_THREAD = 1000;
+
+export function createChangeJournal(
+  options: ChangeJournalOptions = {}
+): ChangeJournal {
+  const captureContent = options.captureContent ?? true;
+  const maxEntriesPerThread =
+    options.maxEntriesPerThread ?? DEFAULT_MAX_ENTRIES_PER_THREAD;
+  const entriesByThread = new Map<string, JournalEntry[]>();
+  const servicesByEntry = new Map<string, VFSServices>();
+
+  const removeEntry = (entry: JournalEntry): void => {
+    const threadEntries = entriesByThread.get(entry.threadId) ?? [];
+    entriesByThread.set(
+      entry.threadId,
+      threadEntries.filter((candidate) => candidate.id !== entry.id)
+    );
+    servicesByEntry.delete(entry.id);
+  };
+
+  const revertEntries = async (
+    entries: JournalEntry[]
+  ): Promise<JournalEntry[]> => {
+    const reverted: JournalEntry[] = [];
+
+    for (const entry of entries) {
+      const services = servicesByEntry.get(entry.id);
+
+      if (services === undefined) {
+        throw new Error(
+          `Journal entry '${entry.id}' can no longer be reverted`
+        );
+      }
+
+      await revertEntry(entry, services);
+      removeEntry(entry);
+      reverted.push(entry);
+    }
+
+    return reverted;
+  };
+
+  return {
+    record({ threadId, runId, change, services }) {
+      const entry: JournalEntry = {
+        id: randomUUID(),
+        threadId,
+        runId,
+        path: change.path,
+        operation: change.operation,
+        beforeHash:
+          change.before === undefined ? undefined : hashContent(change.before),
+        afterHash:
+          change.after === undefined ? undefined : hashContent(change.after),
+        previousContent: captureContent ? change.before : undefined,
+        timestamp: new Date().toISOString(),
+      };
+      const threadEntries = [...(entriesByThread.get(threadId) ?? []), entry];
+
+      for (const evicted of threadEntries.splice(
+        0,
+        Math.max(0, threadEntries.length - maxEntriesPerThread)
+      )) {
+        servicesByEntry.delete(evicted.id);
+      }
+
+      entriesByThread.set(threadId, threadEntries);
+      servicesByEntry.set(entry.id, services);
+
+      return entry;
+    },
+
+    entries(threadId) {
+      return [...(entriesByThread.get(threadId) ?? [])];
+    },
+
+    async undo(threadId, count = 1) {
+      const threadEntries = entriesByThread.get(threadId) ?? [];
+      const latest = threadEntries.slice(-count).reverse();
+
+      return await revertEntries(latest);
+    },
+
+    async revertRun(runId) {
+      const runEntries = [...entriesByThread.values()]
+        .flat()
+        .filter((entry) => entry.runId === runId)
+        .reverse();
+
+      return await revertEntries(runEntries);
+    },
+  };
+}
+
+function hashContent(content: string | Uint8Array): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+async function revertEntry(
+  entry: JournalEntry,
+  services: VFSServices
+): Promise<void> {
+  const metadata = await services.stat(entry.path);
+  const current =
+    metadata.exists && !metadata.isDirectory
+      ? (await services.readBytes(entry.path)).data
+      : undefined;
+
+  if (
+    (current === undefined ? undefined : hashContent(current)) !==
+    entry.afterHash
+  ) {
+    throw new Error(
+      `Cannot revert ${entry.path}: file changed after it was journaled`
+    );
+  }
+
+  if (entry.beforeHash === undefined) {
+    if (current !== undefined) {
+      await services.delete(entry.path);
+    }
+    return;
+  }
+
+  if (entry.previousContent === undefined) {
+    throw new Error(
+      `Cannot revert ${entry.path}: previous content was not captured`
+    );
+  }
+
+  if (typeof entry.previousContent === "string") {
+    await services.write(entry.path, entry.previousContent);
+  } else {
+    await services.writeBytes(entry.path, entry.previousContent);
+  }
+}
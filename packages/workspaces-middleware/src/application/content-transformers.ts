@@ -0,0 +1,141 @@
+import type {
+  ContentTransformContext,
+  ContentTransformer,
+  EntropyRedactorOptions,
+  RedactionRule,
+} from "@/presentation/index";
+
+const SECRET_CANDIDATE_PATTERN = /[A-Za-z0-9+/=_-]+/g;
+const DIGIT_PATTERN = /\d/;
+const LETTER_PATTERN = /[A-Za-z]/;
+const LINE_ENDING_PATTERN = /\r\n?/g;
+const LINE_FEED_PATTERN = /\n/g;
+const DEFAULT_ENTROPY_MIN_LENGTH = 24;
+const DEFAULT_ENTROPY_THRESHOLD = 4;
+
+const DEFAULT_REDACTION_RULES: RedactionRule[] = [
+  {
+    name: "private-key",
+    pattern:
+      /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  },
+  { name: "aws-access-key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { name: "github-token", pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g },
+  { name: "slack-token", pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { name: "api-key", pattern: /\bsk-[A-Za-z0-9_-]{20,}/g },
+  {
+    name: "email",
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+  },
+];
+
+export interface TransformedContent {
+  content: string;
+  redactions: number;
+}
+
+export async function runContentTransformers(
+  transformers: ContentTransformer[],
+  content: string,
+  context: ContentTransformContext
+): Promise<TransformedContent> {
+  let current = content;
+  let redactions = 0;
+
+  for (const transformer of transformers) {
+    const result = await transformer(current, context);
+
+    if (typeof result === "string") {
+      current = result;
+    } else {
+      current = result.content;
+      redactions += result.redactions ?? 0;
+    }
+  }
+
+  return { content: current, redactions };
+}
+
+export function createRegexRedactor(
+  rules: RedactionRule[] = DEFAULT_REDACTION_RULES
+): ContentTransformer {
+  const compiled = rules.map((rule) => ({
+    pattern: new RegExp(
+      rule.pattern.source,
+      rule.pattern.flags.includes("g")
+        ? rule.pattern.flags
+        : `${rule.pattern.flags}g`
+    ),
+    replacement: rule.replacement ?? `[REDACTED:${rule.name}]`,
+  }));
+
+  return (content) => {
+    let redactions = 0;
+    let redacted = content;
+
+    for (const { pattern, replacement } of compiled) {
+      redacted = redacted.replace(pattern, () => {
+        redactions += 1;
+        return replacement;
+      });
+    }
+
+    return { content: redacted, redactions };
+  };
+}
+
+export function createEntropyRedactor(
+  options: EntropyRedactorOptions = {}
+): ContentTransformer {
+  const minLength = options.minLength ?? DEFAULT_ENTROPY_MIN_LENGTH;
+  const threshold = options.threshold ?? DEFAULT_ENTROPY_THRESHOLD;
+  const replacement = options.replacement ?? "[REDACTED:high-entropy]";
+
+  return (content) => {
+    let redactions = 0;
+    const redacted = content.replace(SECRET_CANDIDATE_PATTERN, (token) => {
+      if (
+        token.length < minLength ||
+        !DIGIT_PATTERN.test(token) ||
+        !LETTER_PATTERN.test(token) ||
+        shannonEntropy(token) < threshold
+      ) {
+        return token;
+      }
+
+      redactions += 1;
+      return replacement;
+    });
+
+    return { content: redacted, redactions };
+  };
+}
+
+export function normalizeLineEndings(
+  style: "lf" | "crlf" = "lf"
+): ContentTransformer {
+  return (content) => {
+    const normalized = content.replace(LINE_ENDING_PATTERN, "\n");
+
+    return style === "lf"
+      ? normalized
+      : normalized.replace(LINE_FEED_PATTERN, "\r\n");
+  };
+}
+
+function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+
+  for (const character of value) {
+    counts.set(character, (counts.get(character) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+
+  for (const count of counts.values()) {
+    const probability = count / value.length;
+    entropy -= probability * Math.log2(probability);
+  }
+
+  return entropy;
+}
@@ -0,0 +1,220 @@
+import { lstat } from "node:fs/promises";
+import { join as joinRootDir } from "node:path";
+import { join } from "node:path/posix";
+
+import { buildVFSServices } from "@/application/tool-synthesizer";
+import { isOperationAllowed, type OperationType } from "@/domain/access-guard";
+import { AccessDeniedError } from "@/domain/errors";
+import {
+  coerceAbsoluteLogicalPath,
+  isLogicalPathWithin,
+  validateFilePath,
+} from "@/domain/vfs-router";
+import type { BaseStoreLike } from "@/infrastructure/virtual-store";
+import type {
+  DelegatedFile,
+  DelegationGrant,
+  MountConfig,
+} from "@/presentation/index";
+
+export const DEFAULT_SCRATCH_PREFIX = "/scratch";
+
+const ALL_OPERATIONS: OperationType[] = [
+  "read",
+  "write",
+  "edit",
+  "list",
+  "search",
+  "delete",
+  "move",
+];
+
+export async function narrowGrantedMounts(
+  parentMounts: MountConfig[],
+  grants: DelegationGrant[],
+  scratchPrefix = DEFAULT_SCRATCH_PREFIX
+): Promise<MountConfig[]> {
+  const narrowed = grants.map(async (grant) => {
+    const path = coerceAbsoluteLogicalPath(grant.path);
+
+    if (
+      isLogicalPathWithin(path, scratchPrefix) ||
+      isLogicalPathWithin(scratchPrefix, path)
+    ) {
+      throw new AccessDeniedError(
+        `Grant '${path}' overlaps the subagent scratch workspace '${scratchPrefix}'`
+      );
+    }
+
+    return await narrowMount(
+      findParentMount(parentMounts, path),
+      path,
+      grant.scope
+    );
+  });
+
+  return await Promise.all(narrowed);
+}
+
+export function createScratchMount(
+  delegationId: string,
+  scratchPrefix = DEFAULT_SCRATCH_PREFIX,
+  ttlMs?: number
+): MountConfig {
+  return {
+    prefix: scratchPrefix,
+    scope: "READ_WRITE",
+    store: {
+      type: "virtual",
+      namespace: ["subagents", delegationId],
+      ...(ttlMs === undefined ? {} : { ttlMs }),
+    },
+  };
+}
+
+export async function collectScratchFiles(
+  scratchMount: MountConfig,
+  virtualStore: BaseStoreLike
+): Promise<DelegatedFile[]> {
+  const services = buildVFSServices([scratchMount], { virtualStore });
+  const root = coerceAbsoluteLogicalPath(scratchMount.prefix);
+  const files: DelegatedFile[] = [];
+
+  const visit = async (directory: string): Promise<void> => {
+    for (const key of await services.list(directory)) {
+      const path = join(root, key);
+      const metadata = await services.stat(path);
+
+      if (metadata.isDirectory) {
+        await visit(path);
+        continue;
+      }
+
+      const { data } = await services.readBytes(path);
+      const content = decodeUtf8(data);
+      files.push({
+        path: key,
+        ...(content === undefined
+          ? {
+              content: Buffer.from(data).toString("base64"),
+              encoding: "base64",
+            }
+          : { content }),
+        bytes: data.length,
+      });
+    }
+  };
+
+  await visit(root);
+
+  return files.sort((left, right) => left.path.localeCompare(right.path));
+}
+
+function findParentMount(
+  parentMounts: MountConfig[],
+  path: string
+): MountConfig {
+  const candidates = parentMounts
+    .filter((mount) => isLogicalPathWithin(path, mount.prefix))
+    .sort(
+      (left, right) =>
+        coerceAbsoluteLogicalPath(right.prefix).length -
+        coerceAbsoluteLogicalPath(left.prefix).length
+    );
+  const [parentMount] = candidates;
+
+  if (parentMount === undefined) {
+    throw new AccessDeniedError(
+      `Grant '${path}' is outside the parent's workspaces`
+    );
+  }
+
+  return parentMount;
+}
+
+function decodeUtf8(data: Uint8Array): string | undefined {
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(data);
+  } catch {
+    return undefined;
+  }
+}
+
+async function narrowMount(
+  parentMount: MountConfig,
+  path: string,
+  scope: DelegationGrant["scope"]
+): Promise<MountConfig> {
+  const widened = ALL_OPERATIONS.filter(
+    (operation) =>
+      isOperationAllowed(operation, scope) &&
+      !isOperationAllowed(operation, parentMount.scope)
+  );
+
+  if (widened.length > 0) {
+    throw new AccessDeniedError(
+      `Grant '${path}' requests ${scope} but the parent only holds ${parentMount.scope} (${widened.join(", ")} not permitted)`
+    );
+  }
+
+  const relativeKey = validateFilePath(path, parentMount.prefix);
+
+  if (relativeKey === "") {
+    return { ...parentMount, scope, treePreview: undefined };
+  }
+
+  if (parentMount.store.type !== "physical") {
+    throw new AccessDeniedError(
+      `Grant '${path}' must cover the whole '${parentMount.prefix}' mount; ${parentMount.store.type} mounts cannot be narrowed`
+    );
+  }
+
+  if ((parentMount.rules ?? []).length > 0) {
+    throw new AccessDeniedError(
+      `Grant '${path}' must cover the whole '${parentMount.prefix}' mount because it has path rules`
+    );
+  }
+
+  await assertNoSymlinkedSegments(parentMount.store.rootDir, relativeKey, path);
+
+  return {
+    prefix: path,
+    scope,
+    store: {
+      ...parentMount.store,
+      rootDir: joinRootDir(parentMount.store.rootDir, relativeKey),
+    },
+    ...(parentMount.quota === undefined ? {} : { quota: parentMount.quota }),
+    ...(parentMount.transforms === undefined
+      ? {}
+      : { transforms: parentMount.transforms }),
+  };
+}
+
+async function assertNoSymlinkedSegments(
+  rootDir: string,
+  relativeKey: string,
+  path: string
+): Promise<void> {
+  // The physical store only checks for symlinks below its own root, so a
+  // symlinked segment here would move the child's root outside the parent's.
+  let hostPath = rootDir;
+
+  for (const segment of relativeKey.split("/")) {
+    hostPath = joinRootDir(hostPath, segment);
+
+    try {
+      if ((await lstat(hostPath)).isSymbolicLink()) {
+        throw new AccessDeniedError(
+          `Grant '${path}' goes through a symbolic link`
+        );
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return;
+      }
+
+      throw error;
+    }
+  }
+}
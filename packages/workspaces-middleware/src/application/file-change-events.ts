@@ -0,0 +1,71 @@
+import type {
+  FileChangeEvent,
+  FileChangeSink,
+  LineDiffStats,
+} from "@/presentation/index";
+
+const LINE_BREAK_REGEX = /\r?\n/;
+
+export function describeTextChange(
+  change: Pick<FileChangeEvent, "path" | "mount">,
+  before: string | undefined,
+  after: string
+): FileChangeEvent {
+  return {
+    ...change,
+    kind: before === undefined ? "created" : "modified",
+    bytes: Buffer.byteLength(after, "utf8"),
+    diff: countLineChanges(before ?? "", after),
+    oldText: before,
+    newText: after,
+  };
+}
+
+export function countLineChanges(before: string, after: string): LineDiffStats {
+  const beforeLines = splitLines(before);
+  const afterLines = splitLines(after);
+  let start = 0;
+
+  while (
+    start < beforeLines.length &&
+    start < afterLines.length &&
+    beforeLines[start] === afterLines[start]
+  ) {
+    start += 1;
+  }
+
+  let beforeEnd = beforeLines.length;
+  let afterEnd = afterLines.length;
+
+  while (
+    beforeEnd > start &&
+    afterEnd > start &&
+    beforeLines[beforeEnd - 1] === afterLines[afterEnd - 1]
+  ) {
+    beforeEnd -= 1;
+    afterEnd -= 1;
+  }
+
+  return { additions: afterEnd - start, deletions: beforeEnd - start };
+}
+
+export async function dispatchFileChanges(
+  sink: FileChangeSink | undefined,
+  events: FileChangeEvent[]
+): Promise<void> {
+  if (sink === undefined) {
+    return;
+  }
+
+  for (const event of events) {
+    try {
+      await sink(event);
+    } catch {
+      // Sinks are observers; a failing UI must not fail the tool call.
+    }
+  }
+}
+
+function splitLines(content: string): string[] {
+  return content === "" ? [] : content.split(LINE_BREAK_REGEX);
+}
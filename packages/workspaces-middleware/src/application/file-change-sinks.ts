@@ -0,0 +1,122 @@
+import type {
+  ACPFileChangeSinkOptions,
+  ACPSessionConnectionLike,
+  AGUIEventLike,
+  AGUIFileChangeSinkOptions,
+  FileChangeEvent,
+  FileChangeSink,
+} from "@/presentation/index";
+
+const DEFAULT_CUSTOM_EVENT_NAME = "workspaces.file_change";
+const FILE_CHANGE_ACTIVITY_TYPE = "FILE_CHANGE";
+const MAX_TRACKED_TOOL_CALLS = 100;
+
+interface ACPFileChange {
+  oldText: string | undefined;
+  newText: string | undefined;
+}
+
+export function createAGUIFileChangeSink(
+  publish: (event: AGUIEventLike) => void,
+  options: AGUIFileChangeSinkOptions = {}
+): FileChangeSink {
+  return (event) => {
+    const summary = summarizeFileChange(event);
+
+    if (options.eventType === "activity") {
+      publish({
+        type: "ACTIVITY_SNAPSHOT",
+        messageId: `file-change:${event.toolCallId ?? "external"}:${event.path}`,
+        activityType: FILE_CHANGE_ACTIVITY_TYPE,
+        content: summary,
+        replace: true,
+      });
+      return;
+    }
+
+    publish({
+      type: "CUSTOM",
+      name: options.name ?? DEFAULT_CUSTOM_EVENT_NAME,
+      value: summary,
+    });
+  };
+}
+
+export function createACPFileChangeSink(
+  connection: ACPSessionConnectionLike,
+  options: ACPFileChangeSinkOptions = {}
+): FileChangeSink {
+  const changesByToolCall = new Map<string, Map<string, ACPFileChange>>();
+
+  return async (event) => {
+    const sessionId =
+      typeof options.sessionId === "function"
+        ? options.sessionId(event)
+        : options.sessionId;
+
+    if (event.toolCallId === undefined || sessionId === undefined) {
+      return;
+    }
+
+    const path = options.resolvePath?.(event) ?? event.path;
+    const newText =
+      event.newText ?? (event.kind === "deleted" ? "" : undefined);
+    const changeKey = JSON.stringify([sessionId, event.toolCallId]);
+    const changes =
+      changesByToolCall.get(changeKey) ?? new Map<string, ACPFileChange>();
+    const previous = changes.get(path);
+
+    // Each tool_call_update replaces the content and locations, so every
+    // update carries all the files the tool call changed so far.
+    changes.set(path, {
+      oldText: previous === undefined ? event.oldText : previous.oldText,
+      newText,
+    });
+    changesByToolCall.delete(changeKey);
+    changesByToolCall.set(changeKey, changes);
+    evictOldestToolCalls(changesByToolCall);
+
+    const content = [...changes].flatMap(([changedPath, change]) =>
+      change.newText === undefined
+        ? []
+        : [
+            {
+              type: "diff",
+              path: changedPath,
+              oldText: change.oldText ?? null,
+              newText: change.newText,
+            },
+          ]
+    );
+
+    await connection.sessionUpdate({
+      sessionId,
+      update: {
+        sessionUpdate: "tool_call_update",
+        toolCallId: event.toolCallId,
+        locations: [...changes.keys()].map((changedPath) => ({
+          path: changedPath,
+        })),
+        ...(content.length === 0 ? {} : { content }),
+      },
+    });
+  };
+}
+
+function evictOldestToolCalls(
+  changesByToolCall: Map<string, Map<string, ACPFileChange>>
+): void {
+  for (const key of changesByToolCall.keys()) {
+    if (changesByToolCall.size <= MAX_TRACKED_TOOL_CALLS) {
+      return;
+    }
+
+    changesByToolCall.delete(key);
+  }
+}
+
+function summarizeFileChange(event: FileChangeEvent): Record<string, unknown> {
+  const { oldText: _oldText, newText: _newText, ...summary } = event;
+
+  return summary;
+}
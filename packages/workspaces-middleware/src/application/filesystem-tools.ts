@@ -0,0 +1,591 @@
+import { join, relative } from "node:path/posix";
+import { z } from "zod";
+
+import { InvalidPatchError } from "@/domain/errors";
+import { globToRegExp } from "@/domain/glob-matcher";
+import { coerceAbsoluteLogicalPath } from "@/domain/vfs-router";
+import { detectMimeType, isTextMimeType } from "@/infrastructure/mime";
+import { FileNotFoundError } from "@/infrastructure/virtual-store";
+import type {
+  FilesystemToolsOptions,
+  PatchFileResult,
+  PatchHunkResult,
+  RegisteredTool,
+  ToolResult,
+  VFSServices,
+} from "@/presentation/index";
+
+const DEFAULT_READ_LIMIT = 2000;
+const DEFAULT_MAX_RESULTS = 200;
+const MAX_WALK_ENTRIES = 5000;
+const LINE_NUMBER_WIDTH = 6;
+const LINE_BREAK_REGEX = /\r?\n/;
+const IMAGE_MIME_PREFIX = "image/";
+const MAX_PATCH_FUZZ = 3;
+const IF_MATCH_PARAMETER = z
+  .string()
+  .optional()
+  .describe("Version from read_file; fails if the file changed since");
+
+interface ReadFileParams {
+  path: string;
+  offset?: number;
+  limit?: number;
+}
+
+interface WriteFileParams {
+  path: string;
+  content: string;
+  ifMatch?: string;
+}
+
+interface EditFileParams {
+  path: string;
+  oldStr: string;
+  newStr: string;
+  replaceAll?: boolean;
+  ifMatch?: string;
+}
+
+interface ApplyPatchParams {
+  patch: string;
+  root?: string;
+  fuzz?: number;
+  dryRun?: boolean;
+}
+
+interface ListDirParams {
+  path: string;
+}
+
+interface GlobParams {
+  pattern: string;
+  path: string;
+}
+
+interface GrepParams {
+  pattern: string;
+  path: string;
+  include?: string;
+  exclude?: string;
+  ignoreCase?: boolean;
+  fullText?: boolean;
+  maxResults?: number;
+}
+
+export function createFilesystemTools(
+  options: FilesystemToolsOptions = {}
+): RegisteredTool[] {
+  const defaultReadLimit = options.defaultReadLimit ?? DEFAULT_READ_LIMIT;
+  const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+
+  return [
+    createReadFileTool(defaultReadLimit),
+    createWriteFileTool(),
+    createEditFileTool(),
+    createApplyPatchTool(),
+    createListDirTool(),
+    createGlobTool(maxResults),
+    createGrepTool(maxResults),
+  ];
+}
+
+function createReadFileTool(defaultReadLimit: number): RegisteredTool {
+  return {
+    name: "read_file",
+    description:
+      "Read a file from a mounted workspace. Text lines are returned with 1-based line numbers; use offset (0-based line) and limit to page through large files. Text reads end with the file's version, which write_file and edit_file accept as ifMatch. Images are returned as image content.",
+    parameters: z.object({
+      path: z.string().describe("Absolute logical path of the file"),
+      offset: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("Line to start reading from (0-based)"),
+      limit: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("Maximum number of lines to return"),
+    }),
+    operations: ["read"],
+    handler: async (params, services) => {
+      const input = params as ReadFileParams;
+      const { path } = input;
+      const mimeType = detectMimeType(path);
+
+      if (!isTextMimeType(mimeType)) {
+        return await readBinaryFile(services, path);
+      }
+
+      // Stat first so a change made during the read makes the version stale
+      const { version } = await services.stat(path);
+      // Page by lines over the whole file, not the store's large-file preview
+      const content = await services.read(path, { full: true });
+      const metadata: ToolResult["metadata"] = {
+        operation: "read",
+        filesRead: [path],
+        ...(version === undefined ? {} : { version }),
+      };
+
+      if (content === "") {
+        return {
+          content: withVersion("File is empty", version),
+          metadata,
+        };
+      }
+
+      const lines = content.split(LINE_BREAK_REGEX);
+      const offset = input.offset ?? 0;
+      const limit = input.limit ?? defaultReadLimit;
+
+      if (offset >= lines.length) {
+        return {
+          content: `Error: Line offset ${offset} exceeds file length (${lines.length} lines)`,
+          metadata,
+        };
+      }
+
+      const window = lines.slice(offset, offset + limit);
+      const remaining = lines.length - offset - window.length;
+      const numbered = window
+        .map(
+          (line, index) =>
+            `${String(offset + index + 1).padStart(LINE_NUMBER_WIDTH)}\t${line}`
+        )
+        .join("\n");
+
+      return {
+        content: withVersion(
+          remaining > 0
+            ? `${numbered}\n[${remaining} more lines. Use offset=${offset + window.length} to continue.]`
+            : numbered,
+          version
+        ),
+        metadata,
+      };
+    },
+  };
+}
+
+function createWriteFileTool(): RegisteredTool {
+  return {
+    name: "write_file",
+    description:
+      "Create or overwrite a file in a mounted workspace with the given content.",
+    parameters: z.object({
+      path: z.string().describe("Absolute logical path of the file"),
+      content: z.string().describe("Full content to write"),
+      ifMatch: IF_MATCH_PARAMETER,
+    }),
+    operations: ["write"],
+    handler: async (params, services) => {
+      const input = params as WriteFileParams;
+      const { path } = input;
+      await services.write(path, input.content, { ifMatch: input.ifMatch });
+
+      return {
+        content: `Wrote ${path}`,
+        metadata: { operation: "write", filesModified: [path] },
+      };
+    },
+  };
+}
+
+function createEditFileTool(): RegisteredTool {
+  return {
+    name: "edit_file",
+    description:
+      "Replace an exact string in a file. oldStr must match exactly once unless replaceAll is true.",
+    parameters: z.object({
+      path: z.string().describe("Absolute logical path of the file"),
+      oldStr: z.string().min(1).describe("Exact text to replace"),
+      newStr: z.string().describe("Replacement text"),
+      replaceAll: z
+        .boolean()
+        .optional()
+        .describe("Replace every occurrence instead of exactly one"),
+      ifMatch: IF_MATCH_PARAMETER,
+    }),
+    operations: ["edit"],
+    handler: async (params, services) => {
+      const input = params as EditFileParams;
+      const { path } = input;
+      const current = await services.read(path, { full: true });
+      const occurrences = current.split(input.oldStr).length - 1;
+
+      if (occurrences === 0) {
+        return {
+          content: `Error: String not found in ${path}`,
+          metadata: { operation: "edit" },
+        };
+      }
+
+      if (occurrences > 1 && input.replaceAll !== true) {
+        return {
+          content: `Error: String appears ${occurrences} times in ${path}. Provide more context or set replaceAll.`,
+          metadata: { operation: "edit" },
+        };
+      }
+
+      const replaced = await services.edit(
+        path,
+        input.oldStr,
+        input.newStr,
+        input.replaceAll,
+        { ifMatch: input.ifMatch }
+      );
+
+      return {
+        content: `Replaced ${replaced} occurrence(s) in ${path}`,
+        metadata: { operation: "edit", filesModified: [path] },
+      };
+    },
+  };
+}
+
+function createApplyPatchTool(): RegisteredTool {
+  return {
+    name: "apply_patch",
+    description:
+      "Apply a unified diff to one or more files. All files change together or none do. Use '--- /dev/null' to create a file and '+++ /dev/null' to delete one. Hunks may be found a few lines away from their header, and up to 'fuzz' context lines may be ignored.",
+    parameters: z.object({
+      patch: z.string().min(1).describe("Unified diff with ---/+++ headers"),
+      root: z
+        .string()
+        .optional()
+        .describe("Logical directory that relative patch paths start from"),
+      fuzz: z
+        .number()
+        .int()
+        .min(0)
+        .max(MAX_PATCH_FUZZ)
+        .optional()
+        .describe("Context lines that may be ignored per hunk (default 2)"),
+      dryRun: z
+        .boolean()
+        .optional()
+        .describe("Check that the patch applies without writing anything"),
+    }),
+    operations: ["edit", "write", "delete"],
+    handler: async (params, services) => {
+      const input = params as ApplyPatchParams;
+
+      try {
+        const result = await services.applyPatch(input.patch, {
+          root: input.root,
+          fuzz: input.fuzz,
+          dryRun: input.dryRun,
+        });
+        const summary = result.files.flatMap(formatPatchFile).join("\n");
+
+        if (result.dryRun && result.files.every((file) => file.applied)) {
+          return {
+            content: `Patch applies cleanly (dry run, nothing written):\n${summary}`,
+            metadata: { operation: "edit", patchResults: result.files },
+          };
+        }
+
+        if (!result.applied) {
+          return {
+            content: `Error: Patch not applied; no files were changed.\n${summary}`,
+            metadata: { operation: "edit", patchResults: result.files },
+          };
+        }
+
+        return {
+          content: `Applied patch to ${result.files.length} file(s):\n${summary}`,
+          metadata: {
+            operation: "edit",
+            filesModified: result.files.flatMap((file) =>
+              file.previousPath === undefined
+                ? [file.path]
+                : [file.previousPath, file.path]
+            ),
+            patchResults: result.files,
+          },
+        };
+      } catch (error) {
+        if (error instanceof InvalidPatchError) {
+          return {
+            content: `Error: ${error.message}`,
+            metadata: { operation: "edit" },
+          };
+        }
+
+        throw error;
+      }
+    },
+  };
+}
+
+function withVersion(content: string, version: string | undefined): string {
+  return version === undefined ? content : `${content}\n[version: ${version}]`;
+}
+
+function formatPatchFile(file: PatchFileResult): string[] {
+  const target =
+    file.previousPath === undefined
+      ? file.path
+      : `${file.previousPath} -> ${file.path}`;
+  const header = `  ${file.status} ${target} (+${file.additions} -${file.deletions})`;
+
+  return [
+    file.error === undefined ? header : `${header}: ${file.error}`,
+    ...file.hunks.flatMap(formatPatchHunk),
+  ];
+}
+
+function formatPatchHunk(hunk: PatchHunkResult): string[] {
+  if (hunk.applied) {
+    return hunk.offset === 0 && hunk.fuzz === 0
+      ? []
+      : [
+          `    hunk ${hunk.index} applied at line ${hunk.line} (offset ${hunk.offset}, fuzz ${hunk.fuzz})`,
+        ];
+  }
+
+  return [
+    `    hunk ${hunk.index} failed near line ${hunk.line}`,
+    "      expected:",
+    ...(hunk.expected ?? []).map((line) => `        ${line}`),
+    "      found:",
+    ...(hunk.actual ?? []).map((line) => `        ${line}`),
+  ];
+}
+
+function createListDirTool(): RegisteredTool {
+  return {
+    name: "list_dir",
+    description:
+      "List the direct children of a directory in a mounted workspace. Directories end with '/'.",
+    parameters: z.object({
+      path: z.string().describe("Absolute logical path of the directory"),
+    }),
+    operations: ["list"],
+    handler: async (params, services) => {
+      const input = params as ListDirParams;
+      const { path } = input;
+      const entries = await listDirectory(services, path);
+
+      if (entries.length === 0) {
+        return {
+          content: `${path} is empty`,
+          metadata: { operation: "list" },
+        };
+      }
+
+      return {
+        content: entries
+          .map((entry) => (entry.isDirectory ? `${entry.path}/` : entry.path))
+          .join("\n"),
+        metadata: { operation: "list" },
+      };
+    },
+  };
+}
+
+function createGlobTool(maxResults: number): RegisteredTool {
+  return {
+    name: "glob",
+    description:
+      "Find files under a directory whose path (relative to that directory) matches a glob pattern, e.g. '**/*.ts'.",
+    parameters: z.object({
+      pattern: z.string().min(1).describe("Glob pattern such as '**/*.md'"),
+      path: z.string().describe("Absolute logical directory to search from"),
+    }),
+    operations: ["list"],
+    handler: async (params, services) => {
+      const input = params as GlobParams;
+      const matcher = globToRegExp(input.pattern);
+      const files = await walkFiles(services, input.path);
+      const root = coerceAbsoluteLogicalPath(input.path);
+      const matches = files.filter((file) =>
+        matcher.test(relative(root, file))
+      );
+
+      if (matches.length === 0) {
+        return {
+          content: `No files match '${input.pattern}' under ${root}`,
+          metadata: { operation: "list" },
+        };
+      }
+
+      return {
+        content: formatLimitedResults(matches, maxResults),
+        metadata: { operation: "list" },
+      };
+    },
+  };
+}
+
+function createGrepTool(maxResults: number): RegisteredTool {
+  return {
+    name: "grep",
+    description:
+      "Search file contents under a directory with a regular expression. Returns 'path:line: text' matches. Set fullText to search for words instead; files containing every word are returned most relevant first.",
+    parameters: z.object({
+      pattern: z.string().min(1).describe("Regular expression to search for"),
+      path: z.string().describe("Absolute logical file or directory to search"),
+      include: z
+        .string()
+        .optional()
+        .describe("Glob filter on paths relative to 'path', e.g. '**/*.ts'"),
+      exclude: z
+        .string()
+        .optional()
+        .describe("Glob of paths relative to 'path' to skip"),
+      ignoreCase: z.boolean().optional(),
+      fullText: z
+        .boolean()
+        .optional()
+        .describe("Treat pattern as words and rank files by relevance"),
+      maxResults: z.number().int().positive().optional(),
+    }),
+    operations: ["search"],
+    handler: async (params, services) => {
+      const input = params as GrepParams;
+      const limit = Math.min(input.maxResults ?? maxResults, maxResults);
+
+      try {
+        if (input.fullText !== true) {
+          new RegExp(input.pattern);
+        }
+      } catch {
+        return {
+          content: `Error: Invalid regular expression '${input.pattern}'`,
+          metadata: { operation: "search" },
+        };
+      }
+
+      const result = await services.search(input.path, input.pattern, {
+        include: input.include === undefined ? undefined : [input.include],
+        exclude: input.exclude === undefined ? undefined : [input.exclude],
+        ignoreCase: input.ignoreCase,
+        fullText: input.fullText,
+        maxResults: limit,
+      });
+      const filesRead = [...new Set(result.matches.map((match) => match.path))];
+
+      if (result.matches.length === 0) {
+        return {
+          content: `No matches for '${input.pattern}' under ${coerceAbsoluteLogicalPath(input.path)}`,
+          metadata: { operation: "search", filesRead },
+        };
+      }
+
+      return {
+        content: formatLimitedResults(
+          result.matches.map(
+            (match) => `${match.path}:${match.line}: ${match.text}`
+          ),
+          limit,
+          result.truncated
+        ),
+        metadata: { operation: "search", filesRead },
+      };
+    },
+  };
+}
+
+async function readBinaryFile(
+  services: VFSServices,
+  path: string
+): Promise<ToolResult> {
+  const { data, mimeType } = await services.readBytes(path);
+  const metadata: ToolResult["metadata"] = {
+    operation: "read",
+    filesRead: [path],
+  };
+
+  if (!mimeType.startsWith(IMAGE_MIME_PREFIX)) {
+    return {
+      content: `Binary file ${path} (${mimeType}, ${data.length} bytes) cannot be shown as text`,
+      metadata,
+    };
+  }
+
+  return {
+    content: `Image ${path} (${mimeType}, ${data.length} bytes)`,
+    contentBlocks: [
+      {
+        type: "image",
+        mimeType,
+        data: Buffer.from(data).toString("base64"),
+      },
+    ],
+    metadata,
+  };
+}
+
+async function listDirectory(
+  services: VFSServices,
+  path: string
+): Promise<{ path: string; isDirectory: boolean }[]> {
+  const resolved = services.resolve(path);
+  const mountPrefix = coerceAbsoluteLogicalPath(resolved.mount.prefix);
+  const keys = await services.list(path);
+  const entries: { path: string; isDirectory: boolean }[] = [];
+
+  for (const key of keys) {
+    const entryPath = join(mountPrefix, key);
+    const metadata = await services.stat(entryPath);
+    entries.push({ path: entryPath, isDirectory: metadata.isDirectory });
+  }
+
+  return entries;
+}
+
+async function walkFiles(
+  services: VFSServices,
+  path: string
+): Promise<string[]> {
+  const rootMetadata = await services.stat(path);
+
+  if (!rootMetadata.exists) {
+    throw new FileNotFoundError();
+  }
+
+  const root = coerceAbsoluteLogicalPath(path);
+
+  if (!rootMetadata.isDirectory) {
+    return [root];
+  }
+
+  const files: string[] = [];
+  const pending = [root];
+  let visited = 0;
+
+  while (pending.length > 0 && visited < MAX_WALK_ENTRIES) {
+    const directory = pending.shift() as string;
+
+    for (const entry of await listDirectory(services, directory)) {
+      visited += 1;
+
+      if (entry.isDirectory) {
+        pending.push(entry.path);
+      } else {
+        files.push(entry.path);
+      }
+    }
+  }
+
+  return files.sort((left, right) => left.localeCompare(right));
+}
+
+function formatLimitedResults(
+  results: string[],
+  limit: number,
+  truncated = results.length > limit
+): string {
+  if (!truncated) {
+    return results.join("\n");
+  }
+
+  return [
+    ...results.slice(0, limit),
+    `[Showing first ${limit} results. Narrow the pattern or path to see more.]`,
+  ].join("\n");
+}
@@ -0,0 +1,50 @@
+import {
+  hasStorageQuota,
+  type RunWriteCounter,
+  type StoreUsageCache,
+} from "@/application/quota-guard";
+import {
+  createInMemoryBaseStore,
+  createMountUsageCache,
+} from "@/application/tool-synthesizer";
+import type { BaseStoreLike } from "@/infrastructure/virtual-store";
+import type { MountConfig, MountUsage } from "@/presentation/index";
+
+export interface MountUsageOptions {
+  virtualStore?: BaseStoreLike;
+  runId?: string;
+  writeCounter?: RunWriteCounter;
+  usageCache?: StoreUsageCache;
+}
+
+export async function collectMountUsage(
+  mounts: MountConfig[],
+  options: MountUsageOptions = {}
+): Promise<Map<string, MountUsage>> {
+  const usageCache =
+    options.usageCache ??
+    createMountUsageCache(options.virtualStore ?? createInMemoryBaseStore());
+  const usageByPrefix = new Map<string, MountUsage>();
+
+  for (const mount of mounts) {
+    if (mount.quota === undefined) {
+      continue;
+    }
+
+    try {
+      const { files, bytes } = hasStorageQuota(mount.quota)
+        ? await usageCache.measure(mount.store)
+        : { files: 0, bytes: 0 };
+      const writesThisRun =
+        options.runId === undefined || options.writeCounter === undefined
+          ? 0
+          : options.writeCounter.count(options.runId, mount.prefix);
+
+      usageByPrefix.set(mount.prefix, { files, bytes, writesThisRun });
+    } catch {
+      // Usage is advisory; an unreadable mount still shows its limits.
+    }
+  }
+
+  return usageByPrefix;
+}
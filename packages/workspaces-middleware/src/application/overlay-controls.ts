@@ -0,0 +1,25 @@
+import { OverlayStoreAdapter } from "@/infrastructure/overlay-store";
+import { PhysicalStoreAdapter } from "@/infrastructure/physical-store";
+import type { BaseStoreLike } from "@/infrastructure/virtual-store";
+import type { OverlayControls, OverlayStoreConfig } from "@/presentation/index";
+
+export interface OpenOverlayOptions {
+  virtualStore: BaseStoreLike;
+}
+
+export function openOverlay(
+  config: OverlayStoreConfig,
+  options: OpenOverlayOptions
+): OverlayControls {
+  const overlay = new OverlayStoreAdapter(
+    new PhysicalStoreAdapter(config.rootDir),
+    options.virtualStore,
+    config.namespace
+  );
+
+  return {
+    diff: () => overlay.diff(),
+    commit: () => overlay.commit(),
+    discard: () => overlay.discard(),
+  };
+}
@@ -0,0 +1,232 @@
+import { join } from "node:path/posix";
+
+import { coerceAbsoluteLogicalPath } from "@/domain/vfs-router";
+import {
+  applyHunks,
+  type FilePatch,
+  type PatchHunk,
+} from "@/infrastructure/unified-diff";
+import type {
+  PatchFileResult,
+  PatchFileStatus,
+  PatchResult,
+} from "@/presentation/index";
+
+export const DEFAULT_PATCH_FUZZ = 2;
+
+export interface PatchFileAccess {
+  read(path: string): Promise<string | undefined>;
+  write(
+    path: string,
+    content: string,
+    before: string | undefined
+  ): Promise<void>;
+  delete(path: string, before: string): Promise<void>;
+  restore(path: string, before: string | undefined): Promise<void>;
+}
+
+interface PlannedFile {
+  result: PatchFileResult;
+  source?: { path: string; content: string };
+  target?: { path: string; content: string; before: string | undefined };
+}
+
+export function resolvePatchPaths(
+  filePatches: FilePatch[],
+  root = "/"
+): FilePatch[] {
+  const resolvePath = (path: string | null): string | null => {
+    if (path === null) {
+      return null;
+    }
+
+    return coerceAbsoluteLogicalPath(
+      path.startsWith("/") ? path : join(root, path)
+    );
+  };
+
+  return filePatches.map((filePatch) => ({
+    ...filePatch,
+    oldPath: resolvePath(filePatch.oldPath),
+    newPath: resolvePath(filePatch.newPath),
+  }));
+}
+
+export async function applyFilePatches(
+  filePatches: FilePatch[],
+  access: PatchFileAccess,
+  options: { fuzz?: number; dryRun?: boolean } = {}
+): Promise<PatchResult> {
+  const dryRun = options.dryRun ?? false;
+  const planned = await planFilePatches(
+    filePatches,
+    access,
+    options.fuzz ?? DEFAULT_PATCH_FUZZ
+  );
+  const files = planned.map((plan) => plan.result);
+  const applicable = files.every((file) => file.applied);
+
+  if (!applicable || dryRun) {
+    return { applied: false, dryRun, files };
+  }
+
+  await commitPlannedFiles(planned, access);
+
+  return { applied: true, dryRun, files };
+}
+
+async function planFilePatches(
+  filePatches: FilePatch[],
+  access: PatchFileAccess,
+  fuzz: number
+): Promise<PlannedFile[]> {
+  const pending = new Map<string, string | undefined>();
+  const readPlanned = (path: string): Promise<string | undefined> =>
+    pending.has(path) ? Promise.resolve(pending.get(path)) : access.read(path);
+  const planned: PlannedFile[] = [];
+
+  for (const filePatch of filePatches) {
+    const plan = await planFilePatch(filePatch, readPlanned, fuzz);
+
+    if (plan.source !== undefined) {
+      pending.set(plan.source.path, undefined);
+    }
+
+    if (plan.target !== undefined) {
+      pending.set(plan.target.path, plan.target.content);
+    }
+
+    planned.push(plan);
+  }
+
+  return planned;
+}
+
+async function planFilePatch(
+  filePatch: FilePatch,
+  read: (path: string) => Promise<string | undefined>,
+  fuzz: number
+): Promise<PlannedFile> {
+  const { oldPath, newPath } = filePatch;
+  const status = getPatchStatus(oldPath, newPath);
+  const result: PatchFileResult = {
+    path: newPath ?? oldPath ?? "",
+    ...(status === "renamed" && oldPath !== null
+      ? { previousPath: oldPath }
+      : {}),
+    status,
+    applied: false,
+    ...countPatchLines(filePatch.hunks),
+    hunks: [],
+  };
+  const before = oldPath === null ? "" : await read(oldPath);
+  const existingTarget =
+    newPath === null || newPath === oldPath ? undefined : await read(newPath);
+
+  if (before === undefined) {
+    return { result: { ...result, error: "File not found" } };
+  }
+
+  if (existingTarget !== undefined) {
+    return { result: { ...result, error: "File already exists" } };
+  }
+
+  const application = applyHunks(before, filePatch.hunks, fuzz);
+  const planned: PlannedFile = {
+    result: {
+      ...result,
+      applied: application.applied,
+      hunks: application.hunks,
+    },
+  };
+
+  if (!application.applied) {
+    const failed = application.hunks.filter((hunk) => !hunk.applied).length;
+    planned.result.error = `${failed} of ${application.hunks.length} hunks failed`;
+    return planned;
+  }
+
+  if (newPath === null && application.content !== "") {
+    planned.result.applied = false;
+    planned.result.error = "File is not empty after applying the patch";
+    return planned;
+  }
+
+  if (oldPath !== null && oldPath !== newPath) {
+    planned.source = { path: oldPath, content: before };
+  }
+
+  if (newPath !== null) {
+    planned.target = {
+      path: newPath,
+      content: application.content,
+      before: oldPath === newPath ? before : undefined,
+    };
+  }
+
+  return planned;
+}
+
+async function commitPlannedFiles(
+  planned: PlannedFile[],
+  access: PatchFileAccess
+): Promise<void> {
+  const originals = new Map<string, string | undefined>();
+
+  try {
+    for (const { source, target } of planned) {
+      if (target !== undefined) {
+        if (!originals.has(target.path)) {
+          originals.set(target.path, target.before);
+        }
+
+        await access.write(target.path, target.content, target.before);
+      }
+
+      if (source !== undefined) {
+        if (!originals.has(source.path)) {
+          originals.set(source.path, source.content);
+        }
+
+        await access.delete(source.path, source.content);
+      }
+    }
+  } catch (error) {
+    for (const [path, content] of [...originals].reverse()) {
+      try {
+        await access.restore(path, content);
+      } catch {
+        // Keep restoring the remaining files; the original error is rethrown.
+      }
+    }
+
+    throw error;
+  }
+}
+
+function getPatchStatus(
+  oldPath: string | null,
+  newPath: string | null
+): PatchFileStatus {
+  if (oldPath === null) {
+    return "created";
+  }
+
+  if (newPath === null) {
+    return "deleted";
+  }
+
+  return oldPath === newPath ? "modified" : "renamed";
+}
+
+function countPatchLines(hunks: PatchHunk[]): {
+  additions: number;
+  deletions: number;
+} {
+  const lines = hunks.flatMap((hunk) => hunk.lines);
+
+  return {
+    additions: lines.filter((line) => line.type === "+").length,
+    deletions: lines.filter((line) => line.type === "-").length,
+  };
+}
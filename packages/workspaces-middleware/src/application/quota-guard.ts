@@ -0,0 +1,256 @@
+import { resolve } from "node:path";
+
+import { QuotaExceededError } from "@/domain/errors";
+import type { StoreMetadata, StorePort } from "@/domain/store-port";
+import {
+  measureStoreUsage,
+  type StoreUsage,
+} from "@/infrastructure/store-usage";
+import type { MountQuota, StoreConfig } from "@/presentation/index";
+
+const MAX_TRACKED_RUNS = 1000;
+const MAX_TRACKED_STORES = 1000;
+const USAGE_REMEASURE_MS = 60_000;
+
+export interface RunWriteCounter {
+  count(runId: string, prefix: string): number;
+  record(runId: string, prefix: string): void;
+}
+
+export function createRunWriteCounter(): RunWriteCounter {
+  const writesByRun = new Map<string, Map<string, number>>();
+
+  return {
+    count(runId, prefix) {
+      return writesByRun.get(runId)?.get(prefix) ?? 0;
+    },
+
+    record(runId, prefix) {
+      const writes = writesByRun.get(runId) ?? new Map<string, number>();
+      writes.set(prefix, (writes.get(prefix) ?? 0) + 1);
+      writesByRun.set(runId, writes);
+      evictOldest(writesByRun, MAX_TRACKED_RUNS);
+    },
+  };
+}
+
+export interface StoreUsageCache {
+  measure(config: StoreConfig): Promise<StoreUsage>;
+  track<T>(
+    config: StoreConfig,
+    keys: string[],
+    mutation: () => Promise<T>
+  ): Promise<T>;
+}
+
+interface TrackedStoreUsage {
+  store: StorePort;
+  usage: Promise<StoreUsage>;
+  measuredAt: number;
+}
+
+export function createStoreUsageCache(
+  createStore: (config: StoreConfig) => StorePort
+): StoreUsageCache {
+  const usageByStore = new Map<string, TrackedStoreUsage>();
+
+  return {
+    measure(config) {
+      const scope = toStoreScope(config);
+      const cached = usageByStore.get(scope);
+
+      if (
+        cached !== undefined &&
+        Date.now() - cached.measuredAt < USAGE_REMEASURE_MS
+      ) {
+        return cached.usage;
+      }
+
+      const store = createStore(config);
+      const tracked: TrackedStoreUsage = {
+        store,
+        usage: measureStoreUsage(store),
+        measuredAt: Date.now(),
+      };
+      usageByStore.delete(scope);
+      usageByStore.set(scope, tracked);
+      evictOldest(usageByStore, MAX_TRACKED_STORES);
+
+      tracked.usage.catch(() => {
+        if (usageByStore.get(scope) === tracked) {
+          usageByStore.delete(scope);
+        }
+      });
+
+      return tracked.usage;
+    },
+
+    async track(config, keys, mutation) {
+      const scope = toStoreScope(config);
+      const tracked = usageByStore.get(scope);
+
+      if (tracked === undefined) {
+        try {
+          return await mutation();
+        } finally {
+          // A measurement started during the mutation may have missed it.
+          usageByStore.delete(scope);
+        }
+      }
+
+      const statAll = () =>
+        Promise.all(keys.map((key) => tracked.store.stat(key)));
+      const before = await statAll();
+
+      try {
+        return await mutation();
+      } finally {
+        const after = await statAll().catch(() => undefined);
+
+        if (
+          usageByStore.get(scope) !== tracked ||
+          after === undefined ||
+          [...before, ...after].some((metadata) => metadata.isDirectory)
+        ) {
+          // Re-measured on the next quota check instead.
+          usageByStore.delete(scope);
+        } else {
+          tracked.usage = tracked.usage.then((usage) =>
+            applyUsageChange(usage, before, after)
+          );
+        }
+      }
+    },
+  };
+}
+
+export function toStoreScope(config: StoreConfig): string {
+  return config.type === "physical"
+    ? `physical:${resolve(config.rootDir)}`
+    : `${config.type}:${JSON.stringify(config.namespace)}`;
+}
+
+function applyUsageChange(
+  usage: StoreUsage,
+  before: StoreMetadata[],
+  after: StoreMetadata[]
+): StoreUsage {
+  const files = (entries: StoreMetadata[]) =>
+    entries.filter((metadata) => metadata.exists).length;
+  const bytes = (entries: StoreMetadata[]) =>
+    entries.reduce(
+      (total, metadata) => total + (metadata.exists ? (metadata.size ?? 0) : 0),
+      0
+    );
+
+  return {
+    files: usage.files + files(after) - files(before),
+    bytes: usage.bytes + bytes(after) - bytes(before),
+    largestFileBytes: Math.max(
+      usage.largestFileBytes,
+      ...after.map((metadata) => metadata.size ?? 0)
+    ),
+  };
+}
+
+function evictOldest<T>(entries: Map<string, T>, maxEntries: number): void {
+  for (const key of entries.keys()) {
+    if (entries.size <= maxEntries) {
+      return;
+    }
+
+    entries.delete(key);
+  }
+}
+
+export function hasStorageQuota(quota: MountQuota | undefined): boolean {
+  return (
+    quota?.maxFileBytes !== undefined ||
+    quota?.maxTotalBytes !== undefined ||
+    quota?.maxFiles !== undefined
+  );
+}
+
+export function assertWritesRemaining(
+  quota: MountQuota | undefined,
+  writes: number
+): void {
+  if (quota?.maxWritesPerRun !== undefined && writes >= quota.maxWritesPerRun) {
+    throw new QuotaExceededError(
+      `Write limit of ${quota.maxWritesPerRun} per run reached for this mount`,
+      "maxWritesPerRun"
+    );
+  }
+}
+
+export async function assertFileWithinQuota(
+  quota: MountQuota | undefined,
+  store: StorePort,
+  key: string,
+  size: number,
+  measureUsage: () => Promise<StoreUsage>
+): Promise<void> {
+  if (!hasStorageQuota(quota)) {
+    return;
+  }
+
+  const existing = await store.stat(key);
+  const replaced: StoreUsage =
+    existing.exists && !existing.isDirectory
+      ? { files: 1, bytes: existing.size ?? 0, largestFileBytes: 0 }
+      : { files: 0, bytes: 0, largestFileBytes: 0 };
+
+  await assertUsageWithinQuota(
+    quota,
+    measureUsage,
+    { files: 1, bytes: size, largestFileBytes: size },
+    replaced
+  );
+}
+
+export async function assertUsageWithinQuota(
+  quota: MountQuota | undefined,
+  measureUsage: () => Promise<StoreUsage>,
+  added: StoreUsage,
+  replaced: StoreUsage = { files: 0, bytes: 0, largestFileBytes: 0 }
+): Promise<void> {
+  if (quota === undefined) {
+    return;
+  }
+
+  if (
+    quota.maxFileBytes !== undefined &&
+    added.largestFileBytes > quota.maxFileBytes
+  ) {
+    throw new QuotaExceededError(
+      `File exceeds the ${quota.maxFileBytes}-byte size limit for this mount`,
+      "maxFileBytes"
+    );
+  }
+
+  if (quota.maxTotalBytes === undefined && quota.maxFiles === undefined) {
+    return;
+  }
+
+  const usage = await measureUsage();
+
+  if (
+    quota.maxTotalBytes !== undefined &&
+    usage.bytes - replaced.bytes + added.bytes > quota.maxTotalBytes
+  ) {
+    throw new QuotaExceededError(
+      `Write would exceed the ${quota.maxTotalBytes}-byte storage limit for this mount`,
+      "maxTotalBytes"
+    );
+  }
+
+  if (
+    quota.maxFiles !== undefined &&
+    usage.files - replaced.files + added.files > quota.maxFiles
+  ) {
+    throw new QuotaExceededError(
+      `Write would exceed the ${quota.maxFiles}-file limit for this mount`,
+      "maxFiles"
+    );
+  }
+}
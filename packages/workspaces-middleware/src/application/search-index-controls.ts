@@ -0,0 +1,19 @@
+import {
+  type BaseStoreLike,
+  VirtualStoreAdapter,
+} from "@/infrastructure/virtual-store";
+import type { VirtualStoreConfig } from "@/presentation/index";
+
+export interface RebuildSearchIndexOptions {
+  virtualStore: BaseStoreLike;
+}
+
+export function rebuildSearchIndex(
+  config: VirtualStoreConfig,
+  options: RebuildSearchIndexOptions
+): Promise<number> {
+  return new VirtualStoreAdapter(options.virtualStore, config.namespace, {
+    ttlMs: config.ttlMs,
+    index: true,
+  }).rebuildIndex();
+}
@@ -0,0 +1,166 @@
+import { basename, join } from "node:path/posix";
+
+import {
+  createInMemoryBaseStore,
+  createStoreAdapter,
+} from "@/application/tool-synthesizer";
+import type { StorePort } from "@/domain/store-port";
+import {
+  coerceAbsoluteLogicalPath,
+  validateFilePath,
+} from "@/domain/vfs-router";
+import {
+  type ArchiveEntry,
+  decodeArchive,
+  encodeArchive,
+} from "@/infrastructure/archive";
+import { FileNotFoundError } from "@/infrastructure/virtual-store";
+import type {
+  ExportSnapshotOptions,
+  ImportSnapshotOptions,
+  MountConfig,
+  SnapshotSource,
+} from "@/presentation/index";
+
+export function exportSnapshot(
+  mount: MountConfig,
+  options: ExportSnapshotOptions = {}
+): ReadableStream<Uint8Array> {
+  const store = createStoreAdapter(
+    mount.store,
+    options.virtualStore ?? createInMemoryBaseStore()
+  );
+  const rootKey = validateFilePath(options.path ?? mount.prefix, mount.prefix);
+  const chunks = encodeArchive(
+    collectEntries(store, rootKey),
+    options.format ?? "tar"
+  );
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const next = await chunks.next();
+
+      if (next.done) {
+        controller.close();
+      } else {
+        controller.enqueue(next.value);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
+
+export async function importSnapshot(
+  mount: MountConfig,
+  archive: SnapshotSource,
+  options: ImportSnapshotOptions = {}
+): Promise<string[]> {
+  const store = createStoreAdapter(
+    mount.store,
+    options.virtualStore ?? createInMemoryBaseStore()
+  );
+  const targetPath = coerceAbsoluteLogicalPath(options.path ?? mount.prefix);
+  const mountPrefix = coerceAbsoluteLogicalPath(mount.prefix);
+  const entries = decodeArchive(await readSource(archive), options.format).map(
+    (entry) => ({
+      ...entry,
+      key: validateFilePath(`${targetPath}/${entry.path}`, mount.prefix),
+    })
+  );
+  const imported: string[] = [];
+
+  for (const entry of entries) {
+    if (entry.key === "") {
+      continue;
+    }
+
+    if (entry.isDirectory === true) {
+      await store.mkdir(entry.key);
+      continue;
+    }
+
+    await store.writeBytes(entry.key, entry.data);
+    imported.push(join(mountPrefix, entry.key));
+  }
+
+  return imported;
+}
+
+async function* collectEntries(
+  store: StorePort,
+  rootKey: string
+): AsyncGenerator<ArchiveEntry, void, unknown> {
+  const metadata = await store.stat(rootKey);
+
+  if (!metadata.exists) {
+    throw new FileNotFoundError();
+  }
+
+  if (!metadata.isDirectory) {
+    yield {
+      path: basename(rootKey),
+      data: await store.readBytes(rootKey),
+      modified: metadata.modified,
+    };
+    return;
+  }
+
+  const pending = [rootKey];
+
+  while (pending.length > 0) {
+    const directory = pending.shift() as string;
+
+    for (const key of await store.list(directory)) {
+      const entryMetadata = await store.stat(key);
+
+      if (entryMetadata.isDirectory) {
+        pending.push(key);
+        continue;
+      }
+
+      yield {
+        path: rootKey === "" ? key : key.slice(rootKey.length + 1),
+        data: await store.readBytes(key),
+        modified: entryMetadata.modified,
+      };
+    }
+  }
+}
+
+async function readSource(source: SnapshotSource): Promise<Uint8Array> {
+  if (source instanceof Uint8Array) {
+    return source;
+  }
+
+  const chunks: Uint8Array[] = [];
+  const iterable =
+    source instanceof ReadableStream ? iterateStream(source) : source;
+
+  for await (const chunk of iterable) {
+    chunks.push(chunk);
+  }
+
+  return new Uint8Array(Buffer.concat(chunks));
+}
+
+async function* iterateStream(
+  stream: ReadableStream<Uint8Array>
+): AsyncGenerator<Uint8Array, void, unknown> {
+  const reader = stream.getReader();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+
+      if (done) {
+        return;
+      }
+
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
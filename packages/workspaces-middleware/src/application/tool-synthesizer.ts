@@ -1,26 +1,93 @@
-import { authorizeOperation, isOperationAllowed } from "@/domain/access-guard";
+import { join, relative } from "node:path/posix";
+
+import { runContentTransformers } from "@/application/content-transformers";
+import {
+  countLineChanges,
+  describeTextChange,
+} from "@/application/file-change-events";
+import {
+  applyFilePatches,
+  resolvePatchPaths,
+} from "@/application/patch-applier";
+import {
+  assertFileWithinQuota,
+  assertUsageWithinQuota,
+  assertWritesRemaining,
+  createRunWriteCounter,
+  createStoreUsageCache,
+  hasStorageQuota,
+  type RunWriteCounter,
+  type StoreUsageCache,
+  toStoreScope,
+} from "@/application/quota-guard";
+import {
+  authorizeOperation,
+  isOperationAllowed,
+  isPathOperationAllowed,
+} from "@/domain/access-guard";
 import { AccessDeniedError } from "@/domain/errors";
-import type { AccessScope, Workspace } from "@/domain/models";
-import { resolveWorkspace } from "@/domain/vfs-router";
+import type { AccessScope, PathRule, Workspace } from "@/domain/models";
+import type { StorePort } from "@/domain/store-port";
+import {
+  coerceAbsoluteLogicalPath,
+  isLogicalPathWithin,
+  resolveSearchTargets,
+  resolveWorkspace,
+} from "@/domain/vfs-router";
+import { detectMimeType, isTextMimeType } from "@/infrastructure/mime";
+import { OverlayStoreAdapter } from "@/infrastructure/overlay-store";
+import { withPathLocks } from "@/infrastructure/path-lock";
+import { replaceOccurrences } from "@/infrastructure/path-utils";
 import { PhysicalStoreAdapter } from "@/infrastructure/physical-store";
+import {
+  compareSearchMatches,
+  DEFAULT_SEARCH_MAX_RESULTS,
+} from "@/infrastructure/search-utils";
+import { copyAcrossStores, readFully } from "@/infrastructure/store-copy";
+import {
+  measureStoreUsage,
+  type StoreUsage,
+} from "@/infrastructure/store-usage";
+import { parseUnifiedDiff } from "@/infrastructure/unified-diff";
+import { assertVersionMatch } from "@/infrastructure/versioning";
 import {
   type BaseStoreLike,
   VirtualStoreAdapter,
 } from "@/infrastructure/virtual-store";
 import type {
+  ApplyPatchOptions,
+  BinaryContent,
+  ContentTransformContext,
+  ContentTransformer,
+  DeleteOptions,
+  FileChange,
+  FileChangeEvent,
   MountConfig,
   OperationType,
+  PatchFileResult,
+  PatchHunkResult,
+  PatchResult,
+  ReadOptions,
   RegisteredTool,
+  SearchMatch,
+  SearchOptions,
+  SearchResult,
+  StoreConfig,
   VFSResolution,
   VFSServices,
+  WriteOptions,
 } from "@/presentation/index";
 
+const DEFAULT_RUN_ID = "default";
+
 const ALL_OPERATION_TYPES: OperationType[] = [
   "read",
   "write",
   "edit",
   "list",
   "search",
+  "delete",
+  "move",
 ];
 
 interface PreparedWorkspace {
@@ -33,11 +100,24 @@ interface CachedResolution {
   normalizedKey: string;
   normalizedLogicalPath: string;
   scope: AccessScope;
+  rules: PathRule[];
   workspace: Workspace;
 }
 
+interface FileSnapshot {
+  relativePath: string;
+  content: string | Uint8Array;
+}
+
 export interface VFSServicesBuildOptions {
   virtualStore?: BaseStoreLike;
+  onChange?: (change: FileChange) => void;
+  onFileEvent?: (event: FileChangeEvent) => void;
+  runId?: string;
+  writeCounter?: RunWriteCounter;
+  usageCache?: StoreUsageCache;
+  applyTransforms?: boolean;
+  onRedaction?: (count: number) => void;
 }
 
 export function synthesizeSafeTools(
@@ -58,7 +138,8 @@ export function buildVFSServices(
   mounts: MountConfig[],
   options: VFSServicesBuildOptions = {}
 ): VFSServices {
-  const prepared = prepareWorkspaces(mounts, options);
+  const virtualStore = options.virtualStore ?? createInMemoryBaseStore();
+  const prepared = prepareWorkspaces(mounts, virtualStore);
   const mountByWorkspace = new Map<Workspace, MountConfig>();
 
   for (const item of prepared) {
@@ -69,6 +150,9 @@ export function buildVFSServices(
   const logicalPathCache = new Map<string, CachedResolution>();
   const normalizedKeyCache = new Map<string, CachedResolution>();
   const ambiguousNormalizedKeys = new Set<string>();
+  const runId = options.runId ?? DEFAULT_RUN_ID;
+  const writeCounter = options.writeCounter ?? createRunWriteCounter();
+  const usageCache = options.usageCache ?? createMountUsageCache(virtualStore);
 
   const resolveFromPath = (path: string): CachedResolution => {
     const resolved = resolveWorkspace(path, workspaceList);
@@ -83,6 +167,7 @@ export function buildVFSServices(
       normalizedKey: resolved.normalizedKey,
       normalizedLogicalPath: resolved.normalizedLogicalPath,
       scope: resolved.scope,
+      rules: resolved.rules,
       workspace: resolved.workspace,
     };
 
@@ -115,6 +200,245 @@ export function buildVFSServices(
     return resolveFromPath(pathOrKey);
   };
 
+  const readBeforeChange = async (
+    resolved: CachedResolution
+  ): Promise<string | undefined> => {
+    if (!isObserved()) {
+      return undefined;
+    }
+
+    const { store } = resolved.workspace;
+    const metadata = await store.stat(resolved.normalizedKey);
+
+    return metadata.exists && !metadata.isDirectory
+      ? await readFully(store, resolved.normalizedKey)
+      : undefined;
+  };
+
+  const readFilesBeforeChange = async (
+    resolved: CachedResolution
+  ): Promise<FileSnapshot[]> => {
+    if (options.onChange === undefined) {
+      return [];
+    }
+
+    const { store } = resolved.workspace;
+    const snapshots: FileSnapshot[] = [];
+
+    for (const key of [
+      resolved.normalizedKey,
+      ...(await listNestedKeys(store, resolved.normalizedKey)),
+    ]) {
+      const metadata = await store.stat(key);
+
+      if (metadata.exists && !metadata.isDirectory) {
+        snapshots.push({
+          relativePath: relative(resolved.normalizedKey, key),
+          content: await readSnapshot(store, key),
+        });
+      }
+    }
+
+    return snapshots;
+  };
+
+  const countWrite = async <T>(
+    resolved: CachedResolution,
+    mutation: () => Promise<T>,
+    changed: CachedResolution[] = [resolved]
+  ): Promise<T> => {
+    const { prefix, quota } = resolved.mount;
+    assertWritesRemaining(quota, writeCounter.count(runId, prefix));
+
+    const result = await trackUsage(changed, mutation);
+    writeCounter.record(runId, prefix);
+
+    return result;
+  };
+
+  const trackUsage = async <T>(
+    changed: CachedResolution[],
+    mutation: () => Promise<T>
+  ): Promise<T> => {
+    for (const resolved of changed) {
+      const { quota, store } = resolved.mount;
+
+      if (quota?.maxTotalBytes !== undefined || quota?.maxFiles !== undefined) {
+        await usageCache.measure(store);
+      }
+    }
+
+    return await changed.reduceRight<() => Promise<T>>(
+      (next, resolved) => () =>
+        usageCache.track(resolved.mount.store, [resolved.normalizedKey], next),
+      mutation
+    )();
+  };
+
+  const measureUsage = (resolved: CachedResolution) => () =>
+    usageCache.measure(resolved.mount.store);
+
+  const getTransformers = (
+    mount: MountConfig,
+    operation: ContentTransformContext["operation"]
+  ): ContentTransformer[] =>
+    options.applyTransforms === false
+      ? []
+      : (mount.transforms?.[operation] ?? []);
+
+  const transformContent = async (
+    mount: MountConfig,
+    path: string,
+    operation: ContentTransformContext["operation"],
+    content: string
+  ): Promise<string> => {
+    const transformers = getTransformers(mount, operation);
+
+    if (transformers.length === 0) {
+      return content;
+    }
+
+    const transformed = await runContentTransformers(transformers, content, {
+      path,
+      mount: mount.prefix,
+      operation,
+    });
+
+    if (transformed.redactions > 0) {
+      options.onRedaction?.(transformed.redactions);
+    }
+
+    return transformed.content;
+  };
+
+  const transformBytes = async (
+    resolved: CachedResolution,
+    operation: ContentTransformContext["operation"],
+    data: Uint8Array
+  ): Promise<Uint8Array> => {
+    if (getTransformers(resolved.mount, operation).length === 0) {
+      return data;
+    }
+
+    if (!isTextMimeType(detectMimeType(resolved.normalizedKey, data))) {
+      // Transformers work on text: binary writes are stored as given, but
+      // binary reads could leak what read transformers are meant to redact.
+      if (operation === "write") {
+        return data;
+      }
+
+      throw new AccessDeniedError(
+        `Binary reads are denied on mount '${resolved.mount.prefix}' because it has read transforms`
+      );
+    }
+
+    return new TextEncoder().encode(
+      await transformContent(
+        resolved.mount,
+        resolved.normalizedLogicalPath,
+        operation,
+        new TextDecoder().decode(data)
+      )
+    );
+  };
+
+  const transformSearchMatch = async (
+    workspace: Workspace,
+    match: SearchMatch
+  ): Promise<SearchMatch> => {
+    const mount = mountByWorkspace.get(workspace);
+
+    return mount === undefined
+      ? match
+      : {
+          ...match,
+          text: await transformContent(mount, match.path, "read", match.text),
+        };
+  };
+
+  // Failed hunks echo lines of the file, so they get the same read checks and
+  // transforms as a read, and are left out when the file can't be read.
+  const transformPatchFile = async (
+    resolved: CachedResolution,
+    file: PatchFileResult
+  ): Promise<PatchFileResult> => {
+    const readable =
+      isOperationAllowed("read", resolved.scope) &&
+      isPathOperationAllowed("read", resolved.normalizedKey, resolved.rules);
+    const transformLines = async (lines: string[]): Promise<string[]> =>
+      (
+        await transformContent(
+          resolved.mount,
+          resolved.normalizedLogicalPath,
+          "read",
+          lines.join("\n")
+        )
+      ).split("\n");
+    const hunks: PatchHunkResult[] = [];
+
+    for (const { expected, actual, ...hunk } of file.hunks) {
+      hunks.push(
+        readable
+          ? {
+              ...hunk,
+              ...(expected === undefined
+                ? {}
+                : { expected: await transformLines(expected) }),
+              ...(actual === undefined
+                ? {}
+                : { actual: await transformLines(actual) }),
+            }
+          : hunk
+      );
+    }
+
+    return { ...file, hunks };
+  };
+
+  const isObserved = (): boolean =>
+    options.onChange !== undefined || options.onFileEvent !== undefined;
+
+  const existsBeforeChange = async (
+    resolved: CachedResolution
+  ): Promise<boolean> =>
+    options.onFileEvent !== undefined &&
+    (await resolved.workspace.store.stat(resolved.normalizedKey)).exists;
+
+  const notifyChange = (
+    resolved: CachedResolution,
+    operation: FileChange["operation"],
+    before: string | undefined,
+    after: string
+  ): void => {
+    options.onChange?.({
+      path: resolved.normalizedLogicalPath,
+      operation,
+      before,
+      after,
+    });
+    options.onFileEvent?.(
+      describeTextChange(
+        {
+          path: resolved.normalizedLogicalPath,
+          mount: resolved.mount.prefix,
+        },
+        before,
+        after
+      )
+    );
+  };
+
+  const notifyFileEvent = (
+    resolved: CachedResolution,
+    event: Omit<FileChangeEvent, "path" | "mount">
+  ): void => {
+    options.onFileEvent?.({
+      path: resolved.normalizedLogicalPath,
+      mount: resolved.mount.prefix,
+      ...event,
+    });
+  };
+
   return {
     resolve(path: string): VFSResolution {
       const resolved = resolveFromPath(path);
@@ -123,35 +447,631 @@ export function buildVFSServices(
         mount: resolved.mount,
         normalizedKey: resolved.normalizedKey,
         scope: resolved.scope,
+        rules: resolved.rules,
+      };
+    },
+
+    async read(key: string, readOptions: ReadOptions = {}): Promise<string> {
+      const resolved = resolveForOperation(key);
+      authorizeResolved("read", resolved);
+      const { store } = resolved.workspace;
+      return await transformContent(
+        resolved.mount,
+        resolved.normalizedLogicalPath,
+        "read",
+        readOptions.full === true
+          ? await readFully(store, resolved.normalizedKey)
+          : await store.read(resolved.normalizedKey)
+      );
+    },
+
+    async readBytes(key: string): Promise<BinaryContent> {
+      const resolved = resolveForOperation(key);
+      authorizeResolved("read", resolved);
+      const data = await resolved.workspace.store.readBytes(
+        resolved.normalizedKey
+      );
+
+      return {
+        data: await transformBytes(resolved, "read", data),
+        mimeType: detectMimeType(resolved.normalizedKey, data),
       };
     },
 
-    async read(key: string): Promise<string> {
+    async write(
+      key: string,
+      rawContent: string,
+      writeOptions?: WriteOptions
+    ): Promise<void> {
       const resolved = resolveForOperation(key);
-      authorizeOperation("read", resolved.scope);
-      return await resolved.workspace.store.read(resolved.normalizedKey);
+      authorizeResolved("write", resolved);
+      const content = await transformContent(
+        resolved.mount,
+        resolved.normalizedLogicalPath,
+        "write",
+        rawContent
+      );
+
+      await withPathLocks([toLockKey(resolved)], () =>
+        countWrite(resolved, async () => {
+          await assertFileWithinQuota(
+            resolved.mount.quota,
+            resolved.workspace.store,
+            resolved.normalizedKey,
+            Buffer.byteLength(content, "utf8"),
+            measureUsage(resolved)
+          );
+          const before = await readBeforeChange(resolved);
+          await resolved.workspace.store.write(
+            resolved.normalizedKey,
+            content,
+            writeOptions
+          );
+          notifyChange(resolved, "write", before, content);
+        })
+      );
     },
 
-    async write(key: string, content: string): Promise<void> {
+    async writeBytes(
+      key: string,
+      rawData: Uint8Array,
+      writeOptions?: WriteOptions
+    ): Promise<void> {
       const resolved = resolveForOperation(key);
-      authorizeOperation("write", resolved.scope);
-      await resolved.workspace.store.write(resolved.normalizedKey, content);
+      authorizeResolved("write", resolved);
+      const data = await transformBytes(resolved, "write", rawData);
+
+      await withPathLocks([toLockKey(resolved)], () =>
+        countWrite(resolved, async () => {
+          await assertFileWithinQuota(
+            resolved.mount.quota,
+            resolved.workspace.store,
+            resolved.normalizedKey,
+            data.length,
+            measureUsage(resolved)
+          );
+          const existed = await existsBeforeChange(resolved);
+          const [replaced] = await readFilesBeforeChange(resolved);
+          await resolved.workspace.store.writeBytes(
+            resolved.normalizedKey,
+            data,
+            writeOptions
+          );
+          options.onChange?.({
+            path: resolved.normalizedLogicalPath,
+            operation: "write",
+            before: replaced?.content,
+            after: data,
+          });
+          notifyFileEvent(resolved, {
+            kind: existed ? "modified" : "created",
+            bytes: data.length,
+          });
+        })
+      );
+    },
+
+    async edit(
+      key: string,
+      oldStr: string,
+      rawNewStr: string,
+      replaceAll?: boolean,
+      editOptions?: WriteOptions
+    ): Promise<number> {
+      const resolved = resolveForOperation(key);
+      authorizeResolved("edit", resolved);
+      const newStr = await transformContent(
+        resolved.mount,
+        resolved.normalizedLogicalPath,
+        "write",
+        rawNewStr
+      );
+
+      return await withPathLocks([toLockKey(resolved)], () =>
+        countWrite(resolved, async () => {
+          await assertEditWithinQuota(
+            resolved,
+            oldStr,
+            newStr,
+            measureUsage(resolved),
+            replaceAll
+          );
+          assertVersionMatch(
+            editOptions?.ifMatch,
+            await resolved.workspace.store.stat(resolved.normalizedKey)
+          );
+          const before = await readBeforeChange(resolved);
+          const replaced = await resolved.workspace.store.edit(
+            resolved.normalizedKey,
+            oldStr,
+            newStr,
+            replaceAll
+          );
+
+          if (replaced > 0 && isObserved()) {
+            notifyChange(
+              resolved,
+              "edit",
+              before,
+              await readFully(resolved.workspace.store, resolved.normalizedKey)
+            );
+          }
+
+          return replaced;
+        })
+      );
     },
 
     async list(key: string): Promise<string[]> {
       const resolved = resolveForOperation(key);
       authorizeOperation("list", resolved.scope);
-      return await resolved.workspace.store.list(resolved.normalizedKey);
+      const keys = await resolved.workspace.store.list(resolved.normalizedKey);
+      return keys.filter((entry) =>
+        isPathOperationAllowed("list", entry, resolved.rules)
+      );
     },
 
     async stat(key: string) {
       const resolved = resolveForOperation(key);
-      authorizeOperation("read", resolved.scope);
+      authorizeResolved("list", resolved);
       return await resolved.workspace.store.stat(resolved.normalizedKey);
     },
+
+    async delete(key: string, deleteOptions?: DeleteOptions): Promise<void> {
+      const resolved = resolveForOperation(key);
+      authorizeResolved("delete", resolved);
+
+      if (deleteOptions?.recursive === true) {
+        await authorizeRecursiveDelete(resolved);
+      }
+
+      await withPathLocks([toLockKey(resolved)], () =>
+        countWrite(resolved, async () => {
+          const before =
+            options.onFileEvent === undefined
+              ? undefined
+              : await readBeforeChange(resolved);
+          const removed = await readFilesBeforeChange(resolved);
+          await resolved.workspace.store.delete(
+            resolved.normalizedKey,
+            deleteOptions
+          );
+
+          for (const file of removed) {
+            options.onChange?.({
+              path: join(resolved.normalizedLogicalPath, file.relativePath),
+              operation: "delete",
+              before: file.content,
+            });
+          }
+
+          notifyFileEvent(resolved, {
+            kind: "deleted",
+            ...(before === undefined
+              ? {}
+              : {
+                  diff: countLineChanges(before, ""),
+                  oldText: before,
+                }),
+          });
+        })
+      );
+    },
+
+    async move(fromKey: string, toKey: string): Promise<void> {
+      const source = resolveForOperation(fromKey);
+      const target = resolveForOperation(toKey);
+      await authorizeMove(source, target);
+
+      await withPathLocks([toLockKey(source), toLockKey(target)], () =>
+        countWrite(target, async () => {
+          const moved = await readFilesBeforeChange(source);
+          const replaced = new Map(
+            (await readFilesBeforeChange(target)).map((file) => [
+              file.relativePath,
+              file.content,
+            ])
+          );
+
+          if (source.workspace === target.workspace) {
+            await source.workspace.store.move(
+              source.normalizedKey,
+              target.normalizedKey
+            );
+          } else {
+            await assertMoveWithinQuota(source, target, measureUsage(target));
+            await copyAcrossStores(
+              source.workspace.store,
+              source.normalizedKey,
+              target.workspace.store,
+              target.normalizedKey
+            );
+            await source.workspace.store.delete(source.normalizedKey, {
+              recursive: true,
+            });
+          }
+
+          for (const file of moved) {
+            options.onChange?.({
+              path: join(source.normalizedLogicalPath, file.relativePath),
+              operation: "move",
+              before: file.content,
+            });
+          }
+
+          for (const file of moved) {
+            options.onChange?.({
+              path: join(target.normalizedLogicalPath, file.relativePath),
+              operation: "move",
+              before: replaced.get(file.relativePath),
+              after: file.content,
+            });
+          }
+
+          notifyFileEvent(source, { kind: "deleted" });
+          notifyFileEvent(target, { kind: "created" });
+        }, [source, target])
+      );
+    },
+
+    async mkdir(key: string): Promise<void> {
+      const resolved = resolveForOperation(key);
+      authorizeResolved("write", resolved);
+      await countWrite(resolved, () =>
+        resolved.workspace.store.mkdir(resolved.normalizedKey)
+      );
+    },
+
+    async search(
+      path: string,
+      pattern: string,
+      options: SearchOptions = {}
+    ): Promise<SearchResult> {
+      const maxResults = options.maxResults ?? DEFAULT_SEARCH_MAX_RESULTS;
+      const requestRoot = coerceAbsoluteLogicalPath(path);
+      const matches: SearchMatch[] = [];
+      let truncated = false;
+
+      for (const target of resolveSearchTargets(path, workspaceList)) {
+        if (
+          target.isNested &&
+          !isOperationAllowed("search", target.workspace.scope)
+        ) {
+          continue;
+        }
+
+        authorizeOperation("search", target.workspace.scope);
+
+        const result = await target.workspace.store.search(pattern, {
+          ...options,
+          path: target.normalizedKey,
+          filterPrefix: target.isNested
+            ? relative(requestRoot, target.normalizedPrefix)
+            : "",
+          maxResults,
+        });
+        truncated = truncated || result.truncated;
+
+        for (const match of result.matches) {
+          const logicalPath = join(target.normalizedPrefix, match.path);
+          const isVisible =
+            isPathOperationAllowed(
+              "search",
+              match.path,
+              target.workspace.rules
+            ) &&
+            isPathOperationAllowed(
+              "read",
+              match.path,
+              target.workspace.rules
+            ) &&
+            !target.shadowedPrefixes.some((prefix) =>
+              isLogicalPathWithin(logicalPath, prefix)
+            );
+
+          if (isVisible) {
+            matches.push(
+              await transformSearchMatch(target.workspace, {
+                ...match,
+                path: logicalPath,
+              })
+            );
+          }
+        }
+      }
+
+      matches.sort(compareSearchMatches);
+
+      return {
+        matches: matches.slice(0, maxResults),
+        truncated: truncated || matches.length > maxResults,
+      };
+    },
+
+    async applyPatch(
+      patch: string,
+      patchOptions: ApplyPatchOptions = {}
+    ): Promise<PatchResult> {
+      const filePatches = resolvePatchPaths(
+        parseUnifiedDiff(patch),
+        patchOptions.root
+      );
+      const resolvedByPath = new Map<string, CachedResolution>();
+
+      for (const { oldPath, newPath } of filePatches) {
+        for (const [path, operation] of patchOperations(oldPath, newPath)) {
+          const resolved = resolveForOperation(path);
+          authorizeResolved(operation, resolved);
+          resolvedByPath.set(path, resolved);
+        }
+      }
+
+      const resolvedFor = (path: string): CachedResolution =>
+        resolvedByPath.get(path) ?? resolveForOperation(path);
+
+      const result = await withPathLocks(
+        [...resolvedByPath.values()].map(toLockKey),
+        () =>
+          applyFilePatches(
+            filePatches,
+            {
+              read: async (path) => {
+                const resolved = resolvedFor(path);
+                const { store } = resolved.workspace;
+                const metadata = await store.stat(resolved.normalizedKey);
+
+                return metadata.exists
+                  ? await readFully(store, resolved.normalizedKey)
+                  : undefined;
+              },
+              write: (path, patchedContent, before) => {
+                const resolved = resolvedFor(path);
+
+                return countWrite(resolved, async () => {
+                  const content = await transformContent(
+                    resolved.mount,
+                    resolved.normalizedLogicalPath,
+                    "write",
+                    patchedContent
+                  );
+                  await assertFileWithinQuota(
+                    resolved.mount.quota,
+                    resolved.workspace.store,
+                    resolved.normalizedKey,
+                    Buffer.byteLength(content, "utf8"),
+                    measureUsage(resolved)
+                  );
+                  await resolved.workspace.store.write(
+                    resolved.normalizedKey,
+                    content
+                  );
+                  notifyChange(
+                    resolved,
+                    before === undefined ? "write" : "edit",
+                    before,
+                    content
+                  );
+                });
+              },
+              delete: (path, before) => {
+                const resolved = resolvedFor(path);
+
+                return countWrite(resolved, async () => {
+                  await resolved.workspace.store.delete(resolved.normalizedKey);
+                  options.onChange?.({
+                    path: resolved.normalizedLogicalPath,
+                    operation: "delete",
+                    before,
+                  });
+                  notifyFileEvent(resolved, {
+                    kind: "deleted",
+                    diff: countLineChanges(before, ""),
+                    oldText: before,
+                  });
+                });
+              },
+              restore: (path, before) => {
+                const resolved = resolvedFor(path);
+
+                return trackUsage([resolved], async () => {
+                  if (before === undefined) {
+                    await resolved.workspace.store.delete(
+                      resolved.normalizedKey
+                    );
+                  } else {
+                    await resolved.workspace.store.write(
+                      resolved.normalizedKey,
+                      before
+                    );
+                  }
+                });
+              },
+            },
+            patchOptions
+          )
+      );
+
+      return {
+        ...result,
+        files: await Promise.all(
+          result.files.map((file) =>
+            transformPatchFile(
+              resolvedFor(file.previousPath ?? file.path),
+              file
+            )
+          )
+        ),
+      };
+    },
   };
 }
 
+function patchOperations(
+  oldPath: string | null,
+  newPath: string | null
+): [string, OperationType][] {
+  if (oldPath !== null && oldPath === newPath) {
+    return [[oldPath, "edit"]];
+  }
+
+  const operations: [string, OperationType][] = [];
+
+  if (oldPath !== null) {
+    operations.push([oldPath, "delete"]);
+  }
+
+  if (newPath !== null) {
+    operations.push([newPath, "write"]);
+  }
+
+  return operations;
+}
+
+function toLockKey(resolved: CachedResolution): string {
+  return `${toStoreScope(resolved.mount.store)}#${resolved.normalizedKey}`;
+}
+
+async function assertEditWithinQuota(
+  resolved: CachedResolution,
+  oldStr: string,
+  newStr: string,
+  measureUsage: () => Promise<StoreUsage>,
+  replaceAll = false
+): Promise<void> {
+  const { quota } = resolved.mount;
+
+  if (!hasStorageQuota(quota)) {
+    return;
+  }
+
+  const { store } = resolved.workspace;
+  const replaced = replaceOccurrences(
+    await readFully(store, resolved.normalizedKey),
+    oldStr,
+    newStr,
+    replaceAll
+  );
+
+  if (replaced.count > 0) {
+    await assertFileWithinQuota(
+      quota,
+      store,
+      resolved.normalizedKey,
+      Buffer.byteLength(replaced.content, "utf8"),
+      measureUsage
+    );
+  }
+}
+
+async function assertMoveWithinQuota(
+  source: CachedResolution,
+  target: CachedResolution,
+  measureUsage: () => Promise<StoreUsage>
+): Promise<void> {
+  const { quota } = target.mount;
+
+  if (!hasStorageQuota(quota)) {
+    return;
+  }
+
+  await assertUsageWithinQuota(
+    quota,
+    measureUsage,
+    await measureStoreUsage(source.workspace.store, source.normalizedKey),
+    await measureStoreUsage(target.workspace.store, target.normalizedKey)
+  );
+}
+
+function authorizeResolved(
+  operation: OperationType,
+  resolved: CachedResolution
+): void {
+  authorizeOperation(operation, resolved.scope, {
+    key: resolved.normalizedKey,
+    rules: resolved.rules,
+  });
+}
+
+async function authorizeMove(
+  source: CachedResolution,
+  target: CachedResolution
+): Promise<void> {
+  authorizeResolved("move", source);
+  authorizeResolved("move", target);
+
+  // A move reads and deletes the source and writes the target, so it must not
+  // get around the rules for those operations, for the moved path or anything
+  // under it.
+  const sourceKeys = [
+    source.normalizedKey,
+    ...(await listNestedKeys(source.workspace.store, source.normalizedKey)),
+  ];
+
+  for (const sourceKey of sourceKeys) {
+    const targetKey = join(
+      target.normalizedKey,
+      relative(source.normalizedKey, sourceKey)
+    );
+
+    assertPathRulesAllow("read", sourceKey, source.rules);
+    assertPathRulesAllow("delete", sourceKey, source.rules);
+    assertPathRulesAllow("write", targetKey, target.rules);
+  }
+}
+
+async function authorizeRecursiveDelete(
+  resolved: CachedResolution
+): Promise<void> {
+  for (const key of await listNestedKeys(
+    resolved.workspace.store,
+    resolved.normalizedKey
+  )) {
+    assertPathRulesAllow("delete", key, resolved.rules);
+  }
+}
+
+function assertPathRulesAllow(
+  operation: OperationType,
+  key: string,
+  rules: PathRule[]
+): void {
+  if (!isPathOperationAllowed(operation, key, rules)) {
+    throw new AccessDeniedError(
+      `Operation '${operation}' is denied for '${key}' by mount path rules`
+    );
+  }
+}
+
+async function readSnapshot(
+  store: StorePort,
+  key: string
+): Promise<string | Uint8Array> {
+  const data = await store.readBytes(key);
+
+  return isTextMimeType(detectMimeType(key, data))
+    ? await readFully(store, key)
+    : data;
+}
+
+async function listNestedKeys(
+  store: StorePort,
+  key: string
+): Promise<string[]> {
+  const metadata = await store.stat(key);
+
+  if (!(metadata.exists && metadata.isDirectory)) {
+    return [];
+  }
+
+  const keys: string[] = [];
+
+  for (const entry of await store.list(key)) {
+    keys.push(entry, ...(await listNestedKeys(store, entry)));
+  }
+
+  return keys;
+}
+
 function getAggregateAllowedOperations(
   mounts: MountConfig[]
 ): Set<OperationType> {
@@ -170,27 +1090,58 @@ function getAggregateAllowedOperations(
 
 function prepareWorkspaces(
   mounts: MountConfig[],
-  options: VFSServicesBuildOptions
+  virtualStore: BaseStoreLike
 ): PreparedWorkspace[] {
-  const virtualStore = options.virtualStore ?? createInMemoryBaseStore();
-
   return mounts.map((mount) => {
-    const store =
-      mount.store.type === "physical"
-        ? new PhysicalStoreAdapter(mount.store.rootDir)
-        : new VirtualStoreAdapter(virtualStore, mount.store.namespace);
+    const store = createStoreAdapter(mount.store, virtualStore);
 
     return {
       mount,
       workspace: {
         prefix: mount.prefix,
         scope: mount.scope,
+        rules: mount.rules,
         store,
       },
     };
   });
 }
 
+export function createStoreAdapter(
+  config: StoreConfig,
+  virtualStore: BaseStoreLike
+): StorePort {
+  switch (config.type) {
+    case "physical":
+      return new PhysicalStoreAdapter(config.rootDir, {
+        ignore: config.ignore,
+      });
+    case "overlay":
+      return new OverlayStoreAdapter(
+        new PhysicalStoreAdapter(config.rootDir),
+        virtualStore,
+        config.namespace
+      );
+    default:
+      return new VirtualStoreAdapter(virtualStore, config.namespace, {
+        ttlMs: config.ttlMs,
+        index: config.index,
+      });
+  }
+}
+
+export function createMountUsageCache(
+  virtualStore: BaseStoreLike
+): StoreUsageCache {
+  // Ignored files still take up space, so usage is measured without them hidden.
+  return createStoreUsageCache((config) =>
+    createStoreAdapter(
+      config.type === "physical" ? { ...config, ignore: undefined } : config,
+      virtualStore
+    )
+  );
+}
+
 function cacheResolution(
   logicalPathCache: Map<string, CachedResolution>,
   normalizedKeyCache: Map<string, CachedResolution>,
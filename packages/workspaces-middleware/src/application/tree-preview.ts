@@ -0,0 +1,171 @@
+import { join, relative } from "node:path/posix";
+
+import { buildVFSServices } from "@/application/tool-synthesizer";
+import { isOperationAllowed } from "@/domain/access-guard";
+import { coerceAbsoluteLogicalPath } from "@/domain/vfs-router";
+import type { BaseStoreLike } from "@/infrastructure/virtual-store";
+import type {
+  MountConfig,
+  TreePreview,
+  TreePreviewEntry,
+  TreePreviewOptions,
+  VFSServices,
+} from "@/presentation/index";
+
+const DEFAULT_MAX_DEPTH = 2;
+const DEFAULT_MAX_ENTRIES = 40;
+const DEFAULT_RECENT_WITHIN_MS = 15 * 60 * 1000;
+const MAX_CACHED_THREADS = 1000;
+const MAX_RECENT_PATHS_PER_THREAD = 200;
+
+export interface TreePreviewCache {
+  load(
+    threadId: string,
+    mounts: MountConfig[]
+  ): Promise<Map<string, TreePreview>>;
+  markChanged(threadId: string, paths: string[]): void;
+}
+
+interface ThreadPreviews {
+  mounts: MountConfig[];
+  previews: Promise<Map<string, TreePreview>>;
+}
+
+export function createTreePreviewCache(options: {
+  virtualStore: BaseStoreLike;
+}): TreePreviewCache {
+  const previewsByThread = new Map<string, ThreadPreviews>();
+  const recentByThread = new Map<string, Set<string>>();
+
+  return {
+    load(threadId, mounts) {
+      const cached = previewsByThread.get(threadId);
+
+      if (cached !== undefined && cached.mounts === mounts) {
+        return cached.previews;
+      }
+
+      const previews = buildTreePreviews(mounts, {
+        virtualStore: options.virtualStore,
+        recentPaths: recentByThread.get(threadId) ?? new Set(),
+      });
+      previewsByThread.set(threadId, { mounts, previews });
+      evictOldest(previewsByThread);
+
+      return previews;
+    },
+
+    markChanged(threadId, paths) {
+      const recent = recentByThread.get(threadId) ?? new Set<string>();
+
+      for (const path of paths) {
+        const normalizedPath = coerceAbsoluteLogicalPath(path);
+        recent.delete(normalizedPath);
+        recent.add(normalizedPath);
+      }
+
+      for (const path of [...recent].slice(
+        0,
+        Math.max(0, recent.size - MAX_RECENT_PATHS_PER_THREAD)
+      )) {
+        recent.delete(path);
+      }
+
+      recentByThread.set(threadId, recent);
+      evictOldest(recentByThread);
+      previewsByThread.delete(threadId);
+    },
+  };
+}
+
+export async function buildTreePreviews(
+  mounts: MountConfig[],
+  options: { virtualStore?: BaseStoreLike; recentPaths?: Set<string> } = {}
+): Promise<Map<string, TreePreview>> {
+  const services = buildVFSServices(mounts, {
+    virtualStore: options.virtualStore,
+  });
+  const previews = new Map<string, TreePreview>();
+
+  for (const mount of mounts) {
+    if (
+      mount.treePreview === undefined ||
+      mount.treePreview === false ||
+      !isOperationAllowed("list", mount.scope)
+    ) {
+      continue;
+    }
+
+    try {
+      previews.set(
+        mount.prefix,
+        await buildTreePreview(
+          services,
+          mount,
+          mount.treePreview === true ? {} : mount.treePreview,
+          options.recentPaths ?? new Set()
+        )
+      );
+    } catch {
+      // Previews are best effort; the mount line still describes the mount.
+    }
+  }
+
+  return previews;
+}
+
+async function buildTreePreview(
+  services: VFSServices,
+  mount: MountConfig,
+  previewOptions: TreePreviewOptions,
+  recentPaths: Set<string>
+): Promise<TreePreview> {
+  const maxDepth = previewOptions.maxDepth ?? DEFAULT_MAX_DEPTH;
+  const maxEntries = previewOptions.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  const recentSince =
+    Date.now() - (previewOptions.recentWithinMs ?? DEFAULT_RECENT_WITHIN_MS);
+  const root = coerceAbsoluteLogicalPath(mount.prefix);
+  const entries: TreePreviewEntry[] = [];
+  let truncated = false;
+
+  const visit = async (directory: string, depth: number): Promise<void> => {
+    for (const key of await services.list(directory)) {
+      if (entries.length >= maxEntries) {
+        truncated = true;
+        return;
+      }
+
+      const path = join(root, key);
+      const metadata = await services.stat(path);
+
+      entries.push({
+        path: relative(root, path),
+        depth,
+        isDirectory: metadata.isDirectory,
+        size: metadata.isDirectory ? undefined : metadata.size,
+        recentlyModified:
+          recentPaths.has(path) ||
+          (metadata.modified !== undefined &&
+            metadata.modified.getTime() >= recentSince),
+      });
+
+      if (metadata.isDirectory && depth + 1 < maxDepth) {
+        await visit(path, depth + 1);
+      }
+    }
+  };
+
+  await visit(root, 0);
+
+  return { entries, truncated };
+}
+
+function evictOldest<T>(entries: Map<string, T>): void {
+  for (const key of entries.keys()) {
+    if (entries.size <= MAX_CACHED_THREADS) {
+      return;
+    }
+
+    entries.delete(key);
+  }
+}
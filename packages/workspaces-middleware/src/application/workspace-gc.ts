@@ -0,0 +1,139 @@
+import {
+  buildNamespaceMarkerKey,
+  buildNamespacePrefix,
+  parseMappedKey,
+  parseNamespaceMarker,
+} from "@/infrastructure/virtual-store";
+import type {
+  GcVirtualWorkspacesOptions,
+  GcVirtualWorkspacesReport,
+  RemovedVirtualWorkspace,
+} from "@/presentation/index";
+
+interface NamespaceKeys {
+  namespace: string[];
+  keys: string[];
+  files: number;
+}
+
+export async function gcVirtualWorkspaces(
+  options: GcVirtualWorkspacesOptions
+): Promise<GcVirtualWorkspacesReport> {
+  const { virtualStore } = options;
+  const now = Date.now();
+  const cutoff = resolveCutoff(options.olderThan, now);
+  const groups = await collectNamespaceKeys(options);
+  const report: GcVirtualWorkspacesReport = {
+    scannedNamespaces: groups.length,
+    removed: [],
+    removedKeys: 0,
+    untrackedNamespaces: [],
+  };
+
+  for (const group of groups) {
+    const markerKey = buildNamespaceMarkerKey(group.namespace);
+    const [markerValue] = await virtualStore.mget([markerKey]);
+    const marker = parseNamespaceMarker(markerValue);
+
+    if (marker === undefined) {
+      report.untrackedNamespaces.push(group.namespace);
+      continue;
+    }
+
+    const touchedAt = Date.parse(marker.touchedAt);
+    const reason = getRemovalReason(touchedAt, marker.ttlMs, now, cutoff);
+
+    if (reason === undefined) {
+      continue;
+    }
+
+    const removed: RemovedVirtualWorkspace = {
+      namespace: group.namespace,
+      keys: group.files,
+      touchedAt: marker.touchedAt,
+      reason,
+    };
+
+    if (options.dryRun !== true) {
+      await virtualStore.mdelete([...group.keys, markerKey]);
+    }
+
+    report.removed.push(removed);
+    report.removedKeys += removed.keys;
+  }
+
+  return report;
+}
+
+async function collectNamespaceKeys(
+  options: GcVirtualWorkspacesOptions
+): Promise<NamespaceKeys[]> {
+  const filters = options.namespaces ?? [undefined];
+  const groups = new Map<string, NamespaceKeys>();
+  const seen = new Set<string>();
+
+  for (const filter of filters) {
+    const prefix =
+      filter === undefined ? undefined : buildNamespacePrefix(filter);
+
+    for await (const key of options.virtualStore.yieldKeys(prefix)) {
+      const parsed = parseMappedKey(key);
+
+      if (
+        seen.has(key) ||
+        parsed === undefined ||
+        (filter !== undefined && !startsWithNamespace(parsed.namespace, filter))
+      ) {
+        continue;
+      }
+
+      seen.add(key);
+      const groupKey = buildNamespacePrefix(parsed.namespace);
+      const group = groups.get(groupKey) ?? {
+        namespace: parsed.namespace,
+        keys: [],
+        files: 0,
+      };
+      group.keys.push(key);
+      group.files += parsed.kind === "file" ? 1 : 0;
+      groups.set(groupKey, group);
+    }
+  }
+
+  return [...groups.values()];
+}
+
+function getRemovalReason(
+  touchedAt: number,
+  ttlMs: number,
+  now: number,
+  cutoff: number | undefined
+): RemovedVirtualWorkspace["reason"] | undefined {
+  if (touchedAt + ttlMs <= now) {
+    return "expired";
+  }
+
+  if (cutoff !== undefined && touchedAt <= cutoff) {
+    return "olderThan";
+  }
+
+  return undefined;
+}
+
+function resolveCutoff(
+  olderThan: GcVirtualWorkspacesOptions["olderThan"],
+  now: number
+): number | undefined {
+  if (olderThan === undefined) {
+    return undefined;
+  }
+
+  return typeof olderThan === "number" ? now - olderThan : olderThan.getTime();
+}
+
+function startsWithNamespace(namespace: string[], filter: string[]): boolean {
+  return (
+    filter.length <= namespace.length &&
+    filter.every((segment, index) => namespace[index] === segment)
+  );
+}
@@ -1,10 +1,23 @@
 import { AccessDeniedError } from "@/domain/errors";
-import type { AccessScope } from "@/domain/models";
+import { matchesGlob } from "@/domain/glob-matcher";
+import type { AccessScope, PathRule } from "@/domain/models";
 
-export type OperationType = "read" | "write" | "edit" | "list" | "search";
+export type OperationType =
+  | "read"
+  | "write"
+  | "edit"
+  | "list"
+  | "search"
+  | "delete"
+  | "move";
 
 const READ_ONLY_OPERATIONS = new Set<OperationType>(["read", "list", "search"]);
-const WRITE_ONLY_OPERATIONS = new Set<OperationType>(["write", "edit"]);
+const WRITE_ONLY_OPERATIONS = new Set<OperationType>([
+  "write",
+  "edit",
+  "delete",
+  "move",
+]);
 const READ_WRITE_OPERATIONS = new Set<OperationType>([
   ...READ_ONLY_OPERATIONS,
   ...WRITE_ONLY_OPERATIONS,
@@ -30,9 +43,29 @@ export function isOperationAllowed(
   }
 }
 
+export function isPathOperationAllowed(
+  operation: OperationType,
+  key: string,
+  rules: PathRule[] = []
+): boolean {
+  const applicable = rules.filter(
+    (rule) =>
+      rule.operations === undefined || rule.operations.includes(operation)
+  );
+  const matching = applicable.filter((rule) => matchesGlob(key, rule.pattern));
+
+  if (matching.some((rule) => rule.effect === "deny")) {
+    return false;
+  }
+
+  const hasAllowRules = applicable.some((rule) => rule.effect === "allow");
+  return !hasAllowRules || matching.length > 0;
+}
+
 export function authorizeOperation(
   operation: OperationType,
-  scope: AccessScope
+  scope: AccessScope,
+  target?: { key: string; rules?: PathRule[] }
 ): true {
   if (!isOperationAllowed(operation, scope)) {
     throw new AccessDeniedError(
@@ -40,5 +73,14 @@ export function authorizeOperation(
     );
   }
 
+  if (
+    target !== undefined &&
+    !isPathOperationAllowed(operation, target.key, target.rules)
+  ) {
+    throw new AccessDeniedError(
+      `Operation '${operation}' is denied for '${target.key}' by mount path rules`
+    );
+  }
+
   return true;
 }
@@ -1,6 +1,12 @@
+import type { MountQuota } from "@/domain/models";
+
 const DEFAULT_PATH_TRAVERSAL_ERROR_MESSAGE = "Path traversal not allowed";
 const DEFAULT_ACCESS_DENIED_ERROR_MESSAGE =
   "Operation not permitted for this workspace scope";
+const DEFAULT_CONFLICT_ERROR_MESSAGE =
+  "File was modified since it was last read";
+const DEFAULT_QUOTA_EXCEEDED_ERROR_MESSAGE = "Workspace quota exceeded";
+const DEFAULT_INVALID_PATCH_ERROR_MESSAGE = "Patch is not a valid unified diff";
 
 export class PathTraversalError extends Error {
   constructor(message = DEFAULT_PATH_TRAVERSAL_ERROR_MESSAGE) {
@@ -15,3 +21,30 @@ export class AccessDeniedError extends Error {
     this.name = "AccessDeniedError";
   }
 }
+
+export class ConflictError extends Error {
+  constructor(message = DEFAULT_CONFLICT_ERROR_MESSAGE) {
+    super(message);
+    this.name = "ConflictError";
+  }
+}
+
+export class QuotaExceededError extends Error {
+  readonly limit?: keyof MountQuota;
+
+  constructor(
+    message = DEFAULT_QUOTA_EXCEEDED_ERROR_MESSAGE,
+    limit?: keyof MountQuota
+  ) {
+    super(message);
+    this.name = "QuotaExceededError";
+    this.limit = limit;
+  }
+}
+
+export class InvalidPatchError extends Error {
+  constructor(message = DEFAULT_INVALID_PATCH_ERROR_MESSAGE) {
+    super(message);
+    this.name = "InvalidPatchError";
+  }
+}
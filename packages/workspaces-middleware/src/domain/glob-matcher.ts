@@ -0,0 +1,109 @@
+const REGEX_SPECIAL_CHARACTERS = new Set([
+  ".",
+  "+",
+  "^",
+  "$",
+  "(",
+  ")",
+  "|",
+  "\\",
+  "]",
+  "}",
+]);
+
+interface TranslationState {
+  source: string;
+  braceDepth: number;
+  index: number;
+}
+
+export function globToRegExp(pattern: string): RegExp {
+  const state: TranslationState = { source: "", braceDepth: 0, index: 0 };
+
+  while (state.index < pattern.length) {
+    translateNext(pattern, state);
+  }
+
+  return new RegExp(`^${state.source}${")".repeat(state.braceDepth)}$`);
+}
+
+export function matchesGlob(path: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(path);
+}
+
+function translateNext(pattern: string, state: TranslationState): void {
+  const character = pattern[state.index] as string;
+
+  switch (character) {
+    case "*":
+      translateStar(pattern, state);
+      return;
+    case "?":
+      state.source += "[^/]";
+      state.index += 1;
+      return;
+    case "[":
+      translateCharacterClass(pattern, state);
+      return;
+    default:
+      translateLiteral(character, state);
+  }
+}
+
+function translateStar(pattern: string, state: TranslationState): void {
+  if (pattern[state.index + 1] !== "*") {
+    state.source += "[^/]*";
+    state.index += 1;
+    return;
+  }
+
+  const isSegmentStart = state.index === 0 || pattern[state.index - 1] === "/";
+  const nextIndex = state.index + 2;
+
+  if (isSegmentStart && pattern[nextIndex] === "/") {
+    state.source += "(?:.*/)?";
+    state.index = nextIndex + 1;
+    return;
+  }
+
+  state.source += ".*";
+  state.index = nextIndex;
+}
+
+function translateCharacterClass(
+  pattern: string,
+  state: TranslationState
+): void {
+  const closingIndex = pattern.indexOf("]", state.index + 1);
+
+  if (closingIndex <= state.index + 1) {
+    state.source += "\\[";
+    state.index += 1;
+    return;
+  }
+
+  const body = pattern.slice(state.index + 1, closingIndex);
+  const negated = body.startsWith("!") || body.startsWith("^");
+  const members = (negated ? body.slice(1) : body).replace(/\\/g, "\\\\");
+
+  state.source += negated ? `[^/${members}]` : `[${members}]`;
+  state.index = closingIndex + 1;
+}
+
+function translateLiteral(character: string, state: TranslationState): void {
+  if (character === "{") {
+    state.braceDepth += 1;
+    state.source += "(?:";
+  } else if (character === "}" && state.braceDepth > 0) {
+    state.braceDepth -= 1;
+    state.source += ")";
+  } else if (character === "," && state.braceDepth > 0) {
+    state.source += "|";
+  } else if (REGEX_SPECIAL_CHARACTERS.has(character)) {
+    state.source += `\\${character}`;
+  } else {
+    state.source += character;
+  }
+
+  state.index += 1;
+}
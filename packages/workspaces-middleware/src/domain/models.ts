@@ -1,10 +1,25 @@
+import type { OperationType } from "@/domain/access-guard";
 import type { StorePort } from "@/domain/store-port";
 
 export type AccessScope = "READ_ONLY" | "READ_WRITE" | "WRITE_ONLY";
 
+export interface PathRule {
+  effect: "allow" | "deny";
+  pattern: string;
+  operations?: OperationType[];
+}
+
+export interface MountQuota {
+  maxFileBytes?: number;
+  maxTotalBytes?: number;
+  maxFiles?: number;
+  maxWritesPerRun?: number;
+}
+
 export interface Mount {
   prefix: string;
   scope: AccessScope;
+  rules?: PathRule[];
 }
 
 export interface Workspace extends Mount {
@@ -3,12 +3,59 @@ export interface StoreMetadata {
   isDirectory: boolean;
   size?: number;
   modified?: Date;
+  version?: string;
+}
+
+export interface WriteOptions {
+  ifMatch?: string;
+}
+
+export interface DeleteOptions {
+  recursive?: boolean;
+}
+
+export interface SearchOptions {
+  path?: string;
+  include?: string[];
+  exclude?: string[];
+  filterPrefix?: string;
+  ignoreCase?: boolean;
+  literal?: boolean;
+  fullText?: boolean;
+  maxResults?: number;
+}
+
+export interface SearchMatch {
+  path: string;
+  line: number;
+  text: string;
+  score?: number;
+}
+
+export interface SearchResult {
+  matches: SearchMatch[];
+  truncated: boolean;
 }
 
 export interface StorePort {
   read(path: string, offset?: number, limit?: number): Promise<string>;
-  write(path: string, content: string): Promise<void>;
-  edit(path: string, oldStr: string, newStr: string): Promise<number>;
+  readBytes(path: string): Promise<Uint8Array>;
+  write(path: string, content: string, options?: WriteOptions): Promise<void>;
+  writeBytes(
+    path: string,
+    data: Uint8Array,
+    options?: WriteOptions
+  ): Promise<void>;
+  edit(
+    path: string,
+    oldStr: string,
+    newStr: string,
+    replaceAll?: boolean
+  ): Promise<number>;
   list(path: string): Promise<string[]>;
   stat(path: string): Promise<StoreMetadata>;
+  delete(path: string, options?: DeleteOptions): Promise<void>;
+  move(fromPath: string, toPath: string): Promise<void>;
+  mkdir(path: string): Promise<void>;
+  search(pattern: string, options?: SearchOptions): Promise<SearchResult>;
 }
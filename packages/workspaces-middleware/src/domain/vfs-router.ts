@@ -1,7 +1,7 @@
 import { isAbsolute, normalize, relative } from "node:path/posix";
 
 import { AccessDeniedError, PathTraversalError } from "@/domain/errors";
-import type { AccessScope, Workspace } from "@/domain/models";
+import type { AccessScope, PathRule, Workspace } from "@/domain/models";
 
 const WINDOWS_DRIVE_PREFIX_REGEX = /(?:^|[\\/])[a-zA-Z]:/;
 
@@ -10,6 +10,15 @@ export interface WorkspaceResolution {
   normalizedLogicalPath: string;
   normalizedKey: string;
   scope: AccessScope;
+  rules: PathRule[];
+}
+
+export interface SearchTarget {
+  workspace: Workspace;
+  normalizedKey: string;
+  normalizedPrefix: string;
+  isNested: boolean;
+  shadowedPrefixes: string[];
 }
 
 export function coerceAbsoluteLogicalPath(requestPath: string): string {
@@ -94,9 +103,78 @@ export function resolveWorkspace(
     normalizedLogicalPath,
     normalizedKey,
     scope: bestMatch.workspace.scope,
+    rules: bestMatch.workspace.rules ?? [],
   };
 }
 
+export function resolveSearchTargets(
+  requestPath: string,
+  workspaces: Workspace[]
+): SearchTarget[] {
+  validateFilePath(requestPath, "/");
+
+  const normalizedLogicalPath = coerceAbsoluteLogicalPath(requestPath);
+  const targets: Omit<SearchTarget, "shadowedPrefixes">[] = [];
+  let owner: WorkspaceResolution | undefined;
+
+  try {
+    owner = resolveWorkspace(requestPath, workspaces);
+  } catch (error) {
+    if (!(error instanceof AccessDeniedError)) {
+      throw error;
+    }
+  }
+
+  if (owner !== undefined) {
+    targets.push({
+      workspace: owner.workspace,
+      normalizedKey: owner.normalizedKey,
+      normalizedPrefix: normalizeWorkspacePrefix(owner.workspace.prefix),
+      isNested: false,
+    });
+  }
+
+  for (const workspace of workspaces) {
+    const normalizedPrefix = normalizeWorkspacePrefix(workspace.prefix);
+
+    if (
+      workspace === owner?.workspace ||
+      normalizedPrefix === normalizedLogicalPath ||
+      !isWithinPrefix(normalizedPrefix, normalizedLogicalPath)
+    ) {
+      continue;
+    }
+
+    targets.push({
+      workspace,
+      normalizedKey: "",
+      normalizedPrefix,
+      isNested: true,
+    });
+  }
+
+  if (targets.length === 0) {
+    throw new AccessDeniedError(
+      "Requested path does not map to a configured workspace"
+    );
+  }
+
+  return targets.map((target) => ({
+    ...target,
+    shadowedPrefixes: targets
+      .filter(
+        (other) =>
+          other.normalizedPrefix.length > target.normalizedPrefix.length &&
+          isWithinPrefix(other.normalizedPrefix, target.normalizedPrefix)
+      )
+      .map((other) => other.normalizedPrefix),
+  }));
+}
+
+export function isLogicalPathWithin(path: string, prefix: string): boolean {
+  return isWithinPrefix(path, normalizeWorkspacePrefix(prefix));
+}
+
 function normalizeWorkspacePrefix(prefix: string): string {
   const normalized = coerceAbsoluteLogicalPath(prefix);
 
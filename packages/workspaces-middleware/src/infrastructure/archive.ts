@@ -0,0 +1,52 @@
+import {
+  decodeTar,
+  encodeTarEnd,
+  encodeTarEntry,
+} from "@/infrastructure/tar-archive";
+import { createZipWriter, decodeZip } from "@/infrastructure/zip-archive";
+
+export type ArchiveFormat = "tar" | "zip";
+
+export interface ArchiveEntry {
+  path: string;
+  data: Uint8Array;
+  modified?: Date;
+  isDirectory?: boolean;
+}
+
+const ZIP_MAGIC_BYTES = [0x50, 0x4b];
+
+export async function* encodeArchive(
+  entries: AsyncIterable<ArchiveEntry>,
+  format: ArchiveFormat
+): AsyncGenerator<Uint8Array, void, unknown> {
+  if (format === "zip") {
+    const writer = createZipWriter();
+
+    for await (const entry of entries) {
+      yield* writer.add(entry);
+    }
+
+    yield* writer.finish();
+    return;
+  }
+
+  for await (const entry of entries) {
+    yield* encodeTarEntry(entry);
+  }
+
+  yield encodeTarEnd();
+}
+
+export function decodeArchive(
+  archive: Uint8Array,
+  format: ArchiveFormat = detectArchiveFormat(archive)
+): ArchiveEntry[] {
+  return format === "zip" ? decodeZip(archive) : decodeTar(archive);
+}
+
+export function detectArchiveFormat(archive: Uint8Array): ArchiveFormat {
+  return ZIP_MAGIC_BYTES.every((byte, index) => archive[index] === byte)
+    ? "zip"
+    : "tar";
+}
@@ -0,0 +1,183 @@
+import { globToRegExp } from "@/domain/glob-matcher";
+
+const GITIGNORE_FILE_NAME = ".gitignore";
+const GIT_DIRECTORY_PATTERN = ".git/";
+const LINE_BREAK_REGEX = /\r?\n/;
+const TRAILING_WHITESPACE_REGEX = /\s+$/;
+
+export interface IgnoreOptions {
+  gitignore?: boolean;
+  patterns?: string[];
+  hideFromReads?: boolean;
+}
+
+export interface IgnoreMatcher {
+  isIgnored(key: string, isDirectory: boolean): Promise<boolean>;
+}
+
+interface IgnoreRule {
+  base: string;
+  matcher: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+  anchored: boolean;
+}
+
+export function createIgnoreMatcher(
+  options: IgnoreOptions,
+  readIgnoreFile: (path: string) => Promise<string | undefined>
+): IgnoreMatcher {
+  const extraRules = [
+    ...(options.gitignore === true ? [GIT_DIRECTORY_PATTERN] : []),
+    ...(options.patterns ?? []),
+  ].flatMap((pattern) => parseIgnoreLine(pattern, ""));
+  const rulesByDirectory = new Map<string, Promise<IgnoreRule[]>>();
+  const resultsByKey = new Map<string, Promise<boolean>>();
+
+  const loadDirectoryRules = (directory: string): Promise<IgnoreRule[]> => {
+    const cached = rulesByDirectory.get(directory);
+
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const loaded = (async () => {
+      const inherited =
+        directory === "" ? [] : await loadDirectoryRules(parentOf(directory));
+
+      if (options.gitignore !== true) {
+        return inherited;
+      }
+
+      const content = await readIgnoreFile(
+        directory === ""
+          ? GITIGNORE_FILE_NAME
+          : `${directory}/${GITIGNORE_FILE_NAME}`
+      );
+
+      return content === undefined
+        ? inherited
+        : [...inherited, ...parseIgnoreFile(content, directory)];
+    })();
+    rulesByDirectory.set(directory, loaded);
+
+    return loaded;
+  };
+
+  const evaluate = async (
+    key: string,
+    isDirectory: boolean
+  ): Promise<boolean> => {
+    const parent = parentOf(key);
+
+    if (parent !== "" && (await matcher.isIgnored(parent, true))) {
+      return true;
+    }
+
+    const rules = [...(await loadDirectoryRules(parent)), ...extraRules];
+    let ignored = false;
+
+    for (const rule of rules) {
+      if (matchesRule(rule, key, isDirectory)) {
+        ignored = !rule.negated;
+      }
+    }
+
+    return ignored;
+  };
+
+  const matcher: IgnoreMatcher = {
+    isIgnored(key, isDirectory) {
+      if (key === "") {
+        return Promise.resolve(false);
+      }
+
+      const cacheKey = `${isDirectory ? "d" : "f"}:${key}`;
+      const cached = resultsByKey.get(cacheKey);
+
+      if (cached !== undefined) {
+        return cached;
+      }
+
+      const result = evaluate(key, isDirectory);
+      resultsByKey.set(cacheKey, result);
+
+      return result;
+    },
+  };
+
+  return matcher;
+}
+
+function parseIgnoreFile(content: string, base: string): IgnoreRule[] {
+  return content
+    .split(LINE_BREAK_REGEX)
+    .flatMap((line) => parseIgnoreLine(line, base));
+}
+
+function parseIgnoreLine(line: string, base: string): IgnoreRule[] {
+  let pattern = line.replace(TRAILING_WHITESPACE_REGEX, "");
+
+  if (pattern === "" || pattern.startsWith("#")) {
+    return [];
+  }
+
+  const negated = pattern.startsWith("!");
+
+  if (negated || pattern.startsWith("\\")) {
+    pattern = pattern.slice(1);
+  }
+
+  const directoryOnly = pattern.endsWith("/");
+
+  if (directoryOnly) {
+    pattern = pattern.slice(0, -1);
+  }
+
+  const anchored = pattern.includes("/");
+
+  if (pattern.startsWith("/")) {
+    pattern = pattern.slice(1);
+  }
+
+  if (pattern === "") {
+    return [];
+  }
+
+  return [
+    {
+      base,
+      matcher: globToRegExp(pattern),
+      negated,
+      directoryOnly,
+      anchored,
+    },
+  ];
+}
+
+function matchesRule(
+  rule: IgnoreRule,
+  key: string,
+  isDirectory: boolean
+): boolean {
+  if (rule.directoryOnly && !isDirectory) {
+    return false;
+  }
+
+  if (rule.base !== "" && !key.startsWith(`${rule.base}/`)) {
+    return false;
+  }
+
+  const relativeKey = rule.base === "" ? key : key.slice(rule.base.length + 1);
+  const target = rule.anchored
+    ? relativeKey
+    : relativeKey.slice(relativeKey.lastIndexOf("/") + 1);
+
+  return rule.matcher.test(target);
+}
+
+function parentOf(key: string): string {
+  const separatorIndex = key.lastIndexOf("/");
+
+  return separatorIndex === -1 ? "" : key.slice(0, separatorIndex);
+}
@@ -0,0 +1,81 @@
+import { extname } from "node:path/posix";
+
+const DEFAULT_TEXT_MIME_TYPE = "text/plain";
+const DEFAULT_BINARY_MIME_TYPE = "application/octet-stream";
+const BINARY_SNIFF_BYTES = 8000;
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+  ".ico": "image/x-icon",
+  ".pdf": "application/pdf",
+  ".zip": "application/zip",
+  ".gz": "application/gzip",
+  ".tar": "application/x-tar",
+  ".wasm": "application/wasm",
+  ".mp3": "audio/mpeg",
+  ".wav": "audio/wav",
+  ".mp4": "video/mp4",
+  ".json": "application/json",
+  ".xml": "application/xml",
+  ".js": "text/javascript",
+  ".html": "text/html",
+  ".css": "text/css",
+  ".csv": "text/csv",
+  ".md": "text/markdown",
+};
+
+const MAGIC_NUMBERS: { mimeType: string; bytes: number[]; offset?: number }[] =
+  [
+    { mimeType: "image/png", bytes: [0x89, 0x50, 0x4e, 0x47] },
+    { mimeType: "image/jpeg", bytes: [0xff, 0xd8, 0xff] },
+    { mimeType: "image/gif", bytes: [0x47, 0x49, 0x46, 0x38] },
+    { mimeType: "image/webp", bytes: [0x57, 0x45, 0x42, 0x50], offset: 8 },
+    { mimeType: "application/pdf", bytes: [0x25, 0x50, 0x44, 0x46] },
+    { mimeType: "application/zip", bytes: [0x50, 0x4b, 0x03, 0x04] },
+    { mimeType: "application/gzip", bytes: [0x1f, 0x8b] },
+  ];
+
+const TEXT_APPLICATION_MIME_TYPES = new Set([
+  "application/json",
+  "application/xml",
+  "image/svg+xml",
+]);
+
+export function detectMimeType(path: string, data?: Uint8Array): string {
+  const sniffed = data === undefined ? undefined : sniffMimeType(data);
+
+  if (sniffed !== undefined) {
+    return sniffed;
+  }
+
+  const byExtension = EXTENSION_MIME_TYPES[extname(path).toLowerCase()];
+
+  if (byExtension !== undefined) {
+    return byExtension;
+  }
+
+  if (data?.subarray(0, BINARY_SNIFF_BYTES).includes(0)) {
+    return DEFAULT_BINARY_MIME_TYPE;
+  }
+
+  return DEFAULT_TEXT_MIME_TYPE;
+}
+
+export function isTextMimeType(mimeType: string): boolean {
+  return (
+    mimeType.startsWith("text/") || TEXT_APPLICATION_MIME_TYPES.has(mimeType)
+  );
+}
+
+function sniffMimeType(data: Uint8Array): string | undefined {
+  const match = MAGIC_NUMBERS.find(({ bytes, offset = 0 }) =>
+    bytes.every((byte, index) => data[offset + index] === byte)
+  );
+
+  return match?.mimeType;
+}
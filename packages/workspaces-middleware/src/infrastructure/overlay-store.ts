@@ -0,0 +1,408 @@
+import type {
+  DeleteOptions,
+  SearchMatch,
+  SearchOptions,
+  SearchResult,
+  StoreMetadata,
+  StorePort,
+  WriteOptions,
+} from "@/domain/store-port";
+import {
+  normalizeStoreKey,
+  replaceOccurrences,
+  sliceByWindow,
+} from "@/infrastructure/path-utils";
+import {
+  compareSearchMatches,
+  DEFAULT_SEARCH_MAX_RESULTS,
+} from "@/infrastructure/search-utils";
+import { copyAcrossStores, readFully } from "@/infrastructure/store-copy";
+import { assertVersionMatch } from "@/infrastructure/versioning";
+import {
+  type BaseStoreLike,
+  FileNotFoundError,
+  VirtualStoreAdapter,
+  type VirtualStoreAdapterOptions,
+} from "@/infrastructure/virtual-store";
+
+const UPPER_NAMESPACE_SEGMENT = "upper";
+const WHITEOUT_NAMESPACE_SEGMENT = "whiteouts";
+const WHITEOUT_MARKER = "";
+const MISSING_METADATA: StoreMetadata = { exists: false, isDirectory: false };
+
+export type OverlayChangeKind = "added" | "modified" | "deleted";
+
+export interface OverlayChange {
+  path: string;
+  kind: OverlayChangeKind;
+  before?: string;
+  after?: string;
+}
+
+export class OverlayStoreAdapter implements StorePort {
+  private readonly lower: StorePort;
+  private readonly upper: VirtualStoreAdapter;
+  private readonly whiteouts: VirtualStoreAdapter;
+
+  constructor(
+    lower: StorePort,
+    store: BaseStoreLike,
+    namespace: string[],
+    options: VirtualStoreAdapterOptions = {}
+  ) {
+    this.lower = lower;
+    this.upper = new VirtualStoreAdapter(
+      store,
+      [...namespace, UPPER_NAMESPACE_SEGMENT],
+      options
+    );
+    this.whiteouts = new VirtualStoreAdapter(
+      store,
+      [...namespace, WHITEOUT_NAMESPACE_SEGMENT],
+      options
+    );
+  }
+
+  async read(path: string, offset = 0, limit?: number): Promise<string> {
+    const key = normalizeStoreKey(path);
+    const [content] = await this.upper.readMany([key]);
+
+    if (content !== undefined) {
+      return sliceByWindow(content, offset, limit);
+    }
+
+    if (await this.isHidden(key)) {
+      throw new FileNotFoundError();
+    }
+
+    return await this.lower.read(key, offset, limit);
+  }
+
+  async readBytes(path: string): Promise<Uint8Array> {
+    const key = normalizeStoreKey(path);
+
+    if ((await this.upper.stat(key)).exists) {
+      return await this.upper.readBytes(key);
+    }
+
+    if (await this.isHidden(key)) {
+      throw new FileNotFoundError();
+    }
+
+    return await this.lower.readBytes(key);
+  }
+
+  async write(
+    path: string,
+    content: string,
+    options: WriteOptions = {}
+  ): Promise<void> {
+    const key = normalizeStoreKey(path);
+
+    if (options.ifMatch !== undefined) {
+      assertVersionMatch(options.ifMatch, await this.stat(key));
+    }
+
+    await this.upper.write(key, content);
+  }
+
+  async writeBytes(
+    path: string,
+    data: Uint8Array,
+    options: WriteOptions = {}
+  ): Promise<void> {
+    const key = normalizeStoreKey(path);
+
+    if (options.ifMatch !== undefined) {
+      assertVersionMatch(options.ifMatch, await this.stat(key));
+    }
+
+    await this.upper.writeBytes(key, data);
+  }
+
+  async edit(
+    path: string,
+    oldStr: string,
+    newStr: string,
+    replaceAll = false
+  ): Promise<number> {
+    const key = normalizeStoreKey(path);
+    const { version } = await this.stat(key);
+    const current = await readFully(this, key);
+    const replaced = replaceOccurrences(current, oldStr, newStr, replaceAll);
+
+    if (replaced.count === 0) {
+      return 0;
+    }
+
+    await this.write(key, replaced.content, { ifMatch: version });
+
+    return replaced.count;
+  }
+
+  async list(path: string): Promise<string[]> {
+    const key = normalizeStoreKey(path, true);
+    const metadata = await this.stat(key);
+
+    if (!metadata.exists) {
+      throw new FileNotFoundError();
+    }
+
+    const entries = new Set(await this.upper.list(key));
+    const lowerMetadata = await this.statLower(key);
+
+    if (lowerMetadata.isDirectory) {
+      const lowerEntries = await this.lower.list(key);
+      const whiteouts = await this.whiteouts.readMany(lowerEntries);
+
+      for (const [index, entry] of lowerEntries.entries()) {
+        if (whiteouts[index] === undefined) {
+          entries.add(entry);
+        }
+      }
+    }
+
+    return [...entries].sort((left, right) => left.localeCompare(right));
+  }
+
+  async stat(path: string): Promise<StoreMetadata> {
+    const key = normalizeStoreKey(path, true);
+
+    if (key === "") {
+      return { exists: true, isDirectory: true };
+    }
+
+    const upperMetadata = await this.upper.stat(key);
+
+    if (upperMetadata.exists) {
+      return upperMetadata;
+    }
+
+    return await this.statLower(key);
+  }
+
+  async delete(path: string, options: DeleteOptions = {}): Promise<void> {
+    const key = normalizeStoreKey(path);
+    const metadata = await this.stat(key);
+
+    if (!metadata.exists) {
+      throw new FileNotFoundError();
+    }
+
+    if (
+      metadata.isDirectory &&
+      options.recursive !== true &&
+      (await this.list(key)).length > 0
+    ) {
+      throw new Error("Directory not empty");
+    }
+
+    if ((await this.upper.stat(key)).exists) {
+      await this.upper.delete(key, { recursive: true });
+    }
+
+    if ((await this.statLower(key)).exists) {
+      await this.whiteouts.deleteMany(await this.whiteouts.listKeys(key));
+      await this.whiteouts.write(key, WHITEOUT_MARKER);
+    }
+  }
+
+  async move(fromPath: string, toPath: string): Promise<void> {
+    const sourceKey = normalizeStoreKey(fromPath);
+    const targetKey = normalizeStoreKey(toPath);
+
+    if (targetKey === sourceKey) {
+      return;
+    }
+
+    if (targetKey.startsWith(`${sourceKey}/`)) {
+      throw new Error("Cannot move a directory into itself");
+    }
+
+    await copyAcrossStores(this, sourceKey, this, targetKey);
+    await this.delete(sourceKey, { recursive: true });
+  }
+
+  async mkdir(path: string): Promise<void> {
+    const metadata = await this.stat(normalizeStoreKey(path));
+
+    // Overlay directories are implied by upper key prefixes, as in the virtual store.
+    if (metadata.exists && !metadata.isDirectory) {
+      throw new Error("A file already exists at this path");
+    }
+  }
+
+  async search(
+    pattern: string,
+    options: SearchOptions = {}
+  ): Promise<SearchResult> {
+    const root = normalizeStoreKey(options.path ?? "", true);
+    const maxResults = options.maxResults ?? DEFAULT_SEARCH_MAX_RESULTS;
+
+    if (!(await this.stat(root)).exists) {
+      throw new FileNotFoundError();
+    }
+
+    const upperKeys = await this.collectUpperKeys(root);
+    const upperResult =
+      upperKeys.size > 0
+        ? await this.upper.search(pattern, { ...options, path: root })
+        : { matches: [], truncated: false };
+    const lowerResult = (await this.statLower(root)).exists
+      ? await this.lower.search(pattern, { ...options, path: root })
+      : { matches: [], truncated: false };
+    const visibleLowerMatches = await this.filterVisibleMatches(
+      lowerResult.matches,
+      upperKeys
+    );
+    const matches = [...upperResult.matches, ...visibleLowerMatches].sort(
+      compareSearchMatches
+    );
+
+    return {
+      matches: matches.slice(0, maxResults),
+      truncated:
+        upperResult.truncated ||
+        lowerResult.truncated ||
+        matches.length > maxResults,
+    };
+  }
+
+  async diff(): Promise<OverlayChange[]> {
+    const changes = new Map<string, OverlayChange>();
+
+    for (const whiteout of await this.whiteouts.listKeys()) {
+      for (const file of await this.collectLowerFiles(whiteout)) {
+        changes.set(file, {
+          path: file,
+          kind: "deleted",
+          before: await readFully(this.lower, file),
+        });
+      }
+    }
+
+    const upperKeys = await this.upper.listKeys();
+    const upperContents = await this.upper.readMany(upperKeys);
+
+    for (const [index, key] of upperKeys.entries()) {
+      const after = upperContents[index];
+
+      if (after === undefined) {
+        continue;
+      }
+
+      const lowerMetadata = await this.lower.stat(key);
+
+      if (!lowerMetadata.exists || lowerMetadata.isDirectory) {
+        changes.set(key, { path: key, kind: "added", after });
+        continue;
+      }
+
+      const before = await readFully(this.lower, key);
+
+      if (before === after) {
+        changes.delete(key);
+      } else {
+        changes.set(key, { path: key, kind: "modified", before, after });
+      }
+    }
+
+    return [...changes.values()].sort((left, right) =>
+      left.path.localeCompare(right.path)
+    );
+  }
+
+  async commit(): Promise<OverlayChange[]> {
+    const changes = await this.diff();
+
+    for (const whiteout of await this.whiteouts.listKeys()) {
+      if ((await this.lower.stat(whiteout)).exists) {
+        await this.lower.delete(whiteout, { recursive: true });
+      }
+    }
+
+    for (const change of changes) {
+      if (change.after !== undefined) {
+        await this.lower.writeBytes(
+          change.path,
+          await this.upper.readBytes(change.path)
+        );
+      }
+    }
+
+    await this.discard();
+
+    return changes;
+  }
+
+  async discard(): Promise<void> {
+    await this.upper.deleteMany(await this.upper.listKeys());
+    await this.whiteouts.deleteMany(await this.whiteouts.listKeys());
+  }
+
+  private async statLower(key: string): Promise<StoreMetadata> {
+    if (key !== "" && (await this.isHidden(key))) {
+      return MISSING_METADATA;
+    }
+
+    return await this.lower.stat(key);
+  }
+
+  private async isHidden(key: string): Promise<boolean> {
+    const segments = key.split("/");
+    const ancestors = segments.map((_, index) =>
+      segments.slice(0, index + 1).join("/")
+    );
+    const whiteouts = await this.whiteouts.readMany(ancestors);
+
+    return whiteouts.some((value) => value !== undefined);
+  }
+
+  private async collectUpperKeys(root: string): Promise<Set<string>> {
+    const keys = new Set(await this.upper.listKeys(root));
+
+    if (root !== "" && (await this.upper.readMany([root]))[0] !== undefined) {
+      keys.add(root);
+    }
+
+    return keys;
+  }
+
+  private async filterVisibleMatches(
+    matches: SearchMatch[],
+    upperKeys: Set<string>
+  ): Promise<SearchMatch[]> {
+    const candidates = [...new Set(matches.map((match) => match.path))].filter(
+      (path) => !upperKeys.has(path)
+    );
+    const visible = new Set<string>();
+
+    for (const path of candidates) {
+      if (!(await this.isHidden(path))) {
+        visible.add(path);
+      }
+    }
+
+    return matches.filter((match) => visible.has(match.path));
+  }
+
+  private async collectLowerFiles(key: string): Promise<string[]> {
+    const metadata = await this.lower.stat(key);
+
+    if (!metadata.exists) {
+      return [];
+    }
+
+    if (!metadata.isDirectory) {
+      return [key];
+    }
+
+    const files: string[] = [];
+
+    for (const entry of await this.lower.list(key)) {
+      files.push(...(await this.collectLowerFiles(entry)));
+    }
+
+    return files;
+  }
+}
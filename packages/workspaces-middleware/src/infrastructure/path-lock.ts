@@ -0,0 +1,42 @@
+const pathLocks = new Map<string, Promise<void>>();
+
+export async function withPathLocks<T>(
+  lockKeys: string[],
+  operation: () => Promise<T>
+): Promise<T> {
+  const releases: (() => void)[] = [];
+
+  try {
+    for (const lockKey of [...new Set(lockKeys)].sort()) {
+      releases.push(await acquirePathLock(lockKey));
+    }
+
+    return await operation();
+  } finally {
+    for (const release of releases.reverse()) {
+      release();
+    }
+  }
+}
+
+async function acquirePathLock(lockKey: string): Promise<() => void> {
+  const previous = pathLocks.get(lockKey) ?? Promise.resolve();
+  let releaseCurrent = () => {
+    // replaced once the lock promise is created
+  };
+  const current = new Promise<void>((resolve) => {
+    releaseCurrent = resolve;
+  });
+  const tail = previous.then(() => current);
+
+  pathLocks.set(lockKey, tail);
+  await previous;
+
+  return () => {
+    releaseCurrent();
+
+    if (pathLocks.get(lockKey) === tail) {
+      pathLocks.delete(lockKey);
+    }
+  };
+}
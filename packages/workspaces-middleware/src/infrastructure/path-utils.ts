@@ -58,3 +58,29 @@ export function sliceByWindow(
   const boundedLimit = Math.max(0, limit);
   return characters.slice(boundedOffset, boundedOffset + boundedLimit).join("");
 }
+
+export function replaceOccurrences(
+  content: string,
+  oldStr: string,
+  newStr: string,
+  replaceAll = false
+): { content: string; count: number } {
+  if (replaceAll && oldStr !== "") {
+    const segments = content.split(oldStr);
+    return {
+      content: segments.join(newStr),
+      count: segments.length - 1,
+    };
+  }
+
+  const index = content.indexOf(oldStr);
+
+  if (index < 0) {
+    return { content, count: 0 };
+  }
+
+  return {
+    content: `${content.slice(0, index)}${newStr}${content.slice(index + oldStr.length)}`,
+    count: 1,
+  };
+}
@@ -5,35 +5,89 @@ import {
   O_TRUNC,
   O_WRONLY,
 } from "node:constants";
-import { lstat, mkdir, open, readdir } from "node:fs/promises";
+import {
+  lstat,
+  mkdir,
+  open,
+  readdir,
+  rename,
+  rm,
+  rmdir,
+  unlink,
+} from "node:fs/promises";
 import { dirname, isAbsolute, normalize, relative, resolve } from "node:path";
 
 import { PathTraversalError } from "@/domain/errors";
-import type { StoreMetadata, StorePort } from "@/domain/store-port";
-import { normalizeStoreKey } from "@/infrastructure/path-utils";
+import type {
+  DeleteOptions,
+  SearchMatch,
+  SearchOptions,
+  SearchResult,
+  StoreMetadata,
+  StorePort,
+  WriteOptions,
+} from "@/domain/store-port";
+import {
+  createIgnoreMatcher,
+  type IgnoreMatcher,
+  type IgnoreOptions,
+} from "@/infrastructure/ignore-matcher";
+import {
+  normalizeStoreKey,
+  replaceOccurrences,
+} from "@/infrastructure/path-utils";
+import {
+  type CompiledSearch,
+  collectLineMatches,
+  compileSearch,
+  isExcludedPath,
+  isSearchCandidate,
+  toSearchResult,
+} from "@/infrastructure/search-utils";
+import {
+  assertVersionMatch,
+  formatStatVersion,
+} from "@/infrastructure/versioning";
+import { FileNotFoundError } from "@/infrastructure/virtual-store";
 
 const DEFAULT_LARGE_FILE_THRESHOLD_BYTES = 256 * 1024;
+const DEFAULT_MAX_SEARCH_FILE_BYTES = 1024 * 1024;
 const DIRECTORY_SEPARATOR_REGEX = /[\\/]/;
 const READ_NOFOLLOW_FLAGS = O_RDONLY + O_NOFOLLOW;
 const WRITE_NOFOLLOW_FLAGS = O_WRONLY + O_CREAT + O_TRUNC + O_NOFOLLOW;
 
 export interface PhysicalStoreAdapterOptions {
   largeFileThresholdBytes?: number;
+  maxSearchFileBytes?: number;
+  ignore?: IgnoreOptions;
 }
 
 export class PhysicalStoreAdapter implements StorePort {
   private readonly largeFileThresholdBytes: number;
+  private readonly maxSearchFileBytes: number;
   private readonly rootDir: string;
+  private readonly ignore?: IgnoreMatcher;
+  private readonly hideIgnoredFromReads: boolean;
 
   constructor(rootDir: string, options: PhysicalStoreAdapterOptions = {}) {
     this.rootDir = rootDir;
+    this.ignore =
+      options.ignore === undefined
+        ? undefined
+        : createIgnoreMatcher(options.ignore, (key) =>
+            this.readIgnoreFile(key)
+          );
+    this.hideIgnoredFromReads = options.ignore?.hideFromReads === true;
     this.largeFileThresholdBytes =
       options.largeFileThresholdBytes ?? DEFAULT_LARGE_FILE_THRESHOLD_BYTES;
+    this.maxSearchFileBytes =
+      options.maxSearchFileBytes ?? DEFAULT_MAX_SEARCH_FILE_BYTES;
   }
 
   async read(path: string, offset = 0, limit?: number): Promise<string> {
     const hostPath = this.resolveHostPath(path);
     await this.assertNoSymlinkInPath(hostPath);
+    await this.assertNotHidden(path);
 
     const fileHandle = await openReadNoFollow(hostPath);
 
@@ -78,9 +132,47 @@ export class PhysicalStoreAdapter implements StorePort {
     }
   }
 
-  async write(path: string, content: string): Promise<void> {
+  async readBytes(path: string): Promise<Uint8Array> {
+    const hostPath = this.resolveHostPath(path);
+    await this.assertNoSymlinkInPath(hostPath);
+    await this.assertNotHidden(path);
+
+    const fileHandle = await openReadNoFollow(hostPath);
+
+    try {
+      return new Uint8Array(await fileHandle.readFile());
+    } finally {
+      await fileHandle.close();
+    }
+  }
+
+  async write(
+    path: string,
+    content: string,
+    options: WriteOptions = {}
+  ): Promise<void> {
+    await this.writeContent(path, content, options);
+  }
+
+  async writeBytes(
+    path: string,
+    data: Uint8Array,
+    options: WriteOptions = {}
+  ): Promise<void> {
+    await this.writeContent(path, data, options);
+  }
+
+  private async writeContent(
+    path: string,
+    content: string | Uint8Array,
+    options: WriteOptions
+  ): Promise<void> {
     const hostPath = this.resolveHostPath(path);
 
+    if (options.ifMatch !== undefined) {
+      assertVersionMatch(options.ifMatch, await this.stat(path));
+    }
+
     await this.assertNoSymlinkInExistingPath(hostPath);
     await mkdir(dirname(hostPath), { recursive: true });
     await this.assertNoSymlinkInPath(dirname(hostPath));
@@ -88,15 +180,21 @@ export class PhysicalStoreAdapter implements StorePort {
     const fileHandle = await openWriteNoFollow(hostPath);
 
     try {
-      await fileHandle.writeFile(content, "utf8");
+      await fileHandle.writeFile(content);
     } finally {
       await fileHandle.close();
     }
   }
 
-  async edit(path: string, oldStr: string, newStr: string): Promise<number> {
+  async edit(
+    path: string,
+    oldStr: string,
+    newStr: string,
+    replaceAll = false
+  ): Promise<number> {
     const hostPath = this.resolveHostPath(path);
     await this.assertNoSymlinkInPath(hostPath);
+    await this.assertNotHidden(path);
 
     const fileHandle = await openReadNoFollow(hostPath);
 
@@ -108,16 +206,17 @@ export class PhysicalStoreAdapter implements StorePort {
       }
 
       const current = await fileHandle.readFile("utf8");
-      const index = current.indexOf(oldStr);
+      const replaced = replaceOccurrences(current, oldStr, newStr, replaceAll);
 
-      if (index < 0) {
+      if (replaced.count === 0) {
         return 0;
       }
 
-      const next = `${current.slice(0, index)}${newStr}${current.slice(index + oldStr.length)}`;
-      await this.write(path, next);
+      await this.write(path, replaced.content, {
+        ifMatch: formatStatVersion(metadata.mtimeMs, metadata.size),
+      });
 
-      return 1;
+      return replaced.count;
     } finally {
       await fileHandle.close();
     }
@@ -132,17 +231,21 @@ export class PhysicalStoreAdapter implements StorePort {
 
     await this.assertNoSymlinkInPath(hostPath);
 
-    const directoryEntries = await readdir(hostPath);
+    const directoryEntries = await readdir(hostPath, { withFileTypes: true });
+    const keys: string[] = [];
 
-    return directoryEntries
-      .map((entry) => {
-        if (normalizedDirectory === "") {
-          return entry;
-        }
+    for (const entry of directoryEntries) {
+      const key =
+        normalizedDirectory === ""
+          ? entry.name
+          : `${normalizedDirectory}/${entry.name}`;
+
+      if (!(await this.isIgnored(key, entry.isDirectory()))) {
+        keys.push(key);
+      }
+    }
 
-        return `${normalizedDirectory}/${entry}`;
-      })
-      .sort((left, right) => left.localeCompare(right));
+    return keys.sort((left, right) => left.localeCompare(right));
   }
 
   async stat(path: string): Promise<StoreMetadata> {
@@ -160,11 +263,21 @@ export class PhysicalStoreAdapter implements StorePort {
         throw new PathTraversalError("Symlink targets are not allowed");
       }
 
+      if (
+        this.hideIgnoredFromReads &&
+        (await this.isIgnored(normalizedPath, metadata.isDirectory()))
+      ) {
+        return { exists: false, isDirectory: false };
+      }
+
       return {
         exists: true,
         isDirectory: metadata.isDirectory(),
         size: metadata.isDirectory() ? undefined : metadata.size,
         modified: metadata.mtime,
+        version: metadata.isDirectory()
+          ? undefined
+          : formatStatVersion(metadata.mtimeMs, metadata.size),
       };
     } catch (error) {
       if (isEnoentError(error)) {
@@ -178,6 +291,162 @@ export class PhysicalStoreAdapter implements StorePort {
     }
   }
 
+  async delete(path: string, options: DeleteOptions = {}): Promise<void> {
+    const hostPath = this.resolveHostPath(path);
+    await this.assertNoSymlinkInPath(hostPath);
+
+    const metadata = await lstat(hostPath);
+
+    if (!metadata.isDirectory()) {
+      await unlink(hostPath);
+      return;
+    }
+
+    if (options.recursive === true) {
+      await rm(hostPath, { recursive: true });
+      return;
+    }
+
+    await rmdir(hostPath);
+  }
+
+  async move(fromPath: string, toPath: string): Promise<void> {
+    const sourceHostPath = this.resolveHostPath(fromPath);
+    const targetHostPath = this.resolveHostPath(toPath);
+
+    await this.assertNoSymlinkInPath(sourceHostPath);
+    await this.assertNoSymlinkInExistingPath(targetHostPath);
+    await mkdir(dirname(targetHostPath), { recursive: true });
+    await this.assertNoSymlinkInPath(dirname(targetHostPath));
+
+    await rename(sourceHostPath, targetHostPath);
+  }
+
+  async mkdir(path: string): Promise<void> {
+    const hostPath = this.resolveHostPath(path);
+
+    await this.assertNoSymlinkInExistingPath(hostPath);
+    await mkdir(hostPath, { recursive: true });
+    await this.assertNoSymlinkInPath(hostPath);
+  }
+
+  async search(
+    pattern: string,
+    options: SearchOptions = {}
+  ): Promise<SearchResult> {
+    const normalizedRoot = normalizeStoreKey(options.path ?? "", true);
+    const hostPath =
+      normalizedRoot === ""
+        ? normalize(resolve(this.rootDir))
+        : this.resolveHostPath(normalizedRoot);
+    const compiled = compileSearch(pattern, normalizedRoot, options);
+    const matches: SearchMatch[] = [];
+
+    await this.assertNoSymlinkInPath(hostPath);
+
+    const metadata = await lstat(hostPath);
+
+    if (metadata.isDirectory()) {
+      await this.searchDirectory(normalizedRoot, compiled, matches);
+    } else if (isSearchCandidate(normalizedRoot, compiled)) {
+      await this.searchFile(normalizedRoot, compiled, matches);
+    }
+
+    return toSearchResult(matches, compiled.maxResults);
+  }
+
+  private async searchDirectory(
+    directoryKey: string,
+    search: CompiledSearch,
+    matches: SearchMatch[]
+  ): Promise<boolean> {
+    const hostPath =
+      directoryKey === ""
+        ? normalize(resolve(this.rootDir))
+        : this.resolveHostPath(directoryKey);
+    const entries = await readdir(hostPath, { withFileTypes: true });
+
+    entries.sort((left, right) => left.name.localeCompare(right.name));
+
+    for (const entry of entries) {
+      const entryKey =
+        directoryKey === "" ? entry.name : `${directoryKey}/${entry.name}`;
+
+      if (
+        entry.isSymbolicLink() ||
+        (await this.isIgnored(entryKey, entry.isDirectory()))
+      ) {
+        continue;
+      }
+
+      const reachedCap = entry.isDirectory()
+        ? !isExcludedPath(entryKey, search) &&
+          (await this.searchDirectory(entryKey, search, matches))
+        : entry.isFile() &&
+          isSearchCandidate(entryKey, search) &&
+          (await this.searchFile(entryKey, search, matches));
+
+      if (reachedCap) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  private async searchFile(
+    key: string,
+    search: CompiledSearch,
+    matches: SearchMatch[]
+  ): Promise<boolean> {
+    const fileHandle = await openReadNoFollow(this.resolveHostPath(key));
+
+    try {
+      const metadata = await fileHandle.stat();
+
+      if (metadata.size > this.maxSearchFileBytes) {
+        return false;
+      }
+
+      const content = await fileHandle.readFile("utf8");
+
+      if (content.includes("\0")) {
+        return false;
+      }
+
+      return collectLineMatches(key, content, search, matches);
+    } finally {
+      await fileHandle.close();
+    }
+  }
+
+  private async isIgnored(key: string, isDirectory: boolean) {
+    return (await this.ignore?.isIgnored(key, isDirectory)) === true;
+  }
+
+  private async assertNotHidden(path: string): Promise<void> {
+    if (
+      this.hideIgnoredFromReads &&
+      (await this.isIgnored(normalizeStoreKey(path), false))
+    ) {
+      throw new FileNotFoundError();
+    }
+  }
+
+  private async readIgnoreFile(key: string): Promise<string | undefined> {
+    try {
+      const fileHandle = await openReadNoFollow(this.resolveHostPath(key));
+
+      try {
+        return await fileHandle.readFile("utf8");
+      } finally {
+        await fileHandle.close();
+      }
+    } catch {
+      return undefined;
+    }
+  }
+
   private resolveHostPath(path: string): string {
     const normalizedKey = normalizeStoreKey(path);
     const hostPath = resolve(this.rootDir, normalizedKey);
@@ -0,0 +1,333 @@
+import { tokenizeText } from "@/infrastructure/search-utils";
+import type { BaseStoreLike } from "@/infrastructure/virtual-store";
+
+const DOCUMENT_KEY_PREFIX = "d:";
+const TERM_KEY_PREFIX = "t:";
+const STATS_KEY = "stats";
+const BATCH_SIZE = 100;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+export interface SearchIndexChange {
+  path: string;
+  content: string | undefined;
+}
+
+export interface SearchIndex {
+  update(changes: SearchIndexChange[]): Promise<void>;
+  rank(terms: string[]): Promise<Map<string, number>>;
+  findSubstringCandidates(fragments: string[]): Promise<Set<string>>;
+  clear(): Promise<void>;
+}
+
+interface IndexedDocument {
+  terms: [string, number][];
+  length: number;
+}
+
+interface IndexStats {
+  documents: number;
+  totalLength: number;
+}
+
+type Postings = Map<string, number>;
+type TermUpdate = [term: string, path: string, count: number | undefined];
+
+const pendingUpdates = new WeakMap<BaseStoreLike, Map<string, Promise<void>>>();
+
+export function createSearchIndex(
+  store: BaseStoreLike,
+  keyPrefix: string
+): SearchIndex {
+  const documentKey = (path: string) =>
+    `${keyPrefix}${DOCUMENT_KEY_PREFIX}${path}`;
+  const termKey = (term: string) => `${keyPrefix}${TERM_KEY_PREFIX}${term}`;
+  const statsKey = `${keyPrefix}${STATS_KEY}`;
+  const queue = pendingUpdates.get(store) ?? new Map<string, Promise<void>>();
+  pendingUpdates.set(store, queue);
+
+  const settled = async (): Promise<void> => {
+    await queue.get(keyPrefix)?.catch(() => undefined);
+  };
+
+  const loadPostings = async (terms: string[]): Promise<Postings[]> =>
+    (await mgetBatched(store, terms.map(termKey))).map(
+      (value) => new Map(parseJson<[string, number][]>(value) ?? [])
+    );
+
+  const applyChanges = async (changes: SearchIndexChange[]): Promise<void> => {
+    const latest = new Map(
+      changes.map((change) => [change.path, change.content])
+    );
+    const paths = [...latest.keys()];
+    const [statsValue] = await store.mget([statsKey]);
+    const stats = parseJson<IndexStats>(statsValue) ?? {
+      documents: 0,
+      totalLength: 0,
+    };
+    const previousDocuments = (
+      await mgetBatched(store, paths.map(documentKey))
+    ).map((value) => parseJson<IndexedDocument>(value));
+    const termUpdates: TermUpdate[] = [];
+    const writes: [string, string][] = [];
+    const deletions: string[] = [];
+
+    for (const [index, path] of paths.entries()) {
+      const content = latest.get(path);
+      const next = content === undefined ? undefined : indexDocument(content);
+
+      termUpdates.push(
+        ...diffDocumentTerms(path, previousDocuments[index], next, stats)
+      );
+
+      if (next !== undefined) {
+        writes.push([documentKey(path), JSON.stringify(next)]);
+      } else if (previousDocuments[index] !== undefined) {
+        deletions.push(documentKey(path));
+      }
+    }
+
+    const terms = [...new Set(termUpdates.map(([term]) => term))];
+    const postings = await loadPostings(terms);
+    const postingsByTerm = new Map(
+      terms.map((term, index) => [term, postings[index] ?? new Map()])
+    );
+
+    applyTermUpdates(postingsByTerm, termUpdates);
+
+    for (const [term, termPostings] of postingsByTerm) {
+      if (termPostings.size === 0) {
+        deletions.push(termKey(term));
+      } else {
+        writes.push([termKey(term), JSON.stringify([...termPostings])]);
+      }
+    }
+
+    await store.mset([[statsKey, JSON.stringify(stats)], ...writes]);
+
+    if (deletions.length > 0) {
+      await store.mdelete(deletions);
+    }
+  };
+
+  return {
+    update(changes) {
+      if (changes.length === 0) {
+        return Promise.resolve();
+      }
+
+      const previous = queue.get(keyPrefix) ?? Promise.resolve();
+      const next = previous
+        .catch(() => undefined)
+        .then(() => applyChanges(changes));
+      queue.set(keyPrefix, next);
+
+      next
+        .catch(() => undefined)
+        .then(() => {
+          if (queue.get(keyPrefix) === next) {
+            queue.delete(keyPrefix);
+          }
+        });
+
+      return next;
+    },
+
+    async rank(terms) {
+      await settled();
+
+      const uniqueTerms = [...new Set(terms)];
+      const postings = await loadPostings(uniqueTerms);
+
+      if (
+        uniqueTerms.length === 0 ||
+        postings.some((termPostings) => termPostings.size === 0)
+      ) {
+        return new Map();
+      }
+
+      const [smallest, ...others] = [...postings].sort(
+        (left, right) => left.size - right.size
+      );
+      const candidates = [...(smallest?.keys() ?? [])].filter((path) =>
+        others.every((termPostings) => termPostings.has(path))
+      );
+      const [statsValue] = await store.mget([statsKey]);
+      const stats = parseJson<IndexStats>(statsValue);
+      const documents = (
+        await mgetBatched(store, candidates.map(documentKey))
+      ).map((value) => parseJson<IndexedDocument>(value));
+      const documentCount = Math.max(1, stats?.documents ?? candidates.length);
+      const averageLength = Math.max(
+        1,
+        (stats?.totalLength ?? 0) / documentCount
+      );
+
+      return new Map(
+        candidates.map((path, index) => [
+          path,
+          scoreDocument(
+            postings.map((termPostings) => ({
+              count: termPostings.get(path) ?? 0,
+              documentFrequency: termPostings.size,
+            })),
+            documents[index]?.length ?? averageLength,
+            averageLength,
+            documentCount
+          ),
+        ])
+      );
+    },
+
+    async findSubstringCandidates(fragments) {
+      await settled();
+
+      const vocabulary: string[] = [];
+      const termPrefix = termKey("");
+
+      for await (const key of store.yieldKeys(termPrefix)) {
+        if (key.startsWith(termPrefix)) {
+          vocabulary.push(key.slice(termPrefix.length));
+        }
+      }
+
+      const uniqueFragments = [...new Set(fragments)];
+      const termsByFragment = uniqueFragments.map((fragment) =>
+        vocabulary.filter((term) => term.includes(fragment))
+      );
+      const terms = [...new Set(termsByFragment.flat())];
+      const postings = await loadPostings(terms);
+      const postingsByTerm = new Map(
+        terms.map((term, index) => [term, postings[index] ?? new Map()])
+      );
+      let candidates: Set<string> | undefined;
+
+      for (const fragmentTerms of termsByFragment) {
+        const paths = new Set(
+          fragmentTerms.flatMap((term) => [
+            ...(postingsByTerm.get(term)?.keys() ?? []),
+          ])
+        );
+
+        candidates =
+          candidates === undefined
+            ? paths
+            : new Set([...candidates].filter((path) => paths.has(path)));
+      }
+
+      return candidates ?? new Set();
+    },
+
+    async clear() {
+      await settled();
+
+      const keys: string[] = [];
+
+      for await (const key of store.yieldKeys(keyPrefix)) {
+        if (key.startsWith(keyPrefix)) {
+          keys.push(key);
+        }
+      }
+
+      for (let start = 0; start < keys.length; start += BATCH_SIZE) {
+        await store.mdelete(keys.slice(start, start + BATCH_SIZE));
+      }
+    },
+  };
+}
+
+function diffDocumentTerms(
+  path: string,
+  previous: IndexedDocument | undefined,
+  next: IndexedDocument | undefined,
+  stats: IndexStats
+): TermUpdate[] {
+  const updates: TermUpdate[] = [];
+
+  if (previous !== undefined) {
+    stats.documents -= 1;
+    stats.totalLength -= previous.length;
+    updates.push(
+      ...previous.terms.map(([term]): TermUpdate => [term, path, undefined])
+    );
+  }
+
+  if (next !== undefined) {
+    stats.documents += 1;
+    stats.totalLength += next.length;
+    updates.push(
+      ...next.terms.map(([term, count]): TermUpdate => [term, path, count])
+    );
+  }
+
+  return updates;
+}
+
+function applyTermUpdates(
+  postingsByTerm: Map<string, Postings>,
+  termUpdates: TermUpdate[]
+): void {
+  for (const [term, path, count] of termUpdates) {
+    const termPostings = postingsByTerm.get(term);
+
+    if (count === undefined) {
+      termPostings?.delete(path);
+    } else {
+      termPostings?.set(path, count);
+    }
+  }
+}
+
+function indexDocument(content: string): IndexedDocument {
+  const counts = new Map<string, number>();
+  const tokens = tokenizeText(content);
+
+  for (const token of tokens) {
+    counts.set(token, (counts.get(token) ?? 0) + 1);
+  }
+
+  return { terms: [...counts], length: tokens.length };
+}
+
+function scoreDocument(
+  terms: { count: number; documentFrequency: number }[],
+  length: number,
+  averageLength: number,
+  documentCount: number
+): number {
+  return terms.reduce((score, { count, documentFrequency }) => {
+    const idf = Math.log(
+      1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5)
+    );
+    const saturation =
+      (count * (BM25_K1 + 1)) /
+      (count + BM25_K1 * (1 - BM25_B + (BM25_B * length) / averageLength));
+
+    return score + idf * saturation;
+  }, 0);
+}
+
+async function mgetBatched(
+  store: BaseStoreLike,
+  keys: string[]
+): Promise<(string | undefined)[]> {
+  const values: (string | undefined)[] = [];
+
+  for (let start = 0; start < keys.length; start += BATCH_SIZE) {
+    values.push(...(await store.mget(keys.slice(start, start + BATCH_SIZE))));
+  }
+
+  return values;
+}
+
+function parseJson<T>(value: string | undefined): T | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,181 @@
+import { basename, join, relative } from "node:path/posix";
+
+import { globToRegExp } from "@/domain/glob-matcher";
+import type {
+  SearchMatch,
+  SearchOptions,
+  SearchResult,
+} from "@/domain/store-port";
+
+export const DEFAULT_SEARCH_MAX_RESULTS = 200;
+const MAX_MATCH_TEXT_CHARS = 500;
+const LINE_BREAK_REGEX = /\r?\n/;
+const REGEX_ESCAPE_REGEX = /[.*+?^${}()|[\]\\]/g;
+const REGEX_SYNTAX_REGEX = /[.*+?^${}()|[\]\\]/;
+const TOKEN_REGEX = /[\p{L}\p{N}_]+/gu;
+
+export interface CompiledSearch {
+  matcher: RegExp;
+  terms?: string[];
+  include: RegExp[];
+  exclude: RegExp[];
+  filterPrefix: string;
+  root: string;
+  maxResults: number;
+}
+
+export function compileSearch(
+  pattern: string,
+  root: string,
+  options: SearchOptions = {}
+): CompiledSearch {
+  if (options.fullText) {
+    const terms = [...new Set(tokenizeText(pattern))];
+
+    return {
+      ...compileSearch(terms.map(escapeRegExp).join("|") || "$^", root, {
+        ...options,
+        fullText: false,
+        literal: false,
+        ignoreCase: true,
+      }),
+      terms,
+    };
+  }
+
+  const source = options.literal ? escapeRegExp(pattern) : pattern;
+
+  return {
+    matcher: new RegExp(source, options.ignoreCase ? "i" : ""),
+    include: (options.include ?? []).map(globToRegExp),
+    exclude: (options.exclude ?? []).map(globToRegExp),
+    filterPrefix: options.filterPrefix ?? "",
+    root,
+    maxResults: options.maxResults ?? DEFAULT_SEARCH_MAX_RESULTS,
+  };
+}
+
+export function isExcludedPath(key: string, search: CompiledSearch): boolean {
+  const filterPath = toFilterPath(key, search);
+  return search.exclude.some((pattern) => pattern.test(filterPath));
+}
+
+export function isSearchCandidate(
+  key: string,
+  search: CompiledSearch
+): boolean {
+  if (isExcludedPath(key, search)) {
+    return false;
+  }
+
+  if (search.include.length === 0) {
+    return true;
+  }
+
+  const filterPath = toFilterPath(key, search);
+  return search.include.some((pattern) => pattern.test(filterPath));
+}
+
+export function tokenizeText(text: string): string[] {
+  return (text.match(TOKEN_REGEX) ?? []).map((token) => token.toLowerCase());
+}
+
+export function isPlainSearchPattern(pattern: string): boolean {
+  return !REGEX_SYNTAX_REGEX.test(pattern);
+}
+
+export function compareSearchMatches(
+  left: SearchMatch,
+  right: SearchMatch
+): number {
+  return (
+    (right.score ?? 0) - (left.score ?? 0) ||
+    left.path.localeCompare(right.path) ||
+    left.line - right.line
+  );
+}
+
+export function collectLineMatches(
+  key: string,
+  content: string,
+  search: CompiledSearch,
+  matches: SearchMatch[],
+  score?: number
+): boolean {
+  const documentScore =
+    search.terms === undefined
+      ? undefined
+      : (score ?? scoreTerms(content, search.terms));
+
+  if (search.terms !== undefined && documentScore === undefined) {
+    return false;
+  }
+
+  const lines = content.split(LINE_BREAK_REGEX);
+
+  for (const [index, line] of lines.entries()) {
+    if (!search.matcher.test(line)) {
+      continue;
+    }
+
+    matches.push({
+      path: key,
+      line: index + 1,
+      text: line.slice(0, MAX_MATCH_TEXT_CHARS),
+      ...(documentScore === undefined ? {} : { score: documentScore }),
+    });
+
+    if (matches.length > search.maxResults) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+export function toSearchResult(
+  matches: SearchMatch[],
+  maxResults: number
+): SearchResult {
+  return {
+    matches: matches.slice(0, maxResults),
+    truncated: matches.length > maxResults,
+  };
+}
+
+function scoreTerms(content: string, terms: string[]): number | undefined {
+  const counts = new Map<string, number>();
+
+  for (const token of tokenizeText(content)) {
+    counts.set(token, (counts.get(token) ?? 0) + 1);
+  }
+
+  let score = 0;
+
+  for (const term of terms) {
+    const count = counts.get(term);
+
+    if (count === undefined) {
+      return undefined;
+    }
+
+    score += 1 + Math.log(count);
+  }
+
+  return score;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(REGEX_ESCAPE_REGEX, "\\$&");
+}
+
+function toFilterPath(key: string, search: CompiledSearch): string {
+  const relativeKey =
+    key === search.root
+      ? basename(key)
+      : relative(search.root === "" ? "." : search.root, key);
+
+  return search.filterPrefix === ""
+    ? relativeKey
+    : join(search.filterPrefix, relativeKey);
+}
@@ -0,0 +1,58 @@
+import { basename } from "node:path/posix";
+
+import type { StorePort } from "@/domain/store-port";
+import { FileNotFoundError } from "@/infrastructure/virtual-store";
+
+const CROSS_STORE_READ_CHUNK_CHARS = 64 * 1024;
+
+export async function copyAcrossStores(
+  sourceStore: StorePort,
+  sourceKey: string,
+  targetStore: StorePort,
+  targetKey: string
+): Promise<void> {
+  const metadata = await sourceStore.stat(sourceKey);
+
+  if (!metadata.exists) {
+    throw new FileNotFoundError();
+  }
+
+  if (!metadata.isDirectory) {
+    await targetStore.writeBytes(
+      targetKey,
+      await sourceStore.readBytes(sourceKey)
+    );
+    return;
+  }
+
+  await targetStore.mkdir(targetKey);
+
+  for (const entry of await sourceStore.list(sourceKey)) {
+    await copyAcrossStores(
+      sourceStore,
+      entry,
+      targetStore,
+      `${targetKey}/${basename(entry)}`
+    );
+  }
+}
+
+export async function readFully(
+  store: StorePort,
+  key: string
+): Promise<string> {
+  let content = "";
+  let offset = 0;
+
+  while (true) {
+    const chunk = await store.read(key, offset, CROSS_STORE_READ_CHUNK_CHARS);
+    const chunkLength = [...chunk].length;
+
+    content += chunk;
+    offset += chunkLength;
+
+    if (chunkLength < CROSS_STORE_READ_CHUNK_CHARS) {
+      return content;
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import type { StorePort } from "@/domain/store-port";
+
+export interface StoreUsage {
+  files: number;
+  bytes: number;
+  largestFileBytes: number;
+}
+
+export async function measureStoreUsage(
+  store: StorePort,
+  key = ""
+): Promise<StoreUsage> {
+  const usage: StoreUsage = { files: 0, bytes: 0, largestFileBytes: 0 };
+  const metadata = await store.stat(key);
+
+  if (!metadata.exists) {
+    return usage;
+  }
+
+  if (!metadata.isDirectory) {
+    const size = metadata.size ?? 0;
+    return { files: 1, bytes: size, largestFileBytes: size };
+  }
+
+  for (const entry of await store.list(key)) {
+    const entryUsage = await measureStoreUsage(store, entry);
+    usage.files += entryUsage.files;
+    usage.bytes += entryUsage.bytes;
+    usage.largestFileBytes = Math.max(
+      usage.largestFileBytes,
+      entryUsage.largestFileBytes
+    );
+  }
+
+  return usage;
+}
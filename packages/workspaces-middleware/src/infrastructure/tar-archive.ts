@@ -0,0 +1,215 @@
+import type { ArchiveEntry } from "@/infrastructure/archive";
+
+const BLOCK_SIZE = 512;
+const NAME_FIELD_BYTES = 100;
+const PREFIX_FIELD_BYTES = 155;
+const FILE_TYPE_FLAGS = new Set(["0", "\0", ""]);
+const DIRECTORY_TYPE_FLAG = "5";
+const PAX_HEADER_TYPE_FLAG = "x";
+const GNU_LONG_NAME_TYPE_FLAG = "L";
+const PAX_RECORD_REGEX = /^(\d+) ([^=]+)=([\s\S]*)\n$/;
+const TRAILING_NULS_REGEX = /\0+$/;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export function encodeTarEntry(entry: ArchiveEntry): Uint8Array[] {
+  const nameBytes = encoder.encode(entry.path);
+  const chunks: Uint8Array[] = [];
+  let headerName = entry.path;
+
+  if (nameBytes.length > NAME_FIELD_BYTES) {
+    const record = formatPaxRecord("path", entry.path);
+    chunks.push(
+      createHeader("PaxHeader", record.length, PAX_HEADER_TYPE_FLAG, entry),
+      ...padToBlock(record)
+    );
+    headerName = entry.path.slice(-NAME_FIELD_BYTES);
+  }
+
+  chunks.push(
+    createHeader(headerName, entry.data.length, "0", entry),
+    ...padToBlock(entry.data)
+  );
+
+  return chunks;
+}
+
+export function encodeTarEnd(): Uint8Array {
+  return new Uint8Array(BLOCK_SIZE * 2);
+}
+
+export function decodeTar(archive: Uint8Array): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = [];
+  let offset = 0;
+  let longName: string | undefined;
+
+  while (offset + BLOCK_SIZE <= archive.length) {
+    const header = archive.subarray(offset, offset + BLOCK_SIZE);
+
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+
+    assertChecksum(header);
+
+    const size = readOctal(header, 124, 12);
+    const typeFlag = readString(header, 156, 1);
+    const dataStart = offset + BLOCK_SIZE;
+    const data = archive.subarray(dataStart, dataStart + size);
+
+    if (data.length < size) {
+      throw new Error("Invalid tar archive: truncated entry");
+    }
+
+    offset = dataStart + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+    if (typeFlag === PAX_HEADER_TYPE_FLAG) {
+      longName = readPaxPath(data) ?? longName;
+      continue;
+    }
+
+    if (typeFlag === GNU_LONG_NAME_TYPE_FLAG) {
+      longName = decoder.decode(data).replace(TRAILING_NULS_REGEX, "");
+      continue;
+    }
+
+    const path = longName ?? readHeaderPath(header);
+    longName = undefined;
+
+    if (typeFlag === DIRECTORY_TYPE_FLAG) {
+      entries.push({ path, data: new Uint8Array(), isDirectory: true });
+    } else if (FILE_TYPE_FLAGS.has(typeFlag)) {
+      entries.push({ path, data: new Uint8Array(data) });
+    }
+  }
+
+  return entries;
+}
+
+function createHeader(
+  name: string,
+  size: number,
+  typeFlag: string,
+  entry: ArchiveEntry
+): Uint8Array {
+  const header = new Uint8Array(BLOCK_SIZE);
+  const mtime = Math.floor((entry.modified ?? new Date()).getTime() / 1000);
+
+  writeString(header, 0, NAME_FIELD_BYTES, name);
+  writeOctal(header, 100, 8, 0o644);
+  writeOctal(header, 108, 8, 0);
+  writeOctal(header, 116, 8, 0);
+  writeOctal(header, 124, 12, size);
+  writeOctal(header, 136, 12, mtime);
+  writeString(header, 156, 1, typeFlag);
+  writeString(header, 257, 6, "ustar");
+  writeString(header, 263, 2, "00");
+  header.fill(0x20, 148, 156);
+
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  writeString(header, 148, 8, `${checksum.toString(8).padStart(6, "0")}\0 `);
+
+  return header;
+}
+
+function assertChecksum(header: Uint8Array): void {
+  const expected = readOctal(header, 148, 8);
+  let actual = 0;
+
+  for (const [index, byte] of header.entries()) {
+    actual += index >= 148 && index < 156 ? 0x20 : byte;
+  }
+
+  if (actual !== expected) {
+    throw new Error("Invalid tar archive: header checksum mismatch");
+  }
+}
+
+function readHeaderPath(header: Uint8Array): string {
+  const name = readString(header, 0, NAME_FIELD_BYTES);
+  const prefix =
+    readString(header, 257, 6) === "ustar"
+      ? readString(header, 345, PREFIX_FIELD_BYTES)
+      : "";
+
+  return prefix === "" ? name : `${prefix}/${name}`;
+}
+
+function readPaxPath(data: Uint8Array): string | undefined {
+  const text = decoder.decode(data);
+  let offset = 0;
+
+  while (offset < text.length) {
+    const length = Number.parseInt(text.slice(offset), 10);
+
+    if (!Number.isFinite(length) || length <= 0) {
+      return undefined;
+    }
+
+    const match = PAX_RECORD_REGEX.exec(text.slice(offset, offset + length));
+    offset += length;
+
+    if (match?.[2] === "path") {
+      return match[3];
+    }
+  }
+
+  return undefined;
+}
+
+function formatPaxRecord(key: string, value: string): Uint8Array {
+  const body = ` ${key}=${value}\n`;
+  const bodyLength = encoder.encode(body).length;
+  let length = bodyLength + String(bodyLength).length;
+
+  if (String(length).length !== String(bodyLength).length) {
+    length = bodyLength + String(length).length;
+  }
+
+  return encoder.encode(`${length}${body}`);
+}
+
+function padToBlock(data: Uint8Array): Uint8Array[] {
+  const remainder = data.length % BLOCK_SIZE;
+
+  return remainder === 0
+    ? [data]
+    : [data, new Uint8Array(BLOCK_SIZE - remainder)];
+}
+
+function writeString(
+  target: Uint8Array,
+  offset: number,
+  length: number,
+  value: string
+): void {
+  target.set(encoder.encode(value).subarray(0, length), offset);
+}
+
+function writeOctal(
+  target: Uint8Array,
+  offset: number,
+  length: number,
+  value: number
+): void {
+  writeString(
+    target,
+    offset,
+    length,
+    `${value.toString(8).padStart(length - 1, "0")}\0`
+  );
+}
+
+function readString(source: Uint8Array, offset: number, length: number) {
+  const field = source.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+
+  return decoder.decode(end === -1 ? field : field.subarray(0, end));
+}
+
+function readOctal(source: Uint8Array, offset: number, length: number) {
+  const value = readString(source, offset, length).trim();
+
+  return value === "" ? 0 : Number.parseInt(value, 8);
+}
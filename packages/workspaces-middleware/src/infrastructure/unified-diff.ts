@@ -0,0 +1,368 @@
+import { InvalidPatchError } from "@/domain/errors";
+
+const LINE_BREAK_REGEX = /\r?\n/;
+const HUNK_HEADER_REGEX = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+const HEADER_TIMESTAMP_REGEX = /\t.*$/;
+const DEV_NULL = "/dev/null";
+const MAX_REPORTED_LINES = 5;
+
+export interface PatchLine {
+  type: " " | "-" | "+";
+  text: string;
+}
+
+export interface PatchHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: PatchLine[];
+  oldMissingNewline: boolean;
+  newMissingNewline: boolean;
+}
+
+export interface FilePatch {
+  oldPath: string | null;
+  newPath: string | null;
+  hunks: PatchHunk[];
+}
+
+export interface HunkOutcome {
+  index: number;
+  applied: boolean;
+  line?: number;
+  offset?: number;
+  fuzz?: number;
+  expected?: string[];
+  actual?: string[];
+}
+
+export interface HunkApplication {
+  content: string;
+  hunks: HunkOutcome[];
+  applied: boolean;
+}
+
+interface ParsedHeaderPaths {
+  oldPath: string | null;
+  newPath: string | null;
+}
+
+interface HunkMatch {
+  position: number;
+  fuzz: number;
+  leading: number;
+  trailing: number;
+}
+
+export function parseUnifiedDiff(patch: string): FilePatch[] {
+  const lines = patch.split(LINE_BREAK_REGEX);
+  const files: FilePatch[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index] ?? "";
+
+    if (!line.startsWith("--- ")) {
+      index += 1;
+      continue;
+    }
+
+    const next = lines[index + 1] ?? "";
+
+    if (!next.startsWith("+++ ")) {
+      throw new InvalidPatchError(
+        `Expected '+++' header after line ${index + 1}`
+      );
+    }
+
+    const file: FilePatch = {
+      ...stripGitPrefixes({
+        oldPath: parseHeaderPath(line.slice(4)),
+        newPath: parseHeaderPath(next.slice(4)),
+      }),
+      hunks: [],
+    };
+    index += 2;
+
+    while ((lines[index] ?? "").startsWith("@@")) {
+      const parsed = parseHunk(lines, index);
+      file.hunks.push(parsed.hunk);
+      index = parsed.nextIndex;
+    }
+
+    if (file.hunks.length === 0 && file.oldPath === file.newPath) {
+      throw new InvalidPatchError(
+        `No hunks for ${file.newPath ?? file.oldPath}`
+      );
+    }
+
+    files.push(file);
+  }
+
+  if (files.length === 0) {
+    throw new InvalidPatchError("No file headers ('--- ' / '+++ ') found");
+  }
+
+  return files;
+}
+
+export function applyHunks(
+  content: string,
+  hunks: PatchHunk[],
+  maxFuzz: number
+): HunkApplication {
+  const eol = content.includes("\r\n") ? "\r\n" : "\n";
+  const lines = content === "" ? [] : content.split(LINE_BREAK_REGEX);
+  let endsWithNewline = content === "" || content.endsWith("\n");
+
+  if (endsWithNewline && lines.length > 0) {
+    lines.pop();
+  }
+
+  const outcomes: HunkOutcome[] = [];
+  let cursor = 0;
+  let delta = 0;
+
+  for (const [hunkIndex, hunk] of hunks.entries()) {
+    const oldSide = sideLines(hunk, "old");
+    const newSide = sideLines(hunk, "new");
+    const expected = Math.max(
+      cursor,
+      hunk.oldStart - (oldSide.length === 0 ? 0 : 1) + delta
+    );
+    const match = findHunk(lines, oldSide, hunk, expected, cursor, maxFuzz);
+
+    if (match === undefined) {
+      outcomes.push({
+        index: hunkIndex + 1,
+        applied: false,
+        line: expected + 1,
+        expected: oldSide.slice(0, MAX_REPORTED_LINES),
+        actual: lines.slice(expected, expected + MAX_REPORTED_LINES),
+      });
+      continue;
+    }
+
+    const replacement = newSide.slice(
+      match.leading,
+      newSide.length - match.trailing
+    );
+    const replacedCount = oldSide.length - match.leading - match.trailing;
+    const reachesEnd = match.position + replacedCount === lines.length;
+
+    lines.splice(match.position, replacedCount, ...replacement);
+    outcomes.push({
+      index: hunkIndex + 1,
+      applied: true,
+      line: match.position - match.leading + 1,
+      offset: match.position - match.leading - expected,
+      fuzz: match.fuzz,
+    });
+
+    if (reachesEnd && hunk.newMissingNewline) {
+      endsWithNewline = false;
+    } else if (reachesEnd && hunk.oldMissingNewline) {
+      endsWithNewline = true;
+    }
+
+    cursor = match.position + replacement.length;
+    delta += replacement.length - replacedCount;
+  }
+
+  const joined = lines.join(eol);
+
+  return {
+    content: endsWithNewline && lines.length > 0 ? `${joined}${eol}` : joined,
+    hunks: outcomes,
+    applied: outcomes.every((outcome) => outcome.applied),
+  };
+}
+
+function parseHunk(
+  lines: string[],
+  start: number
+): { hunk: PatchHunk; nextIndex: number } {
+  const header = HUNK_HEADER_REGEX.exec(lines[start] ?? "");
+
+  if (header === null) {
+    throw new InvalidPatchError(
+      `Malformed hunk header at line ${start + 1}: ${lines[start]}`
+    );
+  }
+
+  const hunk: PatchHunk = {
+    oldStart: Number(header[1]),
+    oldLines: header[2] === undefined ? 1 : Number(header[2]),
+    newStart: Number(header[3]),
+    newLines: header[4] === undefined ? 1 : Number(header[4]),
+    lines: [],
+    oldMissingNewline: false,
+    newMissingNewline: false,
+  };
+  const index = readHunkBody(lines, start, hunk);
+
+  markMissingNewlines(hunk, lines.slice(start + 1, index));
+
+  return { hunk, nextIndex: index };
+}
+
+function readHunkBody(lines: string[], start: number, hunk: PatchHunk): number {
+  let oldRemaining = hunk.oldLines;
+  let newRemaining = hunk.newLines;
+  let index = start + 1;
+
+  while (oldRemaining > 0 || newRemaining > 0) {
+    if (index >= lines.length) {
+      throw new InvalidPatchError(
+        `Hunk starting at line ${start + 1} is shorter than its header`
+      );
+    }
+
+    const line = lines[index] ?? "";
+    const type = line === "" ? " " : line[0];
+
+    if (isPatchLineType(type)) {
+      oldRemaining -= type === "+" ? 0 : 1;
+      newRemaining -= type === "-" ? 0 : 1;
+      hunk.lines.push({ type, text: line.slice(1) });
+    } else if (type !== "\\") {
+      throw new InvalidPatchError(
+        `Unexpected line in hunk at line ${index + 1}: ${line}`
+      );
+    }
+
+    index += 1;
+  }
+
+  while ((lines[index] ?? "").startsWith("\\")) {
+    index += 1;
+  }
+
+  return index;
+}
+
+function markMissingNewlines(hunk: PatchHunk, body: string[]): void {
+  for (const [index, line] of body.entries()) {
+    if (!line.startsWith("\\") || index === 0) {
+      continue;
+    }
+
+    const marked = body[index - 1]?.[0];
+
+    if (marked === "-" || marked === " ") {
+      hunk.oldMissingNewline = true;
+    }
+
+    if (marked === "+" || marked === " ") {
+      hunk.newMissingNewline = true;
+    }
+  }
+}
+
+function isPatchLineType(type: string | undefined): type is PatchLine["type"] {
+  return type === " " || type === "-" || type === "+";
+}
+
+function parseHeaderPath(value: string): string | null {
+  const path = value.replace(HEADER_TIMESTAMP_REGEX, "").trim();
+
+  return path === DEV_NULL ? null : path;
+}
+
+function stripGitPrefixes(paths: ParsedHeaderPaths): ParsedHeaderPaths {
+  const { oldPath, newPath } = paths;
+  const hasGitPrefixes =
+    (oldPath === null || oldPath.startsWith("a/")) &&
+    (newPath === null || newPath.startsWith("b/"));
+
+  if (!hasGitPrefixes) {
+    return paths;
+  }
+
+  return {
+    oldPath: oldPath === null ? null : oldPath.slice(2),
+    newPath: newPath === null ? null : newPath.slice(2),
+  };
+}
+
+function sideLines(hunk: PatchHunk, side: "old" | "new"): string[] {
+  const excluded = side === "old" ? "+" : "-";
+
+  return hunk.lines
+    .filter((line) => line.type !== excluded)
+    .map((line) => line.text);
+}
+
+function findHunk(
+  lines: string[],
+  oldSide: string[],
+  hunk: PatchHunk,
+  expected: number,
+  minimum: number,
+  maxFuzz: number
+): HunkMatch | undefined {
+  if (oldSide.length === 0) {
+    return expected <= lines.length
+      ? { position: expected, fuzz: 0, leading: 0, trailing: 0 }
+      : undefined;
+  }
+
+  const leadingContext = countContext(hunk.lines);
+  const trailingContext = countContext([...hunk.lines].reverse());
+
+  for (let fuzz = 0; fuzz <= maxFuzz; fuzz += 1) {
+    const leading = Math.min(fuzz, leadingContext);
+    const trailing = Math.min(fuzz, trailingContext);
+
+    if (fuzz > 0 && leading + trailing === 0) {
+      break;
+    }
+
+    const needle = oldSide.slice(leading, oldSide.length - trailing);
+    const position = searchNearest(lines, needle, expected + leading, minimum);
+
+    if (position !== undefined) {
+      return { position, fuzz, leading, trailing };
+    }
+  }
+
+  return undefined;
+}
+
+function countContext(lines: PatchLine[]): number {
+  const firstChange = lines.findIndex((line) => line.type !== " ");
+
+  return firstChange === -1 ? lines.length : firstChange;
+}
+
+function searchNearest(
+  lines: string[],
+  needle: string[],
+  expected: number,
+  minimum: number
+): number | undefined {
+  const last = lines.length - needle.length;
+
+  for (let distance = 0; distance <= lines.length; distance += 1) {
+    for (const position of [expected - distance, expected + distance]) {
+      if (
+        position >= minimum &&
+        position <= last &&
+        matchesAt(lines, needle, position)
+      ) {
+        return position;
+      }
+    }
+
+    if (expected - distance < minimum && expected + distance > last) {
+      return undefined;
+    }
+  }
+
+  return undefined;
+}
+
+function matchesAt(lines: string[], needle: string[], position: number) {
+  return needle.every((line, index) => lines[position + index] === line);
+}
@@ -0,0 +1,25 @@
+import { createHash } from "node:crypto";
+
+import { ConflictError } from "@/domain/errors";
+import type { StoreMetadata } from "@/domain/store-port";
+
+export function formatStatVersion(mtimeMs: number, size: number): string {
+  return `${Math.trunc(mtimeMs * 1000).toString(36)}-${size.toString(36)}`;
+}
+
+export function formatContentVersion(content: string): string {
+  return createHash("sha256").update(content, "utf8").digest("hex");
+}
+
+export function assertVersionMatch(
+  ifMatch: string | undefined,
+  metadata: StoreMetadata
+): void {
+  if (ifMatch === undefined) {
+    return;
+  }
+
+  if (!metadata.exists || metadata.version !== ifMatch) {
+    throw new ConflictError();
+  }
+}
@@ -1,8 +1,42 @@
 import { PathTraversalError } from "@/domain/errors";
-import type { StoreMetadata, StorePort } from "@/domain/store-port";
-import { normalizeStoreKey, sliceByWindow } from "@/infrastructure/path-utils";
+import type {
+  DeleteOptions,
+  SearchMatch,
+  SearchOptions,
+  SearchResult,
+  StoreMetadata,
+  StorePort,
+  WriteOptions,
+} from "@/domain/store-port";
+import {
+  normalizeStoreKey,
+  replaceOccurrences,
+  sliceByWindow,
+} from "@/infrastructure/path-utils";
+import {
+  createSearchIndex,
+  type SearchIndex,
+  type SearchIndexChange,
+} from "@/infrastructure/search-index";
+import {
+  collectLineMatches,
+  compileSearch,
+  isPlainSearchPattern,
+  isSearchCandidate,
+  tokenizeText,
+  toSearchResult,
+} from "@/infrastructure/search-utils";
+import {
+  assertVersionMatch,
+  formatContentVersion,
+} from "@/infrastructure/versioning";
 
 const MAPPED_KEY_SEPARATOR = "#";
+const NAMESPACE_SEGMENT_SEPARATOR = "|";
+const NAMESPACE_MARKER_SEPARATOR = "@";
+const NAMESPACE_INDEX_SEPARATOR = "~";
+const BINARY_VALUE_PREFIX = "\u0000base64:";
+const SEARCH_BATCH_SIZE = 100;
 
 export const FILESYSTEM_UNRESPONSIVE_MESSAGE = "Filesystem unresponsive";
 
@@ -15,6 +49,18 @@ export interface BaseStoreLike {
 
 export interface VirtualStoreAdapterOptions {
   timeoutMs?: number;
+  ttlMs?: number;
+  index?: boolean;
+}
+
+export interface NamespaceMarker {
+  touchedAt: string;
+  ttlMs: number;
+}
+
+export interface ParsedMappedKey {
+  namespace: string[];
+  kind: "file" | "marker" | "index";
 }
 
 export class FilesystemUnresponsiveError extends Error {
@@ -62,8 +108,82 @@ export function splitBaseStoreKey(
   return mappedKey.slice(namespacePrefix.length);
 }
 
+export function buildNamespacePrefix(namespace: string[]): string {
+  return serializeNamespace(namespace);
+}
+
+export function buildNamespaceMarkerKey(namespace: string[]): string {
+  return `${serializeNamespace(namespace)}${NAMESPACE_MARKER_SEPARATOR}`;
+}
+
+export function buildSearchIndexPrefix(namespace: string[]): string {
+  return `${serializeNamespace(namespace)}${NAMESPACE_INDEX_SEPARATOR}`;
+}
+
+export function parseMappedKey(mappedKey: string): ParsedMappedKey | undefined {
+  const namespace: string[] = [];
+  let index = 0;
+
+  while (index < mappedKey.length) {
+    const lengthEnd = mappedKey.indexOf(":", index);
+    const length = Number(mappedKey.slice(index, lengthEnd));
+
+    if (lengthEnd === -1 || !Number.isInteger(length) || length <= 0) {
+      return undefined;
+    }
+
+    const segmentEnd = lengthEnd + 1 + length;
+    const separator = mappedKey[segmentEnd];
+    namespace.push(mappedKey.slice(lengthEnd + 1, segmentEnd));
+
+    if (separator === MAPPED_KEY_SEPARATOR) {
+      return { namespace, kind: "file" };
+    }
+
+    if (separator === NAMESPACE_INDEX_SEPARATOR) {
+      return { namespace, kind: "index" };
+    }
+
+    if (separator === NAMESPACE_MARKER_SEPARATOR) {
+      return segmentEnd + 1 === mappedKey.length
+        ? { namespace, kind: "marker" }
+        : undefined;
+    }
+
+    if (separator !== NAMESPACE_SEGMENT_SEPARATOR) {
+      return undefined;
+    }
+
+    index = segmentEnd + 1;
+  }
+
+  return undefined;
+}
+
+export function parseNamespaceMarker(
+  value: string | undefined
+): NamespaceMarker | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  try {
+    const parsed = JSON.parse(value) as Partial<NamespaceMarker>;
+
+    return typeof parsed.touchedAt === "string" &&
+      !Number.isNaN(Date.parse(parsed.touchedAt)) &&
+      typeof parsed.ttlMs === "number"
+      ? { touchedAt: parsed.touchedAt, ttlMs: parsed.ttlMs }
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 export class VirtualStoreAdapter implements StorePort {
   private readonly timeoutMs?: number;
+  private readonly ttlMs?: number;
+  private readonly index?: SearchIndex;
   private readonly store: BaseStoreLike;
   private readonly namespace: string[];
 
@@ -75,6 +195,11 @@ export class VirtualStoreAdapter implements StorePort {
     this.store = store;
     this.namespace = namespace;
     this.timeoutMs = options.timeoutMs;
+    this.ttlMs = options.ttlMs;
+    this.index =
+      options.index === true
+        ? createSearchIndex(store, buildSearchIndexPrefix(namespace))
+        : undefined;
   }
 
   async read(path: string, offset = 0, limit?: number): Promise<string> {
@@ -86,26 +211,69 @@ export class VirtualStoreAdapter implements StorePort {
       throw new FileNotFoundError();
     }
 
-    return sliceByWindow(value, offset, limit);
+    return sliceByWindow(decodeStoredText(value), offset, limit);
   }
 
-  async write(path: string, content: string): Promise<void> {
+  async readBytes(path: string): Promise<Uint8Array> {
     const mappedKey = buildBaseStoreKey(this.namespace, path);
-    await this.withTimeout(this.store.mset([[mappedKey, content]]));
+    const values = await this.withTimeout(this.store.mget([mappedKey]));
+    const value = values[0];
+
+    if (value === undefined) {
+      throw new FileNotFoundError();
+    }
+
+    return decodeStoredBytes(value);
   }
 
-  async edit(path: string, oldStr: string, newStr: string): Promise<number> {
+  async write(
+    path: string,
+    content: string,
+    options: WriteOptions = {}
+  ): Promise<void> {
+    if (options.ifMatch !== undefined) {
+      assertVersionMatch(options.ifMatch, await this.stat(path));
+    }
+
+    const mappedKey = buildBaseStoreKey(this.namespace, path);
+    await this.withTimeout(
+      this.store.mset([[mappedKey, content], ...this.markerEntries()])
+    );
+    await this.updateIndex([
+      { path: normalizeStoreKey(path), content: indexableText(content) },
+    ]);
+  }
+
+  async writeBytes(
+    path: string,
+    data: Uint8Array,
+    options: WriteOptions = {}
+  ): Promise<void> {
+    await this.write(
+      path,
+      `${BINARY_VALUE_PREFIX}${Buffer.from(data).toString("base64")}`,
+      options
+    );
+  }
+
+  async edit(
+    path: string,
+    oldStr: string,
+    newStr: string,
+    replaceAll = false
+  ): Promise<number> {
     const current = await this.read(path);
-    const index = current.indexOf(oldStr);
+    const replaced = replaceOccurrences(current, oldStr, newStr, replaceAll);
 
-    if (index < 0) {
+    if (replaced.count === 0) {
       return 0;
     }
 
-    const next = `${current.slice(0, index)}${newStr}${current.slice(index + oldStr.length)}`;
-    await this.write(path, next);
+    await this.write(path, replaced.content, {
+      ifMatch: formatContentVersion(current),
+    });
 
-    return 1;
+    return replaced.count;
   }
 
   async list(path: string): Promise<string[]> {
@@ -165,7 +333,8 @@ export class VirtualStoreAdapter implements StorePort {
       return {
         exists: true,
         isDirectory: false,
-        size: new TextEncoder().encode(value).length,
+        size: decodeStoredBytes(value).length,
+        version: formatContentVersion(value),
       };
     }
 
@@ -195,6 +364,380 @@ export class VirtualStoreAdapter implements StorePort {
     }
   }
 
+  async delete(path: string, options: DeleteOptions = {}): Promise<void> {
+    const normalizedPath = normalizeStoreKey(path);
+    const mappedKey = buildBaseStoreKey(this.namespace, normalizedPath);
+    const values = await this.withTimeout(this.store.mget([mappedKey]));
+
+    if (values[0] !== undefined) {
+      await this.withTimeout(this.store.mdelete([mappedKey]));
+      await this.touch();
+      await this.updateIndex([{ path: normalizedPath, content: undefined }]);
+      return;
+    }
+
+    const nestedKeys = await this.collectMappedKeys(
+      buildBaseStorePrefix(this.namespace, normalizedPath)
+    );
+
+    if (nestedKeys.length === 0) {
+      throw new FileNotFoundError();
+    }
+
+    if (options.recursive !== true) {
+      throw new Error("Directory not empty");
+    }
+
+    await this.withTimeout(this.store.mdelete(nestedKeys));
+    await this.touch();
+    await this.updateIndex(
+      nestedKeys.map((nestedKey) => ({
+        path: splitBaseStoreKey(this.namespace, nestedKey),
+        content: undefined,
+      }))
+    );
+  }
+
+  async move(fromPath: string, toPath: string): Promise<void> {
+    const sourcePath = normalizeStoreKey(fromPath);
+    const targetPath = normalizeStoreKey(toPath);
+
+    if (targetPath === sourcePath) {
+      return;
+    }
+
+    if (targetPath.startsWith(`${sourcePath}/`)) {
+      throw new Error("Cannot move a directory into itself");
+    }
+
+    const sourceKey = buildBaseStoreKey(this.namespace, sourcePath);
+    const values = await this.withTimeout(this.store.mget([sourceKey]));
+    const value = values[0];
+
+    if (value !== undefined) {
+      await this.withTimeout(
+        this.store.mset([
+          [buildBaseStoreKey(this.namespace, targetPath), value],
+          ...this.markerEntries(),
+        ])
+      );
+      await this.withTimeout(this.store.mdelete([sourceKey]));
+      await this.updateIndex([
+        { path: sourcePath, content: undefined },
+        { path: targetPath, content: indexableText(value) },
+      ]);
+      return;
+    }
+
+    const nestedKeys = await this.collectMappedKeys(
+      buildBaseStorePrefix(this.namespace, sourcePath)
+    );
+
+    if (nestedKeys.length === 0) {
+      throw new FileNotFoundError();
+    }
+
+    const nestedValues = await this.withTimeout(this.store.mget(nestedKeys));
+    const movedPairs: [string, string][] = [];
+    const indexChanges: SearchIndexChange[] = [];
+
+    nestedKeys.forEach((mappedKey, index) => {
+      const nestedValue = nestedValues[index];
+
+      if (nestedValue === undefined) {
+        return;
+      }
+
+      const remainder = splitBaseStoreKey(this.namespace, mappedKey).slice(
+        sourcePath.length + 1
+      );
+      movedPairs.push([
+        buildBaseStoreKey(this.namespace, `${targetPath}/${remainder}`),
+        nestedValue,
+      ]);
+      indexChanges.push(
+        {
+          path: splitBaseStoreKey(this.namespace, mappedKey),
+          content: undefined,
+        },
+        {
+          path: `${targetPath}/${remainder}`,
+          content: indexableText(nestedValue),
+        }
+      );
+    });
+
+    await this.withTimeout(
+      this.store.mset([...movedPairs, ...this.markerEntries()])
+    );
+    await this.withTimeout(this.store.mdelete(nestedKeys));
+    await this.updateIndex(indexChanges);
+  }
+
+  async mkdir(path: string): Promise<void> {
+    const mappedKey = buildBaseStoreKey(this.namespace, path);
+    const values = await this.withTimeout(this.store.mget([mappedKey]));
+
+    // Virtual directories are implied by key prefixes; only file collisions fail.
+    if (values[0] !== undefined) {
+      throw new Error("A file already exists at this path");
+    }
+  }
+
+  async search(
+    pattern: string,
+    options: SearchOptions = {}
+  ): Promise<SearchResult> {
+    const normalizedRoot = normalizeStoreKey(options.path ?? "", true);
+    const compiled = compileSearch(pattern, normalizedRoot, options);
+    const scores = await this.findIndexedCandidates(
+      pattern,
+      normalizedRoot,
+      options
+    );
+    const candidateKeys =
+      scores === undefined
+        ? await this.collectSearchCandidates(normalizedRoot)
+        : [...scores.keys()];
+    const matches: SearchMatch[] = [];
+
+    const filteredKeys = candidateKeys
+      .filter((key) => isSearchCandidate(key, compiled))
+      .sort(
+        (left, right) =>
+          (scores?.get(right) ?? 0) - (scores?.get(left) ?? 0) ||
+          left.localeCompare(right)
+      );
+
+    for (
+      let batchStart = 0;
+      batchStart < filteredKeys.length;
+      batchStart += SEARCH_BATCH_SIZE
+    ) {
+      const batchKeys = filteredKeys.slice(
+        batchStart,
+        batchStart + SEARCH_BATCH_SIZE
+      );
+      const values = await this.withTimeout(
+        this.store.mget(
+          batchKeys.map((key) => buildBaseStoreKey(this.namespace, key))
+        )
+      );
+
+      for (const [index, key] of batchKeys.entries()) {
+        const value = values[index];
+
+        if (
+          value !== undefined &&
+          !value.startsWith(BINARY_VALUE_PREFIX) &&
+          collectLineMatches(key, value, compiled, matches, scores?.get(key))
+        ) {
+          return toSearchResult(matches, compiled.maxResults);
+        }
+      }
+    }
+
+    return toSearchResult(matches, compiled.maxResults);
+  }
+
+  async readMany(paths: string[]): Promise<(string | undefined)[]> {
+    if (paths.length === 0) {
+      return [];
+    }
+
+    const values = await this.withTimeout(
+      this.store.mget(
+        paths.map((path) => buildBaseStoreKey(this.namespace, path))
+      )
+    );
+
+    return values.map((value) =>
+      value === undefined ? undefined : decodeStoredText(value)
+    );
+  }
+
+  async listKeys(path = ""): Promise<string[]> {
+    const mappedKeys = await this.collectMappedKeys(
+      buildBaseStorePrefix(this.namespace, path)
+    );
+
+    return mappedKeys
+      .map((mappedKey) => splitBaseStoreKey(this.namespace, mappedKey))
+      .sort((left, right) => left.localeCompare(right));
+  }
+
+  async deleteMany(paths: string[]): Promise<void> {
+    if (paths.length === 0) {
+      return;
+    }
+
+    await this.withTimeout(
+      this.store.mdelete(
+        paths.map((path) => buildBaseStoreKey(this.namespace, path))
+      )
+    );
+    await this.touch();
+    await this.updateIndex(
+      paths.map((path) => ({
+        path: normalizeStoreKey(path),
+        content: undefined,
+      }))
+    );
+  }
+
+  async rebuildIndex(): Promise<number> {
+    if (this.index === undefined) {
+      throw new Error("Search index is not enabled for this namespace");
+    }
+
+    await this.withTimeout(this.index.clear());
+
+    const keys = await this.listKeys();
+    let indexed = 0;
+
+    for (let start = 0; start < keys.length; start += SEARCH_BATCH_SIZE) {
+      const batchKeys = keys.slice(start, start + SEARCH_BATCH_SIZE);
+      const values = await this.withTimeout(
+        this.store.mget(
+          batchKeys.map((key) => buildBaseStoreKey(this.namespace, key))
+        )
+      );
+      const changes = batchKeys.flatMap((path, index) => {
+        const content = indexableText(values[index]);
+        return content === undefined ? [] : [{ path, content }];
+      });
+
+      await this.updateIndex(changes);
+      indexed += changes.length;
+    }
+
+    return indexed;
+  }
+
+  private async updateIndex(changes: SearchIndexChange[]): Promise<void> {
+    if (this.index !== undefined) {
+      await this.withTimeout(this.index.update(changes));
+    }
+  }
+
+  private markerEntries(): [string, string][] {
+    if (this.ttlMs === undefined) {
+      return [];
+    }
+
+    const marker: NamespaceMarker = {
+      touchedAt: new Date().toISOString(),
+      ttlMs: this.ttlMs,
+    };
+
+    return [[buildNamespaceMarkerKey(this.namespace), JSON.stringify(marker)]];
+  }
+
+  private async touch(): Promise<void> {
+    const entries = this.markerEntries();
+
+    if (entries.length > 0) {
+      await this.withTimeout(this.store.mset(entries));
+    }
+  }
+
+  private async findIndexedCandidates(
+    pattern: string,
+    normalizedRoot: string,
+    options: SearchOptions
+  ): Promise<Map<string, number | undefined> | undefined> {
+    const terms = tokenizeText(pattern);
+
+    if (
+      this.index === undefined ||
+      terms.length === 0 ||
+      !(options.fullText || options.literal || isPlainSearchPattern(pattern))
+    ) {
+      return undefined;
+    }
+
+    const candidates: Map<string, number | undefined> = options.fullText
+      ? await this.withTimeout(this.index.rank(terms))
+      : new Map(
+          [
+            ...(await this.withTimeout(
+              this.index.findSubstringCandidates(terms)
+            )),
+          ].map((path) => [path, undefined])
+        );
+    const scoped = new Map(
+      [...candidates].filter(
+        ([path]) =>
+          normalizedRoot === "" ||
+          path === normalizedRoot ||
+          path.startsWith(`${normalizedRoot}/`)
+      )
+    );
+
+    if (
+      normalizedRoot !== "" &&
+      scoped.size === 0 &&
+      !(await this.stat(normalizedRoot)).exists
+    ) {
+      throw new FileNotFoundError();
+    }
+
+    return scoped;
+  }
+
+  private async collectSearchCandidates(
+    normalizedRoot: string
+  ): Promise<string[]> {
+    if (normalizedRoot !== "") {
+      const mappedKey = buildBaseStoreKey(this.namespace, normalizedRoot);
+      const values = await this.withTimeout(this.store.mget([mappedKey]));
+
+      if (values[0] !== undefined) {
+        return [normalizedRoot];
+      }
+    }
+
+    const mappedKeys = await this.collectMappedKeys(
+      buildBaseStorePrefix(this.namespace, normalizedRoot)
+    );
+
+    if (normalizedRoot !== "" && mappedKeys.length === 0) {
+      throw new FileNotFoundError();
+    }
+
+    return mappedKeys.map((mappedKey) =>
+      splitBaseStoreKey(this.namespace, mappedKey)
+    );
+  }
+
+  private async collectMappedKeys(mappedPrefix: string): Promise<string[]> {
+    const collected: string[] = [];
+    const iterator = this.store.yieldKeys(mappedPrefix)[Symbol.asyncIterator]();
+
+    try {
+      while (true) {
+        const nextItem = await this.withTimeout(iterator.next());
+
+        if (nextItem.done) {
+          break;
+        }
+
+        if (nextItem.value.startsWith(mappedPrefix)) {
+          collected.push(nextItem.value);
+        }
+      }
+
+      return collected;
+    } finally {
+      if (typeof iterator.return === "function") {
+        const cleanupPromise = iterator.return();
+        cleanupPromise.catch(() => {
+          // ignore iterator cleanup failures
+        });
+      }
+    }
+  }
+
   private async withTimeout<T>(operation: Promise<T>): Promise<T> {
     if (this.timeoutMs === undefined) {
       return operation;
@@ -218,6 +761,30 @@ export class VirtualStoreAdapter implements StorePort {
   }
 }
 
+function decodeStoredBytes(value: string): Uint8Array {
+  if (value.startsWith(BINARY_VALUE_PREFIX)) {
+    return new Uint8Array(
+      Buffer.from(value.slice(BINARY_VALUE_PREFIX.length), "base64")
+    );
+  }
+
+  return new TextEncoder().encode(value);
+}
+
+function indexableText(value: string | undefined): string | undefined {
+  return value === undefined || value.startsWith(BINARY_VALUE_PREFIX)
+    ? undefined
+    : value;
+}
+
+function decodeStoredText(value: string): string {
+  if (value.startsWith(BINARY_VALUE_PREFIX)) {
+    return new TextDecoder().decode(decodeStoredBytes(value));
+  }
+
+  return value;
+}
+
 function serializeNamespace(namespace: string[]): string {
   if (namespace.length === 0) {
     throw new PathTraversalError("Namespace must include at least one segment");
@@ -0,0 +1,209 @@
+import { deflateRawSync, inflateRawSync } from "node:zlib";
+
+import type { ArchiveEntry } from "@/infrastructure/archive";
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04_03_4b_50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02_01_4b_50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06_05_4b_50;
+const END_OF_CENTRAL_DIRECTORY_BYTES = 22;
+const MAX_COMMENT_BYTES = 0xff_ff;
+const ZIP_VERSION = 20;
+const UTF8_NAME_FLAG = 0x08_00;
+const STORED_METHOD = 0;
+const DEFLATE_METHOD = 8;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+const CRC32_TABLE = createCrc32Table();
+
+interface CentralDirectoryRecord {
+  header: Uint8Array;
+}
+
+export interface ZipWriter {
+  add(entry: ArchiveEntry): Uint8Array[];
+  finish(): Uint8Array[];
+}
+
+export function createZipWriter(): ZipWriter {
+  const records: CentralDirectoryRecord[] = [];
+  let offset = 0;
+
+  return {
+    add(entry) {
+      const name = encoder.encode(entry.path);
+      const compressed = new Uint8Array(deflateRawSync(entry.data));
+      const { time, date } = toDosDateTime(entry.modified ?? new Date());
+      const crc = crc32(entry.data);
+      const local = new Uint8Array(30 + name.length);
+      const localView = new DataView(local.buffer);
+
+      localView.setUint32(0, LOCAL_FILE_HEADER_SIGNATURE, true);
+      localView.setUint16(4, ZIP_VERSION, true);
+      localView.setUint16(6, UTF8_NAME_FLAG, true);
+      localView.setUint16(8, DEFLATE_METHOD, true);
+      localView.setUint16(10, time, true);
+      localView.setUint16(12, date, true);
+      localView.setUint32(14, crc, true);
+      localView.setUint32(18, compressed.length, true);
+      localView.setUint32(22, entry.data.length, true);
+      localView.setUint16(26, name.length, true);
+      local.set(name, 30);
+
+      const central = new Uint8Array(46 + name.length);
+      const centralView = new DataView(central.buffer);
+
+      centralView.setUint32(0, CENTRAL_DIRECTORY_SIGNATURE, true);
+      centralView.setUint16(4, ZIP_VERSION, true);
+      central.set(local.subarray(4, 30), 6);
+      centralView.setUint32(42, offset, true);
+      central.set(name, 46);
+      records.push({ header: central });
+
+      offset += local.length + compressed.length;
+
+      return [local, compressed];
+    },
+
+    finish() {
+      const end = new Uint8Array(END_OF_CENTRAL_DIRECTORY_BYTES);
+      const endView = new DataView(end.buffer);
+      const directorySize = records.reduce(
+        (size, record) => size + record.header.length,
+        0
+      );
+
+      endView.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+      endView.setUint16(8, records.length, true);
+      endView.setUint16(10, records.length, true);
+      endView.setUint32(12, directorySize, true);
+      endView.setUint32(16, offset, true);
+
+      return [...records.map((record) => record.header), end];
+    },
+  };
+}
+
+export function decodeZip(archive: Uint8Array): ArchiveEntry[] {
+  const view = new DataView(
+    archive.buffer,
+    archive.byteOffset,
+    archive.byteLength
+  );
+  const endOffset = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(endOffset + 10, true);
+  const entries: ArchiveEntry[] = [];
+  let offset = view.getUint32(endOffset + 16, true);
+
+  for (let index = 0; index < entryCount; index += 1) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error("Invalid zip archive: corrupt central directory");
+    }
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const path = decoder.decode(
+      archive.subarray(offset + 46, offset + 46 + nameLength)
+    );
+
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith("/")) {
+      entries.push({ path, data: new Uint8Array(), isDirectory: true });
+      continue;
+    }
+
+    const dataStart =
+      localOffset +
+      30 +
+      view.getUint16(localOffset + 26, true) +
+      view.getUint16(localOffset + 28, true);
+
+    entries.push({
+      path,
+      data: inflateEntry(
+        method,
+        archive.subarray(dataStart, dataStart + compressedSize)
+      ),
+    });
+  }
+
+  return entries;
+}
+
+function inflateEntry(method: number, data: Uint8Array): Uint8Array {
+  if (method === STORED_METHOD) {
+    return new Uint8Array(data);
+  }
+
+  if (method === DEFLATE_METHOD) {
+    return new Uint8Array(inflateRawSync(data));
+  }
+
+  throw new Error(`Unsupported zip compression method ${method}`);
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  const lowest = Math.max(
+    0,
+    view.byteLength - END_OF_CENTRAL_DIRECTORY_BYTES - MAX_COMMENT_BYTES
+  );
+
+  for (
+    let offset = view.byteLength - END_OF_CENTRAL_DIRECTORY_BYTES;
+    offset >= lowest;
+    offset -= 1
+  ) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      return offset;
+    }
+  }
+
+  throw new Error("Invalid zip archive: missing end of central directory");
+}
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time:
+      date.getHours() * 2048 +
+      date.getMinutes() * 32 +
+      Math.floor(date.getSeconds() / 2),
+    date:
+      Math.max(0, date.getFullYear() - 1980) * 512 +
+      (date.getMonth() + 1) * 32 +
+      date.getDate(),
+  };
+}
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xff_ff_ff_ff;
+
+  for (const byte of data) {
+    // biome-ignore lint/suspicious/noBitwiseOperators: CRC-32 is defined over bitwise XOR and shifts.
+    crc = (CRC32_TABLE[(crc ^ byte) & 0xff] ?? 0) ^ (crc >>> 8);
+  }
+
+  // biome-ignore lint/suspicious/noBitwiseOperators: CRC-32 is defined over bitwise XOR and shifts.
+  return (crc ^ 0xff_ff_ff_ff) >>> 0;
+}
+
+function createCrc32Table(): Uint32Array {
+  const table = new Uint32Array(256);
+
+  for (let index = 0; index < table.length; index += 1) {
+    let value = index;
+
+    for (let bit = 0; bit < 8; bit += 1) {
+      // biome-ignore lint/suspicious/noBitwiseOperators: CRC-32 is defined over bitwise XOR and shifts.
+      value = value & 1 ? 0xed_b8_83_20 ^ (value >>> 1) : value >>> 1;
+    }
+
+    table[index] = value;
+  }
+
+  return table;
+}
@@ -1,29 +1,147 @@
+import type { LanguageModelLike } from "@langchain/core/language_models/base";
+import type { AgentMiddleware } from "langchain";
 import type { ZodSchema } from "zod";
-
-import type { AccessScope as DomainAccessScope } from "@/domain/models";
+import {
+  createBaseStoreAuditSink as createBaseStoreAuditSinkImpl,
+  createJsonlAuditSink as createJsonlAuditSinkImpl,
+} from "@/application/audit-sinks";
+import { createChangeJournal as createChangeJournalImpl } from "@/application/change-journal";
+import {
+  createEntropyRedactor as createEntropyRedactorImpl,
+  createRegexRedactor as createRegexRedactorImpl,
+  normalizeLineEndings as normalizeLineEndingsImpl,
+} from "@/application/content-transformers";
+import {
+  createACPFileChangeSink as createACPFileChangeSinkImpl,
+  createAGUIFileChangeSink as createAGUIFileChangeSinkImpl,
+} from "@/application/file-change-sinks";
+import { createFilesystemTools as createFilesystemToolsImpl } from "@/application/filesystem-tools";
+import { openOverlay as openOverlayImpl } from "@/application/overlay-controls";
+import { rebuildSearchIndex as rebuildSearchIndexImpl } from "@/application/search-index-controls";
+import {
+  exportSnapshot as exportSnapshotImpl,
+  importSnapshot as importSnapshotImpl,
+} from "@/application/snapshots";
+import { gcVirtualWorkspaces as gcVirtualWorkspacesImpl } from "@/application/workspace-gc";
+import {
+  ConflictError as ConflictErrorImpl,
+  QuotaExceededError as QuotaExceededErrorImpl,
+} from "@/domain/errors";
+import type {
+  AccessScope as DomainAccessScope,
+  MountQuota as DomainMountQuota,
+} from "@/domain/models";
 import type { BaseStoreLike } from "@/infrastructure/virtual-store";
 import { createWorkspacesMiddleware as createWorkspacesMiddlewareImpl } from "@/presentation/middleware";
+import { createSubAgentMiddleware as createSubAgentMiddlewareImpl } from "@/presentation/sub-agent-middleware";
 
 export type { BaseStoreLike } from "@/infrastructure/virtual-store";
 
 export type AccessScope = DomainAccessScope;
+export type MountQuota = DomainMountQuota;
+
+export interface IgnoreConfig {
+  gitignore?: boolean;
+  patterns?: string[];
+  hideFromReads?: boolean;
+}
 
 export interface PhysicalStoreConfig {
   type: "physical";
   rootDir: string;
+  ignore?: IgnoreConfig;
 }
 
 export interface VirtualStoreConfig {
   type: "virtual";
   namespace: string[];
+  ttlMs?: number;
+  index?: boolean;
+}
+
+export interface OverlayStoreConfig {
+  type: "overlay";
+  rootDir: string;
+  namespace: string[];
+}
+
+export type StoreConfig =
+  | PhysicalStoreConfig
+  | VirtualStoreConfig
+  | OverlayStoreConfig;
+
+export interface PathRule {
+  effect: "allow" | "deny";
+  pattern: string;
+  operations?: OperationType[];
+}
+
+export interface TreePreviewOptions {
+  maxDepth?: number;
+  maxEntries?: number;
+  recentWithinMs?: number;
+}
+
+export interface ContentTransformContext {
+  path: string;
+  mount: string;
+  operation: "read" | "write";
+}
+
+export interface ContentTransformResult {
+  content: string;
+  redactions?: number;
+}
+
+export type ContentTransformer = (
+  content: string,
+  context: ContentTransformContext
+) => string | ContentTransformResult | Promise<string | ContentTransformResult>;
+
+export interface MountTransforms {
+  read?: ContentTransformer[];
+  write?: ContentTransformer[];
 }
 
-export type StoreConfig = PhysicalStoreConfig | VirtualStoreConfig;
+export interface RedactionRule {
+  name: string;
+  pattern: RegExp;
+  replacement?: string;
+}
+
+export interface EntropyRedactorOptions {
+  minLength?: number;
+  threshold?: number;
+  replacement?: string;
+}
 
 export interface MountConfig {
   prefix: string;
   scope: AccessScope;
   store: StoreConfig;
+  rules?: PathRule[];
+  quota?: MountQuota;
+  treePreview?: boolean | TreePreviewOptions;
+  transforms?: MountTransforms;
+}
+
+export interface TreePreviewEntry {
+  path: string;
+  depth: number;
+  isDirectory: boolean;
+  size?: number;
+  recentlyModified: boolean;
+}
+
+export interface TreePreview {
+  entries: TreePreviewEntry[];
+  truncated: boolean;
+}
+
+export interface MountUsage {
+  files: number;
+  bytes: number;
+  writesThisRun: number;
 }
 
 export interface FileMetadata {
@@ -31,30 +149,142 @@ export interface FileMetadata {
   isDirectory: boolean;
   size?: number;
   modified?: Date;
+  version?: string;
 }
 
 export interface VFSResolution {
   mount: MountConfig;
   normalizedKey: string;
   scope: AccessScope;
+  rules: PathRule[];
+}
+
+export interface ReadOptions {
+  full?: boolean;
+}
+
+export interface WriteOptions {
+  ifMatch?: string;
+}
+
+export interface DeleteOptions {
+  recursive?: boolean;
+}
+
+export interface SearchOptions {
+  include?: string[];
+  exclude?: string[];
+  ignoreCase?: boolean;
+  literal?: boolean;
+  fullText?: boolean;
+  maxResults?: number;
+}
+
+export interface SearchMatch {
+  path: string;
+  line: number;
+  text: string;
+  score?: number;
+}
+
+export interface SearchResult {
+  matches: SearchMatch[];
+  truncated: boolean;
+}
+
+export interface BinaryContent {
+  data: Uint8Array;
+  mimeType: string;
+}
+
+export interface ApplyPatchOptions {
+  root?: string;
+  fuzz?: number;
+  dryRun?: boolean;
+}
+
+export type PatchFileStatus = "created" | "modified" | "deleted" | "renamed";
+
+export interface PatchHunkResult {
+  index: number;
+  applied: boolean;
+  line?: number;
+  offset?: number;
+  fuzz?: number;
+  expected?: string[];
+  actual?: string[];
+}
+
+export interface PatchFileResult {
+  path: string;
+  previousPath?: string;
+  status: PatchFileStatus;
+  applied: boolean;
+  additions: number;
+  deletions: number;
+  hunks: PatchHunkResult[];
+  error?: string;
+}
+
+export interface PatchResult {
+  applied: boolean;
+  dryRun: boolean;
+  files: PatchFileResult[];
 }
 
 export interface VFSServices {
   resolve(path: string): VFSResolution;
-  read(key: string): Promise<string>;
-  write(key: string, content: string): Promise<void>;
+  read(key: string, options?: ReadOptions): Promise<string>;
+  readBytes(key: string): Promise<BinaryContent>;
+  write(key: string, content: string, options?: WriteOptions): Promise<void>;
+  writeBytes(
+    key: string,
+    data: Uint8Array,
+    options?: WriteOptions
+  ): Promise<void>;
+  edit(
+    key: string,
+    oldStr: string,
+    newStr: string,
+    replaceAll?: boolean,
+    options?: WriteOptions
+  ): Promise<number>;
   list(key: string): Promise<string[]>;
   stat(key: string): Promise<FileMetadata>;
+  delete(key: string, options?: DeleteOptions): Promise<void>;
+  move(fromKey: string, toKey: string): Promise<void>;
+  mkdir(key: string): Promise<void>;
+  search(
+    path: string,
+    pattern: string,
+    options?: SearchOptions
+  ): Promise<SearchResult>;
+  applyPatch(patch: string, options?: ApplyPatchOptions): Promise<PatchResult>;
 }
 
-export type OperationType = "read" | "write" | "edit" | "list" | "search";
+export type OperationType =
+  | "read"
+  | "write"
+  | "edit"
+  | "list"
+  | "search"
+  | "delete"
+  | "move";
+
+export type ToolContentBlock =
+  | { type: "text"; text: string }
+  | { type: "image"; mimeType: string; data: string };
 
 export interface ToolResult {
   content: string;
+  contentBlocks?: ToolContentBlock[];
   metadata?: {
     operation?: OperationType;
     filesModified?: string[];
     filesRead?: string[];
+    patchResults?: PatchFileResult[];
+    redactions?: number;
+    version?: string;
   };
 }
 
@@ -66,10 +296,261 @@ export interface RegisteredTool {
   handler: (params: unknown, services: VFSServices) => Promise<ToolResult>;
 }
 
+export interface FilesystemToolsOptions {
+  defaultReadLimit?: number;
+  maxResults?: number;
+}
+
+export interface OverlayChange {
+  path: string;
+  kind: "added" | "modified" | "deleted";
+  before?: string;
+  after?: string;
+}
+
+export interface OverlayControls {
+  diff(): Promise<OverlayChange[]>;
+  commit(): Promise<OverlayChange[]>;
+  discard(): Promise<void>;
+}
+
+export interface FileChange {
+  path: string;
+  operation: "write" | "edit" | "delete" | "move";
+  before?: string | Uint8Array;
+  after?: string | Uint8Array;
+}
+
+export type FileChangeKind = "created" | "modified" | "deleted";
+
+export interface LineDiffStats {
+  additions: number;
+  deletions: number;
+}
+
+export interface FileChangeEvent {
+  kind: FileChangeKind;
+  path: string;
+  mount: string;
+  bytes?: number;
+  diff?: LineDiffStats;
+  oldText?: string;
+  newText?: string;
+  threadId?: string;
+  runId?: string;
+  toolCallId?: string;
+  toolName?: string;
+}
+
+export type FileChangeSink = (event: FileChangeEvent) => void | Promise<void>;
+
+export interface AGUIEventLike {
+  type: string;
+  [key: string]: unknown;
+}
+
+export interface AGUIFileChangeSinkOptions {
+  eventType?: "custom" | "activity";
+  name?: string;
+}
+
+export interface ACPSessionConnectionLike {
+  sessionUpdate(params: {
+    sessionId: string;
+    update: Record<string, unknown>;
+  }): Promise<void>;
+}
+
+export interface ACPFileChangeSinkOptions {
+  sessionId?: string | ((event: FileChangeEvent) => string | undefined);
+  resolvePath?: (event: FileChangeEvent) => string;
+}
+
+export type AuditOperation =
+  | "read"
+  | "readBytes"
+  | "write"
+  | "writeBytes"
+  | "edit"
+  | "list"
+  | "stat"
+  | "delete"
+  | "move"
+  | "mkdir"
+  | "search"
+  | "applyPatch";
+
+export type AuditOutcome =
+  | "allowed"
+  | "AccessDeniedError"
+  | "PathTraversalError"
+  | "error";
+
+export interface AuditRecord {
+  timestamp: string;
+  threadId: string;
+  runId?: string;
+  toolName?: string;
+  toolCallId?: string;
+  operation: AuditOperation;
+  path?: string;
+  targetPath?: string;
+  mount?: string;
+  outcome: AuditOutcome;
+  bytesRead?: number;
+  bytesWritten?: number;
+  error?: string;
+}
+
+export type AuditSink = (record: AuditRecord) => void | Promise<void>;
+
+export interface JournalEntry {
+  id: string;
+  threadId: string;
+  runId?: string;
+  path: string;
+  operation: FileChange["operation"];
+  beforeHash?: string;
+  afterHash?: string;
+  previousContent?: string | Uint8Array;
+  timestamp: string;
+}
+
+export interface JournalRecord {
+  threadId: string;
+  runId?: string;
+  change: FileChange;
+  services: VFSServices;
+}
+
+export interface ChangeJournal {
+  record(record: JournalRecord): JournalEntry;
+  entries(threadId: string): JournalEntry[];
+  undo(threadId: string, count?: number): Promise<JournalEntry[]>;
+  revertRun(runId: string): Promise<JournalEntry[]>;
+}
+
+export interface ChangeJournalOptions {
+  captureContent?: boolean;
+  maxEntriesPerThread?: number;
+}
+
+export type SnapshotFormat = "tar" | "zip";
+
+export type SnapshotSource =
+  | Uint8Array
+  | ReadableStream<Uint8Array>
+  | AsyncIterable<Uint8Array>;
+
+export interface ExportSnapshotOptions {
+  path?: string;
+  format?: SnapshotFormat;
+  virtualStore?: BaseStoreLike;
+}
+
+export interface ImportSnapshotOptions {
+  path?: string;
+  format?: SnapshotFormat;
+  virtualStore?: BaseStoreLike;
+}
+
+export interface GcVirtualWorkspacesOptions {
+  virtualStore: BaseStoreLike;
+  olderThan?: number | Date;
+  namespaces?: string[][];
+  dryRun?: boolean;
+}
+
+export interface RemovedVirtualWorkspace {
+  namespace: string[];
+  keys: number;
+  touchedAt: string;
+  reason: "expired" | "olderThan";
+}
+
+export interface GcVirtualWorkspacesReport {
+  scannedNamespaces: number;
+  removed: RemovedVirtualWorkspace[];
+  removedKeys: number;
+  untrackedNamespaces: string[][];
+}
+
+export interface WorkspacesContext {
+  threadId?: string;
+  runId?: string;
+  [key: string]: unknown;
+}
+
+export type MountsResolver = (
+  context: WorkspacesContext
+) => MountConfig[] | Promise<MountConfig[]>;
+
 export interface WorkspacesMiddlewareOptions {
-  mounts: MountConfig[];
-  tools: RegisteredTool[];
+  mounts: MountConfig[] | MountsResolver;
+  tools?: RegisteredTool[];
+  builtinTools?: boolean | FilesystemToolsOptions;
+  virtualStore?: BaseStoreLike;
+  journal?: ChangeJournal;
+  onFileChange?: FileChangeSink;
+  audit?: AuditSink;
+}
+
+export interface DelegationGrant {
+  path: string;
+  scope: AccessScope;
+}
+
+export interface DelegatedFile {
+  path: string;
+  content: string;
+  encoding?: "base64";
+  bytes: number;
+}
+
+export interface DelegationChangeSet {
+  id: string;
+  task: string;
+  grants: DelegationGrant[];
+  parentThreadId: string;
+  parentRunId?: string;
+  parentToolCallId?: string;
+  childThreadId: string;
+  childRunId: string;
+  summary: string;
+  files: DelegatedFile[];
+  createdAt: string;
+}
+
+export interface SubAgentMiddlewareOptions {
+  model: string | LanguageModelLike;
+  mounts: MountConfig[] | MountsResolver;
   virtualStore?: BaseStoreLike;
+  systemPrompt?: string;
+  tools?: RegisteredTool[];
+  middleware?: AgentMiddleware[];
+  scratchPrefix?: string;
+  scratchTtlMs?: number;
+  audit?: AuditSink;
+  workspaces?: AgentMiddleware;
 }
 
 export const createWorkspacesMiddleware = createWorkspacesMiddlewareImpl;
+export const createSubAgentMiddleware = createSubAgentMiddlewareImpl;
+export const createFilesystemTools = createFilesystemToolsImpl;
+export const openOverlay = openOverlayImpl;
+export const rebuildSearchIndex = rebuildSearchIndexImpl;
+export const createChangeJournal = createChangeJournalImpl;
+export const createRegexRedactor = createRegexRedactorImpl;
+export const createEntropyRedactor = createEntropyRedactorImpl;
+export const normalizeLineEndings = normalizeLineEndingsImpl;
+export const createJsonlAuditSink = createJsonlAuditSinkImpl;
+export const createBaseStoreAuditSink = createBaseStoreAuditSinkImpl;
+export const createAGUIFileChangeSink = createAGUIFileChangeSinkImpl;
+export const createACPFileChangeSink = createACPFileChangeSinkImpl;
+export const exportSnapshot = exportSnapshotImpl;
+export const importSnapshot = importSnapshotImpl;
+export const gcVirtualWorkspaces = gcVirtualWorkspacesImpl;
+export const ConflictError = ConflictErrorImpl;
+export type ConflictError = ConflictErrorImpl;
+export const QuotaExceededError = QuotaExceededErrorImpl;
+export type QuotaExceededError = QuotaExceededErrorImpl;
@@ -1,43 +1,207 @@
 import { ToolMessage } from "@langchain/core/messages";
+import {
+  DynamicStructuredTool,
+  type StructuredToolInterface,
+  type ToolSchemaBase,
+} from "@langchain/core/tools";
 import type { InteropZodObject } from "@langchain/core/utils/types";
 import { createMiddleware } from "langchain";
 import { z } from "zod";
 
+import { createAuditedServices } from "@/application/audit-log";
+import { dispatchFileChanges } from "@/application/file-change-events";
+import { createFilesystemTools } from "@/application/filesystem-tools";
+import { collectMountUsage } from "@/application/mount-usage";
+import { createRunWriteCounter } from "@/application/quota-guard";
 import {
   buildVFSServices,
   createInMemoryBaseStore,
+  createMountUsageCache,
   synthesizeSafeTools,
 } from "@/application/tool-synthesizer";
+import { createTreePreviewCache } from "@/application/tree-preview";
 import { AccessDeniedError } from "@/domain/errors";
 import { FilesystemUnresponsiveError } from "@/infrastructure/virtual-store";
 import type {
+  ChangeJournal,
+  FileChange,
+  FileChangeEvent,
+  FileChangeSink,
+  FilesystemToolsOptions,
+  JournalEntry,
+  MountConfig,
+  MountsResolver,
   OperationType,
   RegisteredTool,
+  ToolResult,
   VFSServices,
+  WorkspacesContext,
   WorkspacesMiddlewareOptions,
 } from "@/presentation/index";
+import {
+  createContextMountResolver,
+  readWorkspacesContext,
+} from "@/presentation/mount-resolver";
 import { injectFilesystemMap } from "@/presentation/prompt-injector";
 
 export interface WorkspacesMiddlewareContext {
   threadId?: string;
   runId?: string;
+  [key: string]: unknown;
 }
 
-const workspacesContextSchema = z.object({
-  threadId: z.string().optional(),
-  runId: z.string().optional(),
+const workspacesContextSchema = z
+  .object({
+    threadId: z.string().optional(),
+    runId: z.string().optional(),
+  })
+  .passthrough() as unknown as InteropZodObject;
+
+const workspacesStateSchema = z.object({
+  workspacesJournal: z
+    .array(
+      z.object({
+        id: z.string(),
+        threadId: z.string(),
+        runId: z.string().optional(),
+        path: z.string(),
+        operation: z.enum(["write", "edit", "delete", "move"]),
+        beforeHash: z.string().optional(),
+        afterHash: z.string().optional(),
+        timestamp: z.string(),
+      })
+    )
+    .optional(),
 }) as unknown as InteropZodObject;
 
+export type WorkspacesToolRunner = (
+  tool: RegisteredTool,
+  toolCall: { id?: string; args?: unknown },
+  context: WorkspacesContext
+) => Promise<ToolMessage>;
+
+const toolRunners = new WeakMap<object, WorkspacesToolRunner>();
+
+const DEFAULT_THREAD_ID = "default";
+const MUTATING_OPERATIONS = new Set<OperationType>([
+  "write",
+  "edit",
+  "delete",
+  "move",
+]);
+
 export function createWorkspacesMiddleware(
   options: WorkspacesMiddlewareOptions
 ) {
   const virtualStore = options.virtualStore ?? createInMemoryBaseStore();
+  const builtinTools = resolveBuiltinTools(options.builtinTools);
+  const registeredTools = [...(options.tools ?? []), ...builtinTools];
+  const resolveMounts = createContextMountResolver(() => options.mounts);
+  const writeCounter = createRunWriteCounter();
+  const usageCache = createMountUsageCache(virtualStore);
+  const treePreviews = createTreePreviewCache({ virtualStore });
+
+  const runTool: WorkspacesToolRunner = async (
+    registeredTool,
+    toolCall,
+    context
+  ) => {
+    const toolCallId = toolCall.id ?? "unknown";
+    const toolName = registeredTool.name;
+    let mounts: MountConfig[];
+
+    try {
+      mounts = await resolveMounts(context);
+    } catch {
+      return errorToolMessage(toolCallId, "Failed to resolve workspace mounts");
+    }
+
+    const [safeTool] = synthesizeSafeTools(mounts, [registeredTool]);
+
+    if (safeTool === undefined) {
+      return errorToolMessage(
+        toolCallId,
+        `Tool '${toolName}' is not allowed by current workspace access scopes`
+      );
+    }
+
+    const fileChanges = createFileChangeCollector(
+      options.onFileChange,
+      context,
+      toolCall.id,
+      toolName
+    );
+
+    try {
+      const parsedParams = safeTool.parameters.parse(toolCall.args ?? {});
+      let redactions = 0;
+      const services = buildVFSServices(mounts, {
+        virtualStore,
+        runId: getWriteCounterKey(context),
+        writeCounter,
+        usageCache,
+        onChange: createJournalRecorder(options.journal, context, () =>
+          buildVFSServices(mounts, {
+            virtualStore,
+            usageCache,
+            applyTransforms: false,
+          })
+        ),
+        onFileEvent: fileChanges.record,
+        onRedaction: (count) => {
+          redactions += count;
+        },
+      });
+      const scopedServices = createOperationScopedServices(
+        services,
+        safeTool.operations
+      );
+      const toolServices = createAuditedServices(
+        scopedServices,
+        options.audit,
+        {
+          threadId: context.threadId ?? DEFAULT_THREAD_ID,
+          runId: context.runId,
+          toolName,
+          toolCallId: toolCall.id,
+        }
+      );
+
+      const result = await safeTool.handler(parsedParams, toolServices);
+
+      if (
+        safeTool.operations.some((operation) =>
+          MUTATING_OPERATIONS.has(operation)
+        )
+      ) {
+        treePreviews.markChanged(
+          context.threadId ?? DEFAULT_THREAD_ID,
+          result.metadata?.filesModified ?? []
+        );
+      }
+
+      return new ToolMessage({
+        tool_call_id: toolCallId,
+        content:
+          result.contentBlocks === undefined
+            ? result.content
+            : [{ type: "text", text: result.content }, ...result.contentBlocks],
+        metadata: withRedactions(result.metadata, redactions),
+      });
+    } catch (error) {
+      return errorToolMessage(toolCallId, getErrorMessage(error));
+    } finally {
+      await dispatchFileChanges(options.onFileChange, fileChanges.events);
+    }
+  };
 
-  return createMiddleware({
+  const middleware = createMiddleware({
     name: "workspaces-vfs",
     contextSchema: workspacesContextSchema,
+    stateSchema: workspacesStateSchema,
+    tools: resolveAgentTools(options.mounts, builtinTools),
 
-    beforeModel: (state) => {
+    beforeModel: async (state, runtime) => {
       const stateMessages =
         typeof state === "object" &&
         state !== null &&
@@ -46,58 +210,164 @@ export function createWorkspacesMiddleware(
           ? ((state as { messages: unknown[] }).messages ?? [])
           : [];
 
+      const context = readWorkspacesContext(runtime);
+      const mounts = await resolveMounts(context);
+      const usage = await collectMountUsage(mounts, {
+        virtualStore,
+        runId: getWriteCounterKey(context),
+        writeCounter,
+        usageCache,
+      });
+      const previews = await treePreviews.load(
+        context.threadId ?? DEFAULT_THREAD_ID,
+        mounts
+      );
+
       return {
-        messages: injectFilesystemMap(stateMessages, options.mounts) as never,
+        messages: injectFilesystemMap(stateMessages, mounts, {
+          usage,
+          previews,
+        }) as never,
+        ...(options.journal === undefined
+          ? {}
+          : {
+              workspacesJournal: options.journal
+                .entries(context.threadId ?? DEFAULT_THREAD_ID)
+                .map(toJournalStateEntry),
+            }),
       };
     },
 
     wrapToolCall: async (request, handler) => {
-      const toolCallId = request.toolCall?.id ?? "unknown";
       const toolName = request.toolCall?.name;
+      const registeredTool =
+        toolName === undefined || toolName === ""
+          ? undefined
+          : findRegisteredTool(registeredTools, toolName);
 
-      if (!toolName) {
+      if (registeredTool === undefined) {
         return await handler(request);
       }
 
-      const registeredTool = findRegisteredTool(options.tools, toolName);
+      return await runTool(
+        registeredTool,
+        request.toolCall ?? {},
+        readWorkspacesContext(request.runtime)
+      );
+    },
+  });
 
-      if (registeredTool === undefined) {
-        return await handler(request);
-      }
+  toolRunners.set(middleware, runTool);
 
-      const safeTools = synthesizeSafeTools(options.mounts, options.tools);
-      const safeTool = findRegisteredTool(safeTools, toolName);
+  return middleware;
+}
 
-      if (safeTool === undefined) {
-        return errorToolMessage(
-          toolCallId,
-          `Tool '${toolName}' is not allowed by current workspace access scopes`
-        );
-      }
+export function getWorkspacesToolRunner(
+  middleware: object
+): WorkspacesToolRunner | undefined {
+  return toolRunners.get(middleware);
+}
 
-      try {
-        const parsedParams = safeTool.parameters.parse(
-          request.toolCall?.args ?? {}
-        );
-        const services = buildVFSServices(options.mounts, {
-          virtualStore,
-        });
-        const scopedServices = createOperationScopedServices(
-          services,
-          safeTool.operations
-        );
+function getWriteCounterKey(context: WorkspacesContext): string {
+  // Without a runId, writes are limited per thread rather than not at all.
+  return context.runId ?? context.threadId ?? DEFAULT_THREAD_ID;
+}
 
-        const result = await safeTool.handler(parsedParams, scopedServices);
+function withRedactions(
+  metadata: ToolResult["metadata"],
+  redactions: number
+): ToolResult["metadata"] {
+  return redactions === 0 ? metadata : { ...metadata, redactions };
+}
 
-        return new ToolMessage({
-          tool_call_id: toolCallId,
-          content: result.content,
-          metadata: result.metadata,
-        });
-      } catch (error) {
-        return errorToolMessage(toolCallId, getErrorMessage(error));
-      }
-    },
+function toJournalStateEntry({
+  previousContent: _previousContent,
+  ...entry
+}: JournalEntry): Omit<JournalEntry, "previousContent"> {
+  return entry;
+}
+
+function createJournalRecorder(
+  journal: ChangeJournal | undefined,
+  context: WorkspacesContext,
+  createUntrackedServices: () => VFSServices
+): ((change: FileChange) => void) | undefined {
+  if (journal === undefined) {
+    return undefined;
+  }
+
+  const services = createUntrackedServices();
+
+  return (change) => {
+    journal.record({
+      threadId: context.threadId ?? DEFAULT_THREAD_ID,
+      runId: context.runId,
+      change,
+      services,
+    });
+  };
+}
+
+function createFileChangeCollector(
+  sink: FileChangeSink | undefined,
+  context: WorkspacesContext,
+  toolCallId: string | undefined,
+  toolName: string
+): {
+  events: FileChangeEvent[];
+  record: ((event: FileChangeEvent) => void) | undefined;
+} {
+  const events: FileChangeEvent[] = [];
+
+  return {
+    events,
+    record:
+      sink === undefined
+        ? undefined
+        : (event) => {
+            events.push({
+              ...event,
+              threadId: context.threadId ?? DEFAULT_THREAD_ID,
+              runId: context.runId,
+              toolCallId,
+              toolName,
+            });
+          },
+  };
+}
+
+function resolveBuiltinTools(
+  builtinTools: boolean | FilesystemToolsOptions | undefined
+): RegisteredTool[] {
+  if (builtinTools === undefined || builtinTools === false) {
+    return [];
+  }
+
+  return createFilesystemTools(builtinTools === true ? {} : builtinTools);
+}
+
+function resolveAgentTools(
+  mounts: MountConfig[] | MountsResolver,
+  builtinTools: RegisteredTool[]
+): StructuredToolInterface[] {
+  const tools = Array.isArray(mounts)
+    ? synthesizeSafeTools(mounts, builtinTools)
+    : builtinTools;
+
+  return tools.map(toAgentTool);
+}
+
+function toAgentTool(registeredTool: RegisteredTool): StructuredToolInterface {
+  return new DynamicStructuredTool({
+    name: registeredTool.name,
+    description: registeredTool.description,
+    schema: registeredTool.parameters as unknown as ToolSchemaBase,
+    func: () =>
+      Promise.reject(
+        new Error(
+          `Tool '${registeredTool.name}' must be executed through the workspaces middleware`
+        )
+      ),
   });
 }
 
@@ -128,9 +398,21 @@ function createOperationScopedServices(
       ensureOperationAllowed(allowedOperations, ["read", "edit", "search"]);
       return await services.read(key);
     },
-    write: async (key, content) => {
+    readBytes: async (key) => {
+      ensureOperationAllowed(allowedOperations, ["read"]);
+      return await services.readBytes(key);
+    },
+    write: async (key, content, writeOptions) => {
       ensureOperationAllowed(allowedOperations, ["write", "edit"]);
-      await services.write(key, content);
+      await services.write(key, content, writeOptions);
+    },
+    writeBytes: async (key, data, writeOptions) => {
+      ensureOperationAllowed(allowedOperations, ["write"]);
+      await services.writeBytes(key, data, writeOptions);
+    },
+    edit: async (key, oldStr, newStr, replaceAll, editOptions) => {
+      ensureOperationAllowed(allowedOperations, ["edit"]);
+      return await services.edit(key, oldStr, newStr, replaceAll, editOptions);
     },
     list: async (key) => {
       ensureOperationAllowed(allowedOperations, ["list", "search"]);
@@ -145,6 +427,26 @@ function createOperationScopedServices(
       ]);
       return await services.stat(key);
     },
+    delete: async (key, deleteOptions) => {
+      ensureOperationAllowed(allowedOperations, ["delete"]);
+      await services.delete(key, deleteOptions);
+    },
+    move: async (fromKey, toKey) => {
+      ensureOperationAllowed(allowedOperations, ["move"]);
+      await services.move(fromKey, toKey);
+    },
+    mkdir: async (key) => {
+      ensureOperationAllowed(allowedOperations, ["write"]);
+      await services.mkdir(key);
+    },
+    search: async (path, pattern, searchOptions) => {
+      ensureOperationAllowed(allowedOperations, ["search"]);
+      return await services.search(path, pattern, searchOptions);
+    },
+    applyPatch: async (patch, patchOptions) => {
+      ensureOperationAllowed(allowedOperations, ["edit"]);
+      return await services.applyPatch(patch, patchOptions);
+    },
   };
 }
 
@@ -175,7 +477,10 @@ function getErrorMessage(error: unknown): string {
   if (error instanceof Error) {
     if (
       error.name === "AccessDeniedError" ||
-      error.name === "PathTraversalError"
+      error.name === "PathTraversalError" ||
+      error.name === "ConflictError" ||
+      error.name === "QuotaExceededError" ||
+      error.name === "InvalidPatchError"
     ) {
       return error.message;
     }
@@ -183,6 +488,13 @@ function getErrorMessage(error: unknown): string {
     if (error.message.includes("File not found")) {
       return "File not found";
     }
+
+    if (
+      (error as NodeJS.ErrnoException).code === "ENOTEMPTY" ||
+      error.message === "Directory not empty"
+    ) {
+      return "Directory not empty";
+    }
   }
 
   return "Filesystem operation failed";
@@ -0,0 +1,91 @@
+import type {
+  MountConfig,
+  MountsResolver,
+  WorkspacesContext,
+} from "@/presentation/index";
+
+const MAX_CACHED_THREADS = 1000;
+
+export type ContextMountResolver = (
+  context: WorkspacesContext
+) => Promise<MountConfig[]>;
+
+export function createContextMountResolver(
+  getMounts: () => MountConfig[] | MountsResolver
+): ContextMountResolver {
+  const mountsByThread = new Map<string, Promise<MountConfig[]>>();
+  let cachedResolver: MountsResolver | undefined;
+
+  return (context) => {
+    const mounts = getMounts();
+
+    if (Array.isArray(mounts)) {
+      return Promise.resolve(mounts);
+    }
+
+    if (mounts !== cachedResolver) {
+      mountsByThread.clear();
+      cachedResolver = mounts;
+    }
+
+    const { threadId } = context;
+
+    if (threadId === undefined) {
+      return Promise.resolve().then(() => mounts(context));
+    }
+
+    const cached = mountsByThread.get(threadId);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const resolved = Promise.resolve().then(() => mounts(context));
+    mountsByThread.set(threadId, resolved);
+    evictOldestThreads(mountsByThread);
+
+    resolved.catch(() => {
+      if (mountsByThread.get(threadId) === resolved) {
+        mountsByThread.delete(threadId);
+      }
+    });
+
+    return resolved;
+  };
+}
+
+export function readWorkspacesContext(runtime: unknown): WorkspacesContext {
+  if (typeof runtime !== "object" || runtime === null) {
+    return {};
+  }
+
+  const { context, configurable } = runtime as {
+    context?: unknown;
+    configurable?: { thread_id?: unknown };
+  };
+  const workspacesContext =
+    typeof context === "object" && context !== null
+      ? (context as WorkspacesContext)
+      : {};
+  const threadId = configurable?.thread_id;
+
+  if (
+    workspacesContext.threadId !== undefined ||
+    typeof threadId !== "string"
+  ) {
+    return workspacesContext;
+  }
+
+  return { ...workspacesContext, threadId };
+}
+
+function evictOldestThreads(
+  mountsByThread: Map<string, Promise<MountConfig[]>>
+): void {
+  for (const threadId of mountsByThread.keys()) {
+    if (mountsByThread.size <= MAX_CACHED_THREADS) {
+      return;
+    }
+
+    mountsByThread.delete(threadId);
+  }
+}
@@ -1,11 +1,26 @@
+import { join } from "node:path/posix";
 import { SystemMessage } from "@langchain/core/messages";
 
-import type { MountConfig } from "@/presentation/index";
+import type {
+  MountConfig,
+  MountUsage,
+  PathRule,
+  TreePreview,
+  TreePreviewEntry,
+} from "@/presentation/index";
 
 export const FILESYSTEM_MAP_MARKER = "[WORKSPACES_FILESYSTEM_MAP]";
 const FILESYSTEM_MAP_MESSAGE_FLAG = "workspacesFilesystemMap";
 
-export function generateFilesystemMap(mounts: MountConfig[]): string {
+export interface FilesystemMapDetails {
+  usage?: Map<string, MountUsage>;
+  previews?: Map<string, TreePreview>;
+}
+
+export function generateFilesystemMap(
+  mounts: MountConfig[],
+  details: FilesystemMapDetails = {}
+): string {
   const normalizedMounts = [...mounts].sort((left, right) =>
     left.prefix.localeCompare(right.prefix)
   );
@@ -20,23 +35,27 @@ export function generateFilesystemMap(mounts: MountConfig[]): string {
 
   return [
     "Filesystem Map:",
-    ...normalizedMounts.map(
-      (mount) =>
-        `- ${mount.prefix} [${mount.scope}] -> ${formatStoreSummary(mount)}`
-    ),
+    ...normalizedMounts.flatMap((mount) => [
+      `- ${mount.prefix} [${mount.scope}] -> ${formatStoreSummary(mount)}`,
+      ...(mount.rules ?? []).map((rule) => formatPathRule(mount, rule)),
+      ...formatIgnore(mount),
+      ...formatQuota(mount, details.usage?.get(mount.prefix)),
+      ...formatTreePreview(details.previews?.get(mount.prefix)),
+    ]),
   ].join("\n");
 }
 
 export function injectFilesystemMap(
   messages: unknown[] | undefined,
-  mounts: MountConfig[]
+  mounts: MountConfig[],
+  details?: FilesystemMapDetails
 ): unknown[] {
   const baseMessages = Array.isArray(messages) ? messages : [];
   const withoutPreviousMap = baseMessages.filter(
     (message) => !isInjectedFilesystemMapMessage(message)
   );
   const filesystemMapMessage = new SystemMessage({
-    content: `${FILESYSTEM_MAP_MARKER}\n${generateFilesystemMap(mounts)}`,
+    content: `${FILESYSTEM_MAP_MARKER}\n${generateFilesystemMap(mounts, details)}`,
     additional_kwargs: {
       [FILESYSTEM_MAP_MESSAGE_FLAG]: true,
     },
@@ -50,9 +69,117 @@ function formatStoreSummary(mount: MountConfig): string {
     return "physical";
   }
 
+  if (mount.store.type === "overlay") {
+    return `overlay:${mount.store.namespace.join("/")} (changes pending review)`;
+  }
+
   return `virtual:${mount.store.namespace.join("/")}`;
 }
 
+function formatPathRule(mount: MountConfig, rule: PathRule): string {
+  const operations =
+    rule.operations === undefined
+      ? "all operations"
+      : rule.operations.join(", ");
+
+  return `  - ${rule.effect} ${operations} on ${join(mount.prefix, rule.pattern)}`;
+}
+
+function formatIgnore(mount: MountConfig): string[] {
+  if (mount.store.type !== "physical" || mount.store.ignore === undefined) {
+    return [];
+  }
+
+  const { gitignore, patterns = [], hideFromReads } = mount.store.ignore;
+  const sources = [
+    ...(gitignore === true ? [".gitignore rules"] : []),
+    ...patterns,
+  ];
+
+  if (sources.length === 0) {
+    return [];
+  }
+
+  return [
+    `  - hidden from ${hideFromReads === true ? "listing, search and reads" : "listing and search"}: ${sources.join(", ")}`,
+  ];
+}
+
+function formatQuota(
+  mount: MountConfig,
+  usage: MountUsage | undefined
+): string[] {
+  const { quota } = mount;
+
+  if (quota === undefined) {
+    return [];
+  }
+
+  const limits = [
+    formatLimit(usage?.bytes, quota.maxTotalBytes, "bytes stored"),
+    formatLimit(usage?.files, quota.maxFiles, "files"),
+    formatLimit(usage?.writesThisRun, quota.maxWritesPerRun, "writes this run"),
+    quota.maxFileBytes === undefined
+      ? undefined
+      : `max ${quota.maxFileBytes} bytes per file`,
+  ].filter((limit) => limit !== undefined);
+
+  return limits.length === 0 ? [] : [`  - quota: ${limits.join(", ")}`];
+}
+
+function formatLimit(
+  used: number | undefined,
+  limit: number | undefined,
+  label: string
+): string | undefined {
+  if (limit === undefined) {
+    return undefined;
+  }
+
+  return used === undefined
+    ? `max ${limit} ${label}`
+    : `${used}/${limit} ${label}`;
+}
+
+function formatTreePreview(preview: TreePreview | undefined): string[] {
+  if (preview === undefined) {
+    return [];
+  }
+
+  if (preview.entries.length === 0) {
+    return ["  - tree: (empty)"];
+  }
+
+  return [
+    "  - tree:",
+    ...preview.entries.map(formatTreeEntry),
+    ...(preview.truncated ? ["    ... (more entries not shown)"] : []),
+  ];
+}
+
+function formatTreeEntry(entry: TreePreviewEntry): string {
+  const name = entry.path.slice(entry.path.lastIndexOf("/") + 1);
+  const annotations = [
+    ...(entry.size === undefined ? [] : [formatSize(entry.size)]),
+    ...(entry.recentlyModified ? ["recently modified"] : []),
+  ];
+  const suffix = annotations.length === 0 ? "" : ` (${annotations.join(", ")})`;
+
+  return `    ${"  ".repeat(entry.depth)}${name}${entry.isDirectory ? "/" : ""}${suffix}`;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 function isInjectedFilesystemMapMessage(message: unknown): boolean {
   if (!isSystemRoleMessage(message)) {
     return false;
@@ -0,0 +1,370 @@
+import { randomUUID } from "node:crypto";
+import { join } from "node:path/posix";
+import { HumanMessage, ToolMessage } from "@langchain/core/messages";
+import {
+  DynamicStructuredTool,
+  type StructuredToolInterface,
+  type ToolSchemaBase,
+} from "@langchain/core/tools";
+import { type AgentMiddleware, createAgent, createMiddleware } from "langchain";
+import { z } from "zod";
+
+import {
+  collectScratchFiles,
+  createScratchMount,
+  DEFAULT_SCRATCH_PREFIX,
+  narrowGrantedMounts,
+} from "@/application/delegation";
+import { createInMemoryBaseStore } from "@/application/tool-synthesizer";
+import type {
+  DelegatedFile,
+  DelegationChangeSet,
+  DelegationGrant,
+  RegisteredTool,
+  SubAgentMiddlewareOptions,
+  VFSServices,
+  WorkspacesContext,
+} from "@/presentation/index";
+import {
+  createWorkspacesMiddleware,
+  getWorkspacesToolRunner,
+  type WorkspacesToolRunner,
+} from "@/presentation/middleware";
+import {
+  createContextMountResolver,
+  readWorkspacesContext,
+} from "@/presentation/mount-resolver";
+
+const DEFAULT_THREAD_ID = "default";
+const MAX_CHANGE_SETS = 100;
+const DELEGATE_TOOL_NAME = "delegate";
+const APPLY_TOOL_NAME = "apply_delegated_changes";
+const APPLY_TOOL_DESCRIPTION =
+  "Write files from a delegated change set into your workspace";
+
+const delegateSchema = z.object({
+  task: z.string().min(1).describe("Instructions for the subagent"),
+  grants: z
+    .array(
+      z.object({
+        path: z.string().describe("Workspace path to share with the subagent"),
+        scope: z.enum(["READ_ONLY", "READ_WRITE", "WRITE_ONLY"]),
+      })
+    )
+    .default([])
+    .describe("Workspace paths the subagent may access"),
+});
+
+const applySchema = z.object({
+  changeSetId: z.string().describe("Change set returned by delegate"),
+  targetPath: z
+    .string()
+    .describe("Workspace directory the scratch files are written under"),
+  paths: z
+    .array(z.string())
+    .optional()
+    .describe("Scratch-relative files to apply; defaults to all"),
+});
+
+interface ToolCallLike {
+  id?: string;
+  name?: string;
+  args?: unknown;
+}
+
+export function createSubAgentMiddleware(options: SubAgentMiddlewareOptions) {
+  const virtualStore = options.virtualStore ?? createInMemoryBaseStore();
+  const scratchPrefix = options.scratchPrefix ?? DEFAULT_SCRATCH_PREFIX;
+  const resolveMounts = createContextMountResolver(() => options.mounts);
+  const changeSets = new Map<string, DelegationChangeSet>();
+  const runWorkspacesTool = resolveWorkspacesToolRunner(options, virtualStore);
+
+  const delegate = async (
+    toolCall: ToolCallLike,
+    context: WorkspacesContext
+  ): Promise<ToolMessage> => {
+    const toolCallId = toolCall.id ?? "unknown";
+    const { task, grants } = delegateSchema.parse(toolCall.args ?? {});
+    const grantedMounts = await narrowGrantedMounts(
+      await resolveMounts(context),
+      grants,
+      scratchPrefix
+    );
+    const id = randomUUID();
+    const scratchMount = createScratchMount(
+      id,
+      scratchPrefix,
+      options.scratchTtlMs
+    );
+    const parentThreadId = context.threadId ?? DEFAULT_THREAD_ID;
+    const childThreadId = `${parentThreadId}:delegate:${id}`;
+    const childRunId = `${context.runId ?? parentThreadId}:delegate:${id}`;
+    const agent = createAgent({
+      model: options.model,
+      systemPrompt: options.systemPrompt,
+      middleware: [
+        createWorkspacesMiddleware({
+          mounts: [scratchMount, ...grantedMounts],
+          tools: options.tools,
+          builtinTools: true,
+          virtualStore,
+          audit: options.audit,
+        }),
+        ...(options.middleware ?? []),
+      ] as AgentMiddleware[],
+    });
+    const result = await agent.invoke({ messages: [new HumanMessage(task)] }, {
+      context: {
+        threadId: childThreadId,
+        runId: childRunId,
+        parentThreadId,
+        parentRunId: context.runId,
+        parentToolCallId: toolCall.id,
+      },
+    } as never);
+    const changeSet: DelegationChangeSet = {
+      id,
+      task,
+      grants: grants as DelegationGrant[],
+      parentThreadId,
+      parentRunId: context.runId,
+      parentToolCallId: toolCall.id,
+      childThreadId,
+      childRunId,
+      summary: readFinalMessage(result),
+      files: await collectScratchFiles(scratchMount, virtualStore),
+      createdAt: new Date().toISOString(),
+    };
+
+    changeSets.set(id, changeSet);
+    evictOldest(changeSets);
+
+    return new ToolMessage({
+      tool_call_id: toolCallId,
+      content: formatChangeSet(changeSet),
+      metadata: { delegation: changeSet },
+    });
+  };
+
+  const applyChanges = async (
+    toolCall: ToolCallLike,
+    context: WorkspacesContext
+  ): Promise<ToolMessage> => {
+    const { changeSetId } = applySchema.parse(toolCall.args ?? {});
+    const changeSet = changeSets.get(changeSetId);
+
+    if (changeSet === undefined) {
+      return errorToolMessage(
+        toolCall.id ?? "unknown",
+        `Unknown change set '${changeSetId}'`
+      );
+    }
+
+    return await runWorkspacesTool(
+      createApplyTool(changeSet),
+      toolCall,
+      context
+    );
+  };
+
+  return createMiddleware({
+    name: "workspaces-subagents",
+    tools: [
+      toAgentTool(
+        DELEGATE_TOOL_NAME,
+        `Delegate a task to a subagent. The subagent only sees the granted workspace paths (never wider than your own access) plus a private ${scratchPrefix} workspace; files it leaves in ${scratchPrefix} come back as a change set.`,
+        delegateSchema
+      ),
+      toAgentTool(APPLY_TOOL_NAME, APPLY_TOOL_DESCRIPTION, applySchema),
+    ],
+
+    wrapToolCall: async (request, handler) => {
+      const toolCall = request.toolCall as ToolCallLike | undefined;
+      const toolName = toolCall?.name;
+
+      if (
+        toolCall === undefined ||
+        (toolName !== DELEGATE_TOOL_NAME && toolName !== APPLY_TOOL_NAME)
+      ) {
+        return await handler(request);
+      }
+
+      const context = readWorkspacesContext(request.runtime);
+
+      try {
+        return toolName === DELEGATE_TOOL_NAME
+          ? await delegate(toolCall, context)
+          : await applyChanges(toolCall, context);
+      } catch (error) {
+        return errorToolMessage(
+          toolCall.id ?? "unknown",
+          getErrorMessage(error)
+        );
+      }
+    },
+  });
+}
+
+function resolveWorkspacesToolRunner(
+  options: SubAgentMiddlewareOptions,
+  virtualStore: SubAgentMiddlewareOptions["virtualStore"]
+): WorkspacesToolRunner {
+  const workspaces =
+    options.workspaces ??
+    createWorkspacesMiddleware({
+      mounts: options.mounts,
+      virtualStore,
+      audit: options.audit,
+    });
+  const runner = getWorkspacesToolRunner(workspaces);
+
+  if (runner === undefined) {
+    throw new Error(
+      "SubAgentMiddlewareOptions.workspaces must be created by createWorkspacesMiddleware"
+    );
+  }
+
+  return runner;
+}
+
+function createApplyTool(changeSet: DelegationChangeSet): RegisteredTool {
+  return {
+    name: APPLY_TOOL_NAME,
+    description: APPLY_TOOL_DESCRIPTION,
+    parameters: applySchema,
+    operations: ["write"],
+    handler: async (params, services) => {
+      const { targetPath, paths } = params as z.infer<typeof applySchema>;
+      const written: string[] = [];
+
+      for (const file of changeSet.files) {
+        if (paths !== undefined && !paths.includes(file.path)) {
+          continue;
+        }
+
+        const path = join(targetPath, file.path);
+        await writeDelegatedFile(services, path, file);
+        written.push(path);
+      }
+
+      return {
+        content: [
+          `Applied ${written.length} file(s) from change set ${changeSet.id}:`,
+          ...written.map((path) => `- ${path}`),
+        ].join("\n"),
+        metadata: { operation: "write", filesModified: written },
+      };
+    },
+  };
+}
+
+async function writeDelegatedFile(
+  services: VFSServices,
+  path: string,
+  file: DelegatedFile
+): Promise<void> {
+  if (file.encoding === "base64") {
+    await services.writeBytes(
+      path,
+      new Uint8Array(Buffer.from(file.content, "base64"))
+    );
+    return;
+  }
+
+  await services.write(path, file.content);
+}
+
+function formatChangeSet(changeSet: DelegationChangeSet): string {
+  const lines = [
+    `Subagent finished (change set ${changeSet.id}).`,
+    changeSet.summary === "" ? undefined : `Summary: ${changeSet.summary}`,
+  ].filter((line) => line !== undefined);
+
+  if (changeSet.files.length === 0) {
+    return [...lines, "No scratch files were produced."].join("\n");
+  }
+
+  return [
+    ...lines,
+    `Scratch files (${changeSet.files.length}):`,
+    ...changeSet.files.map((file) => `- ${file.path} (${file.bytes} bytes)`),
+    `Review them and call ${APPLY_TOOL_NAME} to write them into your workspace.`,
+  ].join("\n");
+}
+
+function readFinalMessage(result: unknown): string {
+  const messages = (result as { messages?: unknown[] }).messages ?? [];
+  const content = (messages.at(-1) as { content?: unknown } | undefined)
+    ?.content;
+
+  if (typeof content === "string") {
+    return content;
+  }
+
+  if (!Array.isArray(content)) {
+    return "";
+  }
+
+  return content
+    .map((block) =>
+      typeof block === "object" &&
+      block !== null &&
+      (block as { type?: unknown }).type === "text"
+        ? String((block as { text?: unknown }).text ?? "")
+        : ""
+    )
+    .join("");
+}
+
+function toAgentTool(
+  name: string,
+  description: string,
+  schema: z.ZodTypeAny
+): StructuredToolInterface {
+  return new DynamicStructuredTool({
+    name,
+    description,
+    schema: schema as unknown as ToolSchemaBase,
+    func: () =>
+      Promise.reject(
+        new Error(
+          `Tool '${name}' must be executed through the subagent middleware`
+        )
+      ),
+  });
+}
+
+function errorToolMessage(toolCallId: string, message: string): ToolMessage {
+  return new ToolMessage({
+    tool_call_id: toolCallId,
+    content: `Error: ${message}`,
+    status: "error",
+  });
+}
+
+function getErrorMessage(error: unknown): string {
+  if (error instanceof z.ZodError) {
+    return `Invalid arguments: ${error.issues.map((issue) => issue.message).join("; ")}`;
+  }
+
+  if (
+    error instanceof Error &&
+    (error.name === "AccessDeniedError" ||
+      error.name === "PathTraversalError" ||
+      error.name === "QuotaExceededError")
+  ) {
+    return error.message;
+  }
+
+  return "Delegation failed";
+}
+
+function evictOldest<T>(entries: Map<string, T>): void {
+  for (const key of entries.keys()) {
+    if (entries.size <= MAX_CHANGE_SETS) {
+      return;
+    }
+
+    entries.delete(key);
+  }
+}
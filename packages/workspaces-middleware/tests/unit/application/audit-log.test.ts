@@ -0,0 +1,210 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { createAuditedServices } from "@/application/audit-log";
+import {
+  createBaseStoreAuditSink,
+  createJsonlAuditSink,
+} from "@/application/audit-sinks";
+import {
+  buildVFSServices,
+  createInMemoryBaseStore,
+} from "@/application/tool-synthesizer";
+import type { AuditRecord, MountConfig } from "@/presentation/index";
+
+const mounts: MountConfig[] = [
+  {
+    prefix: "/data",
+    scope: "READ_WRITE",
+    store: { type: "virtual", namespace: ["audit", "data"] },
+  },
+  {
+    prefix: "/docs",
+    scope: "READ_ONLY",
+    store: { type: "virtual", namespace: ["audit", "docs"] },
+  },
+];
+
+const context = {
+  threadId: "thread-1",
+  runId: "run-1",
+  toolName: "write_file",
+  toolCallId: "call-1",
+};
+
+describe("audit log", () => {
+  let logRoot = "";
+
+  beforeEach(async () => {
+    logRoot = await mkdtemp(join(tmpdir(), "ws-audit-"));
+  });
+
+  afterEach(async () => {
+    await rm(logRoot, { recursive: true, force: true });
+  });
+
+  test("records outcome, mount and byte counts for every call", async () => {
+    const records: AuditRecord[] = [];
+    const services = createAuditedServices(
+      buildVFSServices(mounts, { virtualStore: createInMemoryBaseStore() }),
+      (record) => {
+        records.push(record);
+      },
+      context
+    );
+
+    await services.write("/data/notes.md", "héllo");
+    await services.read("/data/notes.md");
+    await expect(services.write("/docs/readme.md", "x")).rejects.toThrow();
+    await expect(services.read("/data/notes/../secrets.md")).rejects.toThrow();
+
+    expect(
+      records.map(
+        ({ timestamp: _timestamp, error: _error, ...record }) => record
+      )
+    ).toEqual([
+      {
+        ...context,
+        operation: "write",
+        path: "/data/notes.md",
+        targetPath: undefined,
+        mount: "/data",
+        outcome: "allowed",
+        bytesRead: undefined,
+        bytesWritten: 6,
+      },
+      {
+        ...context,
+        operation: "read",
+        path: "/data/notes.md",
+        targetPath: undefined,
+        mount: "/data",
+        outcome: "allowed",
+        bytesRead: 6,
+        bytesWritten: undefined,
+      },
+      {
+        ...context,
+        operation: "write",
+        path: "/docs/readme.md",
+        targetPath: undefined,
+        mount: "/docs",
+        outcome: "AccessDeniedError",
+      },
+      {
+        ...context,
+        operation: "read",
+        path: "/data/notes/../secrets.md",
+        targetPath: undefined,
+        mount: undefined,
+        outcome: "PathTraversalError",
+      },
+    ]);
+  });
+
+  test("records every file an applied patch changed", async () => {
+    const records: AuditRecord[] = [];
+    const services = createAuditedServices(
+      buildVFSServices(mounts, { virtualStore: createInMemoryBaseStore() }),
+      (record) => {
+        records.push(record);
+      },
+      { ...context, toolName: "apply_patch" }
+    );
+
+    await services.write("/data/a.md", "one\n");
+    await services.write("/data/b.md", "two\n");
+    records.length = 0;
+
+    await services.applyPatch(
+      [
+        "--- a/a.md",
+        "+++ b/a.md",
+        "@@ -1 +1 @@",
+        "-one",
+        "+uno",
+        "--- a/b.md",
+        "+++ b/c.md",
+        "@@ -1 +1 @@",
+        "-two",
+        "+dos",
+        "",
+      ].join("\n"),
+      { root: "/data" }
+    );
+
+    expect(
+      records.map(({ operation, path, targetPath, mount, outcome }) => ({
+        operation,
+        path,
+        targetPath,
+        mount,
+        outcome,
+      }))
+    ).toEqual([
+      {
+        operation: "applyPatch",
+        path: "/data/a.md",
+        targetPath: undefined,
+        mount: "/data",
+        outcome: "allowed",
+      },
+      {
+        operation: "applyPatch",
+        path: "/data/b.md",
+        targetPath: "/data/c.md",
+        mount: "/data",
+        outcome: "allowed",
+      },
+    ]);
+  });
+
+  test("appends JSON lines in call order", async () => {
+    const filePath = join(logRoot, "logs", "audit.jsonl");
+    const sink = createJsonlAuditSink(filePath);
+    const record: AuditRecord = {
+      ...context,
+      timestamp: "2026-01-01T00:00:00.000Z",
+      operation: "read",
+      path: "/data/a.md",
+      outcome: "allowed",
+    };
+
+    await Promise.all([sink(record), sink({ ...record, path: "/data/b.md" })]);
+
+    const lines = (await readFile(filePath, "utf8")).trim().split("\n");
+
+    expect(lines.map((line) => JSON.parse(line).path)).toEqual([
+      "/data/a.md",
+      "/data/b.md",
+    ]);
+  });
+
+  test("stores records in a BaseStore namespace", async () => {
+    const store = createInMemoryBaseStore();
+    const sink = createBaseStoreAuditSink(store, { namespace: ["compliance"] });
+
+    await sink({
+      ...context,
+      timestamp: "2026-01-01T00:00:00.000Z",
+      operation: "delete",
+      path: "/data/a.md",
+      outcome: "allowed",
+    });
+
+    const keys: string[] = [];
+
+    for await (const key of store.yieldKeys()) {
+      keys.push(key);
+    }
+
+    expect(keys).toHaveLength(1);
+    expect(JSON.parse((await store.mget(keys))[0] ?? "{}")).toMatchObject({
+      operation: "delete",
+      path: "/data/a.md",
+      runId: "run-1",
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import {
+  mkdir,
+  mkdtemp,
+  readFile,
+  rm,
+  stat,
+  writeFile,
+} from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { createChangeJournal } from "@/application/change-journal";
+import { buildVFSServices } from "@/application/tool-synthesizer";
+import type {
+  ChangeJournal,
+  ChangeJournalOptions,
+  MountConfig,
+  VFSServices,
+} from "@/presentation/index";
+
+const SHA256_HEX_REGEX = /^[0-9a-f]{64}$/;
+
+let workspaceRoot = "";
+
+beforeEach(async () => {
+  workspaceRoot = await mkdtemp(join(tmpdir(), "ws-middleware-journal-"));
+  await writeFile(join(workspaceRoot, "readme.md"), "v1", "utf8");
+});
+
+afterEach(async () => {
+  if (workspaceRoot !== "") {
+    await rm(workspaceRoot, { recursive: true, force: true });
+  }
+});
+
+function createTrackedServices(
+  journal: ChangeJournal,
+  threadId: string,
+  runId?: string
+): VFSServices {
+  const mounts: MountConfig[] = [
+    {
+      prefix: "/project",
+      scope: "READ_WRITE",
+      store: { type: "physical", rootDir: workspaceRoot },
+    },
+  ];
+  const untracked = buildVFSServices(mounts);
+
+  return buildVFSServices(mounts, {
+    onChange: (change) =>
+      journal.record({ threadId, runId, change, services: untracked }),
+  });
+}
+
+function setup(options?: ChangeJournalOptions) {
+  const journal = createChangeJournal(options);
+  return { journal, services: createTrackedServices(journal, "thread-1") };
+}
+
+describe("change journal", () => {
+  test("records writes and edits with content hashes", async () => {
+    const { journal, services } = setup();
+
+    await services.write("/project/notes.md", "draft");
+    await services.edit("/project/readme.md", "v1", "v2");
+
+    const entries = journal.entries("thread-1");
+
+    expect(entries.map((entry) => [entry.path, entry.operation])).toEqual([
+      ["/project/notes.md", "write"],
+      ["/project/readme.md", "edit"],
+    ]);
+    expect(entries[0]?.beforeHash).toBeUndefined();
+    expect(entries[1]?.previousContent).toBe("v1");
+    expect(entries[1]?.afterHash).toMatch(SHA256_HEX_REGEX);
+  });
+
+  test("undoes the latest changes in reverse order", async () => {
+    const { journal, services } = setup();
+
+    await services.write("/project/readme.md", "v2");
+    await services.write("/project/readme.md", "v3");
+    await services.write("/project/new.md", "new");
+
+    const reverted = await journal.undo("thread-1", 2);
+
+    expect(reverted.map((entry) => entry.path)).toEqual([
+      "/project/new.md",
+      "/project/readme.md",
+    ]);
+    expect(await readFile(join(workspaceRoot, "readme.md"), "utf8")).toBe("v2");
+    await expect(stat(join(workspaceRoot, "new.md"))).rejects.toThrow();
+    expect(journal.entries("thread-1")).toHaveLength(1);
+  });
+
+  test("reverts every change made during a run", async () => {
+    const journal = createChangeJournal();
+    const firstRun = createTrackedServices(journal, "thread-1", "run-1");
+    const secondRun = createTrackedServices(journal, "thread-1", "run-2");
+
+    await firstRun.write("/project/readme.md", "run-1");
+    await secondRun.write("/project/other.md", "run-2");
+    await firstRun.write("/project/readme.md", "run-1 again");
+
+    await expect(journal.revertRun("run-1")).resolves.toHaveLength(2);
+
+    expect(await readFile(join(workspaceRoot, "readme.md"), "utf8")).toBe("v1");
+    expect(await readFile(join(workspaceRoot, "other.md"), "utf8")).toBe(
+      "run-2"
+    );
+  });
+
+  test("reverts moves, deletes, patch renames and binary writes", async () => {
+    const { journal, services } = setup();
+    const logo = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff]);
+    await mkdir(join(workspaceRoot, "docs"));
+    await writeFile(join(workspaceRoot, "docs", "a.md"), "a", "utf8");
+    await writeFile(join(workspaceRoot, "logo.png"), logo);
+    await writeFile(join(workspaceRoot, "old.md"), "old\n", "utf8");
+
+    await services.move("/project/docs", "/project/archive");
+    await services.delete("/project/readme.md");
+    await services.applyPatch(
+      "--- /project/old.md\n+++ /project/new.md\n@@ -1 +1 @@\n-old\n+new\n"
+    );
+    await services.writeBytes("/project/logo.png", new Uint8Array([0x00]));
+
+    expect(
+      journal.entries("thread-1").map((entry) => [entry.path, entry.operation])
+    ).toEqual([
+      ["/project/docs/a.md", "move"],
+      ["/project/archive/a.md", "move"],
+      ["/project/readme.md", "delete"],
+      ["/project/new.md", "write"],
+      ["/project/old.md", "delete"],
+      ["/project/logo.png", "write"],
+    ]);
+
+    await journal.undo("thread-1", 6);
+
+    expect(await readFile(join(workspaceRoot, "docs", "a.md"), "utf8")).toBe(
+      "a"
+    );
+    expect(await readFile(join(workspaceRoot, "readme.md"), "utf8")).toBe("v1");
+    expect(await readFile(join(workspaceRoot, "old.md"), "utf8")).toBe("old\n");
+    expect(
+      new Uint8Array(await readFile(join(workspaceRoot, "logo.png")))
+    ).toEqual(logo);
+    await expect(
+      stat(join(workspaceRoot, "archive", "a.md"))
+    ).rejects.toThrow();
+    await expect(stat(join(workspaceRoot, "new.md"))).rejects.toThrow();
+  });
+
+  test("refuses to revert files changed outside the journal", async () => {
+    const { journal, services } = setup();
+
+    await services.write("/project/readme.md", "v2");
+    await writeFile(join(workspaceRoot, "readme.md"), "manual", "utf8");
+
+    await expect(journal.undo("thread-1")).rejects.toThrow(
+      "file changed after it was journaled"
+    );
+    expect(journal.entries("thread-1")).toHaveLength(1);
+  });
+
+  test("reverts files larger than the read window", async () => {
+    const { journal, services } = setup();
+    const large = `${"x".repeat(300 * 1024)}\n`;
+
+    await services.write("/project/readme.md", large);
+    await journal.undo("thread-1");
+
+    expect(await readFile(join(workspaceRoot, "readme.md"), "utf8")).toBe("v1");
+  });
+
+  test("requires captured content to restore overwritten files", async () => {
+    const { journal, services } = setup({ captureContent: false });
+
+    await services.write("/project/readme.md", "v2");
+
+    expect(journal.entries("thread-1")[0]?.previousContent).toBeUndefined();
+    await expect(journal.undo("thread-1")).rejects.toThrow(
+      "previous content was not captured"
+    );
+  });
+});
@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, symlink } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  collectScratchFiles,
+  createScratchMount,
+  narrowGrantedMounts,
+} from "@/application/delegation";
+import {
+  buildVFSServices,
+  createInMemoryBaseStore,
+} from "@/application/tool-synthesizer";
+import type { MountConfig } from "@/presentation/index";
+
+let workspaceRoot = "";
+let parentMounts: MountConfig[] = [];
+
+beforeEach(async () => {
+  workspaceRoot = await mkdtemp(join(tmpdir(), "ws-delegation-"));
+  parentMounts = [
+    {
+      prefix: "/project",
+      scope: "READ_ONLY",
+      store: { type: "physical", rootDir: workspaceRoot },
+    },
+    {
+      prefix: "/notes",
+      scope: "READ_WRITE",
+      store: { type: "virtual", namespace: ["notes"] },
+      rules: [{ effect: "deny", pattern: "private/**" }],
+    },
+  ];
+});
+
+afterEach(async () => {
+  await rm(workspaceRoot, { recursive: true, force: true });
+});
+
+describe("narrowGrantedMounts", () => {
+  test("narrows a physical mount to the granted sub-path", async () => {
+    expect(
+      await narrowGrantedMounts(parentMounts, [
+        { path: "/project/src", scope: "READ_ONLY" },
+      ])
+    ).toEqual([
+      {
+        prefix: "/project/src",
+        scope: "READ_ONLY",
+        store: { type: "physical", rootDir: join(workspaceRoot, "src") },
+      },
+    ]);
+  });
+
+  test("rejects sub-path grants through symbolic links", async () => {
+    const outside = await mkdtemp(join(tmpdir(), "ws-delegation-outside-"));
+
+    try {
+      await mkdir(join(workspaceRoot, "src"));
+      await symlink(outside, join(workspaceRoot, "src", "linked"));
+
+      await expect(
+        narrowGrantedMounts(parentMounts, [
+          { path: "/project/src/linked/docs", scope: "READ_ONLY" },
+        ])
+      ).rejects.toThrow("goes through a symbolic link");
+    } finally {
+      await rm(outside, { recursive: true, force: true });
+    }
+  });
+
+  test("keeps the parent's rules when the whole mount is granted", async () => {
+    const [mount] = await narrowGrantedMounts(parentMounts, [
+      { path: "/notes", scope: "READ_ONLY" },
+    ]);
+
+    expect(mount?.scope).toBe("READ_ONLY");
+    expect(mount?.rules).toEqual([{ effect: "deny", pattern: "private/**" }]);
+  });
+
+  test("never grants wider access than the parent holds", async () => {
+    await expect(
+      narrowGrantedMounts(parentMounts, [
+        { path: "/project/src", scope: "READ_WRITE" },
+      ])
+    ).rejects.toThrow("parent only holds READ_ONLY");
+    await expect(
+      narrowGrantedMounts(parentMounts, [{ path: "/etc", scope: "READ_ONLY" }])
+    ).rejects.toThrow("outside the parent's workspaces");
+  });
+
+  test("rejects sub-path grants that cannot be narrowed safely", async () => {
+    await expect(
+      narrowGrantedMounts(parentMounts, [
+        { path: "/notes/public", scope: "READ_ONLY" },
+      ])
+    ).rejects.toThrow("virtual mounts cannot be narrowed");
+    await expect(
+      narrowGrantedMounts(
+        [{ ...parentMounts[0], rules: [] } as MountConfig],
+        [{ path: "/scratch", scope: "READ_ONLY" }]
+      )
+    ).rejects.toThrow("overlaps the subagent scratch workspace");
+  });
+});
+
+describe("collectScratchFiles", () => {
+  test("returns every scratch file relative to the scratch prefix", async () => {
+    const virtualStore = createInMemoryBaseStore();
+    const scratchMount = createScratchMount("delegation-1");
+    const services = buildVFSServices([scratchMount], { virtualStore });
+
+    await services.write("/scratch/notes/plan.md", "# Plan\n");
+    await services.write("/scratch/a.txt", "héllo");
+    await services.writeBytes(
+      "/scratch/logo.png",
+      new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0xff])
+    );
+
+    expect(await collectScratchFiles(scratchMount, virtualStore)).toEqual([
+      { path: "a.txt", content: "héllo", bytes: 6 },
+      { path: "logo.png", content: "iVBOR/8=", encoding: "base64", bytes: 5 },
+      { path: "notes/plan.md", content: "# Plan\n", bytes: 7 },
+    ]);
+  });
+});
@@ -0,0 +1,264 @@
+import { describe, expect, test } from "bun:test";
+
+import { countLineChanges } from "@/application/file-change-events";
+import {
+  createACPFileChangeSink,
+  createAGUIFileChangeSink,
+} from "@/application/file-change-sinks";
+import {
+  buildVFSServices,
+  createInMemoryBaseStore,
+} from "@/application/tool-synthesizer";
+import type {
+  AGUIEventLike,
+  FileChangeEvent,
+  MountConfig,
+} from "@/presentation/index";
+
+const mounts: MountConfig[] = [
+  {
+    prefix: "/data",
+    scope: "READ_WRITE",
+    store: { type: "virtual", namespace: ["events", "data"] },
+  },
+  {
+    prefix: "/archive",
+    scope: "READ_WRITE",
+    store: { type: "virtual", namespace: ["events", "archive"] },
+  },
+];
+
+const modifiedEvent: FileChangeEvent = {
+  kind: "modified",
+  path: "/data/notes.md",
+  mount: "/data",
+  bytes: 6,
+  diff: { additions: 1, deletions: 1 },
+  oldText: "before",
+  newText: "after!",
+  threadId: "thread-1",
+  toolCallId: "call-1",
+  toolName: "edit_file",
+};
+
+describe("file change events", () => {
+  test("counts changed lines between the common head and tail", () => {
+    expect(countLineChanges("", "a\nb")).toEqual({
+      additions: 2,
+      deletions: 0,
+    });
+    expect(countLineChanges("a\nb\nc\nd", "a\nx\ny\nd")).toEqual({
+      additions: 2,
+      deletions: 2,
+    });
+    expect(countLineChanges("a\nb", "")).toEqual({
+      additions: 0,
+      deletions: 2,
+    });
+  });
+
+  test("emits created, modified and deleted events from services", async () => {
+    const events: FileChangeEvent[] = [];
+    const services = buildVFSServices(mounts, {
+      virtualStore: createInMemoryBaseStore(),
+      onFileEvent: (event) => events.push(event),
+    });
+
+    await services.write("/data/notes.md", "one\ntwo");
+    await services.edit("/data/notes.md", "two", "three");
+    await services.writeBytes("/data/logo.png", new Uint8Array([1, 2, 3]));
+    await services.move("/data/logo.png", "/archive/logo.png");
+    await services.delete("/data/notes.md");
+
+    expect(
+      events.map(({ kind, path, mount, bytes, diff }) => ({
+        kind,
+        path,
+        mount,
+        bytes,
+        diff,
+      }))
+    ).toEqual([
+      {
+        kind: "created",
+        path: "/data/notes.md",
+        mount: "/data",
+        bytes: 7,
+        diff: { additions: 2, deletions: 0 },
+      },
+      {
+        kind: "modified",
+        path: "/data/notes.md",
+        mount: "/data",
+        bytes: 9,
+        diff: { additions: 1, deletions: 1 },
+      },
+      {
+        kind: "created",
+        path: "/data/logo.png",
+        mount: "/data",
+        bytes: 3,
+        diff: undefined,
+      },
+      {
+        kind: "deleted",
+        path: "/data/logo.png",
+        mount: "/data",
+        bytes: undefined,
+        diff: undefined,
+      },
+      {
+        kind: "created",
+        path: "/archive/logo.png",
+        mount: "/archive",
+        bytes: undefined,
+        diff: undefined,
+      },
+      {
+        kind: "deleted",
+        path: "/data/notes.md",
+        mount: "/data",
+        bytes: undefined,
+        diff: { additions: 0, deletions: 2 },
+      },
+    ]);
+    expect(events[1]).toMatchObject({
+      oldText: "one\ntwo",
+      newText: "one\nthree",
+    });
+  });
+
+  test("publishes AG-UI custom and activity events without file contents", async () => {
+    const published: AGUIEventLike[] = [];
+
+    await createAGUIFileChangeSink((event) => published.push(event))(
+      modifiedEvent
+    );
+    await createAGUIFileChangeSink((event) => published.push(event), {
+      eventType: "activity",
+    })(modifiedEvent);
+
+    const { oldText: _oldText, newText: _newText, ...summary } = modifiedEvent;
+
+    expect(published).toEqual([
+      { type: "CUSTOM", name: "workspaces.file_change", value: summary },
+      {
+        type: "ACTIVITY_SNAPSHOT",
+        messageId: "file-change:call-1:/data/notes.md",
+        activityType: "FILE_CHANGE",
+        content: summary,
+        replace: true,
+      },
+    ]);
+  });
+
+  test("sends ACP tool_call_update locations and diff content", async () => {
+    const updates: unknown[] = [];
+    const sink = createACPFileChangeSink(
+      {
+        sessionUpdate: (params) => {
+          updates.push(params);
+          return Promise.resolve();
+        },
+      },
+      {
+        sessionId: "session-1",
+        resolvePath: (event) => `/srv/workspace${event.path}`,
+      }
+    );
+
+    await sink(modifiedEvent);
+    await sink({ ...modifiedEvent, toolCallId: undefined });
+    await sink({
+      kind: "created",
+      path: "/data/logo.png",
+      mount: "/data",
+      threadId: "thread-1",
+      toolCallId: "call-2",
+    });
+
+    expect(updates).toEqual([
+      {
+        sessionId: "session-1",
+        update: {
+          sessionUpdate: "tool_call_update",
+          toolCallId: "call-1",
+          locations: [{ path: "/srv/workspace/data/notes.md" }],
+          content: [
+            {
+              type: "diff",
+              path: "/srv/workspace/data/notes.md",
+              oldText: "before",
+              newText: "after!",
+            },
+          ],
+        },
+      },
+      {
+        sessionId: "session-1",
+        update: {
+          sessionUpdate: "tool_call_update",
+          toolCallId: "call-2",
+          locations: [{ path: "/srv/workspace/data/logo.png" }],
+        },
+      },
+    ]);
+  });
+
+  test("sends every file a tool call changed in one ACP update", async () => {
+    const updates: { sessionId: string; update: Record<string, unknown> }[] =
+      [];
+    const sink = createACPFileChangeSink(
+      {
+        sessionUpdate: (params) => {
+          updates.push(params);
+          return Promise.resolve();
+        },
+      },
+      { sessionId: (event) => `session-for-${event.threadId}` }
+    );
+
+    await sink(modifiedEvent);
+    await sink({
+      kind: "created",
+      path: "/data/new.md",
+      mount: "/data",
+      newText: "new",
+      threadId: "thread-1",
+      toolCallId: "call-1",
+    });
+    await sink({ ...modifiedEvent, oldText: "after!", newText: "final" });
+
+    expect(updates.at(-1)).toEqual({
+      sessionId: "session-for-thread-1",
+      update: {
+        sessionUpdate: "tool_call_update",
+        toolCallId: "call-1",
+        locations: [{ path: "/data/notes.md" }, { path: "/data/new.md" }],
+        content: [
+          {
+            type: "diff",
+            path: "/data/notes.md",
+            oldText: "before",
+            newText: "final",
+          },
+          { type: "diff", path: "/data/new.md", oldText: null, newText: "new" },
+        ],
+      },
+    });
+  });
+
+  test("skips ACP updates without a session id", async () => {
+    const updates: unknown[] = [];
+    const sink = createACPFileChangeSink({
+      sessionUpdate: (params) => {
+        updates.push(params);
+        return Promise.resolve();
+      },
+    });
+
+    await sink(modifiedEvent);
+
+    expect(updates).toEqual([]);
+  });
+});
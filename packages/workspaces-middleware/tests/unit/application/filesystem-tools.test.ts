@@ -0,0 +1,428 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { createFilesystemTools } from "@/application/filesystem-tools";
+import {
+  buildVFSServices,
+  synthesizeSafeTools,
+} from "@/application/tool-synthesizer";
+import type {
+  MountConfig,
+  RegisteredTool,
+  VFSServices,
+} from "@/presentation/index";
+
+let workspaceRoot = "";
+let services: VFSServices;
+
+beforeEach(async () => {
+  workspaceRoot = await mkdtemp(join(tmpdir(), "ws-middleware-fs-tools-"));
+  await mkdir(join(workspaceRoot, "src", "nested"), { recursive: true });
+  await writeFile(
+    join(workspaceRoot, "src", "index.ts"),
+    "export const a = 1;\nexport const b = 2;\n",
+    "utf8"
+  );
+  await writeFile(
+    join(workspaceRoot, "src", "nested", "util.ts"),
+    "// TODO: refine\nexport const c = 3;",
+    "utf8"
+  );
+  await writeFile(join(workspaceRoot, "readme.md"), "# Readme", "utf8");
+
+  const mounts: MountConfig[] = [
+    {
+      prefix: "/project",
+      scope: "READ_WRITE",
+      store: { type: "physical", rootDir: workspaceRoot },
+    },
+  ];
+  services = buildVFSServices(mounts);
+});
+
+afterEach(async () => {
+  if (workspaceRoot !== "") {
+    await rm(workspaceRoot, { recursive: true, force: true });
+  }
+});
+
+function getTool(name: string): RegisteredTool {
+  const found = createFilesystemTools().find((tool) => tool.name === name);
+
+  if (found === undefined) {
+    throw new Error(`Missing tool ${name}`);
+  }
+
+  return found;
+}
+
+async function run(name: string, params: unknown) {
+  const registeredTool = getTool(name);
+  return await registeredTool.handler(
+    registeredTool.parameters.parse(params),
+    services
+  );
+}
+
+describe("createFilesystemTools", () => {
+  test("declares operations so scope filtering keeps read-only tools", () => {
+    const readOnlyMounts: MountConfig[] = [
+      {
+        prefix: "/project",
+        scope: "READ_ONLY",
+        store: { type: "physical", rootDir: "/tmp/project" },
+      },
+    ];
+
+    const safe = synthesizeSafeTools(readOnlyMounts, createFilesystemTools());
+
+    expect(safe.map((tool) => tool.name)).toEqual([
+      "read_file",
+      "list_dir",
+      "glob",
+      "grep",
+    ]);
+  });
+
+  test("read_file returns numbered lines within offset/limit", async () => {
+    const result = await run("read_file", {
+      path: "/project/src/index.ts",
+      offset: 1,
+      limit: 1,
+    });
+    const { version } = await services.stat("/project/src/index.ts");
+
+    expect(result.content).toBe(
+      `     2\texport const b = 2;\n[1 more lines. Use offset=2 to continue.]\n[version: ${version}]`
+    );
+    expect(result.metadata).toEqual({
+      operation: "read",
+      filesRead: ["/project/src/index.ts"],
+      version,
+    });
+  });
+
+  test("read_file pages through files larger than the store's read cap", async () => {
+    const lines = Array.from(
+      { length: 40_000 },
+      (_, index) => `line ${index + 1} ${"x".repeat(16)}`
+    );
+    await writeFile(join(workspaceRoot, "big.log"), lines.join("\n"), "utf8");
+
+    const result = await run("read_file", {
+      path: "/project/big.log",
+      offset: 39_998,
+      limit: 5,
+    });
+
+    expect(result.content).toStartWith(
+      ` 39999\t${lines[39_998]}\n 40000\t${lines[39_999]}\n[version: `
+    );
+  });
+
+  test("write_file creates files and reports them as modified", async () => {
+    const result = await run("write_file", {
+      path: "/project/notes/todo.md",
+      content: "- ship",
+    });
+
+    expect(
+      await readFile(join(workspaceRoot, "notes", "todo.md"), "utf8")
+    ).toBe("- ship");
+    expect(result.metadata?.filesModified).toEqual(["/project/notes/todo.md"]);
+  });
+
+  test("edit_file requires a unique match unless replaceAll is set", async () => {
+    const ambiguous = await run("edit_file", {
+      path: "/project/src/index.ts",
+      oldStr: "export const",
+      newStr: "const",
+    });
+
+    expect(ambiguous.content).toContain("appears 2 times");
+
+    const replaced = await run("edit_file", {
+      path: "/project/src/index.ts",
+      oldStr: "export const",
+      newStr: "const",
+      replaceAll: true,
+    });
+
+    expect(replaced.metadata?.filesModified).toEqual(["/project/src/index.ts"]);
+    expect(await readFile(join(workspaceRoot, "src", "index.ts"), "utf8")).toBe(
+      "const a = 1;\nconst b = 2;\n"
+    );
+  });
+
+  test("write_file and edit_file reject a stale ifMatch version", async () => {
+    const read = await run("read_file", { path: "/project/src/index.ts" });
+    const version = read.metadata?.version;
+    await services.write("/project/src/index.ts", "export const a = 10;\n");
+
+    await expect(
+      run("write_file", {
+        path: "/project/src/index.ts",
+        content: "overwritten",
+        ifMatch: version,
+      })
+    ).rejects.toMatchObject({ name: "ConflictError" });
+    await expect(
+      run("edit_file", {
+        path: "/project/src/index.ts",
+        oldStr: "10",
+        newStr: "11",
+        ifMatch: version,
+      })
+    ).rejects.toMatchObject({ name: "ConflictError" });
+
+    const current = (await services.stat("/project/src/index.ts")).version;
+    const edited = await run("edit_file", {
+      path: "/project/src/index.ts",
+      oldStr: "10",
+      newStr: "11",
+      ifMatch: current,
+    });
+
+    expect(edited.metadata?.filesModified).toEqual(["/project/src/index.ts"]);
+    expect(await readFile(join(workspaceRoot, "src", "index.ts"), "utf8")).toBe(
+      "export const a = 11;\n"
+    );
+  });
+
+  test("list_dir marks directories with a trailing slash", async () => {
+    const result = await run("list_dir", { path: "/project/src" });
+
+    expect(result.content).toBe("/project/src/index.ts\n/project/src/nested/");
+  });
+
+  test("list_dir and glob list files denied for read", async () => {
+    await writeFile(join(workspaceRoot, ".env"), "TOKEN=secret", "utf8");
+    services = buildVFSServices([
+      {
+        prefix: "/project",
+        scope: "READ_WRITE",
+        store: { type: "physical", rootDir: workspaceRoot },
+        rules: [{ effect: "deny", pattern: "**/.env*", operations: ["read"] }],
+      },
+    ]);
+
+    const listed = await run("list_dir", { path: "/project" });
+    const globbed = await run("glob", { pattern: "*", path: "/project" });
+
+    expect(listed.content).toBe(
+      "/project/.env\n/project/readme.md\n/project/src/"
+    );
+    expect(globbed.content).toBe("/project/.env\n/project/readme.md");
+  });
+
+  test("glob matches paths relative to the search directory", async () => {
+    const result = await run("glob", { pattern: "**/*.ts", path: "/project" });
+
+    expect(result.content).toBe(
+      "/project/src/index.ts\n/project/src/nested/util.ts"
+    );
+  });
+
+  test("grep returns line-numbered matches filtered by include glob", async () => {
+    const result = await run("grep", {
+      pattern: "const [bc]",
+      path: "/project",
+      include: "src/**/*.ts",
+    });
+
+    expect(result.content).toBe(
+      "/project/src/index.ts:2: export const b = 2;\n/project/src/nested/util.ts:2: export const c = 3;"
+    );
+  });
+
+  test("grep reports invalid regular expressions", async () => {
+    const result = await run("grep", { pattern: "(", path: "/project" });
+
+    expect(result.content).toContain("Invalid regular expression");
+  });
+
+  test("read_file returns images as content blocks", async () => {
+    const png = new Uint8Array([
+      0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+    ]);
+    await writeFile(join(workspaceRoot, "logo.png"), png);
+
+    const result = await run("read_file", { path: "/project/logo.png" });
+
+    expect(result.content).toBe("Image /project/logo.png (image/png, 8 bytes)");
+    expect(result.contentBlocks).toEqual([
+      {
+        type: "image",
+        mimeType: "image/png",
+        data: Buffer.from(png).toString("base64"),
+      },
+    ]);
+  });
+
+  test("read_file refuses to render other binary files as text", async () => {
+    await writeFile(
+      join(workspaceRoot, "archive.zip"),
+      new Uint8Array([0x50, 0x4b, 0x03, 0x04, 0x00])
+    );
+
+    const result = await run("read_file", { path: "/project/archive.zip" });
+
+    expect(result.content).toBe(
+      "Binary file /project/archive.zip (application/zip, 5 bytes) cannot be shown as text"
+    );
+    expect(result.contentBlocks).toBeUndefined();
+  });
+
+  test("apply_patch changes, creates, renames and deletes files together", async () => {
+    const result = await run("apply_patch", {
+      root: "/project",
+      patch: [
+        "--- a/src/index.ts",
+        "+++ b/src/index.ts",
+        "@@ -1,2 +1,2 @@",
+        " export const a = 1;",
+        "-export const b = 2;",
+        "+export const b = 20;",
+        "--- /dev/null",
+        "+++ b/src/added.ts",
+        "@@ -0,0 +1 @@",
+        "+export const d = 4;",
+        "--- a/src/nested/util.ts",
+        "+++ b/src/nested/helpers.ts",
+        "@@ -1,2 +1,2 @@",
+        "-// TODO: refine",
+        "+// refined",
+        " export const c = 3;",
+        "\\ No newline at end of file",
+        "--- a/readme.md",
+        "+++ /dev/null",
+        "@@ -1 +0,0 @@",
+        "-# Readme",
+        "\\ No newline at end of file",
+      ].join("\n"),
+    });
+
+    expect(result.content).toBe(
+      [
+        "Applied patch to 4 file(s):",
+        "  modified /project/src/index.ts (+1 -1)",
+        "  created /project/src/added.ts (+1 -0)",
+        "  renamed /project/src/nested/util.ts -> /project/src/nested/helpers.ts (+1 -1)",
+        "  deleted /project/readme.md (+0 -1)",
+      ].join("\n")
+    );
+    expect(result.metadata?.filesModified).toEqual([
+      "/project/src/index.ts",
+      "/project/src/added.ts",
+      "/project/src/nested/util.ts",
+      "/project/src/nested/helpers.ts",
+      "/project/readme.md",
+    ]);
+    expect(result.metadata?.patchResults?.map((file) => file.status)).toEqual([
+      "modified",
+      "created",
+      "renamed",
+      "deleted",
+    ]);
+    expect(await services.read("/project/src/index.ts")).toBe(
+      "export const a = 1;\nexport const b = 20;\n"
+    );
+    expect(await services.read("/project/src/added.ts")).toBe(
+      "export const d = 4;\n"
+    );
+    expect(await services.read("/project/src/nested/helpers.ts")).toBe(
+      "// refined\nexport const c = 3;"
+    );
+    expect((await services.stat("/project/src/nested/util.ts")).exists).toBe(
+      false
+    );
+    expect((await services.stat("/project/readme.md")).exists).toBe(false);
+  });
+
+  test("apply_patch writes nothing when any hunk fails or on dry run", async () => {
+    const patch = (oldLine: string) =>
+      [
+        "--- /project/src/index.ts",
+        "+++ /project/src/index.ts",
+        "@@ -1 +1 @@",
+        "-export const a = 1;",
+        "+export const a = 10;",
+        "--- /project/src/nested/util.ts",
+        "+++ /project/src/nested/util.ts",
+        "@@ -2 +2 @@",
+        `-${oldLine}`,
+        "+export const c = 30;",
+      ].join("\n");
+
+    const failed = await run("apply_patch", {
+      patch: patch("export const c = 99;"),
+    });
+    const dryRun = await run("apply_patch", {
+      patch: patch("export const c = 3;"),
+      dryRun: true,
+    });
+
+    expect(failed.content).toBe(
+      [
+        "Error: Patch not applied; no files were changed.",
+        "  modified /project/src/index.ts (+1 -1)",
+        "  modified /project/src/nested/util.ts (+1 -1): 1 of 1 hunks failed",
+        "    hunk 1 failed near line 2",
+        "      expected:",
+        "        export const c = 99;",
+        "      found:",
+        "        export const c = 3;",
+      ].join("\n")
+    );
+    expect(failed.metadata?.filesModified).toBeUndefined();
+    expect(dryRun.content).toStartWith(
+      "Patch applies cleanly (dry run, nothing written):"
+    );
+    expect(await services.read("/project/src/index.ts")).toBe(
+      "export const a = 1;\nexport const b = 2;\n"
+    );
+  });
+
+  test("apply_patch rolls back written files when a later write fails", async () => {
+    const quotaServices = buildVFSServices([
+      {
+        prefix: "/project",
+        scope: "READ_WRITE",
+        store: { type: "physical", rootDir: workspaceRoot },
+        quota: { maxFileBytes: 64 },
+      },
+    ]);
+
+    await expect(
+      quotaServices.applyPatch(
+        [
+          "--- /project/src/index.ts",
+          "+++ /project/src/index.ts",
+          "@@ -1 +1 @@",
+          "-export const a = 1;",
+          "+export const a = 10;",
+          "--- /dev/null",
+          "+++ /project/src/large.ts",
+          "@@ -0,0 +1 @@",
+          `+${"x".repeat(100)}`,
+        ].join("\n")
+      )
+    ).rejects.toMatchObject({ name: "QuotaExceededError" });
+    expect(await quotaServices.read("/project/src/index.ts")).toBe(
+      "export const a = 1;\nexport const b = 2;\n"
+    );
+    expect((await quotaServices.stat("/project/src/large.ts")).exists).toBe(
+      false
+    );
+  });
+
+  test("apply_patch reports malformed patches", async () => {
+    const result = await run("apply_patch", { patch: "not a diff" });
+
+    expect(result.content).toBe(
+      "Error: No file headers ('--- ' / '+++ ') found"
+    );
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { collectMountUsage } from "@/application/mount-usage";
+import {
+  createRunWriteCounter,
+  createStoreUsageCache,
+} from "@/application/quota-guard";
+import {
+  buildVFSServices,
+  createInMemoryBaseStore,
+  createMountUsageCache,
+  createStoreAdapter,
+} from "@/application/tool-synthesizer";
+import type { MountConfig, MountQuota } from "@/presentation/index";
+
+function createMounts(quota: MountQuota): MountConfig[] {
+  return [
+    {
+      prefix: "/data",
+      scope: "READ_WRITE",
+      store: { type: "virtual", namespace: ["quota", "data"] },
+      quota,
+    },
+    {
+      prefix: "/scratch",
+      scope: "READ_WRITE",
+      store: { type: "virtual", namespace: ["quota", "scratch"] },
+    },
+  ];
+}
+
+describe("mount quotas", () => {
+  test("rejects files larger than maxFileBytes, including via edit", async () => {
+    const services = buildVFSServices(createMounts({ maxFileBytes: 8 }));
+
+    await services.write("/data/a.txt", "12345678");
+    await expect(
+      services.write("/data/b.txt", "123456789")
+    ).rejects.toMatchObject({
+      name: "QuotaExceededError",
+      limit: "maxFileBytes",
+    });
+    await expect(
+      services.writeBytes("/data/c.bin", new Uint8Array(9))
+    ).rejects.toMatchObject({
+      name: "QuotaExceededError",
+      limit: "maxFileBytes",
+    });
+    await expect(services.edit("/data/a.txt", "8", "89")).rejects.toMatchObject(
+      {
+        name: "QuotaExceededError",
+        limit: "maxFileBytes",
+      }
+    );
+    expect(await services.read("/data/a.txt")).toBe("12345678");
+  });
+
+  test("counts overwrites against maxTotalBytes by their size difference", async () => {
+    const services = buildVFSServices(createMounts({ maxTotalBytes: 10 }));
+
+    await services.write("/data/a.txt", "123456");
+    await services.write("/data/a.txt", "1234567890");
+    await expect(services.write("/data/b.txt", "x")).rejects.toMatchObject({
+      name: "QuotaExceededError",
+      limit: "maxTotalBytes",
+    });
+  });
+
+  test("limits the number of files and cross-mount moves into the mount", async () => {
+    const services = buildVFSServices(createMounts({ maxFiles: 1 }));
+
+    await services.write("/data/a.txt", "a");
+    await services.write("/data/a.txt", "again");
+    await services.write("/scratch/b.txt", "b");
+
+    await expect(services.write("/data/b.txt", "b")).rejects.toMatchObject({
+      name: "QuotaExceededError",
+      limit: "maxFiles",
+    });
+    await expect(
+      services.move("/scratch/b.txt", "/data/b.txt")
+    ).rejects.toMatchObject({
+      name: "QuotaExceededError",
+      limit: "maxFiles",
+    });
+    expect(await services.read("/scratch/b.txt")).toBe("b");
+  });
+
+  test("limits writes per run across services instances", async () => {
+    const mounts = createMounts({ maxWritesPerRun: 2 });
+    const writeCounter = createRunWriteCounter();
+    const runOne = { runId: "run-1", writeCounter };
+
+    await buildVFSServices(mounts, runOne).write("/data/a.txt", "a");
+    await buildVFSServices(mounts, runOne).mkdir("/data/docs");
+    await expect(
+      buildVFSServices(mounts, runOne).delete("/data/a.txt")
+    ).rejects.toMatchObject({
+      name: "QuotaExceededError",
+      limit: "maxWritesPerRun",
+    });
+
+    await buildVFSServices(mounts, {
+      runId: "run-2",
+      writeCounter,
+    }).write("/data/b.txt", "b");
+    await buildVFSServices(mounts, runOne).write("/scratch/c.txt", "c");
+  });
+
+  test("shares the write counter when no runId is given", async () => {
+    const mounts = createMounts({ maxWritesPerRun: 1 });
+    const writeCounter = createRunWriteCounter();
+
+    await buildVFSServices(mounts, { writeCounter }).write("/data/a.txt", "a");
+    await expect(
+      buildVFSServices(mounts, { writeCounter }).write("/data/b.txt", "b")
+    ).rejects.toMatchObject({
+      name: "QuotaExceededError",
+      limit: "maxWritesPerRun",
+    });
+  });
+
+  test("measures each store once and tracks later changes", async () => {
+    const virtualStore = createInMemoryBaseStore();
+    let listings = 0;
+    const usageCache = createStoreUsageCache((config) => {
+      const store = createStoreAdapter(config, virtualStore);
+      const list = store.list.bind(store);
+      store.list = (key) => {
+        listings += 1;
+        return list(key);
+      };
+      return store;
+    });
+    const mounts = createMounts({ maxTotalBytes: 100 });
+    const services = buildVFSServices(mounts, { virtualStore, usageCache });
+
+    await services.write("/data/a.txt", "hello");
+    await services.write("/data/b.txt", "world!");
+    await services.edit("/data/a.txt", "hello", "hi");
+    await services.delete("/data/b.txt");
+    await services.write("/scratch/c.txt", "not tracked");
+
+    expect(listings).toBe(1);
+    expect(
+      await usageCache.measure({
+        type: "virtual",
+        namespace: ["quota", "data"],
+      })
+    ).toMatchObject({
+      files: 1,
+      bytes: 2,
+    });
+  });
+
+  test("counts files hidden by ignore patterns against the quota", async () => {
+    const rootDir = await mkdtemp(join(tmpdir(), "ws-middleware-quota-"));
+
+    try {
+      await writeFile(join(rootDir, "debug.log"), "x".repeat(64), "utf8");
+      const services = buildVFSServices(
+        [
+          {
+            prefix: "/project",
+            scope: "READ_WRITE",
+            store: {
+              type: "physical",
+              rootDir,
+              ignore: { patterns: ["*.log"] },
+            },
+            quota: { maxTotalBytes: 80 },
+          },
+        ],
+        { usageCache: createMountUsageCache(createInMemoryBaseStore()) }
+      );
+
+      await expect(
+        services.write("/project/a.txt", "x".repeat(32))
+      ).rejects.toMatchObject({
+        name: "QuotaExceededError",
+        limit: "maxTotalBytes",
+      });
+    } finally {
+      await rm(rootDir, { recursive: true, force: true });
+    }
+  });
+
+  test("collects usage for mounts with a quota", async () => {
+    const virtualStore = createInMemoryBaseStore();
+    const writeCounter = createRunWriteCounter();
+    const mounts = createMounts({ maxTotalBytes: 100, maxWritesPerRun: 5 });
+    const services = buildVFSServices(mounts, {
+      virtualStore,
+      runId: "run-1",
+      writeCounter,
+    });
+
+    await services.write("/data/a.txt", "hello");
+    await services.write("/data/nested/b.txt", "héllo");
+
+    const usage = await collectMountUsage(mounts, {
+      virtualStore,
+      runId: "run-1",
+      writeCounter,
+    });
+
+    expect([...usage.entries()]).toEqual([
+      ["/data", { files: 2, bytes: 11, writesThisRun: 2 }],
+    ]);
+  });
+});
@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { exportSnapshot, importSnapshot } from "@/application/snapshots";
+import {
+  buildVFSServices,
+  createInMemoryBaseStore,
+} from "@/application/tool-synthesizer";
+import { PathTraversalError } from "@/domain/errors";
+import { encodeArchive } from "@/infrastructure/archive";
+import type { MountConfig } from "@/presentation/index";
+
+let workspaceRoot = "";
+let physicalMount: MountConfig;
+
+const virtualMount: MountConfig = {
+  prefix: "/home",
+  scope: "READ_WRITE",
+  store: { type: "virtual", namespace: ["snapshots", "thread-1"] },
+};
+
+beforeEach(async () => {
+  workspaceRoot = await mkdtemp(join(tmpdir(), "ws-middleware-snapshots-"));
+  await mkdir(join(workspaceRoot, "src"), { recursive: true });
+  await writeFile(join(workspaceRoot, "src", "index.ts"), "export {};", "utf8");
+  await writeFile(
+    join(workspaceRoot, "logo.png"),
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff])
+  );
+  physicalMount = {
+    prefix: "/project",
+    scope: "READ_WRITE",
+    store: { type: "physical", rootDir: workspaceRoot },
+  };
+});
+
+afterEach(async () => {
+  if (workspaceRoot !== "") {
+    await rm(workspaceRoot, { recursive: true, force: true });
+  }
+});
+
+async function collect(stream: ReadableStream<Uint8Array>) {
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+describe("workspace snapshots", () => {
+  for (const format of ["tar", "zip"] as const) {
+    test(`seeds a virtual mount from a physical ${format} export`, async () => {
+      const virtualStore = createInMemoryBaseStore();
+      const archive = await collect(exportSnapshot(physicalMount, { format }));
+
+      const imported = await importSnapshot(virtualMount, archive, {
+        virtualStore,
+      });
+      const services = buildVFSServices([virtualMount], { virtualStore });
+
+      expect(imported.sort()).toEqual(["/home/logo.png", "/home/src/index.ts"]);
+      expect(await services.read("/home/src/index.ts")).toBe("export {};");
+      expect((await services.readBytes("/home/logo.png")).data).toEqual(
+        new Uint8Array(await readFile(join(workspaceRoot, "logo.png")))
+      );
+    });
+  }
+
+  test("exports a sub-path and imports it under another directory", async () => {
+    const archive = exportSnapshot(physicalMount, { path: "/project/src" });
+
+    const imported = await importSnapshot(physicalMount, archive, {
+      path: "/project/copy",
+    });
+
+    expect(imported).toEqual(["/project/copy/index.ts"]);
+    expect(
+      await readFile(join(workspaceRoot, "copy", "index.ts"), "utf8")
+    ).toBe("export {};");
+  });
+
+  test("rejects archives whose entries escape the mount", async () => {
+    async function* entries() {
+      await Promise.resolve();
+      yield { path: "ok.txt", data: new TextEncoder().encode("ok") };
+      yield { path: "../escape.txt", data: new TextEncoder().encode("x") };
+    }
+
+    await expect(
+      importSnapshot(physicalMount, encodeArchive(entries(), "tar"))
+    ).rejects.toBeInstanceOf(PathTraversalError);
+    await expect(
+      readFile(join(workspaceRoot, "ok.txt"), "utf8")
+    ).rejects.toThrow();
+  });
+
+  test("rejects export paths outside the mount", () => {
+    expect(() => exportSnapshot(physicalMount, { path: "/etc" })).toThrow(
+      PathTraversalError
+    );
+  });
+});
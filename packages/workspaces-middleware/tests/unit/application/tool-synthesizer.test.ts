@@ -1,11 +1,20 @@
 import { afterEach, beforeEach, describe, expect, test } from "bun:test";
-import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import {
+  mkdir,
+  mkdtemp,
+  readFile,
+  rm,
+  stat,
+  writeFile,
+} from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { z } from "zod";
 
+import { openOverlay } from "@/application/overlay-controls";
 import {
   buildVFSServices,
+  createInMemoryBaseStore,
   synthesizeSafeTools,
 } from "@/application/tool-synthesizer";
 import { AccessDeniedError } from "@/domain/errors";
@@ -226,4 +235,331 @@ describe("tool-synthesizer", () => {
     expect(await services.read("/workspace-a/docs/readme.md")).toBe("from-a");
     expect(await services.read("/workspace-b/docs/readme.md")).toBe("from-b");
   });
+
+  test("delegates edit to the store and authorizes the edit operation", async () => {
+    await mkdir(join(workspaceRoot, "docs"), { recursive: true });
+    await writeFile(join(workspaceRoot, "docs", "a.md"), "x y x", "utf8");
+
+    const services = buildVFSServices([
+      {
+        prefix: "/project",
+        scope: "READ_WRITE",
+        store: { type: "physical", rootDir: workspaceRoot },
+      },
+    ]);
+
+    expect(await services.edit("/project/docs/a.md", "x", "z", true)).toBe(2);
+    expect(await readFile(join(workspaceRoot, "docs", "a.md"), "utf8")).toBe(
+      "z y z"
+    );
+  });
+
+  test("denies delete and move in READ_ONLY mounts", async () => {
+    await mkdir(join(workspaceRoot, "docs"), { recursive: true });
+    await writeFile(join(workspaceRoot, "docs", "a.md"), "A", "utf8");
+
+    const services = buildVFSServices([
+      {
+        prefix: "/project",
+        scope: "READ_ONLY",
+        store: { type: "physical", rootDir: workspaceRoot },
+      },
+    ]);
+
+    await expect(services.delete("/project/docs/a.md")).rejects.toBeInstanceOf(
+      AccessDeniedError
+    );
+    await expect(
+      services.move("/project/docs/a.md", "/project/docs/b.md")
+    ).rejects.toBeInstanceOf(AccessDeniedError);
+  });
+
+  test("moves directories across physical and virtual mounts", async () => {
+    await mkdir(join(workspaceRoot, "drafts", "nested"), { recursive: true });
+    await writeFile(join(workspaceRoot, "drafts", "a.md"), "A", "utf8");
+    await writeFile(
+      join(workspaceRoot, "drafts", "nested", "b.md"),
+      "B",
+      "utf8"
+    );
+
+    const services = buildVFSServices([
+      {
+        prefix: "/project",
+        scope: "READ_WRITE",
+        store: { type: "physical", rootDir: workspaceRoot },
+      },
+      {
+        prefix: "/scratch",
+        scope: "READ_WRITE",
+        store: { type: "virtual", namespace: ["test", "scratch"] },
+      },
+    ]);
+
+    await services.move("/project/drafts", "/scratch/imported");
+
+    expect(await services.read("/scratch/imported/a.md")).toBe("A");
+    expect(await services.read("/scratch/imported/nested/b.md")).toBe("B");
+    expect((await services.stat("/project/drafts")).exists).toBe(false);
+  });
+
+  test("creates directories with mkdir under write scope", async () => {
+    const services = buildVFSServices([
+      {
+        prefix: "/project",
+        scope: "WRITE_ONLY",
+        store: { type: "physical", rootDir: workspaceRoot },
+      },
+    ]);
+
+    await services.mkdir("/project/out/logs");
+
+    const metadata = await stat(join(workspaceRoot, "out", "logs"));
+    expect(metadata.isDirectory()).toBe(true);
+  });
+
+  test("merges search results across nested mounts and drops shadowed paths", async () => {
+    await mkdir(join(workspaceRoot, "notes"), { recursive: true });
+    await writeFile(join(workspaceRoot, "readme.md"), "needle one", "utf8");
+    await writeFile(
+      join(workspaceRoot, "notes", "hidden.md"),
+      "needle hidden",
+      "utf8"
+    );
+
+    const services = buildVFSServices([
+      {
+        prefix: "/project",
+        scope: "READ_ONLY",
+        store: { type: "physical", rootDir: workspaceRoot },
+      },
+      {
+        prefix: "/project/notes",
+        scope: "READ_WRITE",
+        store: { type: "virtual", namespace: ["test", "notes"] },
+      },
+    ]);
+    await services.write("/project/notes/todo.md", "first\nneedle two");
+
+    const result = await services.search("/project", "needle");
+
+    expect(result).toEqual({
+      matches: [
+        { path: "/project/notes/todo.md", line: 2, text: "needle two" },
+        { path: "/project/readme.md", line: 1, text: "needle one" },
+      ],
+      truncated: false,
+    });
+  });
+
+  test("applies mount path rules to reads, writes, listings and search", async () => {
+    await mkdir(join(workspaceRoot, "src"), { recursive: true });
+    await writeFile(join(workspaceRoot, ".env"), "TOKEN=secret", "utf8");
+    await writeFile(join(workspaceRoot, "src", "a.ts"), "TOKEN", "utf8");
+
+    const services = buildVFSServices([
+      {
+        prefix: "/project",
+        scope: "READ_WRITE",
+        store: { type: "physical", rootDir: workspaceRoot },
+        rules: [
+          {
+            effect: "deny",
+            pattern: "**/.env*",
+            operations: ["read", "list", "search"],
+          },
+          { effect: "allow", pattern: "src/**", operations: ["write"] },
+        ],
+      },
+    ]);
+
+    await expect(services.read("/project/.env")).rejects.toBeInstanceOf(
+      AccessDeniedError
+    );
+    await expect(
+      services.write("/project/notes.md", "x")
+    ).rejects.toBeInstanceOf(AccessDeniedError);
+    await services.write("/project/src/b.ts", "ok");
+
+    expect(await services.list("/project")).toEqual(["src"]);
+    expect(
+      (await services.search("/project", "TOKEN")).matches.map(
+        (match) => match.path
+      )
+    ).toEqual(["/project/src/a.ts"]);
+  });
+
+  test("applies path rules to everything under a moved or deleted directory", async () => {
+    await mkdir(join(workspaceRoot, "certs", "old"), { recursive: true });
+    await writeFile(join(workspaceRoot, "certs", "old", "key.pem"), "KEY");
+    await writeFile(join(workspaceRoot, "certs", "readme.md"), "certs");
+
+    const services = buildVFSServices([
+      {
+        prefix: "/project",
+        scope: "READ_WRITE",
+        store: { type: "physical", rootDir: workspaceRoot },
+        rules: [
+          { effect: "deny", pattern: "**/*.pem", operations: ["read"] },
+          { effect: "deny", pattern: "certs/old/**", operations: ["delete"] },
+        ],
+      },
+    ]);
+
+    await expect(
+      services.move("/project/certs", "/project/public")
+    ).rejects.toBeInstanceOf(AccessDeniedError);
+    await expect(
+      services.delete("/project/certs", { recursive: true })
+    ).rejects.toBeInstanceOf(AccessDeniedError);
+
+    expect(
+      await readFile(join(workspaceRoot, "certs", "old", "key.pem"), "utf8")
+    ).toBe("KEY");
+    expect((await services.stat("/project/public")).exists).toBe(false);
+  });
+
+  test("applies read and write path rules to move", async () => {
+    await mkdir(join(workspaceRoot, "src"), { recursive: true });
+    await writeFile(join(workspaceRoot, ".env"), "TOKEN=secret", "utf8");
+    await writeFile(join(workspaceRoot, "README.md"), "# readme", "utf8");
+    await writeFile(join(workspaceRoot, "src", "a.ts"), "a", "utf8");
+
+    const services = buildVFSServices([
+      {
+        prefix: "/project",
+        scope: "READ_WRITE",
+        store: { type: "physical", rootDir: workspaceRoot },
+        rules: [
+          {
+            effect: "deny",
+            pattern: "**/{.env*,*.pem}",
+            operations: ["read", "search"],
+          },
+          {
+            effect: "allow",
+            pattern: "src/**",
+            operations: ["write", "edit", "delete"],
+          },
+        ],
+      },
+    ]);
+
+    expect((await services.stat("/project/.env")).exists).toBe(true);
+    await expect(
+      services.move("/project/.env", "/project/src/leak.txt")
+    ).rejects.toBeInstanceOf(AccessDeniedError);
+    await expect(
+      services.move("/project/src/a.ts", "/project/README.md")
+    ).rejects.toBeInstanceOf(AccessDeniedError);
+
+    await services.move("/project/src/a.ts", "/project/src/b.ts");
+
+    expect(await readFile(join(workspaceRoot, ".env"), "utf8")).toBe(
+      "TOKEN=secret"
+    );
+    expect(await readFile(join(workspaceRoot, "README.md"), "utf8")).toBe(
+      "# readme"
+    );
+    expect(await services.read("/project/src/b.ts")).toBe("a");
+  });
+
+  test("hides search results from files denied for read", async () => {
+    await writeFile(join(workspaceRoot, "secrets.txt"), "TOKEN=1", "utf8");
+    await writeFile(join(workspaceRoot, "notes.txt"), "TOKEN", "utf8");
+
+    const services = buildVFSServices([
+      {
+        prefix: "/project",
+        scope: "READ_ONLY",
+        store: { type: "physical", rootDir: workspaceRoot },
+        rules: [
+          { effect: "deny", pattern: "secrets.txt", operations: ["read"] },
+        ],
+      },
+    ]);
+
+    expect(
+      (await services.search("/project", "TOKEN")).matches.map(
+        (match) => match.path
+      )
+    ).toEqual(["/project/notes.txt"]);
+  });
+
+  test("leaves file lines out of failed patch hunks for files denied for read", async () => {
+    await writeFile(join(workspaceRoot, "secrets.txt"), "TOKEN=1\n", "utf8");
+
+    const services = buildVFSServices([
+      {
+        prefix: "/project",
+        scope: "READ_WRITE",
+        store: { type: "physical", rootDir: workspaceRoot },
+        rules: [
+          { effect: "deny", pattern: "secrets.txt", operations: ["read"] },
+        ],
+      },
+    ]);
+
+    const result = await services.applyPatch(
+      "--- /project/secrets.txt\n+++ /project/secrets.txt\n@@ -1 +1 @@\n-TOKEN=2\n+TOKEN=3\n"
+    );
+    const [hunk] = result.files[0]?.hunks ?? [];
+
+    expect(result.applied).toBe(false);
+    expect(hunk).toMatchObject({ applied: false });
+    expect(hunk).not.toHaveProperty("actual");
+    expect(hunk).not.toHaveProperty("expected");
+  });
+
+  test("stages overlay mount writes until the overlay is committed", async () => {
+    await writeFile(join(workspaceRoot, "readme.md"), "v1", "utf8");
+
+    const virtualStore = createInMemoryBaseStore();
+    const store = {
+      type: "overlay" as const,
+      rootDir: workspaceRoot,
+      namespace: ["overlays", "thread-1"],
+    };
+    const services = buildVFSServices(
+      [{ prefix: "/project", scope: "READ_WRITE", store }],
+      { virtualStore }
+    );
+
+    await services.write("/project/readme.md", "v2");
+
+    expect(await services.read("/project/readme.md")).toBe("v2");
+    expect(await readFile(join(workspaceRoot, "readme.md"), "utf8")).toBe("v1");
+
+    const overlay = openOverlay(store, { virtualStore });
+    expect((await overlay.diff()).map((change) => change.kind)).toEqual([
+      "modified",
+    ]);
+
+    await overlay.commit();
+
+    expect(await readFile(join(workspaceRoot, "readme.md"), "utf8")).toBe("v2");
+  });
+
+  test("serializes concurrent edits across service instances", async () => {
+    await writeFile(join(workspaceRoot, "counter.txt"), "a b", "utf8");
+
+    const mounts: MountConfig[] = [
+      {
+        prefix: "/project",
+        scope: "READ_WRITE",
+        store: { type: "physical", rootDir: workspaceRoot },
+      },
+    ];
+    const first = buildVFSServices(mounts);
+    const second = buildVFSServices(mounts);
+
+    await Promise.all([
+      first.edit("/project/counter.txt", "a", "A"),
+      second.edit("/project/counter.txt", "b", "B"),
+    ]);
+
+    expect(await readFile(join(workspaceRoot, "counter.txt"), "utf8")).toBe(
+      "A B"
+    );
+  });
 });
@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, utimes, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createInMemoryBaseStore } from "@/application/tool-synthesizer";
+import {
+  buildTreePreviews,
+  createTreePreviewCache,
+} from "@/application/tree-preview";
+import type { MountConfig } from "@/presentation/index";
+
+const OLD_DATE = new Date("2020-01-01T00:00:00Z");
+
+describe("tree previews", () => {
+  let workspaceRoot = "";
+
+  beforeEach(async () => {
+    workspaceRoot = await mkdtemp(join(tmpdir(), "ws-tree-preview-"));
+    await mkdir(join(workspaceRoot, "src", "nested", "deep"), {
+      recursive: true,
+    });
+    await writeFile(join(workspaceRoot, "README.md"), "hello", "utf8");
+    await writeFile(join(workspaceRoot, "src", "index.ts"), "x".repeat(2048));
+    await writeFile(join(workspaceRoot, "src", "nested", "deep", "a.ts"), "");
+
+    for (const path of [
+      "README.md",
+      "src/index.ts",
+      "src/nested/deep/a.ts",
+      "src/nested/deep",
+      "src/nested",
+      "src",
+    ]) {
+      await utimes(join(workspaceRoot, path), OLD_DATE, OLD_DATE);
+    }
+  });
+
+  afterEach(async () => {
+    await rm(workspaceRoot, { recursive: true, force: true });
+  });
+
+  function createMount(
+    treePreview: MountConfig["treePreview"] = true
+  ): MountConfig {
+    return {
+      prefix: "/project",
+      scope: "READ_ONLY",
+      store: { type: "physical", rootDir: workspaceRoot },
+      treePreview,
+    };
+  }
+
+  test("lists entries up to maxDepth with sizes", async () => {
+    const previews = await buildTreePreviews([createMount()]);
+
+    expect(previews.get("/project")).toEqual({
+      entries: [
+        {
+          path: "README.md",
+          depth: 0,
+          isDirectory: false,
+          size: 5,
+          recentlyModified: false,
+        },
+        {
+          path: "src",
+          depth: 0,
+          isDirectory: true,
+          size: undefined,
+          recentlyModified: false,
+        },
+        {
+          path: "src/index.ts",
+          depth: 1,
+          isDirectory: false,
+          size: 2048,
+          recentlyModified: false,
+        },
+        {
+          path: "src/nested",
+          depth: 1,
+          isDirectory: true,
+          size: undefined,
+          recentlyModified: false,
+        },
+      ],
+      truncated: false,
+    });
+  });
+
+  test("truncates at maxEntries and skips mounts without previews", async () => {
+    const previews = await buildTreePreviews([
+      createMount({ maxEntries: 2, maxDepth: 5 }),
+      {
+        prefix: "/scratch",
+        scope: "READ_WRITE",
+        store: { type: "virtual", namespace: ["scratch"] },
+      },
+    ]);
+
+    expect(
+      previews.get("/project")?.entries.map((entry) => entry.path)
+    ).toEqual(["README.md", "src"]);
+    expect(previews.get("/project")?.truncated).toBe(true);
+    expect(previews.has("/scratch")).toBe(false);
+  });
+
+  test("caches per thread and refreshes after changes", async () => {
+    const mounts = [createMount()];
+    const cache = createTreePreviewCache({
+      virtualStore: createInMemoryBaseStore(),
+    });
+
+    const first = await cache.load("thread-1", mounts);
+    await writeFile(join(workspaceRoot, "notes.md"), "new", "utf8");
+
+    expect(await cache.load("thread-1", mounts)).toBe(first);
+
+    cache.markChanged("thread-1", ["/project/notes.md"]);
+    const refreshed = await cache.load("thread-1", mounts);
+
+    expect(refreshed).not.toBe(first);
+    expect(
+      refreshed
+        .get("/project")
+        ?.entries.find((entry) => entry.path === "notes.md")
+    ).toMatchObject({ size: 3, recentlyModified: true });
+    expect(
+      refreshed
+        .get("/project")
+        ?.entries.find((entry) => entry.path === "README.md")?.recentlyModified
+    ).toBe(false);
+  });
+});
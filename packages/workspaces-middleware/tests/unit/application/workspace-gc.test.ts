@@ -0,0 +1,145 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildVFSServices,
+  createInMemoryBaseStore,
+} from "@/application/tool-synthesizer";
+import { gcVirtualWorkspaces } from "@/application/workspace-gc";
+import {
+  type BaseStoreLike,
+  buildNamespaceMarkerKey,
+  parseMappedKey,
+} from "@/infrastructure/virtual-store";
+import type { MountConfig } from "@/presentation/index";
+
+function virtualMount(
+  prefix: string,
+  namespace: string[],
+  ttlMs?: number
+): MountConfig {
+  return {
+    prefix,
+    scope: "READ_WRITE",
+    store: { type: "virtual", namespace, ttlMs },
+  };
+}
+
+async function collectKeys(store: BaseStoreLike): Promise<string[]> {
+  const keys: string[] = [];
+
+  for await (const key of store.yieldKeys()) {
+    keys.push(key);
+  }
+
+  return keys.sort();
+}
+
+async function touchMarker(
+  store: BaseStoreLike,
+  namespace: string[],
+  touchedAt: string,
+  ttlMs: number
+): Promise<void> {
+  await store.mset([
+    [buildNamespaceMarkerKey(namespace), JSON.stringify({ touchedAt, ttlMs })],
+  ]);
+}
+
+describe("gcVirtualWorkspaces", () => {
+  test("removes namespaces whose TTL elapsed since the last write", async () => {
+    const virtualStore = createInMemoryBaseStore();
+    const services = buildVFSServices(
+      [
+        virtualMount("/old", ["threads", "old"], 60_000),
+        virtualMount("/fresh", ["threads", "fresh"], 60_000),
+      ],
+      { virtualStore }
+    );
+
+    await services.write("/old/a.md", "a");
+    await services.write("/old/nested/b.md", "b");
+    await services.write("/fresh/c.md", "c");
+    await touchMarker(
+      virtualStore,
+      ["threads", "old"],
+      new Date(Date.now() - 120_000).toISOString(),
+      60_000
+    );
+
+    const report = await gcVirtualWorkspaces({ virtualStore });
+
+    expect(report.scannedNamespaces).toBe(2);
+    expect(report.removedKeys).toBe(2);
+    expect(report.removed).toEqual([
+      expect.objectContaining({
+        namespace: ["threads", "old"],
+        keys: 2,
+        reason: "expired",
+      }),
+    ]);
+    expect(await services.read("/fresh/c.md")).toBe("c");
+    expect(await services.list("/old")).toEqual([]);
+    expect(
+      (await collectKeys(virtualStore)).every((key) => !key.includes("3:old"))
+    ).toBe(true);
+  });
+
+  test("applies olderThan and namespace filters, leaving untracked namespaces", async () => {
+    const virtualStore = createInMemoryBaseStore();
+    const services = buildVFSServices(
+      [
+        virtualMount("/a", ["subagents", "a"], 86_400_000),
+        virtualMount("/b", ["other", "b"], 86_400_000),
+        virtualMount("/plain", ["subagents", "plain"]),
+      ],
+      { virtualStore }
+    );
+
+    await services.write("/a/x.md", "x");
+    await services.write("/b/y.md", "y");
+    await services.write("/plain/z.md", "z");
+    await touchMarker(
+      virtualStore,
+      ["subagents", "a"],
+      new Date(Date.now() - 10_000).toISOString(),
+      86_400_000
+    );
+
+    const dryRun = await gcVirtualWorkspaces({
+      virtualStore,
+      olderThan: 5000,
+      namespaces: [["subagents"]],
+      dryRun: true,
+    });
+
+    expect(dryRun.removed.map((entry) => entry.namespace)).toEqual([
+      ["subagents", "a"],
+    ]);
+    expect(dryRun.removed[0]?.reason).toBe("olderThan");
+    expect(dryRun.untrackedNamespaces).toEqual([["subagents", "plain"]]);
+    expect(await services.read("/a/x.md")).toBe("x");
+
+    await gcVirtualWorkspaces({
+      virtualStore,
+      olderThan: new Date(Date.now() - 5000),
+      namespaces: [["subagents"]],
+    });
+
+    expect(await services.list("/a")).toEqual([]);
+    expect(await services.read("/b/y.md")).toBe("y");
+    expect(await services.read("/plain/z.md")).toBe("z");
+  });
+});
+
+describe("parseMappedKey", () => {
+  test("recovers namespaces that contain separator characters", () => {
+    expect(parseMappedKey("3:a#b|4:c@d##docs/x.md")).toEqual({
+      namespace: ["a#b", "c@d#"],
+      kind: "file",
+    });
+    expect(parseMappedKey(buildNamespaceMarkerKey(["a", "b"]))).toEqual({
+      namespace: ["a", "b"],
+      kind: "marker",
+    });
+    expect(parseMappedKey("not-a-key")).toBeUndefined();
+  });
+});
@@ -3,14 +3,16 @@ import { describe, expect, test } from "bun:test";
 import {
   authorizeOperation,
   isOperationAllowed,
+  isPathOperationAllowed,
   type OperationType,
 } from "@/domain/access-guard";
 import { AccessDeniedError } from "@/domain/errors";
+import type { PathRule } from "@/domain/models";
 
 describe("access guard", () => {
   test("allows only read-like operations in READ_ONLY scope", () => {
     const allowed: OperationType[] = ["read", "list", "search"];
-    const denied: OperationType[] = ["write", "edit"];
+    const denied: OperationType[] = ["write", "edit", "delete", "move"];
 
     for (const operation of allowed) {
       expect(isOperationAllowed(operation, "READ_ONLY")).toBe(true);
@@ -32,6 +34,8 @@ describe("access guard", () => {
       "edit",
       "list",
       "search",
+      "delete",
+      "move",
     ];
 
     for (const operation of operations) {
@@ -41,7 +45,7 @@ describe("access guard", () => {
   });
 
   test("allows only write-like operations in WRITE_ONLY scope", () => {
-    const allowed: OperationType[] = ["write", "edit"];
+    const allowed: OperationType[] = ["write", "edit", "delete", "move"];
     const denied: OperationType[] = ["read", "list", "search"];
 
     for (const operation of allowed) {
@@ -65,4 +69,32 @@ describe("access guard", () => {
       AccessDeniedError
     );
   });
+
+  test("denies paths matched by a deny rule for the listed operations", () => {
+    const rules: PathRule[] = [
+      { effect: "deny", pattern: "**/.env*", operations: ["read"] },
+    ];
+
+    expect(isPathOperationAllowed("read", "config/.env.local", rules)).toBe(
+      false
+    );
+    expect(isPathOperationAllowed("write", ".env", rules)).toBe(true);
+    expect(() =>
+      authorizeOperation("read", "READ_WRITE", { key: ".env", rules })
+    ).toThrow(AccessDeniedError);
+  });
+
+  test("restricts operations to allow rules when any apply", () => {
+    const rules: PathRule[] = [
+      { effect: "allow", pattern: "src/**", operations: ["write", "edit"] },
+      { effect: "deny", pattern: "src/generated/**" },
+    ];
+
+    expect(isPathOperationAllowed("write", "src/index.ts", rules)).toBe(true);
+    expect(isPathOperationAllowed("write", "package.json", rules)).toBe(false);
+    expect(isPathOperationAllowed("read", "package.json", rules)).toBe(true);
+    expect(isPathOperationAllowed("edit", "src/generated/a.ts", rules)).toBe(
+      false
+    );
+  });
 });
@@ -0,0 +1,32 @@
+import { describe, expect, test } from "bun:test";
+
+import { globToRegExp, matchesGlob } from "@/domain/glob-matcher";
+
+describe("glob-matcher", () => {
+  test("matches single-segment wildcards without crossing directories", () => {
+    expect(matchesGlob("readme.md", "*.md")).toBe(true);
+    expect(matchesGlob("docs/readme.md", "*.md")).toBe(false);
+    expect(matchesGlob("docs/a.md", "docs/?.md")).toBe(true);
+  });
+
+  test("matches globstar across zero or more directories", () => {
+    expect(matchesGlob("readme.md", "**/*.md")).toBe(true);
+    expect(matchesGlob("docs/guides/setup.md", "**/*.md")).toBe(true);
+    expect(matchesGlob("src/a/b/c.ts", "src/**")).toBe(true);
+    expect(matchesGlob("lib/a.ts", "src/**")).toBe(false);
+  });
+
+  test("supports brace alternation and character classes", () => {
+    expect(matchesGlob("src/index.ts", "src/*.{ts,tsx}")).toBe(true);
+    expect(matchesGlob("src/view.tsx", "src/*.{ts,tsx}")).toBe(true);
+    expect(matchesGlob("src/view.js", "src/*.{ts,tsx}")).toBe(false);
+    expect(matchesGlob("file1.txt", "file[0-9].txt")).toBe(true);
+    expect(matchesGlob("fileA.txt", "file[!0-9].txt")).toBe(true);
+  });
+
+  test("escapes regular expression metacharacters", () => {
+    expect(matchesGlob("a+b(1).txt", "a+b(1).txt")).toBe(true);
+    expect(matchesGlob("axb.txt", "a.b.txt")).toBe(false);
+    expect(globToRegExp(".env*").test(".env.local")).toBe(true);
+  });
+});
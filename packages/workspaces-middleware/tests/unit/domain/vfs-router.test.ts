@@ -3,17 +3,23 @@ import { describe, expect, test } from "bun:test";
 import { AccessDeniedError, PathTraversalError } from "@/domain/errors";
 import type { Workspace } from "@/domain/models";
 import type { StorePort } from "@/domain/store-port";
-import { resolveWorkspace } from "@/domain/vfs-router";
+import { resolveSearchTargets, resolveWorkspace } from "@/domain/vfs-router";
 
 const noopStore: StorePort = {
   read: async () => "",
+  readBytes: async () => new Uint8Array(),
   write: async () => undefined,
+  writeBytes: async () => undefined,
   edit: async () => 0,
   list: async () => [],
   stat: async () => ({
     exists: false,
     isDirectory: false,
   }),
+  delete: async () => undefined,
+  move: async () => undefined,
+  mkdir: async () => undefined,
+  search: async () => ({ matches: [], truncated: false }),
 };
 
 function createWorkspace(prefix: string, scope: Workspace["scope"]): Workspace {
@@ -110,3 +116,47 @@ describe("resolveWorkspace", () => {
     ).toThrow(PathTraversalError);
   });
 });
+
+describe("resolveSearchTargets", () => {
+  test("includes the owning mount and nested mounts with shadowed prefixes", () => {
+    const workspaces: Workspace[] = [
+      createWorkspace("/project", "READ_ONLY"),
+      createWorkspace("/project/notes", "READ_WRITE"),
+      createWorkspace("/other", "READ_WRITE"),
+    ];
+
+    const targets = resolveSearchTargets("/project", workspaces);
+
+    expect(
+      targets.map((target) => ({
+        prefix: target.normalizedPrefix,
+        isNested: target.isNested,
+        shadowedPrefixes: target.shadowedPrefixes,
+      }))
+    ).toEqual([
+      {
+        prefix: "/project",
+        isNested: false,
+        shadowedPrefixes: ["/project/notes"],
+      },
+      { prefix: "/project/notes", isNested: true, shadowedPrefixes: [] },
+    ]);
+  });
+
+  test("searches from the root through nested mounts only", () => {
+    const workspaces: Workspace[] = [createWorkspace("/project", "READ_ONLY")];
+
+    const targets = resolveSearchTargets("/", workspaces);
+
+    expect(targets).toHaveLength(1);
+    expect(targets[0]?.isNested).toBe(true);
+  });
+
+  test("rejects paths outside every mount", () => {
+    const workspaces: Workspace[] = [createWorkspace("/project", "READ_ONLY")];
+
+    expect(() => resolveSearchTargets("/elsewhere", workspaces)).toThrow(
+      AccessDeniedError
+    );
+  });
+});
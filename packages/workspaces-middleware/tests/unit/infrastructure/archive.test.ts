@@ -0,0 +1,65 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  type ArchiveEntry,
+  type ArchiveFormat,
+  decodeArchive,
+  detectArchiveFormat,
+  encodeArchive,
+} from "@/infrastructure/archive";
+
+async function encode(
+  entries: ArchiveEntry[],
+  format: ArchiveFormat
+): Promise<Uint8Array> {
+  async function* source() {
+    await Promise.resolve();
+    yield* entries;
+  }
+
+  const chunks: Uint8Array[] = [];
+
+  for await (const chunk of encodeArchive(source(), format)) {
+    chunks.push(chunk);
+  }
+
+  return new Uint8Array(Buffer.concat(chunks));
+}
+
+const entries: ArchiveEntry[] = [
+  { path: "readme.md", data: new TextEncoder().encode("# Hello") },
+  { path: "assets/logo.png", data: new Uint8Array([0x89, 0x50, 0x00, 0xff]) },
+  {
+    path: `${"nested/".repeat(20)}deep.txt`,
+    data: new TextEncoder().encode("deep"),
+  },
+];
+
+describe("archive codecs", () => {
+  for (const format of ["tar", "zip"] as const) {
+    test(`round-trips files through ${format}`, async () => {
+      const archive = await encode(entries, format);
+      const decoded = decodeArchive(archive);
+
+      expect(detectArchiveFormat(archive)).toBe(format);
+      expect(
+        decoded.map((entry) => ({ path: entry.path, data: entry.data }))
+      ).toEqual(
+        entries.map((entry) => ({ path: entry.path, data: entry.data }))
+      );
+    });
+  }
+
+  test("rejects tar headers with a bad checksum", async () => {
+    const archive = await encode(entries, "tar");
+    archive[0] = 0x78;
+
+    expect(() => decodeArchive(archive, "tar")).toThrow("checksum mismatch");
+  });
+
+  test("rejects data without a zip directory", () => {
+    expect(() => decodeArchive(new Uint8Array(64), "zip")).toThrow(
+      "missing end of central directory"
+    );
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, test } from "bun:test";
+
+import { createIgnoreMatcher } from "@/infrastructure/ignore-matcher";
+
+function createMatcher(files: Record<string, string>, patterns: string[] = []) {
+  return createIgnoreMatcher({ gitignore: true, patterns }, (path) =>
+    Promise.resolve(files[path])
+  );
+}
+
+describe("createIgnoreMatcher", () => {
+  test("applies root .gitignore patterns at any depth", async () => {
+    const matcher = createMatcher({
+      ".gitignore": "# deps\nnode_modules/\n*.log\n/dist\n",
+    });
+
+    expect(await matcher.isIgnored("node_modules", true)).toBe(true);
+    expect(await matcher.isIgnored("pkg/node_modules/a.js", false)).toBe(true);
+    expect(await matcher.isIgnored("src/debug.log", false)).toBe(true);
+    expect(await matcher.isIgnored("dist", true)).toBe(true);
+    expect(await matcher.isIgnored("src/dist", true)).toBe(false);
+    expect(await matcher.isIgnored("src/index.ts", false)).toBe(false);
+  });
+
+  test("scopes nested .gitignore files and honors negation", async () => {
+    const matcher = createMatcher({
+      ".gitignore": "*.env\n",
+      "app/.gitignore": "!local.env\ncache/\n",
+    });
+
+    expect(await matcher.isIgnored("prod.env", false)).toBe(true);
+    expect(await matcher.isIgnored("app/local.env", false)).toBe(false);
+    expect(await matcher.isIgnored("local.env", false)).toBe(true);
+    expect(await matcher.isIgnored("app/cache/data.bin", false)).toBe(true);
+    expect(await matcher.isIgnored("cache/data.bin", false)).toBe(false);
+  });
+
+  test("ignores .git and extra patterns even without .gitignore files", async () => {
+    const matcher = createMatcher({}, ["build/", "**/*.snap"]);
+
+    expect(await matcher.isIgnored(".git/HEAD", false)).toBe(true);
+    expect(await matcher.isIgnored("build", true)).toBe(true);
+    expect(await matcher.isIgnored("tests/__snapshots__/a.snap", false)).toBe(
+      true
+    );
+    expect(await matcher.isIgnored("build", false)).toBe(false);
+  });
+
+  test("does not read .gitignore files unless enabled", async () => {
+    const matcher = createIgnoreMatcher({ patterns: ["*.tmp"] }, () =>
+      Promise.reject(new Error("should not read"))
+    );
+
+    expect(await matcher.isIgnored("a/b.tmp", false)).toBe(true);
+    expect(await matcher.isIgnored(".git/HEAD", false)).toBe(false);
+  });
+});
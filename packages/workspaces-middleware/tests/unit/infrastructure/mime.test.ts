@@ -0,0 +1,34 @@
+import { describe, expect, test } from "bun:test";
+
+import { detectMimeType, isTextMimeType } from "@/infrastructure/mime";
+
+const PNG_HEADER = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a]);
+
+describe("detectMimeType", () => {
+  test("prefers magic bytes over the file extension", () => {
+    expect(detectMimeType("logo.txt", PNG_HEADER)).toBe("image/png");
+  });
+
+  test("falls back to the extension when content is unknown", () => {
+    expect(detectMimeType("photo.JPG")).toBe("image/jpeg");
+    expect(detectMimeType("data.json")).toBe("application/json");
+  });
+
+  test("treats NUL bytes in unknown files as binary", () => {
+    expect(detectMimeType("blob", new Uint8Array([0x61, 0x00, 0x62]))).toBe(
+      "application/octet-stream"
+    );
+    expect(detectMimeType("notes", new TextEncoder().encode("hello"))).toBe(
+      "text/plain"
+    );
+  });
+});
+
+describe("isTextMimeType", () => {
+  test("accepts text and structured text formats only", () => {
+    expect(isTextMimeType("text/markdown")).toBe(true);
+    expect(isTextMimeType("image/svg+xml")).toBe(true);
+    expect(isTextMimeType("image/png")).toBe(false);
+    expect(isTextMimeType("application/octet-stream")).toBe(false);
+  });
+});
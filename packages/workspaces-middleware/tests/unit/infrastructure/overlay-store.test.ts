@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import {
+  mkdir,
+  mkdtemp,
+  readFile,
+  rm,
+  stat,
+  writeFile,
+} from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { createInMemoryBaseStore } from "@/application/tool-synthesizer";
+import { OverlayStoreAdapter } from "@/infrastructure/overlay-store";
+import { PhysicalStoreAdapter } from "@/infrastructure/physical-store";
+import { FileNotFoundError } from "@/infrastructure/virtual-store";
+
+let workspaceRoot = "";
+let overlay: OverlayStoreAdapter;
+
+beforeEach(async () => {
+  workspaceRoot = await mkdtemp(join(tmpdir(), "ws-middleware-overlay-"));
+  await mkdir(join(workspaceRoot, "src", "legacy"), { recursive: true });
+  await writeFile(
+    join(workspaceRoot, "src", "index.ts"),
+    "const a = 1;",
+    "utf8"
+  );
+  await writeFile(
+    join(workspaceRoot, "src", "legacy", "old.ts"),
+    "old",
+    "utf8"
+  );
+  await writeFile(join(workspaceRoot, "readme.md"), "# Readme", "utf8");
+
+  overlay = new OverlayStoreAdapter(
+    new PhysicalStoreAdapter(workspaceRoot),
+    createInMemoryBaseStore(),
+    ["overlays", "thread-1"]
+  );
+});
+
+afterEach(async () => {
+  if (workspaceRoot !== "") {
+    await rm(workspaceRoot, { recursive: true, force: true });
+  }
+});
+
+describe("OverlayStoreAdapter", () => {
+  test("reads fall through to disk and writes stay in the overlay", async () => {
+    expect(await overlay.read("readme.md")).toBe("# Readme");
+
+    await overlay.write("readme.md", "# Draft");
+    await overlay.write("notes/todo.md", "- ship");
+
+    expect(await overlay.read("readme.md")).toBe("# Draft");
+    expect(await overlay.list("")).toEqual(["notes", "readme.md", "src"]);
+    expect(await readFile(join(workspaceRoot, "readme.md"), "utf8")).toBe(
+      "# Readme"
+    );
+    expect((await overlay.stat("notes")).isDirectory).toBe(true);
+  });
+
+  test("hides deleted disk entries behind whiteouts", async () => {
+    await overlay.delete("src/legacy", { recursive: true });
+
+    expect(await overlay.list("src")).toEqual(["src/index.ts"]);
+    expect((await overlay.stat("src/legacy/old.ts")).exists).toBe(false);
+    await expect(overlay.read("src/legacy/old.ts")).rejects.toBeInstanceOf(
+      FileNotFoundError
+    );
+    expect(
+      (await stat(join(workspaceRoot, "src", "legacy"))).isDirectory()
+    ).toBe(true);
+  });
+
+  test("rejects non-recursive deletes of non-empty directories", async () => {
+    await expect(overlay.delete("src")).rejects.toThrow("Directory not empty");
+  });
+
+  test("edits and moves disk files through the overlay", async () => {
+    expect(await overlay.edit("src/index.ts", "1", "2")).toBe(1);
+    await overlay.move("src/legacy/old.ts", "src/new.ts");
+
+    expect(await overlay.read("src/index.ts")).toBe("const a = 2;");
+    expect(await overlay.read("src/new.ts")).toBe("old");
+    expect((await overlay.stat("src/legacy/old.ts")).exists).toBe(false);
+  });
+
+  test("searches the merged view without shadowed or deleted files", async () => {
+    await overlay.write("src/index.ts", "const a = 3;");
+    await overlay.write("src/extra.ts", "const b = 1;");
+    await writeFile(join(workspaceRoot, "src", "gone.ts"), "const c;", "utf8");
+    await overlay.delete("src/gone.ts");
+
+    const result = await overlay.search("const", { path: "src" });
+
+    expect(result).toEqual({
+      matches: [
+        { path: "src/extra.ts", line: 1, text: "const b = 1;" },
+        { path: "src/index.ts", line: 1, text: "const a = 3;" },
+      ],
+      truncated: false,
+    });
+  });
+
+  test("diffs pending changes and commits them to disk", async () => {
+    await overlay.write("src/index.ts", "const a = 2;");
+    await overlay.write("docs/guide.md", "guide");
+    await overlay.write("readme.md", "# Readme");
+    await overlay.delete("src/legacy", { recursive: true });
+
+    const changes = await overlay.diff();
+
+    expect(changes).toEqual([
+      { path: "docs/guide.md", kind: "added", after: "guide" },
+      {
+        path: "src/index.ts",
+        kind: "modified",
+        before: "const a = 1;",
+        after: "const a = 2;",
+      },
+      { path: "src/legacy/old.ts", kind: "deleted", before: "old" },
+    ]);
+
+    expect(await overlay.commit()).toEqual(changes);
+    expect(await readFile(join(workspaceRoot, "src", "index.ts"), "utf8")).toBe(
+      "const a = 2;"
+    );
+    expect(
+      await readFile(join(workspaceRoot, "docs", "guide.md"), "utf8")
+    ).toBe("guide");
+    await expect(stat(join(workspaceRoot, "src", "legacy"))).rejects.toThrow();
+    expect(await overlay.diff()).toEqual([]);
+  });
+
+  test("commits binary files to disk without re-encoding", async () => {
+    const data = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff]);
+
+    await overlay.writeBytes("assets/logo.png", data);
+    expect(await overlay.readBytes("assets/logo.png")).toEqual(data);
+
+    await overlay.commit();
+
+    expect(
+      new Uint8Array(await readFile(join(workspaceRoot, "assets", "logo.png")))
+    ).toEqual(data);
+  });
+
+  test("discards pending changes without touching disk", async () => {
+    await overlay.write("readme.md", "# Draft");
+    await overlay.delete("src/index.ts");
+
+    await overlay.discard();
+
+    expect(await overlay.diff()).toEqual([]);
+    expect(await overlay.read("readme.md")).toBe("# Readme");
+    expect(await overlay.read("src/index.ts")).toBe("const a = 1;");
+  });
+});
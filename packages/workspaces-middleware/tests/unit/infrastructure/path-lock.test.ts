@@ -0,0 +1,43 @@
+import { describe, expect, test } from "bun:test";
+
+import { withPathLocks } from "@/infrastructure/path-lock";
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe("path-lock", () => {
+  test("serializes operations that share a lock key", async () => {
+    const events: string[] = [];
+
+    await Promise.all([
+      withPathLocks(["store#a"], async () => {
+        events.push("first:start");
+        await delay(5);
+        events.push("first:end");
+      }),
+      withPathLocks(["store#a", "store#b"], async () => {
+        events.push("second:start");
+        await delay(1);
+        events.push("second:end");
+      }),
+    ]);
+
+    expect(events).toEqual([
+      "first:start",
+      "first:end",
+      "second:start",
+      "second:end",
+    ]);
+  });
+
+  test("releases locks when the operation fails", async () => {
+    await expect(
+      withPathLocks(["store#c"], () => Promise.reject(new Error("boom")))
+    ).rejects.toThrow("boom");
+
+    await expect(
+      withPathLocks(["store#c"], () => Promise.resolve("ok"))
+    ).resolves.toBe("ok");
+  });
+});
@@ -1,10 +1,11 @@
 import { afterEach, beforeEach, describe, expect, test } from "bun:test";
-import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { mkdtemp, readFile, rm, utimes, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 
-import { PathTraversalError } from "@/domain/errors";
+import { ConflictError, PathTraversalError } from "@/domain/errors";
 import { PhysicalStoreAdapter } from "@/infrastructure/physical-store";
+import { FileNotFoundError } from "@/infrastructure/virtual-store";
 
 let workspaceRoot = "";
 let adapter: PhysicalStoreAdapter;
@@ -241,4 +242,136 @@ describe("PhysicalStoreAdapter", () => {
 
     expect(readResult).toBe("short");
   });
+
+  test("replaces every occurrence when replaceAll is set", async () => {
+    await adapter.write("docs/file.txt", "one two one");
+
+    const count = await adapter.edit("docs/file.txt", "one", "ONE", true);
+
+    expect(count).toBe(2);
+    expect(await adapter.read("docs/file.txt")).toBe("ONE two ONE");
+  });
+
+  test("deletes files and refuses non-empty directories without recursive", async () => {
+    await adapter.write("docs/a.txt", "A");
+    await adapter.write("docs/nested/b.txt", "B");
+
+    await adapter.delete("docs/a.txt");
+    expect((await adapter.stat("docs/a.txt")).exists).toBe(false);
+
+    await expect(adapter.delete("docs")).rejects.toThrow();
+    await adapter.delete("docs", { recursive: true });
+    expect((await adapter.stat("docs")).exists).toBe(false);
+  });
+
+  test("moves files into new directories", async () => {
+    await adapter.write("docs/a.txt", "A");
+
+    await adapter.move("docs/a.txt", "archive/2024/a.txt");
+
+    expect((await adapter.stat("docs/a.txt")).exists).toBe(false);
+    expect(
+      await readFile(join(workspaceRoot, "archive", "2024", "a.txt"), "utf8")
+    ).toBe("A");
+  });
+
+  test("creates nested directories with mkdir", async () => {
+    await adapter.mkdir("build/output");
+
+    const metadata = await adapter.stat("build/output");
+
+    expect(metadata.exists).toBe(true);
+    expect(metadata.isDirectory).toBe(true);
+  });
+
+  test("rejects deleting the workspace root", async () => {
+    await expect(adapter.delete("")).rejects.toBeInstanceOf(PathTraversalError);
+  });
+
+  test("searches file contents with line numbers and glob filters", async () => {
+    await adapter.write("src/a.ts", "const alpha = 1;\nconst beta = 2;");
+    await adapter.write("src/b.md", "alpha in docs");
+    await adapter.write("node_modules/pkg/index.ts", "alpha");
+
+    const result = await adapter.search("alpha", {
+      include: ["**/*.ts"],
+      exclude: ["node_modules"],
+    });
+
+    expect(result).toEqual({
+      matches: [{ path: "src/a.ts", line: 1, text: "const alpha = 1;" }],
+      truncated: false,
+    });
+  });
+
+  test("limits search results and reports truncation", async () => {
+    await adapter.write("log.txt", "hit\nhit\nhit");
+
+    const result = await adapter.search("HIT", {
+      path: "log.txt",
+      ignoreCase: true,
+      maxResults: 2,
+    });
+
+    expect(result.matches.map((match) => match.line)).toEqual([1, 2]);
+    expect(result.truncated).toBe(true);
+  });
+
+  test("rejects writes whose ifMatch version is stale", async () => {
+    await adapter.write("docs/a.md", "v1");
+    const { version } = await adapter.stat("docs/a.md");
+
+    await utimes(join(workspaceRoot, "docs", "a.md"), 1, 1);
+
+    await expect(
+      adapter.write("docs/a.md", "v2", { ifMatch: version })
+    ).rejects.toBeInstanceOf(ConflictError);
+
+    const current = await adapter.stat("docs/a.md");
+    await adapter.write("docs/a.md", "v2", { ifMatch: current.version });
+
+    expect(await adapter.read("docs/a.md")).toBe("v2");
+  });
+
+  test("round-trips binary content byte for byte", async () => {
+    const data = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff, 0xfe]);
+
+    await adapter.writeBytes("assets/logo.png", data);
+
+    expect(await adapter.readBytes("assets/logo.png")).toEqual(data);
+    expect(
+      new Uint8Array(await readFile(join(workspaceRoot, "assets", "logo.png")))
+    ).toEqual(data);
+  });
+
+  test("hides ignored paths from list and search", async () => {
+    await writeFile(join(workspaceRoot, ".gitignore"), "node_modules/\n");
+    await adapter.write("node_modules/pkg/index.js", "export const x = 1;");
+    await adapter.write("src/index.js", "export const x = 1;");
+    await adapter.write("src/out.log", "export const x = 1;");
+
+    const ignoring = new PhysicalStoreAdapter(workspaceRoot, {
+      ignore: { gitignore: true, patterns: ["*.log"] },
+    });
+
+    expect(await ignoring.list("")).toEqual([".gitignore", "src"]);
+    expect(await ignoring.list("src")).toEqual(["src/index.js"]);
+    expect(
+      (await ignoring.search("export")).matches.map((match) => match.path)
+    ).toEqual(["src/index.js"]);
+    expect(await ignoring.read("src/out.log")).toBe("export const x = 1;");
+  });
+
+  test("optionally hides ignored paths from reads", async () => {
+    await adapter.write("secrets/key.pem", "secret");
+
+    const ignoring = new PhysicalStoreAdapter(workspaceRoot, {
+      ignore: { patterns: ["secrets/"], hideFromReads: true },
+    });
+
+    await expect(ignoring.read("secrets/key.pem")).rejects.toBeInstanceOf(
+      FileNotFoundError
+    );
+    expect((await ignoring.stat("secrets")).exists).toBe(false);
+  });
 });
@@ -0,0 +1,128 @@
+import { describe, expect, test } from "bun:test";
+import { rebuildSearchIndex } from "@/application/search-index-controls";
+import { createInMemoryBaseStore } from "@/application/tool-synthesizer";
+import {
+  type BaseStoreLike,
+  buildBaseStoreKey,
+  VirtualStoreAdapter,
+} from "@/infrastructure/virtual-store";
+
+const NAMESPACE = ["workspaces", "indexed"];
+
+function createRecordingStore(): BaseStoreLike & { fileReads: string[] } {
+  const store = createInMemoryBaseStore();
+  const fileReads: string[] = [];
+  const filePrefix = buildBaseStoreKey(NAMESPACE, "x").slice(0, -1);
+
+  return {
+    fileReads,
+    mget(keys) {
+      fileReads.push(
+        ...keys
+          .filter((key) => key.startsWith(filePrefix))
+          .map((key) => key.slice(filePrefix.length))
+      );
+      return store.mget(keys);
+    },
+    mset: (pairs) => store.mset(pairs),
+    mdelete: (keys) => store.mdelete(keys),
+    yieldKeys: (prefix) => store.yieldKeys(prefix),
+  };
+}
+
+async function seed(adapter: VirtualStoreAdapter): Promise<void> {
+  await adapter.write("src/parser.ts", "export function parseTokens() {}\n");
+  await adapter.write(
+    "docs/parsing.md",
+    "# Parsing\nThe parser parses tokens.\nParser notes.\n"
+  );
+  await adapter.write("docs/intro.md", "Welcome to the project.\n");
+  await adapter.writeBytes("assets/logo.png", new Uint8Array([0, 1, 2]));
+}
+
+describe("virtual search index", () => {
+  test("answers substring searches by reading only candidate files", async () => {
+    const store = createRecordingStore();
+    const adapter = new VirtualStoreAdapter(store, NAMESPACE, { index: true });
+
+    await seed(adapter);
+    store.fileReads.length = 0;
+
+    const result = await adapter.search("parse", { literal: true });
+
+    expect(
+      result.matches.map((match) => `${match.path}:${match.line}`)
+    ).toEqual(["docs/parsing.md:2", "src/parser.ts:1"]);
+    expect(store.fileReads).not.toContain("docs/intro.md");
+    expect(store.fileReads).not.toContain("assets/logo.png");
+  });
+
+  test("ranks full-text results and requires every word", async () => {
+    const adapter = new VirtualStoreAdapter(
+      createInMemoryBaseStore(),
+      NAMESPACE,
+      { index: true }
+    );
+
+    await seed(adapter);
+
+    const result = await adapter.search("parser", { fullText: true });
+    const both = await adapter.search("parser TOKENS", { fullText: true });
+
+    expect(result.matches.map((match) => match.path)).toEqual([
+      "docs/parsing.md",
+      "docs/parsing.md",
+    ]);
+    expect(result.matches[0]?.score).toBeGreaterThan(0);
+    expect([...new Set(both.matches.map((match) => match.path))]).toEqual([
+      "docs/parsing.md",
+    ]);
+    expect(
+      (await adapter.search("parser missing", { fullText: true })).matches
+    ).toEqual([]);
+  });
+
+  test("keeps the index current across edits, moves and deletes", async () => {
+    const adapter = new VirtualStoreAdapter(
+      createInMemoryBaseStore(),
+      NAMESPACE,
+      { index: true }
+    );
+
+    await seed(adapter);
+    await adapter.edit("docs/intro.md", "project", "parser playground");
+    await adapter.move("docs/parsing.md", "guide/parsing.md");
+    await adapter.delete("src", { recursive: true });
+
+    const result = await adapter.search("parser", { fullText: true });
+
+    expect([...new Set(result.matches.map((match) => match.path))]).toEqual([
+      "guide/parsing.md",
+      "docs/intro.md",
+    ]);
+    expect(
+      (await adapter.search("parseTokens", { literal: true })).matches
+    ).toEqual([]);
+  });
+
+  test("rebuilds the index from the stored files", async () => {
+    const store = createInMemoryBaseStore();
+
+    await seed(new VirtualStoreAdapter(store, NAMESPACE));
+
+    const adapter = new VirtualStoreAdapter(store, NAMESPACE, { index: true });
+
+    expect(
+      (await adapter.search("parser", { fullText: true })).matches
+    ).toEqual([]);
+    expect(
+      await rebuildSearchIndex(
+        { type: "virtual", namespace: NAMESPACE, index: true },
+        { virtualStore: store }
+      )
+    ).toBe(3);
+    expect(
+      (await adapter.search("parser", { fullText: true })).matches.length
+    ).toBe(2);
+  });
+});
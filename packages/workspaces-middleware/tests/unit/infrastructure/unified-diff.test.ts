@@ -0,0 +1,164 @@
+import { describe, expect, test } from "bun:test";
+
+import { applyHunks, parseUnifiedDiff } from "@/infrastructure/unified-diff";
+
+const numbered = (count: number) =>
+  `${Array.from({ length: count }, (_, index) => `line ${index + 1}`).join("\n")}\n`;
+
+function hunksOf(patch: string) {
+  return parseUnifiedDiff(patch)[0]?.hunks ?? [];
+}
+
+describe("unified diff", () => {
+  test("parses git headers, creations, deletions and multiple files", () => {
+    const files = parseUnifiedDiff(
+      [
+        "diff --git a/src/a.ts b/src/a.ts",
+        "index 83db48f..bf269f4 100644",
+        "--- a/src/a.ts",
+        "+++ b/src/a.ts",
+        "@@ -1 +1 @@",
+        "-old",
+        "+new",
+        "--- /dev/null",
+        "+++ b/src/new.ts",
+        "@@ -0,0 +1,2 @@",
+        "+one",
+        "+two",
+        "--- a/src/gone.ts\t2024-01-01 00:00:00",
+        "+++ /dev/null",
+        "@@ -1 +0,0 @@",
+        "-bye",
+      ].join("\n")
+    );
+
+    expect(
+      files.map(({ oldPath, newPath, hunks }) => ({
+        oldPath,
+        newPath,
+        lines: hunks.flatMap((hunk) => hunk.lines),
+      }))
+    ).toEqual([
+      {
+        oldPath: "src/a.ts",
+        newPath: "src/a.ts",
+        lines: [
+          { type: "-", text: "old" },
+          { type: "+", text: "new" },
+        ],
+      },
+      {
+        oldPath: null,
+        newPath: "src/new.ts",
+        lines: [
+          { type: "+", text: "one" },
+          { type: "+", text: "two" },
+        ],
+      },
+      {
+        oldPath: "src/gone.ts",
+        newPath: null,
+        lines: [{ type: "-", text: "bye" }],
+      },
+    ]);
+  });
+
+  test("rejects text without file headers or with truncated hunks", () => {
+    expect(() => parseUnifiedDiff("just some text")).toThrow(
+      "No file headers ('--- ' / '+++ ') found"
+    );
+    expect(() =>
+      parseUnifiedDiff("--- a/x\n+++ b/x\n@@ -1,3 +1,3 @@\n line")
+    ).toThrow("Hunk starting at line 3 is shorter than its header");
+  });
+
+  test("applies several hunks and finds moved code by offset", () => {
+    const patch = [
+      "--- a/file.txt",
+      "+++ b/file.txt",
+      "@@ -2,3 +2,3 @@",
+      " line 2",
+      "-line 3",
+      "+line three",
+      " line 4",
+      "@@ -10,3 +10,4 @@",
+      " line 10",
+      " line 11",
+      "+line 11.5",
+      " line 12",
+    ].join("\n");
+    const shifted = `header\nheader\n${numbered(14)}`;
+
+    const result = applyHunks(shifted, hunksOf(patch), 0);
+
+    expect(result.applied).toBe(true);
+    expect(result.content).toBe(
+      `header\nheader\n${numbered(14)
+        .replace("line 3\n", "line three\n")
+        .replace("line 11\n", "line 11\nline 11.5\n")}`
+    );
+    expect(result.hunks.map(({ offset, fuzz }) => ({ offset, fuzz }))).toEqual([
+      { offset: 2, fuzz: 0 },
+      { offset: 2, fuzz: 0 },
+    ]);
+  });
+
+  test("ignores mismatched outer context lines only within the fuzz factor", () => {
+    const patch = [
+      "--- a/file.txt",
+      "+++ b/file.txt",
+      "@@ -3,3 +3,3 @@",
+      " stale context",
+      "-line 4",
+      "+line four",
+      " line 5",
+    ].join("\n");
+
+    expect(applyHunks(numbered(6), hunksOf(patch), 0).applied).toBe(false);
+
+    const fuzzy = applyHunks(numbered(6), hunksOf(patch), 1);
+
+    expect(fuzzy.applied).toBe(true);
+    expect(fuzzy.hunks[0]).toMatchObject({ fuzz: 1, line: 3, offset: 0 });
+    expect(fuzzy.content).toBe(numbered(6).replace("line 4\n", "line four\n"));
+  });
+
+  test("reports the expected and actual lines of failed hunks", () => {
+    const patch = [
+      "--- a/file.txt",
+      "+++ b/file.txt",
+      "@@ -2,2 +2,2 @@",
+      "-missing line",
+      "+replacement",
+      " line 3",
+    ].join("\n");
+
+    const result = applyHunks(numbered(4), hunksOf(patch), 2);
+
+    expect(result.applied).toBe(false);
+    expect(result.hunks).toEqual([
+      {
+        index: 1,
+        applied: false,
+        line: 2,
+        expected: ["missing line", "line 3"],
+        actual: ["line 2", "line 3", "line 4"],
+      },
+    ]);
+  });
+
+  test("honours missing newline markers and CRLF files", () => {
+    const patch = [
+      "--- a/file.txt",
+      "+++ b/file.txt",
+      "@@ -1,2 +1,2 @@",
+      " a",
+      "-b",
+      "\\ No newline at end of file",
+      "+c",
+    ].join("\n");
+
+    expect(applyHunks("a\nb", hunksOf(patch), 0).content).toBe("a\nc\n");
+    expect(applyHunks("a\r\nb", hunksOf(patch), 0).content).toBe("a\r\nc\r\n");
+  });
+});
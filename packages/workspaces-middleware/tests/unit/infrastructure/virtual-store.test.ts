@@ -1,5 +1,6 @@
 import { describe, expect, test } from "bun:test";
 
+import { ConflictError } from "@/domain/errors";
 import {
   buildBaseStoreKey,
   FILESYSTEM_UNRESPONSIVE_MESSAGE,
@@ -123,6 +124,8 @@ describe("VirtualStoreAdapter", () => {
       exists: true,
       isDirectory: false,
       size: 8,
+      version:
+        "45447b7afbd5e544f7d0f1df0fccd26014d9850130abd3f020b89ff96b82079f",
     });
   });
 
@@ -166,6 +169,158 @@ describe("VirtualStoreAdapter", () => {
     expect(content).toBe("ALPHA beta alpha");
   });
 
+  test("deletes single keys and requires recursive for prefixes", async () => {
+    const store = createMemoryStore();
+    const namespace = ["workspaces", "agent-1"];
+    const adapter = new VirtualStoreAdapter(store, namespace);
+
+    await adapter.write("docs/a.md", "A");
+    await adapter.write("docs/nested/b.md", "B");
+
+    await adapter.delete("docs/a.md");
+    expect(store.data.has(buildBaseStoreKey(namespace, "docs/a.md"))).toBe(
+      false
+    );
+
+    await expect(adapter.delete("docs")).rejects.toThrow("Directory not empty");
+    await adapter.delete("docs", { recursive: true });
+    expect(store.data.size).toBe(0);
+
+    await expect(adapter.delete("docs")).rejects.toBeInstanceOf(
+      FileNotFoundError
+    );
+  });
+
+  test("moves files and whole directory prefixes", async () => {
+    const store = createMemoryStore();
+    const namespace = ["workspaces", "agent-1"];
+    const adapter = new VirtualStoreAdapter(store, namespace);
+
+    await adapter.write("drafts/a.md", "A");
+    await adapter.write("drafts/nested/b.md", "B");
+    await adapter.write("note.txt", "N");
+
+    await adapter.move("note.txt", "docs/note.txt");
+    await adapter.move("drafts", "docs/final");
+
+    expect([...store.data.keys()].sort()).toEqual(
+      [
+        buildBaseStoreKey(namespace, "docs/final/a.md"),
+        buildBaseStoreKey(namespace, "docs/final/nested/b.md"),
+        buildBaseStoreKey(namespace, "docs/note.txt"),
+      ].sort()
+    );
+    expect(await adapter.read("docs/final/nested/b.md")).toBe("B");
+  });
+
+  test("rejects moving a directory into itself", async () => {
+    const store = createMemoryStore();
+    const adapter = new VirtualStoreAdapter(store, ["workspaces", "agent-1"]);
+
+    await adapter.write("docs/a.md", "A");
+
+    await expect(adapter.move("docs", "docs/inner")).rejects.toThrow(
+      "Cannot move a directory into itself"
+    );
+  });
+
+  test("treats mkdir as implicit unless a file occupies the path", async () => {
+    const store = createMemoryStore();
+    const adapter = new VirtualStoreAdapter(store, ["workspaces", "agent-1"]);
+
+    await adapter.write("docs", "file");
+
+    await adapter.mkdir("build");
+    await expect(adapter.mkdir("docs")).rejects.toThrow(
+      "A file already exists at this path"
+    );
+  });
+
+  test("searches namespace keys without listing directories", async () => {
+    const store = createMemoryStore();
+    const adapter = new VirtualStoreAdapter(store, ["workspaces", "agent-1"]);
+
+    await adapter.write("docs/a.md", "intro\nTODO: write");
+    await adapter.write("docs/b.txt", "TODO: skip me");
+    await adapter.write("src/c.md", "TODO: other dir");
+
+    const result = await adapter.search("todo", {
+      path: "docs",
+      include: ["*.md"],
+      ignoreCase: true,
+    });
+
+    expect(result).toEqual({
+      matches: [{ path: "docs/a.md", line: 2, text: "TODO: write" }],
+      truncated: false,
+    });
+  });
+
+  test("treats literal search patterns as plain text", async () => {
+    const store = createMemoryStore();
+    const adapter = new VirtualStoreAdapter(store, ["workspaces", "agent-1"]);
+
+    await adapter.write("a.txt", "value (x)\nvalue x");
+
+    const result = await adapter.search("(x)", { literal: true });
+
+    expect(result.matches).toEqual([
+      { path: "a.txt", line: 1, text: "value (x)" },
+    ]);
+  });
+
+  test("throws FileNotFoundError when searching a missing path", async () => {
+    const store = createMemoryStore();
+    const adapter = new VirtualStoreAdapter(store, ["workspaces", "agent-1"]);
+
+    await expect(
+      adapter.search("x", { path: "missing" })
+    ).rejects.toBeInstanceOf(FileNotFoundError);
+  });
+
+  test("versions files by content and honors ifMatch", async () => {
+    const store = createMemoryStore();
+    const adapter = new VirtualStoreAdapter(store, ["workspaces", "agent-1"]);
+
+    await adapter.write("a.txt", "v1");
+    const { version } = await adapter.stat("a.txt");
+    await adapter.write("a.txt", "v2");
+
+    await expect(
+      adapter.write("a.txt", "v3", { ifMatch: version })
+    ).rejects.toBeInstanceOf(ConflictError);
+    await expect(
+      adapter.write("missing.txt", "x", { ifMatch: version })
+    ).rejects.toBeInstanceOf(ConflictError);
+    expect(await adapter.read("a.txt")).toBe("v2");
+  });
+
+  test("stores binary content as base64 and reports decoded size", async () => {
+    const store = createMemoryStore();
+    const adapter = new VirtualStoreAdapter(store, ["workspaces", "agent-1"]);
+    const data = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff]);
+
+    await adapter.writeBytes("logo.png", data);
+
+    expect(await adapter.readBytes("logo.png")).toEqual(data);
+    expect((await adapter.stat("logo.png")).size).toBe(data.length);
+    expect(
+      store.data.get(buildBaseStoreKey(["workspaces", "agent-1"], "logo.png"))
+    ).toBe("\u0000base64:iVBORwD/");
+    expect((await adapter.search("PNG")).matches).toEqual([]);
+  });
+
+  test("reads text files as UTF-8 bytes", async () => {
+    const store = createMemoryStore();
+    const adapter = new VirtualStoreAdapter(store, ["workspaces", "agent-1"]);
+
+    await adapter.write("notes.md", "héllo");
+
+    expect(await adapter.readBytes("notes.md")).toEqual(
+      new TextEncoder().encode("héllo")
+    );
+  });
+
   test("times out list operations for unresponsive stores", async () => {
     let iteratorClosed = false;
 
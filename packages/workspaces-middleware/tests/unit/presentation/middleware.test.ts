@@ -1,16 +1,20 @@
 import { afterEach, beforeEach, describe, expect, test } from "bun:test";
-import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { HumanMessage, ToolMessage } from "@langchain/core/messages";
 import { z } from "zod";
 
+import { createChangeJournal } from "@/application/change-journal";
+import { createRegexRedactor } from "@/application/content-transformers";
 import {
   type BaseStoreLike,
   buildBaseStoreKey,
   FilesystemUnresponsiveError,
 } from "@/infrastructure/virtual-store";
 import type {
+  AuditRecord,
+  FileChangeEvent,
   RegisteredTool,
   WorkspacesMiddlewareOptions,
 } from "@/presentation/index";
@@ -686,4 +690,545 @@ describe("createWorkspacesMiddleware", () => {
     expect(result).toBeInstanceOf(ToolMessage);
     expect((result as ToolMessage).content).toBe("Error: File not found");
   });
+
+  test("registers built-in filesystem tools on the agent filtered by scope", () => {
+    const middleware = createWorkspacesMiddleware({
+      mounts: [
+        {
+          prefix: "/project",
+          scope: "READ_ONLY",
+          store: { type: "physical", rootDir: workspaceRoot },
+        },
+      ],
+      builtinTools: true,
+    });
+
+    expect((middleware.tools ?? []).map((tool) => tool.name)).toEqual([
+      "read_file",
+      "list_dir",
+      "glob",
+      "grep",
+    ]);
+  });
+
+  test("executes built-in filesystem tools through wrapToolCall", async () => {
+    const middleware = createWorkspacesMiddleware({
+      mounts: [
+        {
+          prefix: "/project",
+          scope: "READ_WRITE",
+          store: { type: "physical", rootDir: workspaceRoot },
+        },
+      ],
+      builtinTools: { defaultReadLimit: 10 },
+    });
+
+    const wrapToolCall = middleware.wrapToolCall as NonNullable<
+      typeof middleware.wrapToolCall
+    >;
+
+    const result = await wrapToolCall(
+      {
+        toolCall: {
+          id: "call-builtin-read",
+          name: "read_file",
+          args: { path: "/project/docs/readme.md" },
+        },
+        runtime: { context: { threadId: "thread-1", runId: "run-1" } },
+        state: { messages: [] },
+      } as never,
+      () => {
+        throw new Error("fallback should not run");
+      }
+    );
+
+    expect(result).toBeInstanceOf(ToolMessage);
+    expect((result as ToolMessage).content).toStartWith(
+      "     1\thello\n[version: "
+    );
+  });
+
+  test("reports redactions applied by mount read transformers", async () => {
+    await writeFile(
+      join(workspaceRoot, "docs", "owners.md"),
+      "alice@example.com\nbob@example.com",
+      "utf8"
+    );
+    const middleware = createWorkspacesMiddleware({
+      mounts: [
+        {
+          prefix: "/project",
+          scope: "READ_ONLY",
+          store: { type: "physical", rootDir: workspaceRoot },
+          transforms: { read: [createRegexRedactor()] },
+        },
+      ],
+      builtinTools: true,
+    });
+
+    const wrapToolCall = middleware.wrapToolCall as NonNullable<
+      typeof middleware.wrapToolCall
+    >;
+
+    const result = (await wrapToolCall(
+      {
+        toolCall: {
+          id: "call-redacted-read",
+          name: "read_file",
+          args: { path: "/project/docs/owners.md" },
+        },
+        runtime: { context: { threadId: "thread-1", runId: "run-1" } },
+        state: { messages: [] },
+      } as never,
+      () => {
+        throw new Error("fallback should not run");
+      }
+    )) as ToolMessage;
+
+    expect(result.content).toStartWith(
+      "     1\t[REDACTED:email]\n     2\t[REDACTED:email]\n[version: "
+    );
+    expect(result.metadata).toEqual(
+      expect.objectContaining({ operation: "read", redactions: 2 })
+    );
+  });
+
+  test("returns image content blocks from read_file", async () => {
+    const png = new Uint8Array([
+      0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+    ]);
+    await writeFile(join(workspaceRoot, "docs", "diagram.png"), png);
+    const middleware = createWorkspacesMiddleware({
+      mounts: [
+        {
+          prefix: "/project",
+          scope: "READ_ONLY",
+          store: { type: "physical", rootDir: workspaceRoot },
+        },
+      ],
+      builtinTools: true,
+    });
+
+    const wrapToolCall = middleware.wrapToolCall as NonNullable<
+      typeof middleware.wrapToolCall
+    >;
+
+    const result = await wrapToolCall(
+      {
+        toolCall: {
+          id: "call-image",
+          name: "read_file",
+          args: { path: "/project/docs/diagram.png" },
+        },
+        runtime: { context: { threadId: "thread-1" } },
+        state: { messages: [] },
+      } as never,
+      () => {
+        throw new Error("fallback should not run");
+      }
+    );
+
+    expect((result as ToolMessage).content).toEqual([
+      {
+        type: "text",
+        text: "Image /project/docs/diagram.png (image/png, 8 bytes)",
+      },
+      {
+        type: "image",
+        mimeType: "image/png",
+        data: Buffer.from(png).toString("base64"),
+      },
+    ]);
+  });
+
+  test("reports quota errors and usage for the current run", async () => {
+    const middleware = createWorkspacesMiddleware({
+      mounts: [
+        {
+          prefix: "/project",
+          scope: "READ_WRITE",
+          store: { type: "physical", rootDir: workspaceRoot },
+          quota: { maxWritesPerRun: 1 },
+        },
+      ],
+      builtinTools: true,
+    });
+    const wrapToolCall = middleware.wrapToolCall as NonNullable<
+      typeof middleware.wrapToolCall
+    >;
+    const beforeModelHook = middleware.beforeModel;
+
+    if (typeof beforeModelHook !== "function") {
+      throw new Error("beforeModel hook is required");
+    }
+
+    const runtime = { context: { threadId: "thread-1", runId: "run-1" } };
+    const writeFileCall = (id: string) =>
+      wrapToolCall(
+        {
+          toolCall: {
+            id,
+            name: "write_file",
+            args: { path: `/project/${id}.md`, content: id },
+          },
+          runtime,
+          state: { messages: [] },
+        } as never,
+        () => {
+          throw new Error("fallback should not run");
+        }
+      );
+
+    await writeFileCall("first");
+    const rejected = (await writeFileCall("second")) as ToolMessage;
+    const turn = (await beforeModelHook(
+      { messages: [] } as never,
+      runtime as never
+    )) as { messages: { content: string }[] };
+
+    expect(rejected.status).toBe("error");
+    expect(rejected.content).toBe(
+      "Error: Write limit of 1 per run reached for this mount"
+    );
+    expect(turn.messages[0]?.content).toContain(
+      "  - quota: 1/1 writes this run"
+    );
+  });
+
+  test("refreshes the tree preview after a write", async () => {
+    const middleware = createWorkspacesMiddleware({
+      mounts: [
+        {
+          prefix: "/project",
+          scope: "READ_WRITE",
+          store: { type: "physical", rootDir: workspaceRoot },
+          treePreview: { maxDepth: 1 },
+        },
+      ],
+      builtinTools: true,
+    });
+    const wrapToolCall = middleware.wrapToolCall as NonNullable<
+      typeof middleware.wrapToolCall
+    >;
+    const beforeModelHook = middleware.beforeModel;
+
+    if (typeof beforeModelHook !== "function") {
+      throw new Error("beforeModel hook is required");
+    }
+
+    const runtime = { context: { threadId: "thread-1" } };
+    const mapContent = async () =>
+      (
+        (await beforeModelHook(
+          { messages: [] } as never,
+          runtime as never
+        )) as { messages: { content: string }[] }
+      ).messages[0]?.content;
+
+    expect(await mapContent()).not.toContain("plan.md");
+
+    await wrapToolCall(
+      {
+        toolCall: {
+          id: "write-plan",
+          name: "write_file",
+          args: { path: "/project/plan.md", content: "steps" },
+        },
+        runtime,
+        state: { messages: [] },
+      } as never,
+      () => {
+        throw new Error("fallback should not run");
+      }
+    );
+
+    expect(await mapContent()).toContain(
+      "    plan.md (5 B, recently modified)"
+    );
+  });
+
+  test("sends file change events with tool call context to the sink", async () => {
+    const events: FileChangeEvent[] = [];
+    const middleware = createWorkspacesMiddleware({
+      mounts: [
+        {
+          prefix: "/project",
+          scope: "READ_WRITE",
+          store: { type: "physical", rootDir: workspaceRoot },
+        },
+      ],
+      builtinTools: true,
+      onFileChange: (event) => {
+        events.push(event);
+        throw new Error("sink failures are ignored");
+      },
+    });
+    const wrapToolCall = middleware.wrapToolCall as NonNullable<
+      typeof middleware.wrapToolCall
+    >;
+
+    const result = (await wrapToolCall(
+      {
+        toolCall: {
+          id: "call-1",
+          name: "write_file",
+          args: { path: "/project/plan.md", content: "one\ntwo" },
+        },
+        runtime: { context: { threadId: "thread-1", runId: "run-1" } },
+        state: { messages: [] },
+      } as never,
+      () => {
+        throw new Error("fallback should not run");
+      }
+    )) as ToolMessage;
+
+    expect(result.status).not.toBe("error");
+    expect(events).toEqual([
+      {
+        kind: "created",
+        path: "/project/plan.md",
+        mount: "/project",
+        bytes: 7,
+        diff: { additions: 2, deletions: 0 },
+        oldText: undefined,
+        newText: "one\ntwo",
+        threadId: "thread-1",
+        runId: "run-1",
+        toolCallId: "call-1",
+        toolName: "write_file",
+      },
+    ]);
+  });
+
+  test("audits service calls made by tools, including denied ones", async () => {
+    const records: AuditRecord[] = [];
+    const middleware = createWorkspacesMiddleware({
+      mounts: [
+        {
+          prefix: "/project",
+          scope: "READ_WRITE",
+          store: { type: "physical", rootDir: workspaceRoot },
+          rules: [{ effect: "deny", pattern: "secrets/**" }],
+        },
+      ],
+      builtinTools: true,
+      audit: (record) => {
+        records.push(record);
+      },
+    });
+    const wrapToolCall = middleware.wrapToolCall as NonNullable<
+      typeof middleware.wrapToolCall
+    >;
+    const readFileCall = (id: string, path: string) =>
+      wrapToolCall(
+        {
+          toolCall: { id, name: "read_file", args: { path } },
+          runtime: { context: { threadId: "thread-1", runId: "run-1" } },
+          state: { messages: [] },
+        } as never,
+        () => {
+          throw new Error("fallback should not run");
+        }
+      );
+
+    await readFileCall("call-1", "/project/docs/readme.md");
+    await readFileCall("call-2", "/project/secrets/key.txt");
+
+    expect(
+      records.map(({ toolCallId, toolName, operation, path, outcome }) => ({
+        toolCallId,
+        toolName,
+        operation,
+        path,
+        outcome,
+      }))
+    ).toEqual([
+      {
+        toolCallId: "call-1",
+        toolName: "read_file",
+        operation: "stat",
+        path: "/project/docs/readme.md",
+        outcome: "allowed",
+      },
+      {
+        toolCallId: "call-1",
+        toolName: "read_file",
+        operation: "read",
+        path: "/project/docs/readme.md",
+        outcome: "allowed",
+      },
+      {
+        toolCallId: "call-2",
+        toolName: "read_file",
+        operation: "stat",
+        path: "/project/secrets/key.txt",
+        outcome: "AccessDeniedError",
+      },
+    ]);
+    expect(records[0]).toMatchObject({
+      threadId: "thread-1",
+      runId: "run-1",
+      mount: "/project",
+    });
+  });
+
+  test("resolves mounts from runtime context for each thread", async () => {
+    const otherRoot = await mkdtemp(join(tmpdir(), "ws-middleware-tenant-"));
+    await mkdir(join(otherRoot, "docs"), { recursive: true });
+    await writeFile(join(otherRoot, "docs", "readme.md"), "tenant", "utf8");
+
+    try {
+      const rootsByUser: Record<string, string> = {
+        ada: workspaceRoot,
+        grace: otherRoot,
+      };
+      const middleware = createWorkspacesMiddleware({
+        mounts: (context) => [
+          {
+            prefix: "/project",
+            scope: "READ_ONLY",
+            store: {
+              type: "physical",
+              rootDir: rootsByUser[String(context.userId)] ?? workspaceRoot,
+            },
+          },
+        ],
+        tools: [createReadTool()],
+      });
+      const wrapToolCall = middleware.wrapToolCall as NonNullable<
+        typeof middleware.wrapToolCall
+      >;
+
+      const readAs = async (threadId: string, userId: string) =>
+        await wrapToolCall(
+          {
+            toolCall: {
+              id: `call-${threadId}`,
+              name: "read_workspace_file",
+              args: { path: "/project/docs/readme.md" },
+            },
+            runtime: { context: { threadId, runId: "run-1", userId } },
+            state: { messages: [] },
+          } as never,
+          () => {
+            throw new Error("fallback should not run");
+          }
+        );
+
+      expect(((await readAs("thread-1", "ada")) as ToolMessage).content).toBe(
+        "hello"
+      );
+      expect(((await readAs("thread-2", "grace")) as ToolMessage).content).toBe(
+        "tenant"
+      );
+    } finally {
+      await rm(otherRoot, { recursive: true, force: true });
+    }
+  });
+
+  test("journals tool writes and exposes entries through state", async () => {
+    const journal = createChangeJournal();
+    const middleware = createWorkspacesMiddleware({
+      mounts: [
+        {
+          prefix: "/project",
+          scope: "READ_WRITE",
+          store: { type: "physical", rootDir: workspaceRoot },
+        },
+      ],
+      builtinTools: true,
+      journal,
+    });
+    const wrapToolCall = middleware.wrapToolCall as NonNullable<
+      typeof middleware.wrapToolCall
+    >;
+    const runtime = { context: { threadId: "thread-1", runId: "run-1" } };
+
+    await wrapToolCall(
+      {
+        toolCall: {
+          id: "call-write",
+          name: "write_file",
+          args: { path: "/project/docs/readme.md", content: "changed" },
+        },
+        runtime,
+        state: { messages: [] },
+      } as never,
+      () => {
+        throw new Error("fallback should not run");
+      }
+    );
+
+    const beforeModelHook = middleware.beforeModel;
+    if (beforeModelHook === undefined) {
+      throw new Error("beforeModel hook is required");
+    }
+
+    const update = (await (typeof beforeModelHook === "function"
+      ? beforeModelHook({ messages: [] } as never, runtime as never)
+      : beforeModelHook.hook({ messages: [] } as never, runtime as never))) as {
+      workspacesJournal?: { path: string; runId?: string }[];
+    };
+
+    expect(update.workspacesJournal).toEqual([
+      expect.objectContaining({
+        path: "/project/docs/readme.md",
+        runId: "run-1",
+      }),
+    ]);
+    expect(update.workspacesJournal?.[0]).not.toHaveProperty("previousContent");
+
+    await journal.revertRun("run-1");
+
+    expect(
+      await readFile(join(workspaceRoot, "docs", "readme.md"), "utf8")
+    ).toBe("hello");
+  });
+
+  test("surfaces ifMatch conflicts as a clean tool error", async () => {
+    const conditionalWriteTool: RegisteredTool = {
+      name: "conditional_write",
+      description: "Write only if unchanged",
+      parameters: z.object({ path: z.string(), version: z.string() }),
+      operations: ["write"],
+      handler: async (params, services) => {
+        const input = params as { path: string; version: string };
+        await services.write(input.path, "new", { ifMatch: input.version });
+        return { content: "written" };
+      },
+    };
+    const middleware = createWorkspacesMiddleware({
+      mounts: [
+        {
+          prefix: "/project",
+          scope: "READ_WRITE",
+          store: { type: "physical", rootDir: workspaceRoot },
+        },
+      ],
+      tools: [conditionalWriteTool],
+    });
+    const wrapToolCall = middleware.wrapToolCall as NonNullable<
+      typeof middleware.wrapToolCall
+    >;
+
+    const result = await wrapToolCall(
+      {
+        toolCall: {
+          id: "call-conflict",
+          name: "conditional_write",
+          args: { path: "/project/docs/readme.md", version: "stale" },
+        },
+        runtime: { context: { threadId: "thread-1", runId: "run-1" } },
+        state: { messages: [] },
+      } as never,
+      () => {
+        throw new Error("fallback should not run");
+      }
+    );
+
+    expect((result as ToolMessage).content).toBe(
+      "Error: File was modified since it was last read"
+    );
+    expect((result as ToolMessage).status).toBe("error");
+  });
 });
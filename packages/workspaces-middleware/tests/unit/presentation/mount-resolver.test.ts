@@ -0,0 +1,100 @@
+import { describe, expect, test } from "bun:test";
+
+import type {
+  MountConfig,
+  MountsResolver,
+  WorkspacesContext,
+} from "@/presentation/index";
+import {
+  createContextMountResolver,
+  readWorkspacesContext,
+} from "@/presentation/mount-resolver";
+
+function mountFor(context: WorkspacesContext): MountConfig[] {
+  return [
+    {
+      prefix: "/home",
+      scope: "READ_WRITE",
+      store: {
+        type: "virtual",
+        namespace: ["users", String(context.userId ?? "anonymous")],
+      },
+    },
+  ];
+}
+
+describe("mount-resolver", () => {
+  test("returns static mounts as configured", async () => {
+    const mounts = mountFor({});
+    const resolve = createContextMountResolver(() => mounts);
+
+    expect(await resolve({ threadId: "thread-1" })).toBe(mounts);
+  });
+
+  test("caches resolved mounts per thread", async () => {
+    let calls = 0;
+    const resolver: MountsResolver = (context) => {
+      calls += 1;
+      return mountFor(context);
+    };
+    const resolve = createContextMountResolver(() => resolver);
+
+    const first = await resolve({ threadId: "thread-1", userId: "ada" });
+    const second = await resolve({ threadId: "thread-1", userId: "ada" });
+    const other = await resolve({ threadId: "thread-2", userId: "grace" });
+
+    expect(second).toBe(first);
+    expect(other[0]?.store).toEqual({
+      type: "virtual",
+      namespace: ["users", "grace"],
+    });
+    expect(calls).toBe(2);
+  });
+
+  test("does not cache without a thread id or after a failure", async () => {
+    let calls = 0;
+    const resolver: MountsResolver = (context) => {
+      calls += 1;
+
+      if (calls === 2) {
+        throw new Error("tenant lookup failed");
+      }
+
+      return mountFor(context);
+    };
+    const resolve = createContextMountResolver(() => resolver);
+
+    await resolve({});
+    await expect(resolve({ threadId: "thread-1" })).rejects.toThrow(
+      "tenant lookup failed"
+    );
+    await resolve({ threadId: "thread-1" });
+
+    expect(calls).toBe(3);
+  });
+
+  test("reads context from the runtime object", () => {
+    expect(readWorkspacesContext({ context: { threadId: "t" } })).toEqual({
+      threadId: "t",
+    });
+    expect(readWorkspacesContext(undefined)).toEqual({});
+  });
+
+  test("falls back to the configurable thread_id", () => {
+    expect(
+      readWorkspacesContext({
+        context: { runId: "r" },
+        configurable: { thread_id: "thread-1" },
+      })
+    ).toEqual({ runId: "r", threadId: "thread-1" });
+    expect(
+      readWorkspacesContext({ configurable: { thread_id: "thread-1" } })
+    ).toEqual({ threadId: "thread-1" });
+    expect(
+      readWorkspacesContext({
+        context: { threadId: "t" },
+        configurable: { thread_id: "thread-1" },
+      })
+    ).toEqual({ threadId: "t" });
+  });
+});
@@ -31,6 +31,110 @@ describe("prompt-injector", () => {
     expect(map).toContain("denied by default");
   });
 
+  test("describes mount path rules as logical globs", () => {
+    const map = generateFilesystemMap([
+      {
+        prefix: "/project",
+        scope: "READ_WRITE",
+        store: { type: "physical", rootDir: "/tmp/project" },
+        rules: [
+          { effect: "deny", pattern: "**/*.pem" },
+          { effect: "allow", pattern: "src/**", operations: ["write", "edit"] },
+        ],
+      },
+    ]);
+
+    expect(map).toContain("  - deny all operations on /project/**/*.pem");
+    expect(map).toContain("  - allow write, edit on /project/src/**");
+  });
+
+  test("lists ignore sources for physical mounts", () => {
+    const map = generateFilesystemMap([
+      {
+        prefix: "/repo",
+        scope: "READ_ONLY",
+        store: {
+          type: "physical",
+          rootDir: "/tmp/repo",
+          ignore: { gitignore: true, patterns: ["dist/"] },
+        },
+      },
+    ]);
+
+    expect(map).toContain(
+      "  - hidden from listing and search: .gitignore rules, dist/"
+    );
+  });
+
+  test("shows quota limits with current usage", () => {
+    const mounts: MountConfig[] = [
+      {
+        prefix: "/data",
+        scope: "READ_WRITE",
+        store: { type: "virtual", namespace: ["workspaces", "data"] },
+        quota: { maxTotalBytes: 1000, maxFiles: 10, maxFileBytes: 100 },
+      },
+    ];
+
+    expect(generateFilesystemMap(mounts)).toContain(
+      "  - quota: max 1000 bytes stored, max 10 files, max 100 bytes per file"
+    );
+    expect(
+      generateFilesystemMap(mounts, {
+        usage: new Map([["/data", { files: 3, bytes: 240, writesThisRun: 0 }]]),
+      })
+    ).toContain(
+      "  - quota: 240/1000 bytes stored, 3/10 files, max 100 bytes per file"
+    );
+  });
+
+  test("renders tree previews beneath their mount", () => {
+    const map = generateFilesystemMap(
+      [
+        {
+          prefix: "/project",
+          scope: "READ_ONLY",
+          store: { type: "physical", rootDir: "/tmp/project" },
+          treePreview: true,
+        },
+      ],
+      {
+        previews: new Map([
+          [
+            "/project",
+            {
+              entries: [
+                {
+                  path: "src",
+                  depth: 0,
+                  isDirectory: true,
+                  recentlyModified: false,
+                },
+                {
+                  path: "src/index.ts",
+                  depth: 1,
+                  isDirectory: false,
+                  size: 1229,
+                  recentlyModified: true,
+                },
+              ],
+              truncated: true,
+            },
+          ],
+        ]),
+      }
+    );
+
+    expect(map).toContain(
+      [
+        "  - tree:",
+        "    src/",
+        "      index.ts (1.2 KB, recently modified)",
+        "    ... (more entries not shown)",
+      ].join("\n")
+    );
+  });
+
   test("injects fresh filesystem map each turn without stale content", () => {
     const initial = [new HumanMessage("hello")];
 
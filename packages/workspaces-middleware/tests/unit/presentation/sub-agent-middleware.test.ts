@@ -0,0 +1,205 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ToolMessage } from "@langchain/core/messages";
+import { FakeToolCallingModel } from "langchain";
+
+import { createChangeJournal } from "@/application/change-journal";
+import type {
+  AuditRecord,
+  DelegationChangeSet,
+  FileChangeEvent,
+  MountConfig,
+} from "@/presentation/index";
+import { createWorkspacesMiddleware } from "@/presentation/middleware";
+import { createSubAgentMiddleware } from "@/presentation/sub-agent-middleware";
+
+let workspaceRoot = "";
+
+beforeEach(async () => {
+  workspaceRoot = await mkdtemp(join(tmpdir(), "ws-subagent-"));
+  await writeFile(join(workspaceRoot, "spec.md"), "build a parser", "utf8");
+});
+
+afterEach(async () => {
+  await rm(workspaceRoot, { recursive: true, force: true });
+});
+
+function createParentMounts(): MountConfig[] {
+  return [
+    {
+      prefix: "/project",
+      scope: "READ_WRITE",
+      store: { type: "physical", rootDir: workspaceRoot },
+    },
+  ];
+}
+
+function callTool(
+  middleware: ReturnType<typeof createSubAgentMiddleware>,
+  name: string,
+  args: Record<string, unknown>
+): Promise<ToolMessage> {
+  const wrapToolCall = middleware.wrapToolCall as NonNullable<
+    typeof middleware.wrapToolCall
+  >;
+
+  return wrapToolCall(
+    {
+      toolCall: { id: `call-${name}`, name, args },
+      runtime: { context: { threadId: "parent", runId: "run-1" } },
+      state: { messages: [] },
+    } as never,
+    () => new ToolMessage({ tool_call_id: "fallback", content: "fallback" })
+  ) as Promise<ToolMessage>;
+}
+
+describe("createSubAgentMiddleware", () => {
+  test("returns scratch files as a change set the parent can apply", async () => {
+    const auditRecords: AuditRecord[] = [];
+    const middleware = createSubAgentMiddleware({
+      model: new FakeToolCallingModel({
+        toolCalls: [
+          [
+            {
+              id: "child-read",
+              name: "read_file",
+              args: { path: "/project/spec.md" },
+            },
+          ],
+          [
+            {
+              id: "child-write",
+              name: "write_file",
+              args: { path: "/scratch/parser.ts", content: "export {}\n" },
+            },
+          ],
+          [],
+        ],
+      }),
+      mounts: createParentMounts(),
+      audit: (record) => {
+        auditRecords.push(record);
+      },
+    });
+
+    const delegated = await callTool(middleware, "delegate", {
+      task: "Draft a parser",
+      grants: [{ path: "/project", scope: "READ_ONLY" }],
+    });
+    const changeSet = (
+      delegated.metadata as { delegation: DelegationChangeSet }
+    ).delegation;
+
+    expect(delegated.content).toContain("- parser.ts (10 bytes)");
+    expect(changeSet.files).toEqual([
+      { path: "parser.ts", content: "export {}\n", bytes: 10 },
+    ]);
+    expect(changeSet.parentRunId).toBe("run-1");
+    expect(changeSet.parentToolCallId).toBe("call-delegate");
+    expect(changeSet.childRunId).toBe(`run-1:delegate:${changeSet.id}`);
+    expect(auditRecords.map((record) => record.operation)).toContain("write");
+    expect(
+      auditRecords.every((record) => record.runId === changeSet.childRunId)
+    ).toBe(true);
+
+    const applied = await callTool(middleware, "apply_delegated_changes", {
+      changeSetId: changeSet.id,
+      targetPath: "/project/src",
+    });
+
+    expect(applied.content).toContain("- /project/src/parser.ts");
+    expect(
+      await readFile(join(workspaceRoot, "src", "parser.ts"), "utf8")
+    ).toBe("export {}\n");
+  });
+
+  test("applies change sets through the parent's workspaces middleware", async () => {
+    const journal = createChangeJournal();
+    const fileChanges: FileChangeEvent[] = [];
+    const mounts: MountConfig[] = [
+      {
+        ...(createParentMounts()[0] as MountConfig),
+        quota: { maxWritesPerRun: 1 },
+      },
+    ];
+    const middleware = createSubAgentMiddleware({
+      model: new FakeToolCallingModel({
+        toolCalls: [
+          [
+            {
+              id: "child-write",
+              name: "write_file",
+              args: { path: "/scratch/notes.md", content: "done\n" },
+            },
+          ],
+          [],
+        ],
+      }),
+      mounts,
+      workspaces: createWorkspacesMiddleware({
+        mounts,
+        journal,
+        onFileChange: (event) => {
+          fileChanges.push(event);
+        },
+      }),
+    });
+
+    const delegated = await callTool(middleware, "delegate", {
+      task: "Write notes",
+    });
+    const { id } = (delegated.metadata as { delegation: DelegationChangeSet })
+      .delegation;
+    const apply = () =>
+      callTool(middleware, "apply_delegated_changes", {
+        changeSetId: id,
+        targetPath: "/project",
+      });
+
+    expect((await apply()).content).toContain("- /project/notes.md");
+    expect(journal.entries("parent").map((entry) => entry.path)).toEqual([
+      "/project/notes.md",
+    ]);
+    expect(fileChanges).toMatchObject([
+      {
+        kind: "created",
+        path: "/project/notes.md",
+        toolName: "apply_delegated_changes",
+      },
+    ]);
+
+    const second = await apply();
+    expect(second.status).toBe("error");
+    expect(second.content).toContain("Write limit of 1 per run");
+  });
+
+  test("refuses grants wider than the parent's own scope", async () => {
+    const middleware = createSubAgentMiddleware({
+      model: new FakeToolCallingModel({ toolCalls: [[]] }),
+      mounts: [
+        { ...(createParentMounts()[0] as MountConfig), scope: "READ_ONLY" },
+      ],
+    });
+
+    const result = await callTool(middleware, "delegate", {
+      task: "Rewrite the spec",
+      grants: [{ path: "/project", scope: "READ_WRITE" }],
+    });
+
+    expect(result.status).toBe("error");
+    expect(result.content).toContain("parent only holds READ_ONLY");
+  });
+
+  test("passes other tool calls through to the handler", async () => {
+    const middleware = createSubAgentMiddleware({
+      model: new FakeToolCallingModel(),
+      mounts: createParentMounts(),
+    });
+
+    const result = await callTool(middleware, "read_file", { path: "/x" });
+
+    expect(result.content).toBe("fallback");
+  });
+});